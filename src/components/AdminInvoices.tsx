@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, ChevronLeft, ChevronRight, CheckCircle, Loader2 } from 'lucide-react';
+import { addMonths, format, subMonths } from 'date-fns';
+import type { BusinessInvoice } from '../types/database';
+import { generateBusinessInvoices, getInvoicesByPeriod, markInvoicePaid } from '../lib/db';
+import { INVOICE_STATUS_LABELS, getPeriodKey } from '../lib/business';
+
+const AdminInvoices: React.FC = () => {
+  // The previous month is the one usually being billed
+  const [periodDate, setPeriodDate] = useState(() => subMonths(new Date(), 1));
+  const [invoices, setInvoices] = useState<BusinessInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const period = getPeriodKey(periodDate);
+
+  useEffect(() => {
+    const loadInvoices = async () => {
+      try {
+        setLoading(true);
+        setInvoices(await getInvoicesByPeriod(period));
+      } catch (err) {
+        console.error('Error loading invoices:', err);
+        setError('Virhe laskujen latauksessa');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadInvoices();
+  }, [period]);
+
+  const handleRefresh = async () => {
+    try {
+      setInvoices(await getInvoicesByPeriod(period));
+    } catch (err) {
+      console.error('Error loading invoices:', err);
+      setError('Virhe laskujen latauksessa');
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!window.confirm(`Luodaanko laskut kaudelle ${period}?`)) return;
+
+    try {
+      setGenerating(true);
+      setError(null);
+      const created = await generateBusinessInvoices(periodDate);
+      setMessage(created > 0 ? `Luotiin ${created} laskua` : 'Ei uusia laskutettavia pesuja');
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error generating invoices:', err);
+      setError('Virhe laskujen luonnissa');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleMarkPaid = async (invoice: BusinessInvoice) => {
+    try {
+      setError(null);
+      await markInvoicePaid(invoice.id);
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error marking invoice paid:', err);
+      setError('Virhe laskun päivityksessä');
+    }
+  };
+
+  const changePeriod = (date: Date) => {
+    setPeriodDate(date);
+    setMessage(null);
+  };
+
+  const total = invoices.reduce((sum, invoice) => sum + invoice.total, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-6 border-b flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center">
+          <FileText className="h-6 w-6 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold">Yrityslaskut</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => changePeriod(subMonths(periodDate, 1))}
+            className="p-2 text-gray-500 hover:text-gray-700"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="font-medium text-gray-900 w-20 text-center">{period}</span>
+          <button
+            onClick={() => changePeriod(addMonths(periodDate, 1))}
+            className="p-2 text-gray-500 hover:text-gray-700"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {generating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Luo laskut
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="m-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="m-4 bg-green-50 border-l-4 border-green-400 p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="divide-y">
+          {invoices.length === 0 && (
+            <div className="p-6 text-center text-gray-500">Ei laskuja tällä kaudella</div>
+          )}
+          {invoices.map(invoice => (
+            <div key={invoice.id} className="p-4 flex items-center justify-between hover:bg-gray-50">
+              <div>
+                <p className="font-medium text-gray-900">{invoice.businessName} ({invoice.businessId})</p>
+                <p className="text-sm text-gray-500">
+                  {invoice.vendorName} · {invoice.lines.length} pesua · Eräpäivä {format(invoice.dueDate, 'd.M.yyyy')}
+                </p>
+                <p className="text-sm text-gray-500">{invoice.billingEmail} · {invoice.billingAddress}</p>
+              </div>
+              <div className="flex items-center space-x-4">
+                <span className="font-semibold text-gray-900">{invoice.total.toFixed(2)}€</span>
+                {invoice.status === 'open' ? (
+                  <button
+                    onClick={() => handleMarkPaid(invoice)}
+                    className="flex items-center px-3 py-1.5 text-sm text-green-700 border border-green-300 rounded-lg hover:bg-green-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Merkitse maksetuksi
+                  </button>
+                ) : (
+                  <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                    {INVOICE_STATUS_LABELS[invoice.status]}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+          {invoices.length > 0 && (
+            <div className="p-4 flex justify-between bg-gray-50 font-medium">
+              <span>Yhteensä</span>
+              <span>{total.toFixed(2)}€</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminInvoices;
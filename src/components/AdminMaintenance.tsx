@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Wrench, Loader2, Play } from 'lucide-react';
+import { backfillSchedules, migrateOperatingHours, migrateWalletTransactions } from '../lib/migrations';
+
+interface Migration {
+  id: string;
+  label: string;
+  description: string;
+  run: () => Promise<number>;
+  result: (count: number) => string;
+}
+
+// One-off data migrations. Each can be run again safely.
+const MIGRATIONS: Migration[] = [
+  {
+    id: 'schedules',
+    label: 'Varauskalenterit',
+    description: 'Lisää ennen varauskalentereita tehdyt tulevat varaukset yritysten kalentereihin.',
+    run: backfillSchedules,
+    result: count => `${count} varausta lisätty kalentereihin`
+  },
+  {
+    id: 'operating-hours',
+    label: 'Aukioloajat',
+    description: 'Muuntaa vanhat yhden aikavälin aukioloajat jaettujen vuorojen muotoon.',
+    run: migrateOperatingHours,
+    result: count => `${count} yrityksen aukioloajat päivitetty`
+  },
+  {
+    id: 'wallet-transactions',
+    label: 'Kolikkohistoria',
+    description: 'Siirtää käyttäjien vanhan kolikkohistorian tapahtumakirjanpitoon.',
+    run: migrateWalletTransactions,
+    result: count => `${count} käyttäjän historia siirretty`
+  }
+];
+
+const AdminMaintenance = () => {
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async (migration: Migration) => {
+    try {
+      setRunningId(migration.id);
+      setError(null);
+      const count = await migration.run();
+      setResults(prev => ({ ...prev, [migration.id]: migration.result(count) }));
+    } catch (err) {
+      console.error(`Error running migration ${migration.id}:`, err);
+      setError('Virhe päivityksen ajossa');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center mb-6">
+        <Wrench className="h-6 w-6 text-blue-600 mr-2" />
+        <h2 className="text-xl font-semibold">Tietojen päivitykset</h2>
+      </div>
+
+      <div className="divide-y">
+        {MIGRATIONS.map(migration => (
+          <div key={migration.id} className="py-4 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium text-gray-900">{migration.label}</p>
+              <p className="text-sm text-gray-500">{migration.description}</p>
+              {results[migration.id] && (
+                <p className="text-sm text-green-700">{results[migration.id]}</p>
+              )}
+            </div>
+            <button
+              onClick={() => handleRun(migration)}
+              disabled={runningId !== null}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {runningId === migration.id ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              Aja
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminMaintenance;
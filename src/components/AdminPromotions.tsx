@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit2, StopCircle, Sparkles, Coins, Users, Target } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Promotion, Vendor } from '../types/database';
+import { subscribeToPromotions, endPromotion } from '../lib/db';
+import PromotionDialog from './PromotionDialog';
+
+interface AdminPromotionsProps {
+  vendors: Vendor[];
+}
+
+const getPromotionStatus = (promotion: Promotion, now: Date) => {
+  if (promotion.stoppedAt) return { label: 'Budjetti käytetty', className: 'bg-red-100 text-red-800' };
+  if (promotion.startDate > now) return { label: 'Ajastettu', className: 'bg-blue-100 text-blue-800' };
+  if (promotion.endDate < now) return { label: 'Päättynyt', className: 'bg-gray-100 text-gray-800' };
+  return { label: 'Käynnissä', className: 'bg-green-100 text-green-800' };
+};
+
+const describeTargeting = (promotion: Promotion, vendors: Vendor[]) => {
+  const parts = [
+    promotion.cities?.length ? promotion.cities.join(', ') : null,
+    promotion.vendorIds?.length
+      ? promotion.vendorIds.map(id => vendors.find(vendor => vendor.id === id)?.businessName || id).join(', ')
+      : null,
+    promotion.categoryIds?.length ? `${promotion.categoryIds.length} kategoriaa` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Kaikki asiakkaat';
+};
+
+const AdminPromotions: React.FC<AdminPromotionsProps> = ({ vendors }) => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(null);
+
+  // Redemption counters update as bookings complete
+  useEffect(() => {
+    return subscribeToPromotions(
+      (data) => {
+        setPromotions(data);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading promotions:', err);
+        setError('Virhe kampanjoiden latauksessa');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  const handleEnd = async (promotion: Promotion) => {
+    if (!window.confirm(`Haluatko varmasti päättää kampanjan "${promotion.title}"?`)) return;
+
+    try {
+      await endPromotion(promotion.id);
+    } catch (err) {
+      console.error('Error ending promotion:', err);
+      setError('Virhe kampanjan päättämisessä');
+    }
+  };
+
+  const openDialog = (promotion: Promotion | null) => {
+    setSelectedPromotion(promotion);
+    setShowDialog(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-6 border-b flex items-center justify-between">
+        <div className="flex items-center">
+          <Sparkles className="h-6 w-6 text-yellow-500 mr-2" />
+          <h2 className="text-xl font-semibold">Kampanjat</h2>
+        </div>
+        <button
+          onClick={() => openDialog(null)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Uusi kampanja
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="divide-y">
+        {promotions.length === 0 && (
+          <div className="p-6 text-center text-gray-500">Ei kampanjoita</div>
+        )}
+        {promotions.map(promotion => {
+          const status = getPromotionStatus(promotion, now);
+          const ended = promotion.endDate < now || !!promotion.stoppedAt;
+          const issuedCoins = promotion.issuedCoins || 0;
+
+          return (
+            <div key={promotion.id} className="p-4 flex items-center justify-between hover:bg-gray-50">
+              <div className="flex-1 mr-4">
+                <div className="flex items-center space-x-2">
+                  <p className="font-medium text-gray-900">{promotion.title}</p>
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {format(promotion.startDate, 'd.M.yyyy HH:mm')} – {format(promotion.endDate, 'd.M.yyyy HH:mm')}
+                  {promotion.minimumPurchase ? ` · min. ${promotion.minimumPurchase}€` : ''}
+                </p>
+                <p className="flex items-center text-sm text-gray-500 mt-1">
+                  <Target className="w-4 h-4 mr-1" />
+                  {describeTargeting(promotion, vendors)}
+                </p>
+                <div className="flex items-center space-x-4 text-sm text-gray-700 mt-2">
+                  <span className="flex items-center">
+                    <Users className="w-4 h-4 mr-1" />
+                    {promotion.redemptionCount || 0} lunastusta
+                  </span>
+                  <span>
+                    {issuedCoins}{promotion.budgetCoins ? ` / ${promotion.budgetCoins}` : ''} kolikkoa jaettu
+                  </span>
+                </div>
+                {!!promotion.budgetCoins && (
+                  <div className="mt-2 h-2 max-w-xs bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 rounded-full"
+                      style={{ width: `${Math.min(100, Math.round(issuedCoins / promotion.budgetCoins * 100))}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center space-x-4">
+                <span className="flex items-center text-sm font-medium text-yellow-700">
+                  <Coins className="w-4 h-4 mr-1" />
+                  +{promotion.bonusCoins}
+                </span>
+                <button
+                  onClick={() => openDialog(promotion)}
+                  className="p-2 text-gray-400 hover:text-blue-600"
+                  title="Muokkaa"
+                >
+                  <Edit2 className="w-5 h-5" />
+                </button>
+                {!ended && (
+                  <button
+                    onClick={() => handleEnd(promotion)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Päätä kampanja"
+                  >
+                    <StopCircle className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {showDialog && (
+        <PromotionDialog
+          isOpen={showDialog}
+          onClose={() => setShowDialog(false)}
+          promotion={selectedPromotion}
+          vendors={vendors}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminPromotions;
@@ -4,6 +4,7 @@ import { Calendar, TrendingUp, DollarSign, Users, Store, Star, ArrowUpRight, Arr
 import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import type { Appointment, Transaction, Vendor } from '../types/database';
+import { getAppointmentServiceIds } from '../lib/appointmentServices';
 
 interface ReportData {
   appointments: Appointment[];
@@ -115,18 +116,20 @@ const AdminReports: React.FC = () => {
     }));
   };
 
+  // Every service of a multi-service booking counts once
   const generateServiceDistribution = () => {
-    const serviceCount = new Map();
+    const serviceCount = new Map<string, number>();
+    const serviceNames = new Map<string, string>();
     
     reportData.appointments.forEach(appointment => {
-      serviceCount.set(
-        appointment.serviceId,
-        (serviceCount.get(appointment.serviceId) || 0) + 1
-      );
+      appointment.services?.forEach(service => serviceNames.set(service.serviceId, service.name));
+      getAppointmentServiceIds(appointment).forEach(serviceId => {
+        serviceCount.set(serviceId, (serviceCount.get(serviceId) || 0) + 1);
+      });
     });
 
     return Array.from(serviceCount.entries()).map(([serviceId, count]) => ({
-      name: serviceId,
+      name: serviceNames.get(serviceId) || serviceId,
       value: count
     }));
   };
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { Banknote, Download, CheckCircle, Loader2 } from 'lucide-react';
+import { endOfDay, endOfMonth, format, subMonths } from 'date-fns';
+import type { PayoutBatch, PayoutEntry, Vendor } from '../types/database';
+import { createPayoutBatch, getPayoutBatches, getUnbatchedPayoutEntries, markPayoutBatchPaid } from '../lib/db';
+import { PAYOUT_BATCH_STATUS_LABELS, formatIban, getPlatformNet, sumPayoutEntries } from '../lib/payouts';
+import { useAuth } from '../contexts/AuthContext';
+import CommissionSettingsForm from './CommissionSettingsForm';
+
+interface AdminSettlementsProps {
+  vendors: Vendor[];
+}
+
+// Finnish spreadsheets expect a decimal comma with semicolon separators
+const formatAmount = (amount: number) => amount.toFixed(2).replace('.', ',');
+
+const downloadCsv = (batch: PayoutBatch) => {
+  const rows = [
+    ['Yritys', 'Y-tunnus', 'IBAN', 'Pesuja', 'Myynti', 'Kolikkoalennukset', 'Koodialennukset', 'Palvelumaksu', 'Tilitettävä'],
+    ...batch.vendors.map(vendor => [
+      vendor.vendorName,
+      vendor.businessId,
+      vendor.iban,
+      vendor.entryCount.toString(),
+      formatAmount(vendor.grossAmount),
+      formatAmount(vendor.coinDiscount),
+      formatAmount(vendor.voucherDiscount),
+      formatAmount(vendor.commission),
+      formatAmount(vendor.payoutAmount)
+    ])
+  ];
+  const blob = new Blob([rows.map(row => row.join(';')).join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `tilitys-${format(batch.periodEnd, 'yyyy-MM-dd')}-${batch.id.slice(0, 6)}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const AdminSettlements: React.FC<AdminSettlementsProps> = ({ vendors }) => {
+  const { currentUser } = useAuth();
+  // Settlements usually cover the previous calendar month
+  const [periodEnd, setPeriodEnd] = useState(() => format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [unbatched, setUnbatched] = useState<PayoutEntry[]>([]);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettlements = async () => {
+      try {
+        setLoading(true);
+        const [entries, payoutBatches] = await Promise.all([
+          getUnbatchedPayoutEntries(endOfDay(new Date(periodEnd))),
+          getPayoutBatches()
+        ]);
+        setUnbatched(entries);
+        setBatches(payoutBatches);
+      } catch (err) {
+        console.error('Error loading settlements:', err);
+        setError('Virhe tilitysten latauksessa');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettlements();
+  }, [periodEnd]);
+
+  const handleRefresh = async () => {
+    try {
+      const [entries, payoutBatches] = await Promise.all([
+        getUnbatchedPayoutEntries(endOfDay(new Date(periodEnd))),
+        getPayoutBatches()
+      ]);
+      setUnbatched(entries);
+      setBatches(payoutBatches);
+    } catch (err) {
+      console.error('Error loading settlements:', err);
+      setError('Virhe tilitysten latauksessa');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!currentUser || !window.confirm(`Luodaanko tilityserä ${format(new Date(periodEnd), 'd.M.yyyy')} asti valmistuneista pesuista?`)) return;
+
+    try {
+      setCreating(true);
+      setError(null);
+      const batchId = await createPayoutBatch(endOfDay(new Date(periodEnd)), currentUser.uid);
+      if (!batchId) {
+        setError('Yhdelläkään yrityksellä ei ole tilitettävää');
+      }
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error creating payout batch:', err);
+      setError('Virhe tilityserän luonnissa');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleMarkPaid = async (batch: PayoutBatch) => {
+    if (!window.confirm('Merkitäänkö tilityserä maksetuksi?')) return;
+
+    try {
+      setError(null);
+      await markPayoutBatchPaid(batch.id);
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error marking payout batch paid:', err);
+      setError('Virhe tilityserän päivityksessä');
+    }
+  };
+
+  const totals = sumPayoutEntries(unbatched);
+  const vendorName = (vendorId: string) => vendors.find(vendor => vendor.id === vendorId)?.businessName || vendorId;
+  const pendingVendorIds = [...new Set(unbatched.map(entry => entry.vendorId))];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="p-6 border-b flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center">
+            <Banknote className="h-6 w-6 text-green-600 mr-2" />
+            <h2 className="text-xl font-semibold">Tilitykset</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Valmistuneet</label>
+            <input
+              type="date"
+              value={periodEnd}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+              className="rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-600">asti</span>
+            <button
+              onClick={handleCreate}
+              disabled={creating || unbatched.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Luo tilityserä
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="m-4 bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="p-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-500">Myynti</p>
+                <p className="text-xl font-semibold">{totals.grossAmount.toFixed(2)}€</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-500">Tilitettävä</p>
+                <p className="text-xl font-semibold">{totals.payoutAmount.toFixed(2)}€</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-500">Alennukset (kulu)</p>
+                <p className="text-xl font-semibold text-red-600">{(totals.coinDiscount + totals.voucherDiscount).toFixed(2)}€</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-500">Alustan tuotto</p>
+                <p className="text-xl font-semibold text-green-600">{getPlatformNet(totals).toFixed(2)}€</p>
+              </div>
+            </div>
+
+            {pendingVendorIds.length === 0 ? (
+              <p className="text-center text-gray-500">Ei tilittämättömiä pesuja</p>
+            ) : (
+              <div className="divide-y">
+                {pendingVendorIds.map(vendorId => {
+                  const vendorTotals = sumPayoutEntries(unbatched.filter(entry => entry.vendorId === vendorId));
+                  return (
+                    <div key={vendorId} className="py-2 flex justify-between text-sm">
+                      <span className="text-gray-700">{vendorName(vendorId)} · {vendorTotals.entryCount} pesua</span>
+                      <span className={`font-medium ${vendorTotals.payoutAmount > 0 ? '' : 'text-gray-400'}`}>
+                        {vendorTotals.payoutAmount.toFixed(2)}€{vendorTotals.payoutAmount > 0 ? '' : ' (siirtyy seuraavaan tilitykseen)'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="p-6 border-b">
+          <h3 className="text-lg font-semibold">Tilityserät</h3>
+        </div>
+        <div className="divide-y">
+          {batches.length === 0 && (
+            <div className="p-6 text-center text-gray-500">Ei tilityseriä</div>
+          )}
+          {batches.map(batch => {
+            const missingIban = batch.vendors.filter(vendor => !vendor.iban).length;
+            return (
+              <div key={batch.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 hover:bg-gray-50">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-900">{format(batch.periodEnd, 'd.M.yyyy')} asti</p>
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+                      batch.status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {PAYOUT_BATCH_STATUS_LABELS[batch.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {batch.vendors.length} yritystä · {batch.entryCount} pesua · Luotu {format(batch.createdAt, 'd.M.yyyy HH:mm')}
+                  </p>
+                  {missingIban > 0 && (
+                    <p className="text-sm text-red-600">{missingIban} yritykseltä puuttuu tilinumero</p>
+                  )}
+                  <p className="text-xs text-gray-400">
+                    {batch.vendors.map(vendor => `${vendor.vendorName}${vendor.iban ? ` (${formatIban(vendor.iban)})` : ''}`).join(', ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className="font-semibold text-gray-900">{batch.total.toFixed(2)}€</span>
+                  <button
+                    onClick={() => downloadCsv(batch)}
+                    className="flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-300 rounded-lg hover:bg-blue-50"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    CSV
+                  </button>
+                  {batch.status === 'created' && (
+                    <button
+                      onClick={() => handleMarkPaid(batch)}
+                      className="flex items-center px-3 py-1.5 text-sm text-green-700 border border-green-300 rounded-lg hover:bg-green-50"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Merkitse maksetuksi
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <CommissionSettingsForm vendors={vendors} />
+    </div>
+  );
+};
+
+export default AdminSettlements;
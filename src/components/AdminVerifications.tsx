@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ShieldCheck, CheckCircle, XCircle, FileText, AlertTriangle } from 'lucide-react';
+import type { Vendor, VerificationEvent } from '../types/database';
+import { approveVendorVerification, getPendingVerifications, getVerificationEvents, rejectVendorVerification } from '../lib/db';
+import { VERIFICATION_ACTION_LABELS, getDocumentLabel, isValidBusinessId, toVerificationDate } from '../lib/verification';
+import { useAuth } from '../contexts/AuthContext';
+
+interface AdminVerificationsProps {
+  onVerifiedChange: (vendorId: string, verified: boolean) => void;
+}
+
+const AdminVerifications: React.FC<AdminVerificationsProps> = ({ onVerifiedChange }) => {
+  const { currentUser } = useAuth();
+  const [queue, setQueue] = useState<Vendor[]>([]);
+  const [events, setEvents] = useState<VerificationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadVerifications = async () => {
+      try {
+        const [pending, log] = await Promise.all([getPendingVerifications(), getVerificationEvents()]);
+        setQueue(pending);
+        setEvents(log);
+      } catch (err) {
+        console.error('Error loading verifications:', err);
+        setError('Virhe vahvistusten latauksessa');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadVerifications();
+  }, []);
+
+  const handleRefresh = async () => {
+    const [pending, log] = await Promise.all([getPendingVerifications(), getVerificationEvents()]);
+    setQueue(pending);
+    setEvents(log);
+  };
+
+  const handleApprove = async (vendor: Vendor) => {
+    if (!currentUser) return;
+
+    try {
+      setProcessingId(vendor.id);
+      setError(null);
+      await approveVendorVerification(vendor.id, { userId: currentUser.uid, email: currentUser.email || '' });
+      onVerifiedChange(vendor.id, true);
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error approving vendor:', err);
+      setError(err instanceof Error ? err.message : 'Virhe yrityksen vahvistuksessa');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleReject = async (vendor: Vendor) => {
+    if (!currentUser) return;
+    if (!rejectionReason.trim()) {
+      setError('Kerro hylkäyksen syy');
+      return;
+    }
+
+    try {
+      setProcessingId(vendor.id);
+      setError(null);
+      await rejectVendorVerification(vendor.id, { userId: currentUser.uid, email: currentUser.email || '' }, rejectionReason);
+      onVerifiedChange(vendor.id, false);
+      setRejectingId(null);
+      setRejectionReason('');
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error rejecting vendor:', err);
+      setError(err instanceof Error ? err.message : 'Virhe hylkäyksessä');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="p-6 border-b flex items-center">
+          <ShieldCheck className="h-6 w-6 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold">Vahvistusjono</h2>
+          <span className="ml-3 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+            {queue.length}
+          </span>
+        </div>
+
+        {error && (
+          <div className="m-4 bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {queue.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Ei tarkistettavia yrityksiä</div>
+        ) : (
+          <div className="divide-y">
+            {queue.map(vendor => {
+              const validBusinessId = isValidBusinessId(vendor.businessId);
+              return (
+                <div key={vendor.id} className="p-6">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{vendor.businessName}</p>
+                      <p className={`text-sm flex items-center ${validBusinessId ? 'text-gray-600' : 'text-red-600'}`}>
+                        Y-tunnus {vendor.businessId}
+                        {!validBusinessId && (
+                          <>
+                            <AlertTriangle className="w-4 h-4 mx-1" />
+                            tarkistusnumero ei täsmää
+                          </>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">{vendor.address}, {vendor.postalCode} {vendor.city}</p>
+                      {vendor.verification && (
+                        <p className="text-xs text-gray-400">
+                          Lähetetty {format(toVerificationDate(vendor.verification.submittedAt), 'd.M.yyyy HH:mm')}
+                        </p>
+                      )}
+                      <ul className="mt-3 space-y-1">
+                        {vendor.verification?.documents.map(document => (
+                          <li key={document.type}>
+                            <a
+                              href={document.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              <FileText className="w-4 h-4 mr-1" />
+                              {getDocumentLabel(document.type)}: {document.fileName}
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleApprove(vendor)}
+                        disabled={processingId === vendor.id || !validBusinessId}
+                        className="flex items-center px-3 py-1.5 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Hyväksy
+                      </button>
+                      <button
+                        onClick={() => {
+                          setRejectingId(rejectingId === vendor.id ? null : vendor.id);
+                          setRejectionReason('');
+                        }}
+                        disabled={processingId === vendor.id}
+                        className="flex items-center px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Hylkää
+                      </button>
+                    </div>
+                  </div>
+
+                  {rejectingId === vendor.id && (
+                    <div className="mt-4 flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="text"
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        placeholder="Hylkäyksen syy, näytetään yritykselle"
+                        className="flex-1 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => handleReject(vendor)}
+                        disabled={processingId === vendor.id}
+                        className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Vahvista hylkäys
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="p-6 border-b">
+          <h3 className="text-lg font-semibold">Vahvistusloki</h3>
+        </div>
+        {events.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Ei tapahtumia</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="px-6 py-3">Aika</th>
+                  <th className="px-6 py-3">Yritys</th>
+                  <th className="px-6 py-3">Tapahtuma</th>
+                  <th className="px-6 py-3">Tekijä</th>
+                  <th className="px-6 py-3">Syy</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-sm">
+                {events.map(event => (
+                  <tr key={event.id}>
+                    <td className="px-6 py-3 whitespace-nowrap">{format(event.createdAt, 'd.M.yyyy HH:mm')}</td>
+                    <td className="px-6 py-3">{event.vendorName} ({event.businessId})</td>
+                    <td className="px-6 py-3">{VERIFICATION_ACTION_LABELS[event.action]}</td>
+                    <td className="px-6 py-3">{event.actorEmail}</td>
+                    <td className="px-6 py-3 text-gray-500">{event.reason || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminVerifications;
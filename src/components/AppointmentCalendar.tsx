@@ -3,6 +3,9 @@ import { format, addWeeks, subWeeks, startOfWeek, endOfWeek, eachDayOfInterval,
 import { fi } from 'date-fns/locale';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import type { Appointment, Vendor } from '../types/database';
+import { getVendorResources, getBookingResourceId, getDayOperatingHours, getOpeningException, getOpeningWindows, overlaps } from '../lib/availability';
+import { getOperatingStatus } from '../lib/operatingHours';
+import { formatAppointmentServices, getAppointmentDuration } from '../lib/appointmentServices';
 
 interface AppointmentCalendarProps {
   vendor: Vendor;
@@ -30,33 +33,18 @@ const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
   const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 });
   const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
   const days = eachDayOfInterval({ start: weekStart, end: weekEnd });
+  const resources = getVendorResources(vendor);
+  const laneWidth = 100 / resources.length;
 
   const nextWeek = () => setCurrentWeek(addWeeks(currentWeek, 1));
   const prevWeek = () => setCurrentWeek(subWeeks(currentWeek, 1));
 
-  const getOperatingHours = (date: Date) => {
-    const dayName = format(date, 'EEEE', { locale: fi }).toLowerCase();
-    return vendor.operatingHours[dayName] || { open: '09:00', close: '17:00' };
-  };
+  const getOperatingHours = (date: Date) => getDayOperatingHours(date, vendor);
 
   const isOpen = (date: Date, hour: number) => {
-    const hours = getOperatingHours(date);
-
-    // If hours are set to 'closed', the business is closed
-    if (hours.open === 'closed' && hours.close === 'closed') {
-      return false;
-    }
-
-    // If hours are set to 24h operation
-    if (hours.open === '00:00' && hours.close === '23:59') {
-      return true;
-    }
-
-    // Parse operating hours
-    const [openHour] = hours.open.split(':').map(Number);
-    const [closeHour] = hours.close.split(':').map(Number);
-
-    return hour >= openHour && hour < closeHour;
+    // The hour counts as open if any opening interval covers part of it
+    const slot = { start: hour * 60, end: hour * 60 + 60 };
+    return getOpeningWindows(date, vendor).some(window => overlaps(slot, window));
   };
 
   const getAppointmentsForDay = (date: Date) => {
@@ -73,16 +61,7 @@ const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
     return format(appointmentDate, 'HH:mm');
   };
 
-  const getDayStatus = (date: Date) => {
-    const hours = getOperatingHours(date);
-    if (hours.open === 'closed' && hours.close === 'closed') {
-      return 'closed';
-    }
-    if (hours.open === '00:00' && hours.close === '23:59') {
-      return '24h';
-    }
-    return 'open';
-  };
+  const getDayStatus = (date: Date) => getOperatingStatus(getOperatingHours(date));
 
   return (
     <div className="bg-white rounded-xl shadow-lg overflow-hidden border border-gray-200">
@@ -143,20 +122,40 @@ const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
               const dayAppointments = getAppointmentsForDay(day);
               const dayStatus = getDayStatus(day);
               const dayColor = statusColors[dayStatus] || statusColors.default;
-              const hours = getOperatingHours(day);
-              const isClosedDay = hours.open === 'closed' && hours.close === 'closed';
-              const is24h = hours.open === '00:00' && hours.close === '23:59';
+              const is24h = dayStatus === '24h';
+              const exception = getOpeningException(day, vendor);
 
               return (
                 <div key={day.toString()} className={`relative ${dayColor}`}>
                   {/* Day Header */}
-                  <div className="text-center py-1 border-b border-gray-200">
+                  <div
+                    className="text-center py-1 border-b border-gray-200"
+                    title={exception?.reason}
+                  >
                     <div className="text-xs font-medium text-gray-600">
                       {format(day, 'EEEEE', { locale: fi })}
                     </div>
                     <div className="text-sm font-semibold mt-1">
                       {format(day, 'd')}
                     </div>
+                    {exception && (
+                      <div className="text-[10px] text-rose-600 truncate px-1">
+                        {exception.reason}
+                      </div>
+                    )}
+                    {resources.length > 1 && (
+                      <div className="flex mt-1">
+                        {resources.map((resource, index) => (
+                          <div
+                            key={resource.id}
+                            title={resource.name}
+                            className="flex-1 text-[10px] text-gray-400 truncate"
+                          >
+                            {index + 1}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {HOURS.map(hour => {
@@ -184,13 +183,16 @@ const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
 
                           if (appointmentHour === hour) {
                             const isHovered = hoveredAppointment === appointment.id;
+                            const lane = resources.findIndex(resource =>
+                              resource.id === getBookingResourceId(appointment, resources)
+                            );
                             return (
                               <div
                                 onClick={() => onAppointmentClick?.(appointment)}
                                 onMouseEnter={() => setHoveredAppointment(appointment.id)}
                                 onMouseLeave={() => setHoveredAppointment(null)}
                                 key={appointment.id}
-                                className={`absolute left-0 right-0 p-1 rounded m-0.5 text-xs cursor-pointer transition-colors
+                                className={`absolute p-1 rounded m-0.5 text-xs cursor-pointer transition-colors overflow-hidden
                                   transform ${isHovered ? 'scale-[1.02] shadow-lg' : ''}
                                   ${appointment.status === 'confirmed'
                                     ? 'bg-emerald-500 hover:bg-emerald-600'
@@ -203,8 +205,10 @@ const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
                                           : 'bg-blue-600 hover:bg-blue-700'
                                   } text-white`}
                                 style={{
+                                  left: `${lane * laneWidth}%`,
+                                  width: `calc(${laneWidth}% - 0.25rem)`,
                                   top: `${(appointmentMinutes / 60) * 100}%`,
-                                  height: `${(appointment.duration / 60) * 100}%`,
+                                  height: `${(getAppointmentDuration(appointment) / 60) * 100}%`,
                                   zIndex: isHovered ? 20 : 10
                                 }}
                               >
@@ -219,6 +223,11 @@ const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
                                     {appointment.customerDetails.firstName} {appointment.customerDetails.lastName}
                                   </div>
                                 )}
+                                {isHovered && appointment.services && appointment.services.length > 1 && (
+                                  <div className="text-xxs mt-0.5 opacity-90">
+                                    {formatAppointmentServices(appointment)}
+                                  </div>
+                                )}
                               </div>
                             );
                           }
@@ -1,10 +1,17 @@
 import React from 'react';
-import { X, Clock, Car, User, Phone, Mail, Calendar, Check, XCircle, ChevronDown, CreditCard, Coins } from 'lucide-react';
-import type { Appointment } from '../types/database';
+import { X, Clock, Car, User, Phone, Mail, Calendar, Check, XCircle, ChevronDown, CreditCard, Coins, History, Receipt } from 'lucide-react';
+import type { Appointment, StatusChange, User as UserType } from '../types/database';
 import { format } from 'date-fns';
 import { fi } from 'date-fns/locale';
-import { updateAppointment } from '../lib/db';
-import { useState } from 'react';
+import { updateAppointment, changeAppointmentStatus, getAppointmentReceipt, getUser } from '../lib/db';
+import { getBookingTransitions, STATUS_LABELS, ROLE_LABELS } from '../lib/appointmentStatus';
+import { getAppointmentDuration } from '../lib/appointmentServices';
+import { getVehicleClassLabel } from '../lib/serviceVariants';
+import { APPROVAL_LABELS } from '../lib/business';
+import { PAYMENT_STATUS_LABELS } from '../lib/payments';
+import { writeReceiptWindow } from '../lib/receipts';
+import { useAuth } from '../contexts/AuthContext';
+import { useEffect, useState } from 'react';
 
 interface AppointmentDialogProps {
   isOpen: boolean;
@@ -19,8 +26,11 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
   appointment,
   onStatusChange
 }) => {
+  const { currentUser } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<Appointment['status'] | null>(null);
+  const [statusReason, setStatusReason] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [editedDetails, setEditedDetails] = useState(() => ({
     firstName: appointment.customerDetails?.firstName || '',
@@ -30,29 +40,70 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
     licensePlate: appointment.customerDetails?.licensePlate || '',
     notes: appointment.notes || '',
   }));
+  const [changedByUsers, setChangedByUsers] = useState<Record<string, UserType>>({});
+
+  // Names of the users in the status history
+  useEffect(() => {
+    if (!isOpen) return;
+    const userIds = [...new Set((appointment.statusHistory || []).map(change => change.changedBy))];
+    Promise.all(userIds.map(getUser))
+      .then(users => setChangedByUsers(Object.fromEntries(
+        users.flatMap(user => user ? [[user.id, user]] : [])
+      )))
+      .catch(err => console.error('Error loading status history users:', err));
+  }, [isOpen, appointment.statusHistory]);
 
   if (!isOpen) return null;
 
-  const handleStatusChange = async (newStatus: Appointment['status']) => {
+  const allowedTransitions = getBookingTransitions(appointment, 'vendor');
+
+  const getChangedByName = (change: StatusChange) => {
+    const user = changedByUsers[change.changedBy];
+    const name = user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email : '';
+    return name ? `${name} (${ROLE_LABELS[change.changedByRole]})` : ROLE_LABELS[change.changedByRole];
+  };
+  const statusHistory = [...(appointment.statusHistory || [])].reverse();
+
+  const handleStatusChange = async () => {
+    if (!pendingStatus || !currentUser) return;
+
     try {
       setLoading(true);
       setError(null);
       
-      await updateAppointment(appointment.id, {
-        ...appointment,
-        status: newStatus
-      });
+      await changeAppointmentStatus(appointment.id, pendingStatus, currentUser.uid, statusReason.trim() || undefined);
 
       onStatusChange();
       onClose();
     } catch (err) {
       console.error('Error updating appointment:', err);
-      setError('Virhe varauksen päivityksessä');
+      setError(err instanceof Error ? err.message : 'Virhe varauksen päivityksessä');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleOpenReceipt = async () => {
+    const receiptWindow = window.open('', '_blank');
+    if (!receiptWindow) {
+      setError('Salli ponnahdusikkunat avataksesi kuitin');
+      return;
+    }
+
+    try {
+      setError(null);
+      writeReceiptWindow(receiptWindow, await getAppointmentReceipt(appointment.id));
+    } catch (err) {
+      console.error('Error opening receipt:', err);
+      receiptWindow.close();
+      setError(err instanceof Error ? err.message : 'Kuitin avaaminen epäonnistui');
+    }
+  };
+
+  // History timestamps come back from Firestore as Timestamps
+  const formatChangedAt = (changedAt: StatusChange['changedAt'] | { toDate: () => Date }) =>
+    format('toDate' in changedAt ? changedAt.toDate() : changedAt, 'd.M.yyyy HH:mm');
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -70,30 +121,12 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return 'Vahvistettu';
-      case 'completed':
-        return 'Valmis';
-      case 'no_show':
-        return 'Ei saapunut';
-      case 'cancelled_by_customer':
-        return 'Asiakas perunut';
-      case 'cancelled':
-        return 'Peruttu';
-      default:
-        return 'Odottaa';
-    }
-  };
-
   const handleSaveChanges = async () => {
     try {
       setLoading(true);
       setError(null);
       
       await updateAppointment(appointment.id, {
-        ...appointment,
         customerDetails: {
           ...appointment.customerDetails,
           firstName: editedDetails.firstName,
@@ -142,20 +175,64 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
           {/* Status Badge */}
           <div className="mt-3 relative w-full sm:w-auto">
             <select
-              value={appointment.status}
-              onChange={(e) => handleStatusChange(e.target.value as Appointment['status'])}
-              className={`appearance-none w-full sm:w-auto ${getStatusColor(appointment.status)} px-3 py-1.5 pr-8 rounded-lg text-sm font-medium cursor-pointer focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
-              disabled={loading}
+              value={pendingStatus || appointment.status}
+              onChange={(e) => {
+                const status = e.target.value as Appointment['status'];
+                setPendingStatus(status === appointment.status ? null : status);
+              }}
+              className={`appearance-none w-full sm:w-auto ${getStatusColor(pendingStatus || appointment.status)} px-3 py-1.5 pr-8 rounded-lg text-sm font-medium cursor-pointer focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:cursor-default`}
+              disabled={loading || allowedTransitions.length === 0}
             >
-              <option value="confirmed">Vahvistettu</option>
-              <option value="completed">Valmis</option>
-              <option value="no_show">Ei saapunut</option>
-              <option value="cancelled_by_customer">Asiakas perunut</option>
-              <option value="cancelled">Peruttu</option>
+              {[appointment.status, ...allowedTransitions].map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
             </select>
-            <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-current pointer-events-none" />
+            {allowedTransitions.length > 0 && (
+              <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-current pointer-events-none" />
+            )}
           </div>
 
+          {pendingStatus && (
+            <div className="mt-3 p-3 bg-gray-50 rounded-lg space-y-3">
+              <input
+                type="text"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                placeholder="Syy (valinnainen)"
+                className="block w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setPendingStatus(null);
+                    setStatusReason('');
+                  }}
+                  className="flex-1 flex items-center justify-center px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-white"
+                >
+                  <XCircle className="w-4 h-4 mr-1.5" />
+                  Peruuta
+                </button>
+                <button
+                  onClick={handleStatusChange}
+                  disabled={loading}
+                  className="flex-1 flex items-center justify-center px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4 mr-1.5" />
+                  Vaihda tilaksi {STATUS_LABELS[pendingStatus]}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {appointment.approval && (
+            <div className={`mt-3 p-3 rounded-lg text-sm ${
+              appointment.approval.status === 'pending' ? 'bg-yellow-50 text-yellow-800' : 'bg-gray-50 text-gray-700'
+            }`}>
+              <p className="font-medium">Yrityksen hyväksyntä: {APPROVAL_LABELS[appointment.approval.status]}</p>
+              <p>{appointment.approval.reason}</p>
+            </div>
+          )}
+
           {/* Appointment Details */}
           <div className="mt-4 space-y-4">
             <div className="flex items-center">
@@ -170,11 +247,31 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
             <div className="flex items-center">
               <Clock className="h-5 w-5 text-gray-400 mr-3" />
               <div>
-                <p className="font-medium">Kesto: {appointment.duration || 30} min</p>
+                <p className="font-medium">Kesto: {getAppointmentDuration(appointment)} min</p>
                 <p className="text-sm text-gray-500">Hinta: {appointment.totalPrice}€</p>
               </div>
             </div>
 
+            {appointment.services && appointment.services.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-4 space-y-1">
+                {appointment.services.map(service => (
+                  <div key={service.serviceId} className="flex justify-between items-center text-sm">
+                    <span className="font-medium text-gray-900">{service.name}</span>
+                    <span className="text-gray-500">{service.duration} min</span>
+                  </div>
+                ))}
+                {appointment.addOns?.map(addOn => (
+                  <div key={addOn.id} className="flex justify-between items-center text-sm">
+                    <span className="text-gray-700">+ {addOn.name}</span>
+                    {addOn.duration > 0 && <span className="text-gray-500">{addOn.duration} min</span>}
+                  </div>
+                ))}
+                {appointment.vehicleClass && (
+                  <p className="pt-1 text-sm text-gray-500">Ajoneuvo: {getVehicleClassLabel(appointment.vehicleClass)}</p>
+                )}
+              </div>
+            )}
+
             {isEditing ? (
               <div className="space-y-4">
                 <div>
@@ -285,33 +382,96 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
               Maksutiedot
             </h4>
             <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <span className="text-gray-600">Palvelun hinta</span>
-                <span className="font-medium">{appointment.totalPrice}€</span>
-              </div>
-              {appointment.coinsUsed > 0 && (
+              {appointment.priceQuote ? (
                 <>
-                  <div className="flex justify-between items-center text-yellow-600">
-                    <span className="flex items-center">
-                      <Coins className="w-4 h-4 mr-1.5" />
-                      <span>Käytetyt kolikot</span>
-                    </span>
-                    <span>-{appointment.coinsUsed} kpl</span>
-                  </div>
-                  <div className="flex justify-between items-center text-yellow-600">
-                    <span>Kolikkoalennus</span>
-                    <span>-{(appointment.coinsUsed * 0.5).toFixed(2)}€</span>
-                  </div>
+                  {appointment.priceQuote.lines.map((line, index) => (
+                    <div key={index} className="flex justify-between items-center">
+                      <span className="text-gray-600">{line.label}</span>
+                      <span className={line.amount < 0 ? 'text-green-600' : 'font-medium'}>
+                        {line.amount < 0 ? '-' : ''}{Math.abs(line.amount).toFixed(2)}€
+                      </span>
+                    </div>
+                  ))}
                   <div className="pt-3 border-t border-gray-200 mt-2">
                     <div className="flex justify-between items-center font-medium">
-                      <span>Lopullinen hinta</span>
-                      <span>{(appointment.totalPrice - (appointment.coinsUsed * 0.5)).toFixed(2)}€</span>
+                      <span>Yhteensä</span>
+                      <span>{appointment.totalPrice.toFixed(2)}€</span>
                     </div>
                   </div>
                 </>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Palvelun hinta</span>
+                    <span className="font-medium">{appointment.totalPrice}€</span>
+                  </div>
+                  {appointment.coinsUsed > 0 && (
+                    <>
+                      <div className="flex justify-between items-center text-yellow-600">
+                        <span className="flex items-center">
+                          <Coins className="w-4 h-4 mr-1.5" />
+                          <span>Käytetyt kolikot</span>
+                        </span>
+                        <span>-{appointment.coinsUsed} kpl</span>
+                      </div>
+                      <div className="flex justify-between items-center text-yellow-600">
+                        <span>Kolikkoalennus</span>
+                        <span>-{(appointment.coinsUsed * 0.5).toFixed(2)}€</span>
+                      </div>
+                      <div className="pt-3 border-t border-gray-200 mt-2">
+                        <div className="flex justify-between items-center font-medium">
+                          <span>Lopullinen hinta</span>
+                          <span>{(appointment.totalPrice - (appointment.coinsUsed * 0.5)).toFixed(2)}€</span>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+              {appointment.payment && (
+                <div className="pt-2 text-sm text-gray-500">
+                  <p>
+                    Verkkomaksu: {PAYMENT_STATUS_LABELS[appointment.payment.status]} {appointment.payment.amount.toFixed(2)}€
+                    {appointment.payment.cardLast4 && ` (kortti •••• ${appointment.payment.cardLast4})`}
+                  </p>
+                  {appointment.payment.failureReason && (
+                    <p className="text-red-600">{appointment.payment.failureReason}</p>
+                  )}
+                </div>
+              )}
+              {appointment.businessAccountId && (
+                <p className="pt-2 text-sm text-gray-500">
+                  {appointment.invoiceId ? 'Laskutettu yrityksen kuukausilaskulla' : 'Laskutetaan yrityksen kuukausilaskulla'}
+                </p>
               )}
             </div>
           </div>
+
+          {/* Status History */}
+          {statusHistory.length > 0 && (
+            <div className="mt-4 bg-gray-50 rounded-lg p-4">
+              <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+                <History className="w-5 h-5 mr-2 text-gray-500" />
+                Tilahistoria
+              </h4>
+              <ul className="space-y-2">
+                {statusHistory.map((change, index) => (
+                  <li key={index} className="text-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">
+                        {change.from ? `${STATUS_LABELS[change.from]} → ` : ''}{STATUS_LABELS[change.to]}
+                      </span>
+                      <span className="text-gray-500">{formatChangedAt(change.changedAt)}</span>
+                    </div>
+                    <p className="text-gray-500">
+                      {getChangedByName(change)}
+                      {change.reason && ` – ${change.reason}`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
           {error && (
@@ -341,6 +501,16 @@ const AppointmentDialog: React.FC<AppointmentDialogProps> = ({
             </div>
           )}
           
+          {appointment.status === 'completed' && (
+            <button
+              onClick={handleOpenReceipt}
+              className="w-full px-4 py-2 flex items-center justify-center border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100"
+            >
+              <Receipt className="w-4 h-4 mr-2" />
+              Kuitti
+            </button>
+          )}
+
           {/* Edit Mode Buttons */}
           {isEditing && (
             <div className="flex gap-2">
@@ -1,16 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday, startOfWeek, endOfWeek, isBefore, startOfToday } from 'date-fns';
 import { fi } from 'date-fns/locale';
-import { Calendar, Clock, CreditCard, X, ChevronRight, ChevronLeft, Check, UserIcon, Coins, LogIn } from 'lucide-react';
-import type { Service, Vendor, User as UserType, Offer } from '../types/database';
-import { createAppointment, getUser, getVendorOffers } from '../lib/db';
+import { Calendar, Clock, CreditCard, X, ChevronRight, ChevronLeft, Check, UserIcon, Coins, LogIn, Ticket, Package, Plus, Car, Truck } from 'lucide-react';
+import type { Service, Vendor, User as UserType, Offer, Promotion, BookedSlot, Voucher, CustomerPackage, Vehicle, VehicleClass, BusinessAccount } from '../types/database';
+import { createAppointment, getUser, getVendorOffers, getActivePromotions, getDayBookings, getVoucher, getCustomerPackages, getVendorServices, getVehicles, getMemberBusinessAccounts, InsufficientCoinsError } from '../lib/db';
+import { getPriceQuote, getActiveOffer } from '../lib/pricing';
+import { getVoucherError, formatVoucherValue, VoucherError } from '../lib/vouchers';
+import { getBasketDuration } from '../lib/appointmentServices';
+import { applyVehicleClass, DEFAULT_VEHICLE_CLASS, getAddOnsDuration, getVehicleClassLabel, hasVariants, VEHICLE_CLASSES } from '../lib/serviceVariants';
+import { formatVehicleName, isValidFinnishPlate, normalizePlate, PLATE_ERROR } from '../lib/vehicles';
+import { findUsablePackage, getAvailableCredits, getServiceCredit } from '../lib/packages';
+import { getAvailableSlots, getOpeningException, hasOpeningFor, SlotUnavailableError } from '../lib/availability';
+import { getCardError, getPaymentProvider, requiresOnlinePayment, PaymentError } from '../lib/payments';
+import type { PaymentCard } from '../lib/payments';
+import { getCancellationWindowHours } from '../lib/cancellation';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
-
-const getDayOperatingHours = (date: Date, vendor: Vendor) => {
-  const dayName = format(date, 'EEEE').toLowerCase();
-  return vendor.operatingHours[dayName] || { open: '09:00', close: '17:00' };
-};
+import CardFields from './CardFields';
 
 interface BookingModalProps {
   isOpen: boolean;
@@ -18,9 +24,10 @@ interface BookingModalProps {
   service: Service;
   vendorId: string;
   vendor: Vendor;
+  referralCode?: string; // from a shared referral link, applied on guest signup
 }
 
-type Step = 'date' | 'time' | 'details' | 'signup' | 'confirm';
+type Step = 'date' | 'time' | 'details' | 'signup' | 'confirm' | 'payment';
 
 interface CustomerDetails {
   firstName: string;
@@ -33,7 +40,7 @@ interface CustomerDetails {
 
 const WEEKDAYS = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
 
-const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, vendorId, vendor }) => {
+const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, vendorId, vendor, referralCode }) => {
   const { currentUser, signup } = useAuth();
   const navigate = useNavigate();
   const [currentStep, setCurrentStep] = useState<Step>('date');
@@ -47,6 +54,25 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
   const [bookingComplete, setBookingComplete] = useState(false);
   const [userData, setUserData] = useState<UserType | null>(null);
   const [offers, setOffers] = useState<Offer[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [bookings, setBookings] = useState<BookedSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [voucherError, setVoucherError] = useState<string | null>(null);
+  const [checkingVoucher, setCheckingVoucher] = useState(false);
+  const [customerPackages, setCustomerPackages] = useState<CustomerPackage[]>([]);
+  const [usePackage, setUsePackage] = useState(false);
+  const [vendorServices, setVendorServices] = useState<Service[]>([]);
+  const [extraServiceIds, setExtraServiceIds] = useState<string[]>([]);
+  const [vehicleClass, setVehicleClass] = useState<VehicleClass>(DEFAULT_VEHICLE_CLASS);
+  const [addOnIds, setAddOnIds] = useState<string[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
+  const [businessAccounts, setBusinessAccounts] = useState<BusinessAccount[]>([]);
+  const [billingAccountId, setBillingAccountId] = useState<string | null>(null);
+  const [fleetVehicles, setFleetVehicles] = useState<Vehicle[]>([]);
+  const [card, setCard] = useState<PaymentCard>({ number: '', expiry: '', cvc: '' });
   const [customerDetails, setCustomerDetails] = useState<CustomerDetails>({
     firstName: '',
     lastName: '',
@@ -56,36 +82,197 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
     password: ''
   });
 
-  if (!isOpen) return null;
-
   useEffect(() => {
     const loadUserData = async () => {
       if (currentUser) {
-        const [user, vendorOffers] = await Promise.all([
+        const [user, packages, savedVehicles, accounts] = await Promise.all([
           getUser(currentUser.uid),
-          getVendorOffers(vendorId)
+          getCustomerPackages(currentUser.uid).catch(err => {
+            console.error('Error loading packages:', err);
+            return [];
+          }),
+          getVehicles({ userId: currentUser.uid }).catch(err => {
+            console.error('Error loading vehicles:', err);
+            return [];
+          }),
+          getMemberBusinessAccounts(currentUser.uid).catch(err => {
+            console.error('Error loading business accounts:', err);
+            return [];
+          })
         ]);
         setUserData(user);
-        setOffers(vendorOffers.filter(o => o.active));
+        setCustomerPackages(packages);
+        setVehicles(savedVehicles);
+        setBusinessAccounts(accounts);
       }
     };
     loadUserData();
-  }, [currentUser, vendorId]);
+  }, [currentUser]);
+
+  useEffect(() => {
+    const loadPricing = async () => {
+      try {
+        const [vendorOffers, activePromotions, services] = await Promise.all([
+          getVendorOffers(vendorId),
+          getActivePromotions(),
+          getVendorServices(vendorId)
+        ]);
+        setOffers(vendorOffers);
+        setPromotions(activePromotions);
+        setVendorServices(services.filter(s => s.id !== service.id && s.available !== false));
+      } catch (err) {
+        console.error('Error loading offers:', err);
+      }
+    };
+    loadPricing();
+  }, [vendorId, service.id]);
+
+  useEffect(() => {
+    const loadFleet = async () => {
+      if (!billingAccountId) {
+        setFleetVehicles([]);
+        return;
+      }
+
+      try {
+        setFleetVehicles(await getVehicles({ businessAccountId: billingAccountId }));
+      } catch (err) {
+        console.error('Error loading fleet vehicles:', err);
+        setFleetVehicles([]);
+      }
+    };
+    loadFleet();
+  }, [billingAccountId]);
+
+  useEffect(() => {
+    const loadBookings = async () => {
+      if (!selectedDate) return;
+
+      try {
+        setLoadingSlots(true);
+        setBookings(await getDayBookings(vendorId, selectedDate));
+      } catch (err) {
+        console.error('Error loading bookings:', err);
+        setBookings([]);
+      } finally {
+        setLoadingSlots(false);
+      }
+    };
+    loadBookings();
+  }, [selectedDate, vendorId]);
+
+  if (!isOpen) return null;
+
+  const getSlotDate = (date: Date, time: string) => {
+    const slot = new Date(date);
+    const [hours, minutes] = time.split(':');
+    slot.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+    return slot;
+  };
 
-  const getServiceDiscount = () => {
-    const activeOffer = offers.find(o => 
-      o.serviceId === service.id && 
-      new Date(o.startDate) <= new Date() && 
-      new Date(o.endDate) >= new Date()
+  // Services booked on top of the main one, done in the same slot. Every
+  // service is priced and timed for the chosen vehicle class.
+  const pricedService = applyVehicleClass(service, vehicleClass);
+  const extraServices = vendorServices
+    .filter(s => extraServiceIds.includes(s.id))
+    .map(s => applyVehicleClass(s, vehicleClass));
+  const selectedAddOns = (service.addOns || []).filter(addOn => addOnIds.includes(addOn.id));
+  const basketDuration = getBasketDuration([pricedService, ...extraServices]) + getAddOnsDuration(selectedAddOns);
+  const showVehicleClasses = hasVariants(service) || vendorServices.some(hasVariants);
+
+  // A longer booking may no longer fit the chosen time
+  const toggleExtraService = (serviceId: string) => {
+    setExtraServiceIds(prev => prev.includes(serviceId)
+      ? prev.filter(id => id !== serviceId)
+      : [...prev, serviceId]
     );
-    return activeOffer?.discountPercentage || 0;
+    setSelectedTime('');
   };
 
-  const getDiscountedPrice = () => {
-    const discount = getServiceDiscount();
-    return discount > 0 
-      ? service.price * (1 - discount / 100)
-      : service.price;
+  const toggleAddOn = (addOnId: string) => {
+    setAddOnIds(prev => prev.includes(addOnId)
+      ? prev.filter(id => id !== addOnId)
+      : [...prev, addOnId]
+    );
+    setSelectedTime('');
+  };
+
+  const handleVehicleClassChange = (value: VehicleClass) => {
+    setVehicleClass(value);
+    setSelectedTime('');
+  };
+
+  // A saved vehicle fills in the plate and the size class
+  const handleVehicleSelect = (vehicle: Vehicle) => {
+    setSelectedVehicleId(vehicle.id);
+    setCustomerDetails(prev => ({ ...prev, licensePlate: vehicle.plate }));
+    handleVehicleClassChange(vehicle.vehicleClass);
+  };
+
+  // Company-billed bookings use the fleet and cannot be paid with coins or
+  // package credits
+  const billingAccount = businessAccounts.find(account => account.id === billingAccountId) || null;
+  const bookableVehicles = billingAccount ? fleetVehicles : vehicles;
+
+  const handleBillingChange = (accountId: string | null) => {
+    setBillingAccountId(accountId);
+    setSelectedVehicleId(null);
+    setUseCoins(false);
+    setUsePackage(false);
+  };
+
+  const usablePackage = billingAccount ? null : findUsablePackage(customerPackages, service.id, vendorId);
+  const usableCredit = usablePackage ? getServiceCredit(usablePackage, service.id) : null;
+  const prepaid = usePackage ? usablePackage : null;
+
+  // Coins and codes are not combined with a package credit
+  const quote = getPriceQuote({
+    service: pricedService,
+    additionalServices: extraServices,
+    addOns: selectedAddOns,
+    vendor,
+    offers,
+    promotions,
+    voucher: prepaid ? null : voucher,
+    prepaid,
+    slot: selectedDate && selectedTime ? getSlotDate(selectedDate, selectedTime) : undefined,
+    coins: useCoins && !prepaid && !billingAccount ? userData?.wallet.coins || 0 : 0
+  });
+
+  // Anything left to pay after discounts is prepaid online when possible,
+  // otherwise paid on site
+  const requiresPayment = requiresOnlinePayment(quote.totalPrice, !!billingAccount);
+  const paysOnSite = !billingAccount && !requiresPayment && quote.totalPrice > 0;
+
+  // Preview only; the code is validated again when the booking is created
+  const handleApplyVoucher = async () => {
+    if (!voucherCode.trim()) return;
+
+    try {
+      setCheckingVoucher(true);
+      setVoucherError(null);
+      const found = await getVoucher(voucherCode);
+      const validationError = found
+        ? getVoucherError(found, { customerId: currentUser?.uid, vendorId })
+        : 'Koodia ei löytynyt';
+      if (validationError) {
+        setVoucher(null);
+        setVoucherError(validationError);
+        return;
+      }
+      setVoucher(found);
+    } catch (err) {
+      console.error('Error checking voucher:', err);
+      setVoucherError('Virhe koodin tarkistuksessa');
+    } finally {
+      setCheckingVoucher(false);
+    }
+  };
+
+  const handleRemoveVoucher = () => {
+    setVoucher(null);
+    setVoucherCode('');
+    setVoucherError(null);
   };
 
   const handleSubmit = async () => {
@@ -100,6 +287,17 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
       return;
     }
 
+    if (!isValidFinnishPlate(customerDetails.licensePlate)) {
+      setError(PLATE_ERROR);
+      return;
+    }
+
+    const cardError = requiresPayment ? getCardError(card) : null;
+    if (cardError) {
+      setError(cardError);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -109,7 +307,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
       // If user is not authenticated, create an account
       if (!currentUser && customerDetails.password) {
         try {
-          const userCredential = await signup(customerDetails.email, customerDetails.password);
+          const userCredential = await signup(customerDetails.email, customerDetails.password, 'customer', referralCode);
           userId = userCredential.user.uid;
         } catch (err: any) {
           // Check if the error is due to existing email
@@ -127,16 +325,12 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
         return;
       }
 
-      const dateTime = new Date(selectedDate);
-      const [hours, minutes] = selectedTime.split(':');
-      dateTime.setHours(parseInt(hours), parseInt(minutes));
+      const dateTime = getSlotDate(selectedDate, selectedTime);
 
       // Validate coin usage
-      if (useCoins) {
-        if (!userData || useCoins > userData.wallet.coins) {
-          setError('Ei tarpeeksi kolikoita');
-          return;
-        }
+      if (useCoins && !userData) {
+        setError('Ei tarpeeksi kolikoita');
+        return;
       }
 
       const appointmentData = {
@@ -144,26 +338,43 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
         vendorId,
         serviceId: service.id,
         date: dateTime,
-        status: 'confirmed',
-        totalPrice: useCoins 
-          ? Math.max(0, getDiscountedPrice() - (Math.min(
-              userData?.wallet.coins || 0,
-              Math.floor(getDiscountedPrice() / 0.5)
-            ) * 0.5))
-          : getDiscountedPrice(),
+        duration: basketDuration,
+        vehicleClass,
+        ...(selectedVehicleId ? { vehicleId: selectedVehicleId } : {}),
+        status: 'confirmed' as const,
         customerDetails: {
           firstName: customerDetails.firstName,
           lastName: customerDetails.lastName,
           email: customerDetails.email,
           phone: customerDetails.phone,
-          licensePlate: customerDetails.licensePlate
+          licensePlate: normalizePlate(customerDetails.licensePlate)
         }
       };
 
-      await createAppointment(appointmentData, useCoins ? Math.min(
-        userData?.wallet.coins || 0,
-        Math.floor(service.price / 0.5)
-      ) : 0);
+      // The card is only authorised here; the hold is released if the
+      // booking fails and captured when the booking is completed
+      const paymentProvider = requiresPayment ? getPaymentProvider() : null;
+      const payment = paymentProvider
+        ? await paymentProvider.authorize({ amount: quote.totalPrice, currency: 'EUR', reference: `${vendorId}:${userId}`, card })
+        : null;
+
+      try {
+        await createAppointment(appointmentData, {
+          coins: quote.coinsUsed,
+          additionalServiceIds: extraServices.map(s => s.id),
+          addOnIds: selectedAddOns.map(addOn => addOn.id),
+          ...(!prepaid && voucher ? { voucherCode: voucher.code } : {}),
+          ...(prepaid ? { packageId: prepaid.id } : {}),
+          ...(billingAccount ? { businessAccountId: billingAccount.id } : {}),
+          ...(payment ? { payment } : {})
+        });
+      } catch (err) {
+        if (paymentProvider && payment) {
+          await paymentProvider.refund(payment.paymentId, payment.amount)
+            .catch(refundErr => console.error('Error releasing payment:', refundErr));
+        }
+        throw err;
+      }
 
       setBookingComplete(true);
       // Redirect to home page after 3 seconds
@@ -174,6 +385,32 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
 
     } catch (err) {
       console.error('Booking error:', err);
+      if (err instanceof SlotUnavailableError) {
+        setError(err.message);
+        setSelectedTime('');
+        setCurrentStep('time');
+        setBookings(await getDayBookings(vendorId, selectedDate));
+        return;
+      }
+      if (err instanceof PaymentError) {
+        setError(err.message);
+        return;
+      }
+      if (err instanceof InsufficientCoinsError) {
+        setError(err.message);
+        setUseCoins(false);
+        return;
+      }
+      if (err instanceof VoucherError) {
+        setVoucher(null);
+        setVoucherError(err.message);
+        return;
+      }
+      if ((prepaid || billingAccount) && err instanceof Error && err.message) {
+        setError(err.message);
+        setUsePackage(false);
+        return;
+      }
       setError('Varauksen luonti epäonnistui. Yritä uudelleen.');
     } finally {
       setLoading(false);
@@ -197,43 +434,15 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
 
   const getAvailableTimes = () => {
     if (!selectedDate) return [];
-
-    const hours = getDayOperatingHours(selectedDate, vendor);
-    
-    // If closed, return empty array
-    if (hours.open === 'closed' && hours.close === 'closed') {
-      return [];
-    }
-
-    // If 24h operation
-    if (hours.open === '00:00' && hours.close === '23:59') {
-      return Array.from({ length: 48 }, (_, i) => {
-        const hour = Math.floor(i / 2);
-        const minute = i % 2 === 0 ? '00' : '30';
-        return `${hour.toString().padStart(2, '0')}:${minute}`;
-      });
-    }
-
-    // Parse operating hours
-    const [openHour, openMinute = '0'] = hours.open.split(':');
-    const [closeHour, closeMinute = '0'] = hours.close.split(':');
-    const startTime = parseInt(openHour) * 60 + parseInt(openMinute);
-    const endTime = parseInt(closeHour) * 60 + parseInt(closeMinute);
-
-    const times = [];
-    for (let time = startTime; time < endTime; time += 30) {
-      const hour = Math.floor(time / 60);
-      const minute = time % 60;
-      times.push(`${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`);
-    }
-
-    return times;
+    return getAvailableSlots(
+      selectedDate,
+      { duration: basketDuration, categoryId: service.categoryId },
+      vendor,
+      bookings
+    );
   };
 
-  const hasAvailableTimes = (date: Date) => {
-    const hours = getDayOperatingHours(date, vendor);
-    return !(hours.open === 'closed' && hours.close === 'closed');
-  };
+  const hasAvailableTimes = (date: Date) => hasOpeningFor(date, basketDuration, vendor);
 
   const nextStep = () => {
     if (currentStep === 'date' && selectedDate) {
@@ -246,6 +455,11 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
                customerDetails.email && 
                customerDetails.phone && 
                customerDetails.licensePlate) {
+      if (!isValidFinnishPlate(customerDetails.licensePlate)) {
+        setError(PLATE_ERROR);
+        return;
+      }
+      setError(null);
       if (!currentUser) {
         setCurrentStep('signup');
       } else {
@@ -253,6 +467,9 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
       }
     } else if (currentStep === 'signup' && customerDetails.password) {
       setCurrentStep('confirm');
+    } else if (currentStep === 'confirm' && requiresPayment) {
+      setError(null);
+      setCurrentStep('payment');
     }
   };
 
@@ -265,6 +482,8 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
       setCurrentStep('details');
     } else if (currentStep === 'confirm') {
       setCurrentStep(currentUser ? 'details' : 'signup');
+    } else if (currentStep === 'payment') {
+      setCurrentStep('confirm');
     }
   };
 
@@ -287,6 +506,133 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
 
     return (
       <div className="p-4">
+        {businessAccounts.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Laskutus</h3>
+            <div className="flex flex-wrap gap-2">
+              {[null, ...businessAccounts].map(account => (
+                <button
+                  key={account?.id || 'personal'}
+                  type="button"
+                  onClick={() => handleBillingChange(account?.id || null)}
+                  className={`flex items-center px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                    billingAccountId === (account?.id || null)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                  }`}
+                >
+                  {account ? <Truck className="w-4 h-4 mr-1" /> : <UserIcon className="w-4 h-4 mr-1" />}
+                  {account ? account.name : 'Oma maksu'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {bookableVehicles.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Valitse ajoneuvo</h3>
+            <div className="flex flex-wrap gap-2">
+              {bookableVehicles.map(vehicle => (
+                <button
+                  key={vehicle.id}
+                  type="button"
+                  onClick={() => handleVehicleSelect(vehicle)}
+                  className={`flex items-center px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                    selectedVehicleId === vehicle.id
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                  }`}
+                >
+                  <Car className="w-4 h-4 mr-1" />
+                  {formatVehicleName(vehicle)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {showVehicleClasses && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Ajoneuvon koko</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {VEHICLE_CLASSES.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => handleVehicleClassChange(option.id)}
+                  className={`px-3 py-2 rounded-lg text-sm border transition-colors ${
+                    vehicleClass === option.id
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                  }`}
+                >
+                  <span className="block font-medium">{option.label}</span>
+                  <span className="block text-xs opacity-80">
+                    {applyVehicleClass(service, option.id).price}€ · {applyVehicleClass(service, option.id).duration} min
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {service.addOns && service.addOns.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Lisävalinnat</h3>
+            <div className="flex flex-wrap gap-2">
+              {service.addOns.map(addOn => {
+                const selected = addOnIds.includes(addOn.id);
+                return (
+                  <button
+                    key={addOn.id}
+                    type="button"
+                    onClick={() => toggleAddOn(addOn.id)}
+                    className={`flex items-center px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      selected
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                    }`}
+                  >
+                    {selected ? <Check className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+                    {addOn.name} +{addOn.price}€{addOn.duration > 0 && ` · ${addOn.duration} min`}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {vendorServices.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Lisää palveluita samaan varaukseen</h3>
+            <div className="flex flex-wrap gap-2">
+              {vendorServices.map(vendorService => {
+                const extra = applyVehicleClass(vendorService, vehicleClass);
+                const selected = extraServiceIds.includes(extra.id);
+                return (
+                  <button
+                    key={extra.id}
+                    type="button"
+                    onClick={() => toggleExtraService(extra.id)}
+                    className={`flex items-center px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      selected
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                    }`}
+                  >
+                    {selected ? <Check className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+                    {extra.name} +{extra.price}€ · {extra.duration} min
+                  </button>
+                );
+              })}
+            </div>
+            {(extraServices.length > 0 || selectedAddOns.length > 0) && (
+              <p className="mt-2 text-sm text-gray-500">Kesto yhteensä {basketDuration} min</p>
+            )}
+          </div>
+        )}
+
         <div className="flex items-center justify-between mb-8">
           <button
             onClick={prevMonth}
@@ -332,6 +678,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
                 <button
                   onClick={() => !isPast && setSelectedDate(day)}
                   disabled={isPast || !isCurrentMonth}
+                  title={getOpeningException(day, vendor)?.reason}
                   className={`
                     w-full aspect-square flex flex-col items-center justify-center rounded-lg
                     ${isSelected ? 'bg-blue-600 text-white' : 'hover:bg-gray-100'}
@@ -354,12 +701,24 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
   };
 
   const renderTimeStep = () => {
+    if (loadingSlots) {
+      return (
+        <div className="p-8 flex justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
     const times = getAvailableTimes();
 
     if (times.length === 0) {
       return (
         <div className="p-4 text-center">
-          <p className="text-gray-600">Valitettavasti tämä päivä on suljettu.</p>
+          <p className="text-gray-600">
+            {selectedDate && hasAvailableTimes(selectedDate)
+              ? 'Valitettavasti tälle päivälle ei ole vapaita aikoja.'
+              : 'Valitettavasti tämä päivä on suljettu.'}
+          </p>
           <button
             onClick={() => setCurrentStep('date')}
             className="mt-4 text-blue-600 hover:text-blue-800"
@@ -376,10 +735,16 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
           <h3 className="text-lg font-medium">
             {selectedDate && format(selectedDate, 'EEEE d.M.yyyy', { locale: fi })}
           </h3>
+          {offers.some(offer => offer.schedule && offer.serviceId === service.id) && (
+            <p className="text-sm text-green-700 mt-1">Vihreällä merkityt ajat ovat tarjousaikoja</p>
+          )}
         </div>
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
           {times.map(time => {
             const isSelected = time === selectedTime;
+            // Happy hour slots are highlighted with their discount
+            const slotOffer = selectedDate ? getActiveOffer(offers, service.id, new Date(), getSlotDate(selectedDate, time)) : null;
+            const happyHourOffer = slotOffer?.schedule ? slotOffer : null;
 
             return (
               <button
@@ -387,10 +752,19 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
                 onClick={() => setSelectedTime(time)}
                 className={`
                   p-3 rounded-lg text-center transition-colors
-                  ${isSelected ? 'bg-blue-600 text-white' : 'bg-gray-50 hover:bg-gray-100'}
+                  ${isSelected
+                    ? 'bg-blue-600 text-white'
+                    : happyHourOffer
+                    ? 'bg-green-50 border border-green-300 hover:bg-green-100'
+                    : 'bg-gray-50 hover:bg-gray-100'}
                 `}
               >
                 <span className="text-lg">{time}</span>
+                {happyHourOffer && (
+                  <span className={`block text-xs font-medium ${isSelected ? 'text-white' : 'text-green-700'}`}>
+                    -{happyHourOffer.discountPercentage}%
+                  </span>
+                )}
               </button>
             );
           })}
@@ -431,7 +805,10 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
             <input
               type="text"
               value={customerDetails.licensePlate}
-              onChange={(e) => setCustomerDetails(prev => ({ ...prev, licensePlate: e.target.value.toUpperCase() }))}
+              onChange={(e) => {
+                setSelectedVehicleId(null);
+                setCustomerDetails(prev => ({ ...prev, licensePlate: e.target.value.toUpperCase() }));
+              }}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               placeholder="ABC-123"
               required
@@ -477,6 +854,11 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
             Aseta salasana tilillesi ja saat heti 10 kolikkoa käyttöösi. 
             Voit käyttää kolikoita alennuksiin tulevissa varauksissa.
           </p>
+          {referralCode && (
+            <p className="mt-2 text-sm text-blue-600">
+              Suosituskoodi {referralCode} lisätään tiliisi. Saat bonuskolikot, kun ensimmäinen pesusi on valmis.
+            </p>
+          )}
         </div>
 
         <div className="space-y-4">
@@ -515,7 +897,30 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
         <div className="bg-blue-50 p-6 rounded-lg">
           <h3 className="font-semibold text-lg mb-4">Varauksen tiedot</h3>
           <div className="space-y-4">
-            {currentUser && userData && userData.wallet.coins > 0 && (
+            {currentUser && usablePackage && usableCredit && (
+              <div className="bg-green-50 p-4 rounded-lg mb-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <Package className="w-5 h-5 text-green-600 mr-2" />
+                    <span className="text-sm text-green-700">
+                      {usablePackage.name}: {getAvailableCredits(usableCredit)} käyttökertaa jäljellä
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setUsePackage(!usePackage)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      usePackage
+                        ? 'bg-green-500 text-white hover:bg-green-600'
+                        : 'bg-blue-600 text-white hover:bg-blue-700'
+                    }`}
+                  >
+                    {usePackage ? 'Paketti käytössä' : 'Käytä pakettia'}
+                  </button>
+                </div>
+              </div>
+            )}
+            {currentUser && userData && userData.wallet.coins > 0 && !prepaid && !billingAccount && (
               <div className="bg-yellow-50 p-4 rounded-lg mb-4">
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center">
@@ -536,21 +941,23 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
                 </div>
                 {useCoins && (
                   <div className="mt-3 text-sm text-yellow-600">
-                    <p>Käytetään {Math.min(
-                      userData.wallet.coins,
-                      Math.floor(service.price / 0.5)
-                    )} kolikkoa = {(Math.min(
-                      userData.wallet.coins,
-                      Math.floor(service.price / 0.5)
-                    ) * 0.5).toFixed(2)}€ alennus</p>
+                    <p>Käytetään {quote.coinsUsed} kolikkoa = {(quote.subtotal - quote.totalPrice).toFixed(2)}€ alennus</p>
                   </div>
                 )}
               </div>
             )}
             <div className="flex justify-between items-center">
-              <span className="text-gray-600">Palvelu</span>
-              <span className="font-medium text-gray-900">{service.name}</span>
+              <span className="text-gray-600">{extraServices.length > 0 ? 'Palvelut' : 'Palvelu'}</span>
+              <span className="font-medium text-gray-900 text-right">
+                {[service, ...extraServices].map(s => s.name).join(' + ')}
+              </span>
             </div>
+            {showVehicleClasses && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Ajoneuvo</span>
+                <span className="font-medium text-gray-900">{getVehicleClassLabel(vehicleClass)}</span>
+              </div>
+            )}
             <div className="flex justify-between items-center">
               <span className="text-gray-600">Päivämäärä</span>
               <span className="font-medium text-gray-900">
@@ -563,7 +970,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
             </div>
             <div className="flex justify-between items-center">
               <span className="text-gray-600">Kesto</span>
-              <span className="font-medium text-gray-900">{service.duration} min</span>
+              <span className="font-medium text-gray-900">{basketDuration} min</span>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-gray-600">Asiakas</span>
@@ -573,27 +980,77 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
               <span className="text-gray-600">Rekisterinumero</span>
               <span className="font-medium text-gray-900">{customerDetails.licensePlate}</span>
             </div>
-            
-            <div className="pt-4 border-t">
+            {billingAccount && (
               <div className="flex justify-between items-center">
-                <span className="font-semibold">Yhteensä</span>
-                <div className="text-right">
-                  {useCoins && (
-                    <div className="text-sm text-gray-500 line-through mb-1">
-                      {getDiscountedPrice().toFixed(2)}€
-                    </div>
-                  )}
-                  <span className="font-semibold text-lg text-gray-900">
-                    {useCoins 
-                      ? Math.max(0, getDiscountedPrice() - (Math.min(
-                          userData?.wallet.coins || 0,
-                          Math.floor(getDiscountedPrice() / 0.5)
-                        ) * 0.5)).toFixed(2)
-                      : getDiscountedPrice().toFixed(2)
-                    }€
+                <span className="text-gray-600">Laskutus</span>
+                <span className="font-medium text-gray-900">{billingAccount.name}</span>
+              </div>
+            )}
+            
+            {!prepaid && (
+              <div className="pt-4 border-t">
+                <label className="block text-sm font-medium text-gray-700">Alennuskoodi</label>
+                {voucher ? (
+                  <div className="mt-1 flex items-center justify-between bg-green-50 p-3 rounded-lg">
+                    <span className="flex items-center text-sm text-green-700">
+                      <Ticket className="w-4 h-4 mr-2" />
+                      {voucher.code} ({formatVoucherValue(voucher)})
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleRemoveVoucher}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Poista
+                    </button>
+                  </div>
+                ) : (
+                  <div className="mt-1 flex space-x-2">
+                    <input
+                      type="text"
+                      value={voucherCode}
+                      onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      placeholder="Syötä koodi"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyVoucher}
+                      disabled={checkingVoucher || !voucherCode.trim()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Käytä
+                    </button>
+                  </div>
+                )}
+                {voucherError && <p className="mt-1 text-sm text-red-600">{voucherError}</p>}
+                {voucher?.discountType === 'coins' && (
+                  <p className="mt-1 text-sm text-yellow-700">Saat {voucher.value} kolikkoa varauksen yhteydessä</p>
+                )}
+              </div>
+            )}
+
+            <div className="pt-4 border-t space-y-2">
+              {quote.lines.map((line, index) => (
+                <div key={index} className="flex justify-between items-center text-sm">
+                  <span className="text-gray-600">{line.label}</span>
+                  <span className={line.amount < 0 ? 'text-green-600' : 'text-gray-900'}>
+                    {line.amount < 0 ? '-' : ''}{Math.abs(line.amount).toFixed(2)}€
                   </span>
                 </div>
+              ))}
+              <div className="flex justify-between items-center pt-2">
+                <span className="font-semibold">Yhteensä</span>
+                <span className="font-semibold text-lg text-gray-900">
+                  {quote.totalPrice.toFixed(2)}€
+                </span>
               </div>
+              {quote.coinReward + quote.bonusCoins > 0 && (
+                <div className="flex items-center justify-end text-sm text-yellow-700">
+                  <Coins className="w-4 h-4 mr-1" />
+                  Ansaitset +{quote.coinReward + quote.bonusCoins} kolikkoa
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -601,6 +1058,25 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
     );
   };
 
+  const renderPaymentStep = () => (
+    <div className="p-4">
+      <div className="bg-blue-50 p-6 rounded-lg mb-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-blue-700">
+            <CreditCard className="h-6 w-6" />
+            <h3 className="font-semibold text-lg">Maksu</h3>
+          </div>
+          <span className="text-lg font-semibold text-gray-900">{quote.totalPrice.toFixed(2)}€</span>
+        </div>
+        <p className="mt-2 text-sm text-blue-600">
+          Maksu palautetaan automaattisesti, jos perut varauksen viimeistään {getCancellationWindowHours(vendor)} tuntia ennen varattua aikaa.
+        </p>
+      </div>
+
+      <CardFields card={card} onChange={setCard} />
+    </div>
+  );
+
   const renderSuccessStep = () => (
     <div className="p-8 text-center">
       <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -612,6 +1088,21 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
       <p className="text-gray-600 mb-4">
         Lähetimme varausvahvistuksen sähköpostiisi. Nähdään pian!
       </p>
+      {requiresPayment && (
+        <p className="text-sm text-gray-600 mb-4">
+          Kortillesi tehtiin {quote.totalPrice.toFixed(2)}€ katevaraus. Summa veloitetaan, kun pesu on tehty.
+        </p>
+      )}
+      {paysOnSite && (
+        <p className="text-sm text-gray-600 mb-4">
+          Maksat {quote.totalPrice.toFixed(2)}€ paikan päällä.
+        </p>
+      )}
+      {billingAccount && (
+        <p className="text-sm text-gray-600 mb-4">
+          Varaus laskutetaan yritykseltä {billingAccount.name}. Rajan ylittävä varaus odottaa pääkäyttäjän hyväksyntää.
+        </p>
+      )}
       <div className="animate-pulse text-sm text-gray-500">
         Sinut ohjataan kojelaudalle...
       </div>
@@ -687,6 +1178,20 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
               </div>
               <span className="ml-2 text-sm">Vahvista</span>
             </div>
+
+            {/* Payment Step (only when something is left to pay) */}
+            {requiresPayment && (
+              <>
+                <div className="flex-1 h-px bg-gray-300 mx-2"></div>
+                <div className={`flex items-center ${currentStep === 'payment' ? 'text-blue-600' : 'text-gray-500'}`}>
+                  <div className={`w-8 h-8 rounded-full flex items-center justify-center border-2
+                    ${currentStep === 'payment' ? 'border-blue-600 bg-blue-50' : 'border-gray-300'}`}>
+                    <CreditCard className="w-4 h-4" />
+                  </div>
+                  <span className="ml-2 text-sm">Maksu</span>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -699,6 +1204,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
           {currentStep === 'details' && renderDetailsStep()}
           {currentStep === 'signup' && renderSignupStep()}
           {currentStep === 'confirm' && renderConfirmStep()}
+          {currentStep === 'payment' && renderPaymentStep()}
             </>
           )}
 
@@ -741,7 +1247,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
               <div></div>
             )}
 
-            {currentStep !== 'confirm' ? (
+            {currentStep !== 'payment' && (currentStep !== 'confirm' || requiresPayment) ? (
               <button
                 onClick={nextStep}
                 disabled={
@@ -770,7 +1276,7 @@ const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, service, v
                 ) : (
                   <>
                     <CreditCard className="h-5 w-5 mr-2" />
-                    Vahvista varaus
+                    {requiresPayment ? `Maksa ${quote.totalPrice.toFixed(2)}€` : 'Vahvista varaus'}
                   </>
                 )}
               </button>
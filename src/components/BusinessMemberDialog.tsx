@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { BusinessMember, BusinessMemberRole } from '../types/database';
+import { addBusinessMember, updateBusinessMember } from '../lib/db';
+import { MEMBER_ROLE_LABELS } from '../lib/business';
+
+interface BusinessMemberDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accountId: string;
+  member?: BusinessMember | null;
+  onMemberSaved: () => void;
+}
+
+const BusinessMemberDialog: React.FC<BusinessMemberDialogProps> = ({
+  isOpen,
+  onClose,
+  accountId,
+  member,
+  onMemberSaved
+}) => {
+  const [formData, setFormData] = useState({
+    email: member?.email || '',
+    role: member?.role || 'driver' as BusinessMemberRole,
+    monthlyLimit: member?.monthlyLimit?.toString() || '',
+    requiresApproval: member?.requiresApproval ?? false
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!member && !formData.email.trim()) {
+      setError('Syötä jäsenen sähköposti');
+      return;
+    }
+    if (formData.monthlyLimit !== '' && Number(formData.monthlyLimit) < 0) {
+      setError('Virheellinen kuukausiraja');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // An empty limit means no limit
+      const settings = {
+        role: formData.role,
+        monthlyLimit: formData.monthlyLimit === '' ? null : Number(formData.monthlyLimit),
+        requiresApproval: formData.requiresApproval
+      };
+
+      if (member) {
+        await updateBusinessMember(accountId, member.userId, settings);
+      } else {
+        await addBusinessMember(accountId, formData.email, settings);
+      }
+
+      onMemberSaved();
+      onClose();
+    } catch (err) {
+      console.error('Error saving member:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Virhe jäsenen tallennuksessa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold">{member ? 'Muokkaa jäsentä' : 'Lisää jäsen'}</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Sähköposti</label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                disabled={!!member}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+                required
+              />
+              {!member && (
+                <p className="mt-1 text-xs text-gray-500">Jäsenellä tulee olla käyttäjätili palvelussa</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Rooli</label>
+              <select
+                value={formData.role}
+                onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as BusinessMemberRole }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {(Object.keys(MEMBER_ROLE_LABELS) as BusinessMemberRole[]).map(role => (
+                  <option key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Pääkäyttäjät hyväksyvät varaukset ja hallitsevat tiliä</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Kuukausiraja (€)</label>
+              <input
+                type="number"
+                value={formData.monthlyLimit}
+                onChange={(e) => setFormData(prev => ({ ...prev, monthlyLimit: e.target.value }))}
+                min="0"
+                step="1"
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Ei rajaa"
+              />
+              <p className="mt-1 text-xs text-gray-500">Rajan ylittävät varaukset odottavat hyväksyntää</p>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                checked={formData.requiresApproval}
+                onChange={(e) => setFormData(prev => ({ ...prev, requiresApproval: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label className="ml-2 block text-sm text-gray-900">
+                Kaikki varaukset vaativat hyväksynnän
+              </label>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-400 p-4">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <X className="h-5 w-5 text-red-400" />
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Peruuta
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                    Tallennetaan...
+                  </>
+                ) : (
+                  'Tallenna'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BusinessMemberDialog;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { X, CalendarX2, Coins, CreditCard } from 'lucide-react';
+import { format } from 'date-fns';
+import { fi } from 'date-fns/locale';
+import type { Appointment, Vendor } from '../types/database';
+import { cancelAppointmentByCustomer } from '../lib/db';
+import { getCancellationDeadline } from '../lib/cancellation';
+import { isRefundable } from '../lib/payments';
+
+interface CancelAppointmentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCancelled: () => void;
+  appointment: Appointment;
+  vendor: Vendor;
+}
+
+const CancelAppointmentDialog: React.FC<CancelAppointmentDialogProps> = ({
+  isOpen,
+  onClose,
+  onCancelled,
+  appointment,
+  vendor
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleCancel = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await cancelAppointmentByCustomer(appointment.id, appointment.customerId);
+      onCancelled();
+    } catch (err) {
+      console.error('Error cancelling appointment:', err);
+      setError(err instanceof Error ? err.message : 'Virhe varauksen perumisessa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-md overflow-hidden">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <h2 className="text-xl font-bold text-gray-900">Peru varaus</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-3 text-sm text-gray-600">
+            <p>
+              Haluatko varmasti perua varauksen {vendor.businessName && `yritykseen ${vendor.businessName} `}
+              {format(appointment.date, "d. MMMM yyyy 'klo' HH:mm", { locale: fi })}?
+            </p>
+            <p>
+              Maksuton peruutus on mahdollinen{' '}
+              {format(getCancellationDeadline(appointment.date, vendor), "d.M.yyyy 'klo' HH:mm", { locale: fi })} asti.
+            </p>
+            {appointment.coinsUsed > 0 && (
+              <p className="flex items-center text-blue-700 bg-blue-50 rounded-lg p-3">
+                <Coins className="w-4 h-4 mr-2 flex-shrink-0" />
+                {appointment.coinsUsed} kolikkoa palautetaan lompakkoosi.
+              </p>
+            )}
+            {appointment.payment && isRefundable(appointment.payment) && (
+              <p className="flex items-center text-blue-700 bg-blue-50 rounded-lg p-3">
+                <CreditCard className="w-4 h-4 mr-2 flex-shrink-0" />
+                Maksu {appointment.payment.amount.toFixed(2)}€ palautetaan kortillesi.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:text-gray-900"
+            >
+              Takaisin
+            </button>
+            <button
+              onClick={handleCancel}
+              disabled={loading}
+              className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              <CalendarX2 className="w-4 h-4 mr-2" />
+              {loading ? 'Perutaan...' : 'Peru varaus'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelAppointmentDialog;
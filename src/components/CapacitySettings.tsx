@@ -0,0 +1,132 @@
+import React from 'react';
+import { Warehouse, Plus, Trash2, User } from 'lucide-react';
+import type { ServiceCategory, VendorResource } from '../types/database';
+
+interface CapacitySettingsProps {
+  resources: VendorResource[];
+  categories: ServiceCategory[];
+  onChange: (resources: VendorResource[]) => void;
+}
+
+const CapacitySettings: React.FC<CapacitySettingsProps> = ({
+  resources,
+  categories,
+  onChange
+}) => {
+  const handleAdd = () => {
+    onChange([
+      ...resources,
+      {
+        id: crypto.randomUUID(),
+        name: `Pesupaikka ${resources.length + 1}`,
+        type: 'bay',
+        categoryIds: []
+      }
+    ]);
+  };
+
+  const handleUpdate = (id: string, data: Partial<VendorResource>) => {
+    onChange(resources.map(resource =>
+      resource.id === id ? { ...resource, ...data } : resource
+    ));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(resources.filter(resource => resource.id !== id));
+  };
+
+  const toggleCategory = (resource: VendorResource, categoryId: string) => {
+    const categoryIds = resource.categoryIds || [];
+    handleUpdate(resource.id, {
+      categoryIds: categoryIds.includes(categoryId)
+        ? categoryIds.filter(id => id !== categoryId)
+        : [...categoryIds, categoryId]
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="p-6 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Warehouse className="h-6 w-6 text-blue-600 mr-2" />
+            <h3 className="text-xl font-semibold">Kapasiteetti</h3>
+          </div>
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Lisää
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          Jokainen pesupaikka tai työntekijä voi palvella yhtä varausta kerrallaan.
+          Jos kategorioita ei ole valittu, resurssi palvelee kaikkia kategorioita.
+        </p>
+      </div>
+
+      <div className="divide-y">
+        {resources.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">
+            Ei määritettyjä resursseja. Varaukset käsitellään yhtenä pesupaikkana.
+          </div>
+        )}
+
+        {resources.map(resource => (
+          <div key={resource.id} className="p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={resource.name}
+                onChange={(e) => handleUpdate(resource.id, { name: e.target.value })}
+                className="flex-1 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <select
+                value={resource.type}
+                onChange={(e) => handleUpdate(resource.id, { type: e.target.value as VendorResource['type'] })}
+                className="rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="bay">Pesupaikka</option>
+                <option value="staff">Työntekijä</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => handleRemove(resource.id)}
+                className="p-2 text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {resource.type === 'staff' && (
+                <User className="w-4 h-4 text-gray-400 self-center" />
+              )}
+              {categories.map(category => {
+                const isSelected = resource.categoryIds?.includes(category.id);
+                return (
+                  <button
+                    key={category.id}
+                    type="button"
+                    onClick={() => toggleCategory(resource, category.id)}
+                    className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                      isSelected
+                        ? 'bg-blue-100 text-blue-800 ring-1 ring-blue-500'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {category.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CapacitySettings;
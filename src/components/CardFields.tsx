@@ -0,0 +1,62 @@
+import React from 'react';
+import type { PaymentCard } from '../lib/payments';
+import { getPaymentProvider, hasPaymentProvider } from '../lib/payments';
+import { MOCK_PROVIDER_ID, MOCK_TEST_CARD } from '../lib/mockPaymentProvider';
+
+interface CardFieldsProps {
+  card: PaymentCard;
+  onChange: (card: PaymentCard) => void;
+}
+
+const CardFields: React.FC<CardFieldsProps> = ({ card, onChange }) => (
+  <div className="space-y-4">
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Kortin numero</label>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="cc-number"
+        value={card.number}
+        onChange={(e) => onChange({ ...card, number: e.target.value })}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        placeholder="1234 5678 9012 3456"
+        required
+      />
+    </div>
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Voimassa</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="cc-exp"
+          value={card.expiry}
+          onChange={(e) => onChange({ ...card, expiry: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          placeholder="KK/VV"
+          required
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Turvakoodi</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="cc-csc"
+          value={card.cvc}
+          onChange={(e) => onChange({ ...card, cvc: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          placeholder="123"
+          required
+        />
+      </div>
+    </div>
+    {hasPaymentProvider() && getPaymentProvider().id === MOCK_PROVIDER_ID && (
+      <p className="text-xs text-gray-500">
+        Testitila: käytä korttia {MOCK_TEST_CARD}, mitä tahansa tulevaa voimassaoloaikaa ja turvakoodia.
+      </p>
+    )}
+  </div>
+);
+
+export default CardFields;
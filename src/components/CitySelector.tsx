@@ -1,34 +1,12 @@
 import React from 'react';
 import { MapPin } from 'lucide-react';
+import { CITIES } from '../lib/cities';
 
 interface CitySelectorProps {
   selectedCity: string;
   onCityChange: (city: string) => void;
 }
 
-const CITIES = [
-  'Helsinki',
-  'Espoo', 
-  'Tampere',
-  'Vantaa',
-  'Oulu',
-  'Turku',
-  'Jyväskylä',
-  'Lahti',
-  'Kuopio',
-  'Pori',
-  'Joensuu',
-  'Lappeenranta',
-  'Hämeenlinna',
-  'Vaasa',
-  'Seinäjoki',
-  'Rovaniemi',
-  'Mikkeli',
-  'Kotka',
-  'Salo',
-  'Porvoo'
-];
-
 const CitySelector: React.FC<CitySelectorProps> = ({ selectedCity, onCityChange }) => {
   return (
     <div className="relative">
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { Percent, Save, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { Vendor } from '../types/database';
+import { getCommissionSettings, updateCommissionSettings } from '../lib/db';
+import { DEFAULT_COMMISSION_SETTINGS, getCategoryKey } from '../lib/payouts';
+import { DEFAULT_CATEGORIES } from '../lib/defaultCategories';
+
+interface CommissionSettingsFormProps {
+  vendors: Vendor[];
+}
+
+interface RateRow {
+  key: string;
+  rate: number;
+}
+
+const toRows = (rates: Record<string, number>): RateRow[] =>
+  Object.entries(rates).map(([key, rate]) => ({ key, rate }));
+
+const toRates = (rows: RateRow[]) =>
+  rows
+    .filter(row => row.key.trim())
+    .reduce((rates, row) => ({ ...rates, [row.key]: row.rate }), {} as Record<string, number>);
+
+const isValidRate = (rate: number) => rate >= 0 && rate <= 100;
+
+const CommissionSettingsForm = ({ vendors }: CommissionSettingsFormProps) => {
+  const [defaultRate, setDefaultRate] = useState(DEFAULT_COMMISSION_SETTINGS.defaultRate);
+  const [categoryRows, setCategoryRows] = useState<RateRow[]>([]);
+  const [vendorRows, setVendorRows] = useState<RateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const settings = await getCommissionSettings();
+        setDefaultRate(settings.defaultRate);
+        setCategoryRows(toRows(settings.categoryRates));
+        setVendorRows(toRows(settings.vendorRates));
+      } catch (err) {
+        console.error('Error loading commission settings:', err);
+        setError('Virhe asetusten latauksessa');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    const rows = [...categoryRows, ...vendorRows];
+    if (!isValidRate(defaultRate) || rows.some(row => !isValidRate(row.rate))) {
+      setError('Palvelumaksun tulee olla 0–100 %');
+      return;
+    }
+    if (vendorRows.some(row => !row.key)) {
+      setError('Valitse yritys jokaiselle yrityskohtaiselle maksulle');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await updateCommissionSettings({
+        defaultRate,
+        categoryRates: toRates(categoryRows.map(row => ({ ...row, key: getCategoryKey(row.key) }))),
+        vendorRates: toRates(vendorRows)
+      });
+      setSuccess('Asetukset tallennettu');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      console.error('Error saving commission settings:', err);
+      setError('Virhe asetusten tallennuksessa');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const renderRateInput = (rate: number, onChange: (rate: number) => void) => (
+    <input
+      type="number"
+      min="0"
+      max="100"
+      step="0.5"
+      value={rate}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="block w-24 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center mb-6">
+        <Percent className="h-6 w-6 text-blue-600 mr-2" />
+        <h2 className="text-xl font-semibold">Palvelumaksut</h2>
+      </div>
+
+      <div className="mb-6 max-w-xs">
+        <label className="block text-sm font-medium text-gray-700">Oletusmaksu (%)</label>
+        <div className="mt-1">{renderRateInput(defaultRate, setDefaultRate)}</div>
+        <p className="mt-1 text-xs text-gray-500">Muutos koskee tämän jälkeen valmistuvia pesuja</p>
+      </div>
+
+      <h3 className="text-lg font-medium mb-2">Kategoriakohtaiset</h3>
+      <p className="text-sm text-gray-500 mb-4">Kategoria tunnistetaan nimestä, esim. {DEFAULT_CATEGORIES.map(category => category.name).join(', ')}.</p>
+      <div className="space-y-2 mb-4">
+        {categoryRows.map((row, index) => (
+          <div key={index} className="flex items-center space-x-3">
+            <input
+              type="text"
+              value={row.key}
+              onChange={(e) => setCategoryRows(prev => prev.map((r, i) => i === index ? { ...r, key: e.target.value } : r))}
+              list="commission-categories"
+              className="block w-full max-w-xs rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder="Kategorian nimi"
+            />
+            {renderRateInput(row.rate, rate => setCategoryRows(prev => prev.map((r, i) => i === index ? { ...r, rate } : r)))}
+            <button
+              type="button"
+              onClick={() => setCategoryRows(prev => prev.filter((_, i) => i !== index))}
+              className="p-2 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <datalist id="commission-categories">
+          {DEFAULT_CATEGORIES.map(category => (
+            <option key={category.name} value={category.name} />
+          ))}
+        </datalist>
+      </div>
+      <button
+        type="button"
+        onClick={() => setCategoryRows(prev => [...prev, { key: '', rate: defaultRate }])}
+        className="flex items-center text-sm text-blue-600 hover:text-blue-800 mb-6"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Lisää kategoria
+      </button>
+
+      <h3 className="text-lg font-medium mb-2">Yrityskohtaiset</h3>
+      <p className="text-sm text-gray-500 mb-4">Yrityksen oma maksu ohittaa kategorian maksun.</p>
+      <div className="space-y-2 mb-4">
+        {vendorRows.map((row, index) => (
+          <div key={index} className="flex items-center space-x-3">
+            <select
+              value={row.key}
+              onChange={(e) => setVendorRows(prev => prev.map((r, i) => i === index ? { ...r, key: e.target.value } : r))}
+              className="block w-full max-w-xs rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">Valitse yritys</option>
+              {vendors.map(vendor => (
+                <option key={vendor.id} value={vendor.id}>{vendor.businessName}</option>
+              ))}
+            </select>
+            {renderRateInput(row.rate, rate => setVendorRows(prev => prev.map((r, i) => i === index ? { ...r, rate } : r)))}
+            <button
+              type="button"
+              onClick={() => setVendorRows(prev => prev.filter((_, i) => i !== index))}
+              className="p-2 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => setVendorRows(prev => [...prev, { key: '', rate: defaultRate }])}
+        className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Lisää yritys
+      </button>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="mt-4 bg-green-50 border-l-4 border-green-400 p-4">
+          <p className="text-sm text-green-700">{success}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-6">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Tallenna asetukset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CommissionSettingsForm;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { User, Coins, Calendar, LogOut } from 'lucide-react';
+import { User, Coins, Calendar, Package, LogOut } from 'lucide-react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -21,6 +21,12 @@ const MENU_ITEMS = [
     label: 'Varaukset',
     icon: <Calendar className="w-5 h-5" />,
     path: '/customer/appointments'
+  },
+  {
+    id: 'packages',
+    label: 'Paketit',
+    icon: <Package className="w-5 h-5" />,
+    path: '/customer/packages'
   }
 ];
 
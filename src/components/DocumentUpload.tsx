@@ -0,0 +1,118 @@
+import React, { useState, useRef } from 'react';
+import { Upload, X, FileText, Loader2, CheckCircle } from 'lucide-react';
+import { storage } from '../lib/firebase';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { v4 as uuidv4 } from 'uuid';
+import type { VerificationDocument, VerificationDocumentType } from '../types/database';
+
+interface DocumentUploadProps {
+  vendorId: string;
+  type: VerificationDocumentType;
+  label: string;
+  required: boolean;
+  document?: VerificationDocument;
+  disabled?: boolean;
+  onDocumentUploaded: (document: VerificationDocument) => void;
+}
+
+const DocumentUpload: React.FC<DocumentUploadProps> = ({ vendorId, type, label, required, document, disabled, onDocumentUploaded }) => {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // Validate file type
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      setError('Vain PDF- ja kuvatiedostot ovat sallittuja');
+      return;
+    }
+
+    // Validate file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      setError('Tiedoston maksimikoko on 10MB');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const fileExtension = file.name.split('.').pop();
+      const storageRef = ref(storage, `vendor_documents/${vendorId}/${type}_${uuidv4()}.${fileExtension}`);
+
+      await uploadBytes(storageRef, file);
+      const downloadUrl = await getDownloadURL(storageRef);
+
+      onDocumentUploaded({ type, url: downloadUrl, fileName: file.name, uploadedAt: new Date() });
+    } catch (err) {
+      console.error('Error uploading document:', err);
+      setError('Virhe tiedoston latauksessa');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleClick = () => {
+    if (!disabled && !uploading) {
+      fileInputRef.current?.click();
+    }
+  };
+
+  return (
+    <div>
+      <div
+        onClick={handleClick}
+        className={`
+          border-2 border-dashed rounded-lg p-4 flex items-center justify-between
+          ${document ? 'border-green-300 bg-green-50' : 'border-gray-300'}
+          ${disabled ? 'opacity-60 cursor-not-allowed' : 'hover:border-blue-500 cursor-pointer'}
+          transition-colors
+        `}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,application/pdf"
+          onChange={handleFileSelect}
+          className="hidden"
+          disabled={disabled || uploading}
+        />
+        <div className="flex items-center min-w-0">
+          {document ? (
+            <CheckCircle className="h-6 w-6 text-green-600 mr-3 flex-shrink-0" />
+          ) : (
+            <FileText className="h-6 w-6 text-gray-400 mr-3 flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900">
+              {label}{required && <span className="text-red-500"> *</span>}
+            </p>
+            <p className="text-xs text-gray-500 truncate">
+              {document ? document.fileName : 'PDF tai kuva, enintään 10MB'}
+            </p>
+          </div>
+        </div>
+        {uploading ? (
+          <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />
+        ) : !disabled && (
+          <span className="flex items-center text-sm text-blue-600">
+            <Upload className="h-4 w-4 mr-1" />
+            {document ? 'Vaihda' : 'Lataa'}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-1 text-sm text-red-600 flex items-center">
+          <X className="h-4 w-4 mr-1" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentUpload;
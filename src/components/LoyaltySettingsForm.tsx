@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react';
+import { Award, Save, Loader2 } from 'lucide-react';
+import type { LoyaltySettings, LoyaltyTier } from '../types/database';
+import { getLoyaltySettings, updateLoyaltySettings } from '../lib/db';
+import { DEFAULT_LOYALTY_SETTINGS } from '../lib/loyalty';
+
+const validateSettings = (settings: LoyaltySettings) => {
+  if (settings.coinExpiryMonths < 0 || settings.expiryWarningDays < 0) {
+    return 'Voimassaoloaika ja muistutusaika eivät voi olla negatiivisia';
+  }
+  if (settings.tiers.some(tier => !tier.name.trim())) {
+    return 'Anna jokaiselle tasolle nimi';
+  }
+  if (settings.tiers.some(tier => tier.multiplier < 1)) {
+    return 'Kerroin ei voi olla pienempi kuin 1';
+  }
+  if (settings.tiers.some(tier => tier.minCompleted < 0 || tier.minSpend < 0)) {
+    return 'Tasojen rajat eivät voi olla negatiivisia';
+  }
+
+  // Tiers rank by multiplier; the lowest is where every customer starts
+  const tiers = [...settings.tiers].sort((a, b) => a.multiplier - b.multiplier);
+  if (new Set(tiers.map(tier => tier.multiplier)).size !== tiers.length) {
+    return 'Jokaisella tasolla tulee olla eri kerroin';
+  }
+  if (tiers.slice(1).some(tier => tier.minCompleted === 0 && tier.minSpend === 0)) {
+    return 'Anna jokaiselle ylemmälle tasolle pesujen määrä tai ostojen summa';
+  }
+  // A threshold of 0 leaves the criterion unused
+  const isIncreasing = (key: 'minCompleted' | 'minSpend') => tiers.every((tier, index) =>
+    tier[key] === 0 || tiers.slice(0, index).every(lower => tier[key] > lower[key]));
+  if (!isIncreasing('minCompleted') || !isIncreasing('minSpend')) {
+    return 'Ylemmän tason rajojen tulee olla suurempia kuin alempien tasojen';
+  }
+  if (settings.referrerReward < 0 || settings.referredReward < 0) {
+    return 'Suosittelupalkkiot eivät voi olla negatiivisia';
+  }
+  return null;
+};
+
+const LoyaltySettingsForm = () => {
+  const [settings, setSettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        setSettings(await getLoyaltySettings());
+      } catch (err) {
+        console.error('Error loading loyalty settings:', err);
+        setError('Virhe asetusten latauksessa');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const handleTierChange = (id: string, changes: Partial<LoyaltyTier>) => {
+    setSettings(prev => ({
+      ...prev,
+      tiers: prev.tiers.map(tier => tier.id === id ? { ...tier, ...changes } : tier)
+    }));
+  };
+
+  const handleSave = async () => {
+    const validationError = validateSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await updateLoyaltySettings(settings);
+      setSuccess('Asetukset tallennettu');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      console.error('Error saving loyalty settings:', err);
+      setError('Virhe asetusten tallennuksessa');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center mb-6">
+        <Award className="h-6 w-6 text-blue-600 mr-2" />
+        <h2 className="text-xl font-semibold">Kolikot ja kanta-asiakastasot</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Kolikoiden voimassaolo (kuukautta)
+          </label>
+          <input
+            type="number"
+            min="0"
+            value={settings.coinExpiryMonths}
+            onChange={(e) => setSettings(prev => ({ ...prev, coinExpiryMonths: parseInt(e.target.value) || 0 }))}
+            className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">0 = kolikot eivät vanhene</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Muistutus ennen vanhenemista (päivää)
+          </label>
+          <input
+            type="number"
+            min="0"
+            value={settings.expiryWarningDays}
+            onChange={(e) => setSettings(prev => ({ ...prev, expiryWarningDays: parseInt(e.target.value) || 0 }))}
+            className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <h3 className="text-lg font-medium mb-2">Suosittelu</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Palkkiot maksetaan, kun suositellun asiakkaan ensimmäinen pesu on valmis. Muutos koskee uusia suosituksia.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Suosittelijan palkkio (kolikkoa)</label>
+          <input
+            type="number"
+            min="0"
+            value={settings.referrerReward}
+            onChange={(e) => setSettings(prev => ({ ...prev, referrerReward: parseInt(e.target.value) || 0 }))}
+            className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Uuden asiakkaan bonus (kolikkoa)</label>
+          <input
+            type="number"
+            min="0"
+            value={settings.referredReward}
+            onChange={(e) => setSettings(prev => ({ ...prev, referredReward: parseInt(e.target.value) || 0 }))}
+            className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <h3 className="text-lg font-medium mb-2">Tasot</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Alin taso on kaikkien asiakkaiden lähtötaso. Ylemmät tasot saavutetaan joko pesujen määrällä tai ostojen summalla; raja 0 jättää ehdon käyttämättä. Kerroin kasvattaa pesuista ansaittavia kolikoita.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Nimi</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pesuja</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ostot (€)</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Kerroin</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {settings.tiers.map(tier => (
+              <tr key={tier.id}>
+                <td className="px-4 py-2">
+                  <input
+                    type="text"
+                    value={tier.name}
+                    onChange={(e) => handleTierChange(tier.id, { name: e.target.value })}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={tier.minCompleted}
+                    onChange={(e) => handleTierChange(tier.id, { minCompleted: parseInt(e.target.value) || 0 })}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={tier.minSpend}
+                    onChange={(e) => handleTierChange(tier.id, { minSpend: parseFloat(e.target.value) || 0 })}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.05"
+                    value={tier.multiplier}
+                    onChange={(e) => handleTierChange(tier.id, { multiplier: parseFloat(e.target.value) || 1 })}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="mt-4 bg-green-50 border-l-4 border-green-400 p-4">
+          <p className="text-sm text-green-700">{success}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-6">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Tallenna asetukset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LoyaltySettingsForm;
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Car, Search, User, LogIn, LogOut, Tag, X, Store, Package, Coins, Calendar } from 'lucide-react';
+import { Car, Search, User, LogIn, LogOut, Tag, X, Store, Package, Coins, Calendar, Truck } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { getUser } from '../lib/db';
 import SearchPopup from './SearchPopup';
@@ -144,6 +144,16 @@ const MobileNav = () => {
                   <Calendar className="w-5 h-5 mr-3 text-gray-400" />
                   Varaukset
                 </button>
+                <button 
+                  onClick={() => {
+                    navigate('/customer/packages');
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left p-3 hover:bg-gray-50 rounded-lg flex items-center"
+                >
+                  <Package className="w-5 h-5 mr-3 text-gray-400" />
+                  Paketit
+                </button>
               </>
             )}
 
@@ -173,6 +183,32 @@ const MobileNav = () => {
               </>
             )}
 
+            {/* Business Customer Options */}
+            {userRole === 'business' && (
+              <>
+                <button 
+                  onClick={() => {
+                    navigate('/business-dashboard');
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left p-3 hover:bg-gray-50 rounded-lg flex items-center"
+                >
+                  <Truck className="w-5 h-5 mr-3 text-gray-400" />
+                  Yritystili
+                </button>
+                <button 
+                  onClick={() => {
+                    navigate('/customer/appointments');
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left p-3 hover:bg-gray-50 rounded-lg flex items-center"
+                >
+                  <Calendar className="w-5 h-5 mr-3 text-gray-400" />
+                  Varaukset
+                </button>
+              </>
+            )}
+
             {/* Admin Options */}
             {userRole === 'admin' && (
               <button 
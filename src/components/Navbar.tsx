@@ -2,7 +2,7 @@ import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { getUser } from '../lib/db';
-import { Car, LogOut, Menu, X, User, Store, Package, Tag, Coins, Calendar } from 'lucide-react';
+import { Car, LogOut, Menu, X, User, Store, Package, Tag, Coins, Calendar, Truck } from 'lucide-react';
 
 const Navbar = () => {
   const { currentUser, logout } = useAuth();
@@ -74,6 +74,14 @@ const Navbar = () => {
               <Calendar className="w-5 h-5 mr-3 text-gray-400" />
               Varaukset
             </Link>
+            <Link
+              to="/customer/packages"
+              className="flex items-center px-4 py-2 text-gray-700 hover:bg-gray-50"
+              onClick={() => setIsAvatarMenuOpen(false)}
+            >
+              <Package className="w-5 h-5 mr-3 text-gray-400" />
+              Paketit
+            </Link>
           </>
         );
       case 'vendor':
@@ -97,6 +105,27 @@ const Navbar = () => {
             </Link>
           </>
         );
+      case 'business':
+        return (
+          <>
+            <Link
+              to="/business-dashboard"
+              className="flex items-center px-4 py-2 text-gray-700 hover:bg-gray-50"
+              onClick={() => setIsAvatarMenuOpen(false)}
+            >
+              <Truck className="w-5 h-5 mr-3 text-gray-400" />
+              Yritystili
+            </Link>
+            <Link
+              to="/customer/appointments"
+              className="flex items-center px-4 py-2 text-gray-700 hover:bg-gray-50"
+              onClick={() => setIsAvatarMenuOpen(false)}
+            >
+              <Calendar className="w-5 h-5 mr-3 text-gray-400" />
+              Varaukset
+            </Link>
+          </>
+        );
       case 'admin':
         return (
           <Link
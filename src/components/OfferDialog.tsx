@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { X, Loader2, Calendar, Clock, Percent } from 'lucide-react';
-import type { Offer, Service } from '../types/database';
+import type { Offer, Service, Weekday } from '../types/database';
 import { createOffer, updateOffer } from '../lib/db';
+import { WEEKDAYS } from '../lib/operatingHours';
 
 interface OfferDialogProps {
   isOpen: boolean;
@@ -27,7 +28,11 @@ const OfferDialog: React.FC<OfferDialogProps> = ({
     discountPercentage: offer?.discountPercentage || 10,
     startDate: offer?.startDate ? new Date(offer.startDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
     endDate: offer?.endDate ? new Date(offer.endDate).toISOString().split('T')[0] : '',
-    active: offer?.active ?? true
+    active: offer?.active ?? true,
+    scheduled: !!offer?.schedule,
+    weekdays: offer?.schedule?.weekdays || ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] as Weekday[],
+    startTime: offer?.schedule?.startTime || '08:00',
+    endTime: offer?.schedule?.endTime || '11:00'
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -41,17 +46,27 @@ const OfferDialog: React.FC<OfferDialogProps> = ({
       setError('Täytä kaikki kentät');
       return;
     }
+    if (formData.scheduled && formData.weekdays.length === 0) {
+      setError('Valitse vähintään yksi viikonpäivä');
+      return;
+    }
+    if (formData.scheduled && formData.endTime <= formData.startTime) {
+      setError('Päättymisajan tulee olla alkamisajan jälkeen');
+      return;
+    }
 
     try {
       setLoading(true);
       setError(null);
 
+      const { scheduled, weekdays, startTime, endTime, ...fields } = formData;
       const offerData = {
-        ...formData,
+        ...fields,
         vendorId,
         startDate: new Date(formData.startDate),
         endDate: new Date(formData.endDate),
-        discountPercentage: Number(formData.discountPercentage)
+        discountPercentage: Number(formData.discountPercentage),
+        schedule: scheduled ? { weekdays, startTime, endTime } : null
       };
 
       if (offer) {
@@ -72,7 +87,7 @@ const OfferDialog: React.FC<OfferDialogProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-xl w-full max-w-lg overflow-hidden">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-bold">{offer ? 'Muokkaa tarjousta' : 'Uusi tarjous'}</h2>
@@ -164,6 +179,67 @@ const OfferDialog: React.FC<OfferDialogProps> = ({
               </div>
             </div>
 
+            <div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.scheduled}
+                  onChange={(e) => setFormData(prev => ({ ...prev, scheduled: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label className="ml-2 block text-sm text-gray-900">
+                  Voimassa vain tiettyinä aikoina (esim. arkiaamut)
+                </label>
+              </div>
+              {formData.scheduled && (
+                <div className="mt-3 space-y-3 bg-gray-50 p-4 rounded-lg">
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAYS.map(day => {
+                      const selected = formData.weekdays.includes(day.id);
+                      return (
+                        <button
+                          key={day.id}
+                          type="button"
+                          onClick={() => setFormData(prev => ({
+                            ...prev,
+                            weekdays: selected
+                              ? prev.weekdays.filter(weekday => weekday !== day.id)
+                              : [...prev.weekdays, day.id]
+                          }))}
+                          className={`px-3 py-1 rounded-full text-sm font-medium ${
+                            selected ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700'
+                          }`}
+                        >
+                          {day.label.slice(0, 2)}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Klo alkaen</label>
+                      <input
+                        type="time"
+                        value={formData.startTime}
+                        onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                        className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Klo asti</label>
+                      <input
+                        type="time"
+                        value={formData.endTime}
+                        onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                        className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">Alennus koskee varauksia, jotka alkavat valittuna aikana.</p>
+                </div>
+              )}
+            </div>
+
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { CalendarX, Plus, Trash2, Flag } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { OpeningException } from '../types/database';
+import { getFinnishHolidays } from '../lib/holidays';
+
+interface OpeningExceptionsProps {
+  exceptions: OpeningException[];
+  onChange: (exceptions: OpeningException[]) => void;
+}
+
+const EMPTY_FORM = {
+  startDate: '',
+  endDate: '',
+  closed: true,
+  open: '09:00',
+  close: '17:00',
+  reason: ''
+};
+
+const formatRange = (exception: OpeningException) => {
+  const start = format(parseISO(exception.startDate), 'd.M.yyyy');
+  if (exception.startDate === exception.endDate) return start;
+  return `${start} – ${format(parseISO(exception.endDate), 'd.M.yyyy')}`;
+};
+
+const OpeningExceptions: React.FC<OpeningExceptionsProps> = ({
+  exceptions,
+  onChange
+}) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [holidayYear, setHolidayYear] = useState(new Date().getFullYear());
+
+  const sortedExceptions = [...exceptions].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const handleAdd = () => {
+    const endDate = formData.endDate || formData.startDate;
+
+    if (!formData.startDate || !formData.reason.trim()) {
+      setError('Anna päivämäärä ja syy');
+      return;
+    }
+    if (endDate < formData.startDate) {
+      setError('Loppupäivä ei voi olla ennen alkupäivää');
+      return;
+    }
+    if (!formData.closed && formData.close <= formData.open) {
+      setError('Sulkemisajan tulee olla avaamisajan jälkeen');
+      return;
+    }
+
+    setError(null);
+    onChange([
+      ...exceptions,
+      {
+        id: crypto.randomUUID(),
+        startDate: formData.startDate,
+        endDate,
+        closed: formData.closed,
+        ...(formData.closed ? {} : { open: formData.open, close: formData.close }),
+        reason: formData.reason.trim()
+      }
+    ]);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleAddHolidays = () => {
+    const holidays = getFinnishHolidays(holidayYear).filter(holiday =>
+      !exceptions.some(exception => exception.startDate === holiday.date)
+    );
+
+    onChange([
+      ...exceptions,
+      ...holidays.map(holiday => ({
+        id: crypto.randomUUID(),
+        startDate: holiday.date,
+        endDate: holiday.date,
+        closed: true,
+        reason: holiday.name
+      }))
+    ]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(exceptions.filter(exception => exception.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="p-6 border-b">
+        <div className="flex items-center mb-2">
+          <CalendarX className="h-6 w-6 text-blue-600 mr-2" />
+          <h3 className="text-xl font-semibold">Poikkeusaukioloajat</h3>
+        </div>
+        <p className="text-sm text-gray-500">
+          Pyhäpäivät, lomat ja muut päivät, jolloin aukioloajat poikkeavat viikkoaikataulusta.
+        </p>
+
+        <div className="mt-4 flex items-center gap-2">
+          <select
+            value={holidayYear}
+            onChange={(e) => setHolidayYear(parseInt(e.target.value))}
+            className="rounded-lg border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {[0, 1].map(offset => {
+              const year = new Date().getFullYear() + offset;
+              return <option key={year} value={year}>{year}</option>;
+            })}
+          </select>
+          <button
+            type="button"
+            onClick={handleAddHolidays}
+            className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200"
+          >
+            <Flag className="w-4 h-4 mr-1.5" />
+            Lisää Suomen pyhäpäivät
+          </button>
+        </div>
+      </div>
+
+      {/* Add form */}
+      <div className="p-4 border-b bg-gray-50 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600">Alkaen</label>
+            <input
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+              className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600">Päättyen</label>
+            <input
+              type="date"
+              value={formData.endDate}
+              min={formData.startDate}
+              onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+              className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600">Syy</label>
+            <input
+              type="text"
+              value={formData.reason}
+              onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+              className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              placeholder="Esim. Remontti"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.closed}
+              onChange={(e) => setFormData(prev => ({ ...prev, closed: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 mr-2"
+            />
+            Suljettu
+          </label>
+          {!formData.closed && (
+            <>
+              <input
+                type="time"
+                value={formData.open}
+                onChange={(e) => setFormData(prev => ({ ...prev, open: e.target.value }))}
+                className="rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="time"
+                value={formData.close}
+                onChange={(e) => setFormData(prev => ({ ...prev, close: e.target.value }))}
+                className="rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </>
+          )}
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="ml-auto flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Lisää poikkeus
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {/* Exception list */}
+      <div className="divide-y">
+        {sortedExceptions.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">Ei poikkeusaukioloaikoja</div>
+        )}
+        {sortedExceptions.map(exception => (
+          <div key={exception.id} className="p-4 flex items-center justify-between hover:bg-gray-50">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{exception.reason}</p>
+              <p className="text-sm text-gray-500">
+                {formatRange(exception)} ·{' '}
+                {exception.closed ? (
+                  <span className="text-red-600">Suljettu</span>
+                ) : (
+                  <span className="text-emerald-600">{exception.open} – {exception.close}</span>
+                )}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRemove(exception.id)}
+              className="p-2 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OpeningExceptions;
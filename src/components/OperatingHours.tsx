@@ -1,26 +1,26 @@
 import React from 'react';
-import { Clock, Clock3, Sun, Moon, Ban, Clock2 as Clock24 } from 'lucide-react';
-import type { Vendor } from '../types/database';
-
-const DAYS = [
-  { id: 'monday', label: 'Maanantai' },
-  { id: 'tuesday', label: 'Tiistai' },
-  { id: 'wednesday', label: 'Keskiviikko' },
-  { id: 'thursday', label: 'Torstai' },
-  { id: 'friday', label: 'Perjantai' },
-  { id: 'saturday', label: 'Lauantai' },
-  { id: 'sunday', label: 'Sunnuntai' }
-];
-
-type OperatingStatus = 'open' | 'closed' | '24h';
+import { Clock, Clock3, Sun, Moon, Ban, Plus, X, Clock2 as Clock24 } from 'lucide-react';
+import type { Vendor, Weekday, OpeningInterval } from '../types/database';
+import { WEEKDAYS, DEFAULT_INTERVAL } from '../lib/operatingHours';
+import type { OperatingStatus } from '../lib/operatingHours';
+import { minutesToTime, timeToMinutes } from '../lib/availability';
 
 interface OperatingHoursProps {
   operatingHours: Vendor['operatingHours'];
   dayStatus: Record<string, OperatingStatus>;
-  onStatusChange: (day: string, status: OperatingStatus) => void;
-  onHoursChange: (day: string, type: 'open' | 'close', value: string) => void;
+  onStatusChange: (day: Weekday, status: OperatingStatus) => void;
+  onHoursChange: (day: Weekday, intervals: OpeningInterval[]) => void;
 }
 
+// Suggest the next shift an hour after the previous one closes
+const getNextInterval = (intervals: OpeningInterval[]): OpeningInterval => {
+  const last = intervals[intervals.length - 1];
+  if (!last) return DEFAULT_INTERVAL;
+
+  const open = Math.min(timeToMinutes(last.close) + 60, 23 * 60);
+  return { open: minutesToTime(open), close: minutesToTime(Math.min(open + 4 * 60, 23 * 60 + 59)) };
+};
+
 const OperatingHours: React.FC<OperatingHoursProps> = ({
   operatingHours,
   dayStatus,
@@ -55,7 +55,7 @@ const OperatingHours: React.FC<OperatingHoursProps> = ({
 
       {/* Operating Hours Grid */}
       <div className="divide-y">
-        {DAYS.map(day => (
+        {WEEKDAYS.map(day => (
           <div key={day.id} className="p-4 hover:bg-gray-50 transition-colors">
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-center">
               <div className="flex items-center">
@@ -104,29 +104,64 @@ const OperatingHours: React.FC<OperatingHoursProps> = ({
 
               {/* Time Inputs */}
               {dayStatus[day.id] === 'open' && (
-                <div className="col-span-2 flex space-x-4">
-                  <div className="flex-1">
-                    <div className="relative">
-                      <Sun className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                      <input
-                        type="time"
-                        value={operatingHours[day.id]?.open || '09:00'}
-                        onChange={(e) => onHoursChange(day.id, 'open', e.target.value)}
-                        className="block w-full pl-10 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                      />
-                    </div>
-                  </div>
-                  <div className="flex-1">
-                    <div className="relative">
-                      <Moon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                      <input
-                        type="time"
-                        value={operatingHours[day.id]?.close || '17:00'}
-                        onChange={(e) => onHoursChange(day.id, 'close', e.target.value)}
-                        className="block w-full pl-10 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                      />
-                    </div>
-                  </div>
+                <div className="col-span-2 space-y-2">
+                  {(operatingHours[day.id]?.length ? operatingHours[day.id] : [DEFAULT_INTERVAL]).map((interval, index, intervals) => {
+                    const updateInterval = (type: 'open' | 'close', value: string) => {
+                      onHoursChange(day.id, intervals.map((item, i) =>
+                        i === index ? { ...item, [type]: value } : item
+                      ));
+                    };
+
+                    return (
+                      <div key={index} className="flex items-center space-x-4">
+                        <div className="flex-1">
+                          <div className="relative">
+                            <Sun className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                              type="time"
+                              value={interval.open}
+                              onChange={(e) => updateInterval('open', e.target.value)}
+                              className="block w-full pl-10 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex-1">
+                          <div className="relative">
+                            <Moon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                              type="time"
+                              value={interval.close}
+                              onChange={(e) => updateInterval('close', e.target.value)}
+                              className="block w-full pl-10 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            />
+                          </div>
+                        </div>
+                        {intervals.length > 1 ? (
+                          <button
+                            type="button"
+                            onClick={() => onHoursChange(day.id, intervals.filter((_, i) => i !== index))}
+                            className="p-2 text-gray-400 hover:text-red-600"
+                            title="Poista jakso"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <div className="w-8" />
+                        )}
+                      </div>
+                    );
+                  })}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const intervals = operatingHours[day.id]?.length ? operatingHours[day.id] : [DEFAULT_INTERVAL];
+                      onHoursChange(day.id, [...intervals, getNextInterval(intervals)]);
+                    }}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Lisää jakso (esim. lounastauon jälkeen)
+                  </button>
                 </div>
               )}
               
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { X, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { Service, WashPackage } from '../types/database';
+import { createWashPackage, updateWashPackage } from '../lib/db';
+import { MAX_PACKAGE_ITEMS } from '../lib/packages';
+
+interface PackageDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  washPackage?: WashPackage | null;
+  vendorId: string;
+  services: Service[];
+  onPackageSaved: () => void;
+}
+
+interface ItemRow {
+  serviceId: string;
+  quantity: number;
+}
+
+const PackageDialog: React.FC<PackageDialogProps> = ({
+  isOpen,
+  onClose,
+  washPackage,
+  vendorId,
+  services,
+  onPackageSaved
+}) => {
+  const [formData, setFormData] = useState({
+    name: washPackage?.name || '',
+    description: washPackage?.description || '',
+    price: washPackage?.price || 0,
+    validityDays: washPackage?.validityDays ?? 365,
+    active: washPackage?.active ?? true
+  });
+  const [items, setItems] = useState<ItemRow[]>(
+    washPackage?.items.map(({ serviceId, quantity }) => ({ serviceId, quantity })) ||
+    [{ serviceId: services[0]?.id || '', quantity: 5 }]
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  // Worth of the included washes at normal prices
+  const normalPrice = items.reduce((sum, item) => {
+    const service = services.find(s => s.id === item.serviceId);
+    return sum + (service ? service.price * item.quantity : 0);
+  }, 0);
+
+  const updateItem = (index: number, changes: Partial<ItemRow>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name || items.length === 0) {
+      setError('Täytä kaikki kentät');
+      return;
+    }
+    if (items.some(item => !item.serviceId || item.quantity < 1)) {
+      setError('Tarkista paketin palvelut ja määrät');
+      return;
+    }
+    if (new Set(items.map(item => item.serviceId)).size !== items.length) {
+      setError('Sama palvelu voi olla paketissa vain kerran');
+      return;
+    }
+    if (items.length > MAX_PACKAGE_ITEMS) {
+      setError(`Pakettiin voi lisätä enintään ${MAX_PACKAGE_ITEMS} palvelua`);
+      return;
+    }
+    if (formData.price <= 0) {
+      setError('Virheellinen hinta');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const packageData = {
+        name: formData.name,
+        description: formData.description,
+        price: Number(formData.price),
+        validityDays: Number(formData.validityDays) || 0,
+        active: formData.active,
+        vendorId,
+        items: items.map(item => ({
+          serviceId: item.serviceId,
+          serviceName: services.find(s => s.id === item.serviceId)?.name || '',
+          quantity: Number(item.quantity)
+        }))
+      };
+
+      if (washPackage) {
+        await updateWashPackage(washPackage.id, packageData);
+      } else {
+        await createWashPackage(packageData);
+      }
+
+      onPackageSaved();
+      onClose();
+    } catch (err) {
+      console.error('Error saving package:', err);
+      setError('Virhe paketin tallennuksessa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold">{washPackage ? 'Muokkaa pakettia' : 'Uusi pesupaketti'}</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nimi</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Esim. 5 pesua 4 hinnalla"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Kuvaus</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Kerro paketista tarkemmin"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Paketin sisältö</label>
+              <div className="space-y-2">
+                {items.map((item, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <select
+                      value={item.serviceId}
+                      onChange={(e) => updateItem(index, { serviceId: e.target.value })}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      {services.map(service => (
+                        <option key={service.id} value={service.id}>
+                          {service.name} ({service.price}€)
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                      min="1"
+                      className="block w-20 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                      disabled={items.length === 1}
+                      className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {items.length < Math.min(services.length, MAX_PACKAGE_ITEMS) && (
+                <button
+                  type="button"
+                  onClick={() => setItems(prev => [
+                    ...prev,
+                    { serviceId: services.find(s => !prev.some(item => item.serviceId === s.id))?.id || '', quantity: 1 }
+                  ])}
+                  className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Lisää palvelu
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Hinta (€)</label>
+                <input
+                  type="number"
+                  value={formData.price}
+                  onChange={(e) => setFormData(prev => ({ ...prev, price: Number(e.target.value) }))}
+                  min="0"
+                  step="0.01"
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+                {normalPrice > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">Normaalihinta {normalPrice.toFixed(2)}€</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Voimassa (päivää)</label>
+                <input
+                  type="number"
+                  value={formData.validityDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, validityDays: Number(e.target.value) }))}
+                  min="0"
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">0 = ei vanhene</p>
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                checked={formData.active}
+                onChange={(e) => setFormData(prev => ({ ...prev, active: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label className="ml-2 block text-sm text-gray-900">
+                Paketti on myynnissä
+              </label>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-400 p-4">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <X className="h-5 w-5 text-red-400" />
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Peruuta
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                    Tallennetaan...
+                  </>
+                ) : (
+                  'Tallenna'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PackageDialog;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { X, CreditCard, Loader2, Package } from 'lucide-react';
+import type { WashPackage } from '../types/database';
+import { purchaseWashPackage } from '../lib/db';
+import { getCardError, getPackagePaymentReference, getPaymentProvider } from '../lib/payments';
+import type { PaymentCard } from '../lib/payments';
+import { formatPackageItems } from '../lib/packages';
+import CardFields from './CardFields';
+
+interface PackagePurchaseDialogProps {
+  washPackage: WashPackage;
+  customerId: string;
+  onClose: () => void;
+  onPurchased: (customerPackageId: string) => void;
+}
+
+const PackagePurchaseDialog: React.FC<PackagePurchaseDialogProps> = ({
+  washPackage,
+  customerId,
+  onClose,
+  onPurchased
+}) => {
+  const [card, setCard] = useState<PaymentCard>({ number: '', expiry: '', cvc: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const cardError = getCardError(card);
+    if (cardError) {
+      setError(cardError);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const payment = await getPaymentProvider().authorize({
+        amount: washPackage.price,
+        currency: 'EUR',
+        reference: getPackagePaymentReference(washPackage.id, customerId),
+        card
+      });
+      onPurchased(await purchaseWashPackage(customerId, washPackage.id, payment));
+    } catch (err) {
+      console.error('Error purchasing package:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Paketin osto epäonnistui');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-semibold flex items-center">
+              <Package className="w-5 h-5 mr-2 text-blue-600" />
+              Osta paketti
+            </h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-4 mb-6">
+            <p className="font-medium text-gray-900">{washPackage.name}</p>
+            <p className="text-sm text-gray-700">{formatPackageItems(washPackage.items)}</p>
+            <p className="mt-2 text-xs text-gray-500">
+              {washPackage.validityDays > 0 ? `Voimassa ${washPackage.validityDays} päivää ostosta` : 'Ei vanhene'}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <CardFields card={card} onChange={setCard} />
+
+            {error && (
+              <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Peruuta
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CreditCard className="w-4 h-4 mr-2" />
+                )}
+                Maksa {washPackage.price.toFixed(2)}€
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PackagePurchaseDialog;
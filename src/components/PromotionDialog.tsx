@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Promotion, ServiceCategory, Vendor } from '../types/database';
+import { createPromotion, updatePromotion, getAllServiceCategories } from '../lib/db';
+import { hasPromotionBudget } from '../lib/pricing';
+import { CITIES } from '../lib/cities';
+
+interface PromotionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  promotion?: Promotion | null;
+  vendors: Vendor[];
+  onPromotionSaved?: () => void;
+}
+
+const DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+interface TargetListProps {
+  label: string;
+  options: { id: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const TargetList: React.FC<TargetListProps> = ({ label, options, selected, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700">
+      {label} <span className="font-normal text-gray-500">({selected.length === 0 ? 'kaikki' : `${selected.length} valittu`})</span>
+    </label>
+    <div className="mt-1 max-h-32 overflow-y-auto border border-gray-300 rounded-lg p-2 space-y-1">
+      {options.length === 0 && <p className="text-sm text-gray-500">Ei vaihtoehtoja</p>}
+      {options.map(option => (
+        <label key={option.id} className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={selected.includes(option.id)}
+            onChange={() => onChange(toggle(selected, option.id))}
+            className="rounded border-gray-300 text-blue-600 mr-2"
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+const PromotionDialog: React.FC<PromotionDialogProps> = ({
+  isOpen,
+  onClose,
+  promotion,
+  vendors,
+  onPromotionSaved
+}) => {
+  const [formData, setFormData] = useState({
+    title: promotion?.title || '',
+    description: promotion?.description || '',
+    bonusCoins: promotion?.bonusCoins || 10,
+    minimumPurchase: promotion?.minimumPurchase ? promotion.minimumPurchase.toString() : '',
+    budgetCoins: promotion?.budgetCoins ? promotion.budgetCoins.toString() : '',
+    startDate: format(promotion?.startDate || new Date(), DATE_TIME_FORMAT),
+    endDate: promotion?.endDate ? format(promotion.endDate, DATE_TIME_FORMAT) : '',
+    cities: promotion?.cities || [],
+    vendorIds: promotion?.vendorIds || [],
+    categoryIds: promotion?.categoryIds || []
+  });
+  const [categories, setCategories] = useState<ServiceCategory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllServiceCategories()
+      .then(setCategories)
+      .catch(err => console.error('Error loading categories:', err));
+  }, []);
+
+  if (!isOpen) return null;
+
+  const vendorNames = Object.fromEntries(vendors.map(vendor => [vendor.id, vendor.businessName]));
+  // With vendors targeted, only their categories can be picked
+  const categoryOptions = categories
+    .filter(category => formData.vendorIds.length === 0 || formData.vendorIds.includes(category.vendorId))
+    .map(category => ({
+      id: category.id,
+      label: `${category.name} · ${vendorNames[category.vendorId] || 'Tuntematon yritys'}`
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.title || !formData.description || !formData.startDate || !formData.endDate) {
+      setError('Täytä kaikki kentät');
+      return;
+    }
+    if (formData.endDate <= formData.startDate) {
+      setError('Päättymisajan tulee olla alkamisajan jälkeen');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Zero means no minimum and no budget cap
+      const promotionData = {
+        title: formData.title,
+        description: formData.description,
+        bonusCoins: Number(formData.bonusCoins),
+        minimumPurchase: Number(formData.minimumPurchase) || 0,
+        budgetCoins: Number(formData.budgetCoins) || 0,
+        startDate: new Date(formData.startDate),
+        endDate: new Date(formData.endDate),
+        cities: formData.cities,
+        vendorIds: formData.vendorIds,
+        // Drop categories of vendors that are no longer targeted
+        categoryIds: categories.length > 0
+          ? formData.categoryIds.filter(id => categoryOptions.some(option => option.id === id))
+          : formData.categoryIds
+      };
+
+      if (promotion) {
+        const restart = !!promotion.stoppedAt &&
+          hasPromotionBudget({ ...promotionData, issuedCoins: promotion.issuedCoins });
+        await updatePromotion(promotion.id, promotionData, restart);
+      } else {
+        await createPromotion(promotionData);
+      }
+
+      onPromotionSaved?.();
+      onClose();
+    } catch (err) {
+      console.error('Error saving promotion:', err);
+      setError('Virhe kampanjan tallennuksessa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold">{promotion ? 'Muokkaa kampanjaa' : 'Uusi kampanja'}</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Otsikko</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Esim. Kevätbonus"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Kuvaus</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={3}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Bonuskolikot</label>
+                <input
+                  type="number"
+                  value={formData.bonusCoins}
+                  onChange={(e) => setFormData(prev => ({ ...prev, bonusCoins: Number(e.target.value) }))}
+                  min="1"
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Vähimmäisostos (€)</label>
+                <input
+                  type="number"
+                  value={formData.minimumPurchase}
+                  onChange={(e) => setFormData(prev => ({ ...prev, minimumPurchase: e.target.value }))}
+                  min="0"
+                  step="0.01"
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Ei rajaa"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Budjetti (kolikkoa)</label>
+              <input
+                type="number"
+                value={formData.budgetCoins}
+                onChange={(e) => setFormData(prev => ({ ...prev, budgetCoins: e.target.value }))}
+                min="0"
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Ei rajaa"
+              />
+              <p className="mt-1 text-xs text-gray-500">Kampanja pysähtyy automaattisesti, kun budjetti on käytetty.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Alkaa</label>
+                <input
+                  type="datetime-local"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Päättyy</label>
+                <input
+                  type="datetime-local"
+                  value={formData.endDate}
+                  min={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <TargetList
+                label="Kaupungit"
+                options={CITIES.map(city => ({ id: city, label: city }))}
+                selected={formData.cities}
+                onChange={(cities) => setFormData(prev => ({ ...prev, cities }))}
+              />
+              <TargetList
+                label="Yritykset"
+                options={vendors.map(vendor => ({ id: vendor.id, label: vendor.businessName }))}
+                selected={formData.vendorIds}
+                onChange={(vendorIds) => setFormData(prev => ({ ...prev, vendorIds }))}
+              />
+              <TargetList
+                label="Palvelukategoriat"
+                options={categoryOptions}
+                selected={formData.categoryIds}
+                onChange={(categoryIds) => setFormData(prev => ({ ...prev, categoryIds }))}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-400 p-4">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <X className="h-5 w-5 text-red-400" />
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Peruuta
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                    Tallennetaan...
+                  </>
+                ) : (
+                  'Tallenna'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromotionDialog;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { X, CalendarClock, Loader2 } from 'lucide-react';
+import { format, addDays, startOfToday, isSameDay } from 'date-fns';
+import { fi } from 'date-fns/locale';
+import type { Appointment, BookedSlot, Service, Vendor } from '../types/database';
+import { getDayBookings, getService, rescheduleAppointment } from '../lib/db';
+import { getAvailableSlots, getOpeningException, hasOpeningFor, timeToMinutes, SlotUnavailableError } from '../lib/availability';
+import { PriceChangedError } from '../lib/pricing';
+
+interface RescheduleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRescheduled: () => void;
+  appointment: Appointment;
+  vendor: Vendor;
+}
+
+const BOOKING_DAYS = 30;
+
+const RescheduleDialog: React.FC<RescheduleDialogProps> = ({
+  isOpen,
+  onClose,
+  onRescheduled,
+  appointment,
+  vendor
+}) => {
+  const [service, setService] = useState<Service | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState('');
+  const [bookings, setBookings] = useState<BookedSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // New price of the selected slot, shown for the customer to accept
+  const [newPrice, setNewPrice] = useState<number | null>(null);
+
+  useEffect(() => {
+    getService(appointment.serviceId).then(setService);
+  }, [appointment.serviceId]);
+
+  useEffect(() => {
+    const loadBookings = async () => {
+      if (!selectedDate) return;
+
+      try {
+        setLoadingSlots(true);
+        const dayBookings = await getDayBookings(vendor.id, selectedDate);
+        // The appointment's own slot is free to move into
+        setBookings(dayBookings.filter(booking => booking.appointmentId !== appointment.id));
+      } catch (err) {
+        console.error('Error loading bookings:', err);
+        setBookings([]);
+      } finally {
+        setLoadingSlots(false);
+      }
+    };
+    loadBookings();
+  }, [selectedDate, vendor.id, appointment.id]);
+
+  if (!isOpen) return null;
+
+  const duration = appointment.duration || service?.duration || 30;
+  const days = Array.from({ length: BOOKING_DAYS }, (_, i) => addDays(startOfToday(), i));
+  const times = selectedDate
+    ? getAvailableSlots(selectedDate, { duration, categoryId: service?.categoryId }, vendor, bookings)
+    : [];
+
+  const handleSubmit = async () => {
+    if (!selectedDate || !selectedTime) {
+      setError('Valitse uusi päivä ja aika');
+      return;
+    }
+
+    const newDate = new Date(selectedDate);
+    const minutes = timeToMinutes(selectedTime);
+    newDate.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+
+    try {
+      setLoading(true);
+      setError(null);
+      await rescheduleAppointment(appointment.id, appointment.customerId, newDate, newPrice ?? undefined);
+      onRescheduled();
+    } catch (err) {
+      console.error('Error rescheduling appointment:', err);
+      if (err instanceof PriceChangedError) {
+        setNewPrice(err.totalPrice);
+        setError(null);
+        return;
+      }
+      if (err instanceof SlotUnavailableError) {
+        setSelectedTime('');
+        const dayBookings = await getDayBookings(vendor.id, selectedDate);
+        setBookings(dayBookings.filter(booking => booking.appointmentId !== appointment.id));
+      }
+      setError(err instanceof Error ? err.message : 'Virhe varauksen siirrossa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg overflow-hidden">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-2">
+            <h2 className="text-xl font-bold text-gray-900">Siirrä varausta</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            Nykyinen aika: {format(appointment.date, "d. MMMM yyyy 'klo' HH:mm", { locale: fi })}
+          </p>
+
+          <div className="flex space-x-2 overflow-x-auto pb-2 mb-4">
+            {days.map(day => {
+              const isSelected = selectedDate && isSameDay(day, selectedDate);
+              const isAvailable = hasOpeningFor(day, duration, vendor);
+
+              return (
+                <button
+                  key={day.toString()}
+                  onClick={() => {
+                    setSelectedDate(day);
+                    setSelectedTime('');
+                    setNewPrice(null);
+                  }}
+                  disabled={!isAvailable}
+                  title={getOpeningException(day, vendor)?.reason}
+                  className={`flex-shrink-0 w-14 py-2 rounded-lg text-center transition-colors ${
+                    isSelected
+                      ? 'bg-blue-600 text-white'
+                      : isAvailable
+                      ? 'bg-gray-50 hover:bg-gray-100'
+                      : 'bg-gray-50 opacity-40 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="text-xs capitalize">{format(day, 'EEEEEE', { locale: fi })}</div>
+                  <div className="font-semibold">{format(day, 'd.M.')}</div>
+                </button>
+              );
+            })}
+          </div>
+
+          {selectedDate && (
+            loadingSlots ? (
+              <div className="py-8 flex justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : times.length === 0 ? (
+              <p className="py-4 text-center text-gray-600">
+                Valitettavasti tälle päivälle ei ole vapaita aikoja.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-56 overflow-y-auto">
+                {times.map(time => (
+                  <button
+                    key={time}
+                    onClick={() => {
+                      setSelectedTime(time);
+                      setNewPrice(null);
+                    }}
+                    className={`p-2 rounded-lg text-center transition-colors ${
+                      time === selectedTime ? 'bg-blue-600 text-white' : 'bg-gray-50 hover:bg-gray-100'
+                    }`}
+                  >
+                    {time}
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+
+          {newPrice !== null && (
+            <div className="mt-4 bg-yellow-50 border-l-4 border-yellow-400 p-4">
+              <p className="text-sm text-yellow-800">
+                Uuden ajan hinta on {newPrice.toFixed(2)}€ (nyt {appointment.totalPrice.toFixed(2)}€).
+                Vahvista siirto uudella hinnalla tai valitse toinen aika.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:text-gray-900"
+            >
+              Peruuta
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={loading || !selectedTime}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <CalendarClock className="w-4 h-4 mr-2" />
+              )}
+              {newPrice !== null ? 'Vahvista uusi aika ja hinta' : 'Vahvista uusi aika'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescheduleDialog;
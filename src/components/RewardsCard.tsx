@@ -1,31 +1,123 @@
-import React, { useState } from 'react';
-import { Coins, ArrowUpRight, ArrowDownRight, Gift, Users, Sparkles } from 'lucide-react';
-import type { Transaction, Promotion } from '../types/database';
-import { format } from 'date-fns';
+import React, { useEffect, useState } from 'react';
+import { Coins, ArrowUpRight, ArrowDownRight, Gift, Users, Sparkles, Loader2, Award, Hourglass, CheckCircle, Clock, Copy, Share2 } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import type { CoinLot, LoyaltySettings, LoyaltyStats, Promotion, Referral, WalletTransaction } from '../types/database';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { format, endOfDay, parseISO } from 'date-fns';
 import { fi } from 'date-fns/locale';
-import { applyReferralCode } from '../lib/db';
+import { applyReferralCode, getLoyaltySettings, getReferral, getReferralsByReferrer, getWalletTransactions } from '../lib/db';
+import type { WalletTransactionFilters } from '../lib/db';
+import { DEFAULT_LOYALTY_SETTINGS, getExpiringLots, getLoyaltyTier, getNextLoyaltyTier, getTierProgress, normalizeLots } from '../lib/loyalty';
 import { useAuth } from '../contexts/AuthContext';
+import { getReferralLink } from '../lib/referrals';
 
 interface RewardsCardProps {
   coins: number;
-  transactions: Transaction[];
+  coinLots?: CoinLot[];
+  loyalty?: LoyaltyStats;
   referralCode?: string;
   referralCount?: number;
+  usedReferralCode?: string;
   activePromotions?: Promotion[];
+  awardedPromotions?: string[];
 }
 
+// Date inputs give yyyy-MM-dd; the end date includes the whole day
+const buildFilters = (type: WalletTransactionFilters['type'] | '', from: string, to: string): WalletTransactionFilters => ({
+  ...(type ? { type } : {}),
+  ...(from ? { from: parseISO(from) } : {}),
+  ...(to ? { to: endOfDay(parseISO(to)) } : {})
+});
+
 const RewardsCard: React.FC<RewardsCardProps> = ({ 
   coins, 
-  transactions, 
+  coinLots = [],
+  loyalty = { completedCount: 0, totalSpend: 0 },
   referralCode,
   referralCount = 0,
-  activePromotions = []
+  usedReferralCode,
+  activePromotions = [],
+  awardedPromotions = []
 }) => {
   const { currentUser } = useAuth();
   const [referralInput, setReferralInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [loadingTransactions, setLoadingTransactions] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<WalletTransactionFilters['type'] | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [ownReferral, setOwnReferral] = useState<Referral | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const isFiltered = !!(typeFilter || fromDate || toDate);
+  const tier = getLoyaltyTier(loyalty, loyaltySettings);
+  const nextTier = getNextLoyaltyTier(loyalty, loyaltySettings);
+  const expiringLots = getExpiringLots(normalizeLots(coinLots), loyaltySettings);
+
+  useEffect(() => {
+    getLoyaltySettings()
+      .then(setLoyaltySettings)
+      .catch(err => console.error('Error loading loyalty settings:', err));
+  }, []);
+
+  useEffect(() => {
+    const loadReferrals = async () => {
+      if (!currentUser) return;
+
+      try {
+        const [referralsData, ownReferralData] = await Promise.all([
+          getReferralsByReferrer(currentUser.uid),
+          getReferral(currentUser.uid)
+        ]);
+        setReferrals(referralsData);
+        setOwnReferral(ownReferralData);
+      } catch (err) {
+        console.error('Error loading referrals:', err);
+      }
+    };
+    loadReferrals();
+  }, [currentUser]);
+
+  useEffect(() => {
+    const loadTransactions = async () => {
+      if (!currentUser) return;
+
+      try {
+        setLoadingTransactions(true);
+        const page = await getWalletTransactions(currentUser.uid, buildFilters(typeFilter, fromDate, toDate));
+        setTransactions(page.transactions);
+        setCursor(page.cursor);
+      } catch (err) {
+        console.error('Error loading transactions:', err);
+        setTransactions([]);
+        setCursor(null);
+      } finally {
+        setLoadingTransactions(false);
+      }
+    };
+    loadTransactions();
+  }, [currentUser, typeFilter, fromDate, toDate, coins]);
+
+  const handleLoadMore = async () => {
+    if (!currentUser || !cursor) return;
+
+    try {
+      setLoadingTransactions(true);
+      const page = await getWalletTransactions(currentUser.uid, buildFilters(typeFilter, fromDate, toDate), cursor);
+      setTransactions(prev => [...prev, ...page.transactions]);
+      setCursor(page.cursor);
+    } catch (err) {
+      console.error('Error loading transactions:', err);
+    } finally {
+      setLoadingTransactions(false);
+    }
+  };
 
   const handleReferralSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,8 +127,9 @@ const RewardsCard: React.FC<RewardsCardProps> = ({
       setLoading(true);
       setError(null);
       await applyReferralCode(currentUser.uid, referralInput.trim());
-      setSuccess('Suosituskoodi käytetty onnistuneesti!');
+      setSuccess('Suosituskoodi käytetty! Bonus maksetaan, kun ensimmäinen pesusi on valmis.');
       setReferralInput('');
+      setOwnReferral(await getReferral(currentUser.uid));
     } catch (err: any) {
       setError(err.message || 'Virhe suosituskoodin käytössä');
     } finally {
@@ -44,6 +137,38 @@ const RewardsCard: React.FC<RewardsCardProps> = ({
     }
   };
 
+  const referralLink = referralCode ? getReferralLink(referralCode) : '';
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying referral link:', err);
+    }
+  };
+
+  // Falls back to copying where the share sheet is not available
+  const handleShareLink = async () => {
+    if (!navigator.share) {
+      await handleCopyLink();
+      return;
+    }
+    try {
+      await navigator.share({
+        title: 'AutoPesu Pro',
+        text: `Liity AutoPesu Pro -palveluun koodillani ${referralCode} ja saat bonuskolikoita ensimmäisestä pesusta!`,
+        url: referralLink
+      });
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if ((err as Error).name !== 'AbortError') {
+        console.error('Error sharing referral link:', err);
+      }
+    }
+  };
+
   const formatTransactionDate = (timestamp: any) => {
     // Handle Firestore Timestamp
     if (timestamp && typeof timestamp.toDate === 'function') {
@@ -80,8 +205,59 @@ const RewardsCard: React.FC<RewardsCardProps> = ({
           </div>
         </div>
 
+        {/* Loyalty Tier */}
+        <div className="bg-gray-50 p-4 rounded-lg mb-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Award className="h-5 w-5 text-yellow-500" />
+              <span className="font-medium text-gray-900">Taso: {tier.name}</span>
+            </div>
+            {tier.multiplier > 1 && (
+              <span className="text-sm font-medium text-purple-600">
+                {tier.multiplier.toLocaleString('fi-FI')}x kolikot
+              </span>
+            )}
+          </div>
+          {nextTier ? (
+            <>
+              <div className="mt-3 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 rounded-full"
+                  style={{ width: `${Math.round(getTierProgress(loyalty, loyaltySettings) * 100)}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600 mt-2">
+                Tasolle {nextTier.name}:{' '}
+                {Math.max(0, nextTier.minCompleted - loyalty.completedCount)} pesua tai{' '}
+                {Math.max(0, nextTier.minSpend - loyalty.totalSpend).toFixed(2)}€ ostoja
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600 mt-2">Olet saavuttanut korkeimman tason</p>
+          )}
+        </div>
+
+        {/* Expiring Coins */}
+        {expiringLots.length > 0 && (
+          <div className="bg-yellow-50 p-4 rounded-lg mb-6">
+            <div className="flex items-start space-x-3">
+              <Hourglass className="h-5 w-5 text-yellow-600 mt-1" />
+              <div>
+                <h3 className="font-medium text-yellow-900">Vanhenevat kolikot</h3>
+                <ul className="text-sm text-yellow-800 mt-1 space-y-1">
+                  {expiringLots.map(lot => (
+                    <li key={lot.id}>
+                      {lot.remaining} kolikkoa vanhenee {format(lot.expiresAt!, 'd.M.yyyy', { locale: fi })}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Welcome Message for New Users */}
-        {transactions.length === 1 && transactions[0].description.includes('Tervetuliaislahja') && (
+        {!isFiltered && transactions.length === 1 && transactions[0].description.includes('Tervetuliaislahja') && (
           <div className="bg-blue-50 p-4 rounded-lg mb-6">
             <div className="flex items-start space-x-3">
               <Gift className="h-5 w-5 text-blue-600 mt-1" />
@@ -105,25 +281,176 @@ const RewardsCard: React.FC<RewardsCardProps> = ({
             <div className="space-y-3">
               {activePromotions.map(promotion => (
                 <div key={promotion.id} className="bg-gradient-to-r from-blue-50 to-purple-50 p-4 rounded-lg">
-                  <h4 className="font-medium text-blue-900">{promotion.title}</h4>
+                  <div className="flex items-start justify-between">
+                    <h4 className="font-medium text-blue-900">{promotion.title}</h4>
+                    {awardedPromotions.includes(promotion.id) ? (
+                      <span className="flex items-center text-xs font-medium text-green-700">
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Bonus saatu
+                      </span>
+                    ) : (
+                      <span className="text-xs font-medium text-blue-700">Voit osallistua</span>
+                    )}
+                  </div>
                   <p className="text-sm text-blue-700 mt-1">{promotion.description}</p>
                   <div className="mt-2 text-sm">
                     <span className="font-medium text-purple-600">+{promotion.bonusCoins} kolikkoa</span>
-                    {promotion.minimumPurchase && (
+                    {!!promotion.minimumPurchase && (
                       <span className="text-gray-600"> (min. {promotion.minimumPurchase}€)</span>
                     )}
+                    {promotion.services && promotion.services.length > 0 && (
+                      <span className="text-gray-600"> · vain valitut palvelut</span>
+                    )}
                   </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Voimassa {format(promotion.endDate, 'd.M.yyyy')} asti. Bonus maksetaan kerran, kun pesu on valmis.
+                  </p>
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {/* Referrals */}
+        <div className="border-t pt-4 mt-4">
+          <h3 className="text-lg font-medium mb-2 flex items-center">
+            <Users className="h-5 w-5 text-blue-600 mr-2" />
+            Suosittele ystävää
+          </h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Saat {loyaltySettings.referrerReward} kolikkoa ja ystäväsi {loyaltySettings.referredReward} kolikkoa,
+            kun ystäväsi ensimmäinen pesu on valmis.
+          </p>
+          {referralCode && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4 bg-blue-50 p-4 rounded-lg mb-4">
+              <div className="bg-white p-2 rounded-lg self-center">
+                <QRCodeSVG value={referralLink} size={112} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-blue-700">Oma suosituskoodisi</p>
+                <p className="font-mono text-lg font-semibold text-blue-900">{referralCode}</p>
+                <p className="text-sm text-blue-700 truncate">{referralLink}</p>
+                <div className="flex space-x-2 mt-3">
+                  <button
+                    type="button"
+                    onClick={handleCopyLink}
+                    className="flex items-center px-3 py-2 bg-white border border-blue-200 text-blue-700 rounded-lg text-sm hover:bg-blue-100"
+                  >
+                    {linkCopied ? <CheckCircle className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                    {linkCopied ? 'Kopioitu' : 'Kopioi linkki'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleShareLink}
+                    className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+                  >
+                    <Share2 className="h-4 w-4 mr-1" />
+                    Jaa
+                  </button>
+                </div>
+                <p className="text-sm text-blue-700 mt-2">{referralCount} palkittua suositusta</p>
+              </div>
+            </div>
+          )}
+
+          {ownReferral ? (
+            <div className="flex items-center text-sm text-gray-600 mb-4">
+              {ownReferral.status === 'completed' ? (
+                <>
+                  <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+                  Suosituskoodin bonus +{ownReferral.referredReward} kolikkoa saatu
+                </>
+              ) : (
+                <>
+                  <Clock className="h-4 w-4 text-yellow-600 mr-2" />
+                  Käytit koodin {ownReferral.code}. Saat {ownReferral.referredReward} kolikkoa, kun ensimmäinen pesusi on valmis.
+                </>
+              )}
+            </div>
+          ) : !usedReferralCode && (
+            <form onSubmit={handleReferralSubmit} className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                value={referralInput}
+                onChange={(e) => setReferralInput(e.target.value)}
+                placeholder="Ystävän suosituskoodi"
+                className="flex-1 rounded-lg border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={loading || !referralInput.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                Käytä
+              </button>
+            </form>
+          )}
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+          {success && <p className="text-sm text-green-600 mb-4">{success}</p>}
+
+          {referrals.length > 0 && (
+            <div className="space-y-2">
+              {referrals.map(referral => (
+                <div key={referral.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">{referral.referredName}</p>
+                    <p className="text-sm text-gray-500">
+                      Liittyi {format(referral.createdAt, 'd.M.yyyy', { locale: fi })}
+                    </p>
+                  </div>
+                  {referral.status === 'completed' ? (
+                    <span className="flex items-center text-sm font-medium text-green-600">
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      +{referral.referrerReward} kolikkoa
+                    </span>
+                  ) : (
+                    <span className="flex items-center text-sm text-yellow-700">
+                      <Clock className="h-4 w-4 mr-1" />
+                      Odottaa ensimmäistä pesua
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Transactions List */}
         <div className="border-t pt-4 mt-4">
           <h3 className="text-lg font-medium mb-4">Viimeisimmät tapahtumat</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as WalletTransactionFilters['type'] | '')}
+              className="rounded-lg border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">Kaikki tapahtumat</option>
+              <option value="credit">Ansaitut</option>
+              <option value="debit">Käytetyt</option>
+            </select>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="rounded-lg border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+              aria-label="Alkaen"
+            />
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="rounded-lg border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+              aria-label="Päättyen"
+            />
+          </div>
           <div className="space-y-3">
-            {transactions.length === 0 ? (
+            {transactions.length === 0 && loadingTransactions ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+              </div>
+            ) : transactions.length === 0 ? (
               <p className="text-center text-gray-500 py-4">Ei tapahtumia</p>
             ) : (
               transactions.map(transaction => (
@@ -148,15 +475,27 @@ const RewardsCard: React.FC<RewardsCardProps> = ({
                       </p>
                     </div>
                   </div>
-                  <span className={`font-medium ${
-                    transaction.type === 'credit' ? 'text-green-600' : 'text-red-600'
-                  }`}>
-                    {transaction.type === 'credit' ? '+' : '-'}{transaction.amount}
-                  </span>
+                  <div className="text-right">
+                    <span className={`font-medium ${
+                      transaction.type === 'credit' ? 'text-green-600' : 'text-red-600'
+                    }`}>
+                      {transaction.type === 'credit' ? '+' : '-'}{transaction.amount}
+                    </span>
+                    <p className="text-xs text-gray-500">Saldo {transaction.balanceAfter}</p>
+                  </div>
                 </div>
               ))
             )}
           </div>
+          {cursor && (
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingTransactions}
+              className="mt-4 w-full py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+            >
+              {loadingTransactions ? 'Ladataan...' : 'Näytä lisää'}
+            </button>
+          )}
         </div>
       </div>
     </div>
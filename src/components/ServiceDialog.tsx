@@ -1,7 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { X, Loader2, ChevronDown, Plus } from 'lucide-react';
-import type { Service, ServiceCategory } from '../types/database';
+import { X, Loader2, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import type { Service, ServiceCategory, VehicleClass } from '../types/database';
 import { createService, updateService, deleteService, createServiceCategory } from '../lib/db';
+import { DEFAULT_VEHICLE_CLASS, VEHICLE_CLASSES } from '../lib/serviceVariants';
+
+interface VariantRow {
+  vehicleClass: VehicleClass;
+  price: string;
+  duration: string;
+}
+
+interface AddOnRow {
+  id: string;
+  name: string;
+  price: string;
+  duration: string;
+}
+
+// The service's own price and duration are for the default class
+const VARIANT_CLASSES = VEHICLE_CLASSES.filter(option => option.id !== DEFAULT_VEHICLE_CLASS);
+
+const toVariantRows = (service?: Service | null): VariantRow[] =>
+  VARIANT_CLASSES.map(({ id }) => {
+    const variant = service?.variants?.find(option => option.vehicleClass === id);
+    return {
+      vehicleClass: id,
+      price: variant ? variant.price.toString() : '',
+      duration: variant ? variant.duration.toString() : ''
+    };
+  });
+
+const toAddOnRows = (service?: Service | null): AddOnRow[] =>
+  (service?.addOns || []).map(addOn => ({
+    id: addOn.id,
+    name: addOn.name,
+    price: addOn.price.toString(),
+    duration: addOn.duration.toString()
+  }));
 
 interface ServiceDialogProps {
   isOpen: boolean;
@@ -34,6 +69,8 @@ const ServiceDialog: React.FC<ServiceDialogProps> = ({
     description: '',
     icon: 'car'
   });
+  const [variants, setVariants] = useState<VariantRow[]>(() => toVariantRows(service));
+  const [addOns, setAddOns] = useState<AddOnRow[]>(() => toAddOnRows(service));
   const [showNewCategoryForm, setShowNewCategoryForm] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -60,8 +97,18 @@ const ServiceDialog: React.FC<ServiceDialogProps> = ({
         coinReward: '0'
       });
     }
+    setVariants(toVariantRows(service));
+    setAddOns(toAddOnRows(service));
   }, [service]);
 
+  const updateVariant = (vehicleClass: VehicleClass, changes: Partial<VariantRow>) => {
+    setVariants(prev => prev.map(row => row.vehicleClass === vehicleClass ? { ...row, ...changes } : row));
+  };
+
+  const updateAddOn = (id: string, changes: Partial<AddOnRow>) => {
+    setAddOns(prev => prev.map(row => row.id === id ? { ...row, ...changes } : row));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -73,10 +120,27 @@ const ServiceDialog: React.FC<ServiceDialogProps> = ({
       setLoading(true);
       setError(null);
 
+      const duration = parseInt(formData.duration) || 30;
       const serviceData = {
         ...formData,
         price: parseFloat(formData.price) || 0,
-        duration: parseInt(formData.duration) || 30,
+        duration,
+        // Classes left empty use the price and duration above
+        variants: variants
+          .filter(row => row.price !== '')
+          .map(row => ({
+            vehicleClass: row.vehicleClass,
+            price: parseFloat(row.price) || 0,
+            duration: parseInt(row.duration) || duration
+          })),
+        addOns: addOns
+          .filter(row => row.name.trim())
+          .map(row => ({
+            id: row.id,
+            name: row.name.trim(),
+            price: parseFloat(row.price) || 0,
+            duration: parseInt(row.duration) || 0
+          })),
         coinReward: parseInt(formData.coinReward) || 0,
         categoryId: formData.categoryId || categories[0]?.id
       };
@@ -168,7 +232,7 @@ const ServiceDialog: React.FC<ServiceDialogProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-xl w-full max-w-lg overflow-hidden">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-bold">
@@ -322,6 +386,90 @@ const ServiceDialog: React.FC<ServiceDialogProps> = ({
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Hinnat ajoneuvon koon mukaan</label>
+              <p className="text-xs text-gray-500">
+                Yllä oleva hinta ja kesto koskevat henkilöautoja. Jätä tyhjäksi, jos hinta on sama.
+              </p>
+              <div className="mt-2 space-y-2">
+                {variants.map(row => (
+                  <div key={row.vehicleClass} className="grid grid-cols-3 gap-2 items-center">
+                    <span className="text-sm text-gray-700">
+                      {VEHICLE_CLASSES.find(option => option.id === row.vehicleClass)?.label}
+                    </span>
+                    <input
+                      type="number"
+                      value={row.price}
+                      onChange={(e) => updateVariant(row.vehicleClass, { price: e.target.value })}
+                      min="0"
+                      step="0.01"
+                      placeholder={formData.price ? `${formData.price} €` : '€'}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      value={row.duration}
+                      onChange={(e) => updateVariant(row.vehicleClass, { duration: e.target.value })}
+                      min="5"
+                      step="5"
+                      placeholder={`${formData.duration} min`}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Lisävalinnat</label>
+              <div className="mt-2 space-y-2">
+                {addOns.map(row => (
+                  <div key={row.id} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateAddOn(row.id, { name: e.target.value })}
+                      placeholder="Esim. Rengaskiilto"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      value={row.price}
+                      onChange={(e) => updateAddOn(row.id, { price: e.target.value })}
+                      min="0"
+                      step="0.01"
+                      placeholder="€"
+                      className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      value={row.duration}
+                      onChange={(e) => updateAddOn(row.id, { duration: e.target.value })}
+                      min="0"
+                      step="5"
+                      placeholder="min"
+                      className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setAddOns(prev => prev.filter(addOn => addOn.id !== row.id))}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setAddOns(prev => [...prev, { id: crypto.randomUUID(), name: '', price: '', duration: '0' }])}
+                className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Lisää lisävalinta
+              </button>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700">Kolikkopalkkio</label>
               <input
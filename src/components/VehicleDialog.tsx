@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { Vehicle, VehicleClass } from '../types/database';
+import { addVehicle, updateVehicle } from '../lib/db';
+import type { VehicleOwner } from '../lib/db';
+import { DEFAULT_VEHICLE_CLASS, VEHICLE_CLASSES } from '../lib/serviceVariants';
+import { isValidFinnishPlate, normalizePlate, PLATE_ERROR } from '../lib/vehicles';
+
+interface VehicleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  owner: VehicleOwner;
+  vehicle?: Vehicle | null;
+  onVehicleSaved: () => void;
+}
+
+const VehicleDialog: React.FC<VehicleDialogProps> = ({
+  isOpen,
+  onClose,
+  owner,
+  vehicle,
+  onVehicleSaved
+}) => {
+  const [formData, setFormData] = useState({
+    plate: vehicle?.plate || '',
+    make: vehicle?.make || '',
+    model: vehicle?.model || '',
+    vehicleClass: vehicle?.vehicleClass || DEFAULT_VEHICLE_CLASS,
+    nickname: vehicle?.nickname || ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidFinnishPlate(formData.plate)) {
+      setError(PLATE_ERROR);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const vehicleData = {
+        ...formData,
+        plate: normalizePlate(formData.plate),
+        make: formData.make.trim(),
+        model: formData.model.trim(),
+        nickname: formData.nickname.trim()
+      };
+
+      if (vehicle) {
+        await updateVehicle(owner, vehicle.id, vehicleData);
+      } else {
+        await addVehicle(owner, vehicleData);
+      }
+
+      onVehicleSaved();
+      onClose();
+    } catch (err) {
+      console.error('Error saving vehicle:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Virhe ajoneuvon tallennuksessa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold">{vehicle ? 'Muokkaa ajoneuvoa' : 'Lisää ajoneuvo'}</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Rekisterinumero</label>
+              <input
+                type="text"
+                value={formData.plate}
+                onChange={(e) => setFormData(prev => ({ ...prev, plate: e.target.value.toUpperCase() }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="ABC-123"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Merkki</label>
+                <input
+                  type="text"
+                  value={formData.make}
+                  onChange={(e) => setFormData(prev => ({ ...prev, make: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Esim. Toyota"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Malli</label>
+                <input
+                  type="text"
+                  value={formData.model}
+                  onChange={(e) => setFormData(prev => ({ ...prev, model: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Esim. Corolla"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Koko</label>
+              <select
+                value={formData.vehicleClass}
+                onChange={(e) => setFormData(prev => ({ ...prev, vehicleClass: e.target.value as VehicleClass }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {VEHICLE_CLASSES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Lempinimi</label>
+              <input
+                type="text"
+                value={formData.nickname}
+                onChange={(e) => setFormData(prev => ({ ...prev, nickname: e.target.value }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Esim. Työauto"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-400 p-4">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <X className="h-5 w-5 text-red-400" />
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Peruuta
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                    Tallennetaan...
+                  </>
+                ) : (
+                  'Tallenna'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleDialog;
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { Car, Edit2, Plus, Trash2, History } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Appointment, Vehicle } from '../types/database';
+import { deleteVehicle, getCustomerAppointments, getVehicles } from '../lib/db';
+import { getVehicleClassLabel } from '../lib/serviceVariants';
+import { formatVehicleName, isVehicleAppointment } from '../lib/vehicles';
+import { formatAppointmentServices } from '../lib/appointmentServices';
+import { STATUS_LABELS } from '../lib/appointmentStatus';
+import VehicleDialog from './VehicleDialog';
+
+interface VehicleGarageProps {
+  userId: string;
+}
+
+// Appointment dates come back from Firestore as Timestamps
+const toDate = (date: Date | { toDate: () => Date }) => 'toDate' in date ? date.toDate() : date;
+
+const VehicleGarage = ({ userId }: VehicleGarageProps) => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const [historyVehicleId, setHistoryVehicleId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadGarage = async () => {
+      try {
+        const [vehicleList, appointmentList] = await Promise.all([
+          getVehicles({ userId }),
+          getCustomerAppointments(userId)
+        ]);
+        setVehicles(vehicleList);
+        setAppointments(appointmentList.map(appointment => ({
+          ...appointment,
+          date: toDate(appointment.date)
+        })));
+      } catch (err) {
+        console.error('Error loading vehicles:', err);
+        setError('Ajoneuvojen lataus epäonnistui');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadGarage();
+  }, [userId]);
+
+  const handleRefresh = async () => {
+    try {
+      setVehicles(await getVehicles({ userId }));
+    } catch (err) {
+      console.error('Error loading vehicles:', err);
+      setError('Ajoneuvojen lataus epäonnistui');
+    }
+  };
+
+  const handleDelete = async (vehicle: Vehicle) => {
+    if (!window.confirm(`Poistetaanko ${formatVehicleName(vehicle)}?`)) return;
+
+    try {
+      setError(null);
+      await deleteVehicle({ userId }, vehicle.id);
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error deleting vehicle:', err);
+      setError('Ajoneuvon poisto epäonnistui');
+    }
+  };
+
+  const openDialog = (vehicle: Vehicle | null) => {
+    setSelectedVehicle(vehicle);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-6 bg-white rounded-2xl shadow-sm overflow-hidden">
+      <div className="px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-3xl font-normal text-gray-900">Ajoneuvot</h2>
+          <button
+            onClick={() => openDialog(null)}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Lisää
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4 rounded-md">
+            <p className="text-red-700 font-poppins">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : vehicles.length === 0 ? (
+          <div className="text-center py-8">
+            <Car className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600 font-poppins">
+              Tallenna autosi, niin voit valita sen suoraan varausta tehdessä.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {vehicles.map(vehicle => {
+              const history = appointments.filter(appointment => isVehicleAppointment(appointment, vehicle));
+              const showHistory = historyVehicleId === vehicle.id;
+
+              return (
+                <div key={vehicle.id} className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{formatVehicleName(vehicle)}</p>
+                      <p className="text-sm text-gray-500">
+                        {getVehicleClassLabel(vehicle.vehicleClass)}
+                        {vehicle.nickname && (vehicle.make || vehicle.model) && (
+                          <> · {[vehicle.make, vehicle.model].filter(Boolean).join(' ')}</>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex space-x-1">
+                      <button
+                        onClick={() => openDialog(vehicle)}
+                        className="p-2 text-gray-400 hover:text-blue-600"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(vehicle)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => setHistoryVehicleId(showHistory ? null : vehicle.id)}
+                    className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <History className="w-4 h-4 mr-1" />
+                    Pesuhistoria ({history.length})
+                  </button>
+
+                  {showHistory && (
+                    <div className="mt-3 space-y-2">
+                      {history.map(appointment => (
+                        <div key={appointment.id} className="flex items-center justify-between text-sm">
+                          <div>
+                            <p className="text-gray-900">
+                              {format(appointment.date, 'd.M.yyyy')}
+                              {' · '}
+                              {formatAppointmentServices(appointment) || 'Pesu'}
+                            </p>
+                            <p className="text-gray-500">{STATUS_LABELS[appointment.status]}</p>
+                          </div>
+                          <span className="font-medium text-gray-900">{appointment.totalPrice}€</span>
+                        </div>
+                      ))}
+                      {history.length === 0 && (
+                        <p className="text-sm text-gray-500">Ei pesuja tällä ajoneuvolla</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {isDialogOpen && (
+        <VehicleDialog
+          isOpen={isDialogOpen}
+          onClose={() => setIsDialogOpen(false)}
+          owner={{ userId }}
+          vehicle={selectedVehicle}
+          onVehicleSaved={handleRefresh}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VehicleGarage;
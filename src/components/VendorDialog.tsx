@@ -2,8 +2,9 @@ import React, { useEffect, useState } from 'react';
 import { X, MapPin, Phone, Mail, Globe, Star, Store, Calendar, Check, Ban, Clock, Package } from 'lucide-react';
 import type { Vendor, Service, Appointment } from '../types/database';
 import { format } from 'date-fns';
-import { fi } from 'date-fns/locale';
 import { getVendorServices, getVendorAppointments } from '../lib/db';
+import { WEEKDAYS, formatIntervals, normalizeOperatingHours } from '../lib/operatingHours';
+import { VERIFICATION_STATUS_LABELS } from '../lib/verification';
 
 interface VendorDialogProps {
   isOpen: boolean;
@@ -121,16 +122,11 @@ const VendorDialog: React.FC<VendorDialogProps> = ({
                 <h3 className="text-lg font-semibold pt-4">Aukioloajat</h3>
                 <div className="bg-gray-50 rounded-lg p-4">
                   <div className="space-y-2">
-                    {Object.entries(vendor.operatingHours).map(([day, hours]) => (
-                      <div key={day} className="flex justify-between items-center">
-                        <span className="capitalize">{format(new Date(2024, 0, 1), 'EEEE', { locale: fi })}</span>
+                    {WEEKDAYS.map(day => (
+                      <div key={day.id} className="flex justify-between items-center">
+                        <span>{day.label}</span>
                         <span className="text-gray-600">
-                          {hours.open === 'closed' && hours.close === 'closed'
-                            ? 'Suljettu'
-                            : hours.open === '00:00' && hours.close === '23:59'
-                            ? '24h'
-                            : `${hours.open} - ${hours.close}`
-                          }
+                          {formatIntervals(normalizeOperatingHours(vendor.operatingHours)[day.id])}
                         </span>
                       </div>
                     ))}
@@ -200,7 +196,7 @@ const VendorDialog: React.FC<VendorDialogProps> = ({
                     ? 'bg-green-100 text-green-800'
                     : 'bg-yellow-100 text-yellow-800'
                 }`}>
-                  {vendor.verified ? 'Vahvistettu' : 'Odottaa vahvistusta'}
+                  {vendor.verified ? 'Vahvistettu' : vendor.verification ? VERIFICATION_STATUS_LABELS[vendor.verification.status] : 'Asiakirjat puuttuvat'}
                 </span>
                 <span className="mx-2 text-gray-300">•</span>
                 <span className="text-sm text-gray-500">
@@ -208,7 +204,7 @@ const VendorDialog: React.FC<VendorDialogProps> = ({
                 </span>
               </div>
               <div className="flex space-x-3">
-                {!vendor.verified && (
+                {!vendor.verified && vendor.verification?.status === 'pending' && (
                   <button
                     onClick={() => onVerify(vendor.id)}
                     className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Wallet, Loader2 } from 'lucide-react';
+import type { PayoutEntry, Vendor } from '../types/database';
+import { getVendorPayoutEntries, updateVendor } from '../lib/db';
+import { formatIban, getEntryStatusLabel, isValidIban, normalizeIban, sumPayoutEntries } from '../lib/payouts';
+
+interface VendorPayoutsProps {
+  vendor: Vendor;
+  onVendorUpdated: (vendor: Vendor) => void;
+}
+
+const VendorPayouts: React.FC<VendorPayoutsProps> = ({ vendor, onVendorUpdated }) => {
+  const [entries, setEntries] = useState<PayoutEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [iban, setIban] = useState(vendor.payoutIban ? formatIban(vendor.payoutIban) : '');
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setEntries(await getVendorPayoutEntries(vendor.id));
+      } catch (err) {
+        console.error('Error loading payouts:', err);
+        setError('Tilitysten lataus epäonnistui');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadEntries();
+  }, [vendor.id]);
+
+  const handleSaveIban = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidIban(iban)) {
+      setError('Tarkista tilinumero (IBAN)');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const payoutIban = normalizeIban(iban);
+      await updateVendor(vendor.id, { payoutIban });
+      onVendorUpdated({ ...vendor, payoutIban });
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error('Error saving IBAN:', err);
+      setError('Tilinumeron tallennus epäonnistui');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pending = sumPayoutEntries(entries.filter(entry => !entry.batchId));
+  const inBatch = sumPayoutEntries(entries.filter(entry => entry.batchId && !entry.paidAt));
+  const paid = sumPayoutEntries(entries.filter(entry => entry.paidAt));
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-2xl font-bold text-gray-900">Tilitykset</h2>
+        <p className="mt-1 text-gray-600">
+          Valmiista pesuista tilitetään verkossa, yrityslaskulla tai pesupaketilla maksettu hinta vähennettynä palvelumaksulla. Kolikoilla ja kaikissa pesupaikoissa käyvillä alennuskoodeilla annetut alennukset ovat palvelun kustannus, ja ne hyvitetään sinulle. Pesupaikalla maksettujen pesujen palvelumaksu vähennetään tilityksestä.
+        </p>
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-yellow-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold">Odottaa tilitystä</h3>
+            <p className="text-3xl font-bold mt-2 text-yellow-700">{pending.payoutAmount.toFixed(2)}€</p>
+            <p className="text-sm text-gray-600">{pending.entryCount} pesua</p>
+          </div>
+          <div className="bg-blue-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold">Maksussa</h3>
+            <p className="text-3xl font-bold mt-2 text-blue-700">{inBatch.payoutAmount.toFixed(2)}€</p>
+            <p className="text-sm text-gray-600">{inBatch.entryCount} pesua</p>
+          </div>
+          <div className="bg-green-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold">Maksettu</h3>
+            <p className="text-3xl font-bold mt-2 text-green-700">{paid.payoutAmount.toFixed(2)}€</p>
+            <p className="text-sm text-gray-600">Palvelumaksut {paid.commission.toFixed(2)}€</p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSaveIban} className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-xl font-semibold mb-2">Tilinumero</h3>
+        <p className="text-sm text-gray-600 mb-4">Tilitykset maksetaan tälle tilille</p>
+        <div className="flex flex-col sm:flex-row gap-3 max-w-xl">
+          <input
+            type="text"
+            value={iban}
+            onChange={(e) => setIban(e.target.value)}
+            className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder="FI00 0000 0000 0000 00"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                Tallennetaan...
+              </>
+            ) : (
+              'Tallenna'
+            )}
+          </button>
+        </div>
+        {success && <p className="mt-2 text-sm text-green-700">Tilinumero tallennettu</p>}
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-xl font-semibold mb-4 flex items-center">
+          <Wallet className="w-5 h-5 mr-2 text-gray-500" />
+          Tilitettävät pesut
+        </h3>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-500">Ei vielä valmiita pesuja</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-4">Valmistui</th>
+                  <th className="py-2 pr-4">Palvelu</th>
+                  <th className="py-2 pr-4 text-right">Hinta</th>
+                  <th className="py-2 pr-4 text-right">Maksettu verkossa</th>
+                  <th className="py-2 pr-4 text-right">Alustan alennukset</th>
+                  <th className="py-2 pr-4 text-right">Palvelumaksu</th>
+                  <th className="py-2 pr-4 text-right">Tilitys</th>
+                  <th className="py-2">Tila</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-sm">
+                {entries.map(entry => !entry.pricedAt ? (
+                  <tr key={entry.id}>
+                    <td className="py-2 pr-4 whitespace-nowrap">{format(entry.completedAt, 'd.M.yyyy')}</td>
+                    <td className="py-2 pr-4">{entry.serviceName}</td>
+                    <td colSpan={5} className="py-2 pr-4 text-right text-gray-500">-</td>
+                    <td className="py-2 whitespace-nowrap">{getEntryStatusLabel(entry)}</td>
+                  </tr>
+                ) : (
+                  <tr key={entry.id}>
+                    <td className="py-2 pr-4 whitespace-nowrap">{format(entry.completedAt, 'd.M.yyyy')}</td>
+                    <td className="py-2 pr-4">{entry.serviceName}</td>
+                    <td className="py-2 pr-4 text-right">{entry.grossAmount.toFixed(2)}€</td>
+                    <td className="py-2 pr-4 text-right">{entry.collectedAmount > 0 ? `${entry.collectedAmount.toFixed(2)}€` : 'Pesupaikalla'}</td>
+                    <td className="py-2 pr-4 text-right text-gray-500">
+                      {entry.coinDiscount + entry.voucherDiscount > 0 ? `${(entry.coinDiscount + entry.voucherDiscount).toFixed(2)}€` : '-'}
+                    </td>
+                    <td className="py-2 pr-4 text-right">-{entry.commission.toFixed(2)}€ ({entry.commissionRate}%)</td>
+                    <td className="py-2 pr-4 text-right font-medium">{entry.payoutAmount.toFixed(2)}€</td>
+                    <td className="py-2 whitespace-nowrap">{getEntryStatusLabel(entry)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VendorPayouts;
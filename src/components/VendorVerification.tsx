@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ShieldCheck, Loader2, Send } from 'lucide-react';
+import type { Vendor, VerificationDocument, VerificationEvent } from '../types/database';
+import { getVerificationEvents, submitVendorVerification } from '../lib/db';
+import { VERIFICATION_ACTION_LABELS, VERIFICATION_DOCUMENTS, VERIFICATION_STATUS_LABELS, getMissingDocuments, toVerificationDate } from '../lib/verification';
+import { useAuth } from '../contexts/AuthContext';
+import DocumentUpload from './DocumentUpload';
+
+interface VendorVerificationProps {
+  vendor: Vendor;
+  onVendorUpdated: (vendor: Vendor) => void;
+}
+
+const VendorVerification: React.FC<VendorVerificationProps> = ({ vendor, onVendorUpdated }) => {
+  const { currentUser } = useAuth();
+  const [documents, setDocuments] = useState<VerificationDocument[]>(vendor.verification?.documents || []);
+  const [events, setEvents] = useState<VerificationEvent[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        setEvents(await getVerificationEvents(vendor.id));
+      } catch (err) {
+        console.error('Error loading verification history:', err);
+      }
+    };
+    loadEvents();
+  }, [vendor.id]);
+
+  const status = vendor.verified ? 'approved' : vendor.verification?.status;
+  const locked = status === 'pending' || status === 'approved';
+  const missing = getMissingDocuments(documents);
+
+  const handleDocumentUploaded = (document: VerificationDocument) => {
+    setDocuments(prev => [...prev.filter(uploaded => uploaded.type !== document.type), document]);
+  };
+
+  const handleSubmit = async () => {
+    if (!currentUser) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const verification = await submitVendorVerification(vendor.id, documents, {
+        userId: currentUser.uid,
+        email: currentUser.email || ''
+      });
+      onVendorUpdated({ ...vendor, verification });
+      setEvents(await getVerificationEvents(vendor.id));
+    } catch (err) {
+      console.error('Error submitting verification:', err);
+      setError(err instanceof Error ? err.message : 'Asiakirjojen lähetys epäonnistui');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ShieldCheck className="w-6 h-6 mr-2 text-blue-600" />
+            Yrityksen vahvistus
+          </h2>
+          {status && (
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+              status === 'approved' ? 'bg-green-100 text-green-800' :
+              status === 'rejected' ? 'bg-red-100 text-red-800' :
+              'bg-yellow-100 text-yellow-800'
+            }`}>
+              {VERIFICATION_STATUS_LABELS[status]}
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-gray-600">
+          Ylläpito tarkistaa Y-tunnuksen {vendor.businessId} ja alla olevat asiakirjat ennen kuin yritys näkyy hakutuloksissa.
+        </p>
+
+        {status === 'rejected' && vendor.verification?.rejectionReason && (
+          <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm font-medium text-red-800">Hylkäyksen syy</p>
+            <p className="text-sm text-red-700">{vendor.verification.rejectionReason}</p>
+          </div>
+        )}
+
+        <div className="mt-6 space-y-3 max-w-xl">
+          {VERIFICATION_DOCUMENTS.map(({ type, label, required }) => (
+            <DocumentUpload
+              key={type}
+              vendorId={vendor.id}
+              type={type}
+              label={label}
+              required={required}
+              document={documents.find(document => document.type === type)}
+              disabled={locked}
+              onDocumentUploaded={handleDocumentUploaded}
+            />
+          ))}
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {!locked && (
+          <div className="mt-6 flex items-center justify-between max-w-xl">
+            <p className="text-sm text-gray-500">
+              {missing.length > 0 ? `Puuttuu: ${missing.join(', ')}` : 'Kaikki pakolliset asiakirjat ladattu'}
+            </p>
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || missing.length > 0}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Lähetä tarkistettavaksi
+            </button>
+          </div>
+        )}
+        {status === 'pending' && vendor.verification && (
+          <p className="mt-6 text-sm text-gray-500">
+            Lähetetty {format(toVerificationDate(vendor.verification.submittedAt), 'd.M.yyyy HH:mm')}. Saat ilmoituksen, kun asiakirjat on tarkistettu.
+          </p>
+        )}
+      </div>
+
+      {events.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-xl font-semibold mb-4">Historia</h3>
+          <ul className="divide-y text-sm">
+            {events.map(event => (
+              <li key={event.id} className="py-2 flex justify-between">
+                <span>
+                  {VERIFICATION_ACTION_LABELS[event.action]}
+                  {event.reason && <span className="text-gray-500"> – {event.reason}</span>}
+                </span>
+                <span className="text-gray-500">{format(event.createdAt, 'd.M.yyyy HH:mm')}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VendorVerification;
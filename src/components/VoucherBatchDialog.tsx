@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { format, addMonths } from 'date-fns';
+import type { Vendor, VoucherType } from '../types/database';
+import { createVoucherBatch } from '../lib/db';
+import { MAX_BATCH_SIZE } from '../lib/vouchers';
+import { useAuth } from '../contexts/AuthContext';
+
+interface VoucherBatchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onBatchCreated: () => void;
+  vendorId?: string; // fixed scope for vendors
+  vendors?: Vendor[]; // scope options for admins
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const VoucherBatchDialog: React.FC<VoucherBatchDialogProps> = ({
+  isOpen,
+  onClose,
+  onBatchCreated,
+  vendorId,
+  vendors = []
+}) => {
+  const { currentUser } = useAuth();
+  const [formData, setFormData] = useState({
+    name: '',
+    discountType: 'percentage' as VoucherType,
+    value: 10,
+    mode: 'generated' as 'generated' | 'custom',
+    count: 10,
+    prefix: '',
+    customCode: '',
+    maxRedemptions: 1,
+    perCustomerLimit: 1,
+    startDate: format(new Date(), DATE_FORMAT),
+    endDate: format(addMonths(new Date(), 3), DATE_FORMAT),
+    vendorId: vendorId || ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!currentUser) return;
+    if (!formData.name || !formData.startDate || !formData.endDate) {
+      setError('Täytä kaikki kentät');
+      return;
+    }
+    if (formData.value <= 0 || (formData.discountType === 'percentage' && formData.value > 100)) {
+      setError('Virheellinen alennuksen arvo');
+      return;
+    }
+    if (formData.endDate < formData.startDate) {
+      setError('Päättymispäivän tulee olla alkamispäivän jälkeen');
+      return;
+    }
+    if (formData.mode === 'custom' && !formData.customCode.trim()) {
+      setError('Anna koodi');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const endDate = new Date(formData.endDate);
+      endDate.setHours(23, 59, 59, 999);
+
+      // Zero means unlimited redemptions
+      await createVoucherBatch(
+        {
+          name: formData.name,
+          discountType: formData.discountType,
+          value: Number(formData.value),
+          count: formData.mode === 'custom' ? 1 : Number(formData.count),
+          maxRedemptions: Number(formData.maxRedemptions) || 0,
+          perCustomerLimit: Number(formData.perCustomerLimit) || 0,
+          startDate: new Date(formData.startDate),
+          endDate,
+          ...(formData.vendorId ? { vendorId: formData.vendorId } : {}),
+          createdBy: currentUser.uid
+        },
+        formData.mode === 'custom'
+          ? { customCode: formData.customCode }
+          : { prefix: formData.prefix }
+      );
+
+      onBatchCreated();
+      onClose();
+    } catch (err) {
+      console.error('Error creating vouchers:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Virhe koodien luonnissa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold">Luo alennuskoodeja</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nimi</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="Esim. Kevätkampanja flyerit"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Tyyppi</label>
+                <select
+                  value={formData.discountType}
+                  onChange={(e) => setFormData(prev => ({ ...prev, discountType: e.target.value as VoucherType }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="percentage">Prosenttialennus</option>
+                  <option value="amount">Euroalennus</option>
+                  <option value="coins">Ilmaiset kolikot</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {formData.discountType === 'percentage' ? 'Alennus (%)' :
+                   formData.discountType === 'amount' ? 'Alennus (€)' : 'Kolikot'}
+                </label>
+                <input
+                  type="number"
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: Number(e.target.value) }))}
+                  min="0"
+                  max={formData.discountType === 'percentage' ? 100 : undefined}
+                  step={formData.discountType === 'amount' ? '0.01' : '1'}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+
+            {!vendorId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Voimassa</label>
+                <select
+                  value={formData.vendorId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, vendorId: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Kaikissa yrityksissä</option>
+                  {vendors.map(vendor => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.businessName}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <div className="flex space-x-4 mb-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={formData.mode === 'generated'}
+                    onChange={() => setFormData(prev => ({ ...prev, mode: 'generated' }))}
+                    className="text-blue-600 mr-2"
+                  />
+                  Luo satunnaiset koodit
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={formData.mode === 'custom'}
+                    onChange={() => setFormData(prev => ({ ...prev, mode: 'custom' }))}
+                    className="text-blue-600 mr-2"
+                  />
+                  Oma koodi
+                </label>
+              </div>
+              {formData.mode === 'generated' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Määrä</label>
+                    <input
+                      type="number"
+                      value={formData.count}
+                      onChange={(e) => setFormData(prev => ({ ...prev, count: Number(e.target.value) }))}
+                      min="1"
+                      max={MAX_BATCH_SIZE}
+                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Etuliite</label>
+                    <input
+                      type="text"
+                      value={formData.prefix}
+                      onChange={(e) => setFormData(prev => ({ ...prev, prefix: e.target.value.toUpperCase() }))}
+                      maxLength={10}
+                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      placeholder="Esim. KEVAT"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  value={formData.customCode}
+                  onChange={(e) => setFormData(prev => ({ ...prev, customCode: e.target.value.toUpperCase() }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Esim. PESU2024"
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Käyttökerrat / koodi</label>
+                <input
+                  type="number"
+                  value={formData.maxRedemptions}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maxRedemptions: Number(e.target.value) }))}
+                  min="0"
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Käyttökerrat / asiakas</label>
+                <input
+                  type="number"
+                  value={formData.perCustomerLimit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, perCustomerLimit: Number(e.target.value) }))}
+                  min="0"
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <p className="-mt-4 text-xs text-gray-500">0 = ei rajaa</p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Alkaa</label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Päättyy</label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  min={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                  className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-400 p-4">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <X className="h-5 w-5 text-red-400" />
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Peruuta
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="animate-spin h-5 w-5 mr-2" />
+                    Luodaan...
+                  </>
+                ) : (
+                  'Luo koodit'
+                )}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoucherBatchDialog;
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Ticket, ChevronDown, ChevronUp, Download, Ban, Loader2, Users, Coins } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Vendor, Voucher, VoucherBatch, VoucherRedemption } from '../types/database';
+import { getVoucherBatches, getBatchVouchers, getBatchRedemptions, deactivateVoucherBatch } from '../lib/db';
+import { formatVoucherValue } from '../lib/vouchers';
+import VoucherBatchDialog from './VoucherBatchDialog';
+
+interface VoucherManagerProps {
+  vendorId?: string; // vendors only see and create their own codes
+  vendors?: Vendor[];
+}
+
+interface BatchReport {
+  vouchers: Voucher[];
+  redemptions: VoucherRedemption[];
+}
+
+const downloadCsv = (batch: VoucherBatch, vouchers: Voucher[]) => {
+  const rows = [
+    ['Koodi', 'Käytetty', 'Käyttökerrat', 'Voimassa'],
+    ...vouchers.map(voucher => [
+      voucher.code,
+      voucher.redemptionCount.toString(),
+      voucher.maxRedemptions ? voucher.maxRedemptions.toString() : 'ei rajaa',
+      voucher.active ? 'kyllä' : 'ei'
+    ])
+  ];
+  const blob = new Blob([rows.map(row => row.join(';')).join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `koodit-${batch.name.replace(/\s+/g, '-').toLowerCase()}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const VoucherManager: React.FC<VoucherManagerProps> = ({ vendorId, vendors = [] }) => {
+  const [batches, setBatches] = useState<VoucherBatch[]>([]);
+  const [reports, setReports] = useState<Record<string, BatchReport>>({});
+  const [expandedBatch, setExpandedBatch] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+
+  useEffect(() => {
+    const loadBatches = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setBatches(await getVoucherBatches(vendorId));
+      } catch (err) {
+        console.error('Error loading voucher batches:', err);
+        setError('Virhe koodien latauksessa');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBatches();
+  }, [vendorId]);
+
+  const handleRefreshBatches = async () => {
+    try {
+      setBatches(await getVoucherBatches(vendorId));
+    } catch (err) {
+      console.error('Error refreshing voucher batches:', err);
+    }
+  };
+
+  const loadReport = async (batchId: string) => {
+    try {
+      setLoadingReport(true);
+      const [vouchers, redemptions] = await Promise.all([
+        getBatchVouchers(batchId, vendorId),
+        getBatchRedemptions(batchId, vendorId)
+      ]);
+      setReports(prev => ({ ...prev, [batchId]: { vouchers, redemptions } }));
+    } catch (err) {
+      console.error('Error loading voucher report:', err);
+      setError('Virhe raportin latauksessa');
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const toggleBatch = (batchId: string) => {
+    if (expandedBatch === batchId) {
+      setExpandedBatch(null);
+      return;
+    }
+    setExpandedBatch(batchId);
+    if (!reports[batchId]) {
+      loadReport(batchId);
+    }
+  };
+
+  const handleDeactivate = async (batch: VoucherBatch) => {
+    if (!window.confirm(`Haluatko varmasti poistaa käytöstä kaikki erän "${batch.name}" koodit?`)) return;
+
+    try {
+      await deactivateVoucherBatch(batch.id, vendorId);
+      await loadReport(batch.id);
+    } catch (err) {
+      console.error('Error deactivating vouchers:', err);
+      setError('Virhe koodien poistamisessa käytöstä');
+    }
+  };
+
+  const getScopeLabel = (batch: VoucherBatch) => {
+    if (!batch.vendorId) return 'Kaikki yritykset';
+    return vendors.find(vendor => vendor.id === batch.vendorId)?.businessName || 'Yksi yritys';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-6 border-b flex items-center justify-between">
+        <div className="flex items-center">
+          <Ticket className="h-6 w-6 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold">Alennuskoodit</h2>
+        </div>
+        <button
+          onClick={() => setShowDialog(true)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Luo koodeja
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="divide-y">
+        {batches.length === 0 && (
+          <div className="p-6 text-center text-gray-500">Ei alennuskoodeja</div>
+        )}
+        {batches.map(batch => {
+          const report = reports[batch.id];
+          const expanded = expandedBatch === batch.id;
+          const totalDiscount = report?.redemptions.reduce((sum, redemption) => sum + redemption.discount, 0) || 0;
+          const totalCoins = report?.redemptions.reduce((sum, redemption) => sum + redemption.coins, 0) || 0;
+          const customers = new Set(report?.redemptions.map(redemption => redemption.customerId)).size;
+
+          return (
+            <div key={batch.id}>
+              <button
+                onClick={() => toggleBatch(batch.id)}
+                className="w-full p-4 flex items-center justify-between hover:bg-gray-50 text-left"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-900">{batch.name}</p>
+                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                      {formatVoucherValue(batch)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {batch.count} koodia · {format(batch.startDate, 'd.M.yyyy')} – {format(batch.endDate, 'd.M.yyyy')}
+                    {!vendorId && ` · ${getScopeLabel(batch)}`}
+                  </p>
+                </div>
+                {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+              </button>
+
+              {expanded && (
+                <div className="px-4 pb-4">
+                  {!report ? (
+                    loadingReport && <Loader2 className="h-6 w-6 text-blue-600 animate-spin mx-auto" />
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                        <div className="bg-gray-50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500">Lunastukset</p>
+                          <p className="text-lg font-semibold">{report.redemptions.length}</p>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-3">
+                          <p className="flex items-center text-xs text-gray-500">
+                            <Users className="w-3 h-3 mr-1" />
+                            Asiakkaat
+                          </p>
+                          <p className="text-lg font-semibold">{customers}</p>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500">Alennukset yhteensä</p>
+                          <p className="text-lg font-semibold">{totalDiscount.toFixed(2)}€</p>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-3">
+                          <p className="flex items-center text-xs text-gray-500">
+                            <Coins className="w-3 h-3 mr-1" />
+                            Kolikot jaettu
+                          </p>
+                          <p className="text-lg font-semibold">{totalCoins}</p>
+                        </div>
+                      </div>
+
+                      {report.redemptions.length > 0 && (
+                        <div className="overflow-x-auto mb-4">
+                          <table className="min-w-full divide-y divide-gray-200 text-sm">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Koodi</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Aika</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Alennus</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {report.redemptions.map(redemption => (
+                                <tr key={redemption.id}>
+                                  <td className="px-4 py-2 font-mono">{redemption.code}</td>
+                                  <td className="px-4 py-2">{format(redemption.redeemedAt, 'd.M.yyyy HH:mm')}</td>
+                                  <td className="px-4 py-2 text-right">
+                                    {redemption.coins > 0 ? `+${redemption.coins} kolikkoa` : `${redemption.discount.toFixed(2)}€`}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          onClick={() => handleDeactivate(batch)}
+                          disabled={report.vouchers.every(voucher => !voucher.active)}
+                          className="flex items-center px-3 py-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          <Ban className="w-4 h-4 mr-1" />
+                          Poista käytöstä
+                        </button>
+                        <button
+                          onClick={() => downloadCsv(batch, report.vouchers)}
+                          className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          Lataa koodit (CSV)
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {showDialog && (
+        <VoucherBatchDialog
+          isOpen={showDialog}
+          onClose={() => setShowDialog(false)}
+          onBatchCreated={handleRefreshBatches}
+          vendorId={vendorId}
+          vendors={vendors}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VoucherManager;
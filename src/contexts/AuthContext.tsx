@@ -7,11 +7,16 @@ import {
   onAuthStateChanged
 } from 'firebase/auth';
 import { auth } from '../lib/firebase';
-import { createUser } from '../lib/db';
+import { createUser, applyReferralCode } from '../lib/db';
+import { clearStoredReferralCode } from '../lib/referrals';
+import type { User as UserProfile } from '../types/database';
+
+// Admins are never created through signup
+export type SignupRole = Exclude<UserProfile['role'], 'admin'>;
 
 interface AuthContextType {
   currentUser: User | null;
-  signup: (email: string, password: string, isVendor?: boolean) => Promise<any>;
+  signup: (email: string, password: string, role?: SignupRole, referralCode?: string) => Promise<any>;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   loading: boolean;
@@ -31,15 +36,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const signup = async (email: string, password: string, isVendor: boolean = false) => {
+  const signup = async (email: string, password: string, role: SignupRole = 'customer', referralCode?: string) => {
     try {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       // Create user profile in Firestore
       await createUser(userCredential.user.uid, {
         email: email,
-        role: isVendor ? 'vendor' : 'customer', // Set role based on isVendor parameter
+        role,
         createdAt: new Date()
       });
+      // An invalid referral code must not fail the signup
+      if (referralCode && role === 'customer') {
+        await applyReferralCode(userCredential.user.uid, referralCode)
+          .then(() => clearStoredReferralCode())
+          .catch(err => console.error('Error applying referral code:', err));
+      }
       return userCredential;
     } catch (error) {
       console.error('Signup error:', error);
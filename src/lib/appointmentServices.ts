@@ -0,0 +1,29 @@
+import type { Appointment, AppointmentService, Service } from '../types/database';
+
+export const DEFAULT_DURATION = 30;
+
+export const toAppointmentService = (service: Pick<Service, 'id' | 'name' | 'price' | 'duration'>): AppointmentService => ({
+  serviceId: service.id,
+  name: service.name,
+  price: service.price,
+  duration: service.duration || DEFAULT_DURATION
+});
+
+// Services are done one after another, so the booking takes their sum
+export const getBasketDuration = (services: Pick<Service, 'duration'>[]) =>
+  services.reduce((sum, service) => sum + (service.duration || DEFAULT_DURATION), 0);
+
+// Bookings made before multi-service baskets only have `serviceId`
+export const getAppointmentServiceIds = (appointment: Pick<Appointment, 'serviceId' | 'services'>) =>
+  appointment.services?.length
+    ? appointment.services.map(service => service.serviceId)
+    : [appointment.serviceId];
+
+export const getAppointmentDuration = (appointment: Pick<Appointment, 'duration' | 'services'>) =>
+  appointment.duration || (appointment.services?.length ? getBasketDuration(appointment.services) : DEFAULT_DURATION);
+
+// E.g. "Ulkopesu + Vanteiden kiillotus"
+export const formatAppointmentServices = (appointment: Pick<Appointment, 'services'>, fallback = '') =>
+  appointment.services?.length
+    ? appointment.services.map(service => service.name).join(' + ')
+    : fallback;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidStatusTransitionError, assertTransition, canTransition, createStatusChange, getAllowedTransitions, getBookingTransitions } from './appointmentStatus';
+
+describe('status transitions', () => {
+  it('follows the booking lifecycle', () => {
+    expect(canTransition('pending', 'confirmed')).toBe(true);
+    expect(canTransition('confirmed', 'completed')).toBe(true);
+    expect(canTransition('pending', 'completed')).toBe(false);
+  });
+
+  it('treats completed, no-show and cancelled bookings as final', () => {
+    expect(getAllowedTransitions('completed')).toEqual([]);
+    expect(getAllowedTransitions('no_show')).toEqual([]);
+    expect(getAllowedTransitions('cancelled')).toEqual([]);
+    expect(getAllowedTransitions('cancelled_by_customer')).toEqual([]);
+  });
+
+  it('lets customers only cancel', () => {
+    expect(getAllowedTransitions('confirmed', 'customer')).toEqual(['cancelled_by_customer']);
+    expect(canTransition('pending', 'confirmed', 'customer')).toBe(false);
+  });
+
+  it('lets business managers only approve or reject', () => {
+    expect(getAllowedTransitions('pending', 'business')).toEqual(['confirmed', 'cancelled']);
+    expect(canTransition('confirmed', 'completed', 'business')).toBe(false);
+  });
+
+  it('lets the vendor run the booking but not cancel on the customer\'s behalf', () => {
+    expect(getAllowedTransitions('confirmed', 'vendor')).toEqual(['completed', 'no_show', 'cancelled']);
+    expect(canTransition('confirmed', 'cancelled_by_customer', 'vendor')).toBe(false);
+  });
+
+  it('leaves confirming a booking awaiting approval to the business manager', () => {
+    const awaiting = { status: 'pending' as const, approval: { status: 'pending' as const, reason: 'Yli budjetin' } };
+    expect(getBookingTransitions(awaiting, 'vendor')).toEqual(['cancelled']);
+    expect(getBookingTransitions(awaiting, 'business')).toEqual(['confirmed', 'cancelled']);
+    expect(getBookingTransitions({ status: 'pending' }, 'vendor')).toEqual(['confirmed', 'cancelled']);
+  });
+
+  it('throws on a forbidden change', () => {
+    expect(() => assertTransition('completed', 'cancelled', 'admin')).toThrow(InvalidStatusTransitionError);
+    expect(() => assertTransition('completed', 'cancelled')).toThrow('Tilaa ei voi muuttaa: Valmis → Peruttu');
+    expect(() => assertTransition('pending', 'confirmed', 'vendor')).not.toThrow();
+  });
+});
+
+describe('createStatusChange', () => {
+  const changedAt = new Date(2025, 2, 10, 12, 0);
+
+  it('records who changed the status and why', () => {
+    expect(createStatusChange('confirmed', 'cancelled', 'user-1', 'vendor', changedAt, 'Sairastuminen')).toEqual({
+      from: 'confirmed',
+      to: 'cancelled',
+      changedBy: 'user-1',
+      changedByRole: 'vendor',
+      changedAt,
+      reason: 'Sairastuminen'
+    });
+  });
+
+  it('leaves out a missing reason', () => {
+    expect(createStatusChange(null, 'pending', 'user-1', 'customer', changedAt)).not.toHaveProperty('reason');
+  });
+});
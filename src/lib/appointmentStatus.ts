@@ -0,0 +1,87 @@
+import type { Appointment, AppointmentStatus, StatusChange, User } from '../types/database';
+
+// Allowed status changes. Completed, no-show and cancelled bookings are final,
+// so rewards tied to completion can only be granted once.
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled', 'cancelled_by_customer'],
+  confirmed: ['completed', 'no_show', 'cancelled', 'cancelled_by_customer'],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+  cancelled_by_customer: []
+};
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: 'Odottaa',
+  confirmed: 'Vahvistettu',
+  completed: 'Valmis',
+  no_show: 'Ei saapunut',
+  cancelled_by_customer: 'Asiakas perunut',
+  cancelled: 'Peruttu'
+};
+
+export const ROLE_LABELS: Record<User['role'], string> = {
+  customer: 'Asiakas',
+  vendor: 'Yritys',
+  admin: 'Ylläpito',
+  business: 'Yritysasiakas'
+};
+
+export const CANCELLED_STATUSES: AppointmentStatus[] = ['cancelled', 'cancelled_by_customer'];
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(from: AppointmentStatus, to: AppointmentStatus) {
+    super(`Tilaa ei voi muuttaa: ${STATUS_LABELS[from]} → ${STATUS_LABELS[to]}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+// Statuses each role may move a booking to. The vendor runs the booking,
+// customers can only cancel their own, and a business account's manager
+// approves or rejects the bookings of its members.
+export const ROLE_TRANSITIONS: Record<User['role'], AppointmentStatus[]> = {
+  customer: ['cancelled_by_customer'],
+  business: ['confirmed', 'cancelled'],
+  vendor: ['confirmed', 'completed', 'no_show', 'cancelled'],
+  admin: ['confirmed', 'completed', 'no_show', 'cancelled']
+};
+
+// Without a role, every change the table allows
+export const getAllowedTransitions = (status: AppointmentStatus, role?: User['role']) =>
+  (STATUS_TRANSITIONS[status] || []).filter(to => !role || ROLE_TRANSITIONS[role].includes(to));
+
+// A business booking waiting for approval can only be confirmed by a
+// manager of the account
+export const isAwaitingApproval = (appointment: Pick<Appointment, 'status' | 'approval'>) =>
+  appointment.status === 'pending' && appointment.approval?.status === 'pending';
+
+// Statuses the role can move this booking to
+export const getBookingTransitions = (appointment: Pick<Appointment, 'status' | 'approval'>, role: User['role']) =>
+  getAllowedTransitions(appointment.status, role)
+    .filter(to => to !== 'confirmed' || role === 'business' || !isAwaitingApproval(appointment));
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus, role?: User['role']) =>
+  getAllowedTransitions(from, role).includes(to);
+
+export const assertTransition = (from: AppointmentStatus, to: AppointmentStatus, role?: User['role']) => {
+  if (!canTransition(from, to, role)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+};
+
+export const createStatusChange = (
+  from: AppointmentStatus | null,
+  to: AppointmentStatus,
+  changedBy: string,
+  changedByRole: User['role'],
+  changedAt: Date,
+  reason?: string
+): StatusChange => ({
+  from,
+  to,
+  changedBy,
+  changedByRole,
+  changedAt,
+  // Firestore rejects undefined fields
+  ...(reason ? { reason } : {})
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { BookedSlot, Vendor } from '../types/database';
+import { DEFAULT_OPERATING_HOURS } from './operatingHours';
+import { findAvailableResource, getAvailableSlots, getDayOperatingHours, hasOpeningFor, isSlotAvailable, timeToMinutes } from './availability';
+
+const makeVendor = (overrides: Partial<Vendor> = {}) => ({
+  id: 'vendor-1',
+  operatingHours: DEFAULT_OPERATING_HOURS,
+  ...overrides
+}) as Vendor;
+
+// Monday; `now` is the day before so no slot is in the past
+const monday = new Date(2025, 2, 3);
+const sunday = new Date(2025, 2, 2);
+const hour = (time: string) => timeToMinutes(time);
+
+describe('getAvailableSlots', () => {
+  it('offers every half hour that fits the opening hours', () => {
+    const slots = getAvailableSlots(monday, { duration: 60 }, makeVendor(), [], sunday);
+    expect(slots[0]).toBe('09:00');
+    expect(slots[slots.length - 1]).toBe('16:00');
+    expect(slots).toHaveLength(15);
+  });
+
+  it('leaves out slots overlapping a booking on a single lane', () => {
+    const bookings: BookedSlot[] = [{ appointmentId: 'a1', start: hour('10:00'), end: hour('11:00') }];
+    const slots = getAvailableSlots(monday, { duration: 60 }, makeVendor(), bookings, sunday);
+    expect(slots).not.toContain('09:30');
+    expect(slots).not.toContain('10:30');
+    expect(slots).toContain('09:00');
+    expect(slots).toContain('11:00');
+  });
+
+  it('skips the break between split shifts', () => {
+    const vendor = makeVendor({
+      operatingHours: {
+        ...DEFAULT_OPERATING_HOURS,
+        monday: [{ open: '08:00', close: '11:00' }, { open: '12:00', close: '14:00' }]
+      }
+    });
+    const slots = getAvailableSlots(monday, { duration: 60 }, vendor, [], sunday);
+    expect(slots).toEqual(['08:00', '08:30', '09:00', '09:30', '10:00', '12:00', '12:30', '13:00']);
+  });
+
+  it('hides slots that have already started today', () => {
+    const slots = getAvailableSlots(monday, { duration: 60 }, makeVendor(), [], new Date(2025, 2, 3, 12, 15));
+    expect(slots[0]).toBe('12:30');
+  });
+
+  it('offers nothing on a closed day', () => {
+    expect(getAvailableSlots(sunday, { duration: 30 }, makeVendor(), [], sunday)).toEqual([]);
+  });
+
+  it('keeps a day without saved hours open at the default interval', () => {
+    const vendor = makeVendor({ operatingHours: undefined });
+    const slots = getAvailableSlots(sunday, { duration: 60 }, vendor, [], new Date(2025, 2, 1));
+    expect(slots[0]).toBe('09:00');
+    expect(slots[slots.length - 1]).toBe('16:00');
+  });
+});
+
+describe('isSlotAvailable', () => {
+  it('rejects a slot running past closing time', () => {
+    expect(isSlotAvailable(monday, hour('16:30'), { duration: 60 }, makeVendor(), [], sunday)).toBe(false);
+    expect(isSlotAvailable(monday, hour('16:00'), { duration: 60 }, makeVendor(), [], sunday)).toBe(true);
+  });
+
+  it('lets back-to-back bookings touch', () => {
+    const bookings: BookedSlot[] = [{ appointmentId: 'a1', start: hour('10:00'), end: hour('11:00') }];
+    expect(isSlotAvailable(monday, hour('11:00'), { duration: 30 }, makeVendor(), bookings, sunday)).toBe(true);
+    expect(isSlotAvailable(monday, hour('09:30'), { duration: 30 }, makeVendor(), bookings, sunday)).toBe(true);
+  });
+});
+
+describe('findAvailableResource', () => {
+  const vendor = makeVendor({
+    resources: [
+      { id: 'bay-1', name: 'Halli 1', type: 'bay' },
+      { id: 'bay-2', name: 'Halli 2', type: 'bay', categoryIds: ['detailing'] }
+    ]
+  });
+
+  it('uses a free lane when another is booked', () => {
+    const bookings: BookedSlot[] = [{ appointmentId: 'a1', resourceId: 'bay-1', start: hour('10:00'), end: hour('11:00') }];
+    expect(findAvailableResource(monday, hour('10:00'), { duration: 60 }, vendor, bookings, sunday)?.id).toBe('bay-2');
+  });
+
+  it('only uses lanes that serve the service category', () => {
+    const bookings: BookedSlot[] = [{ appointmentId: 'a1', resourceId: 'bay-1', start: hour('10:00'), end: hour('11:00') }];
+    expect(findAvailableResource(monday, hour('10:00'), { duration: 60, categoryId: 'wash' }, vendor, bookings, sunday)).toBeNull();
+  });
+
+  it('puts bookings without a lane on the first lane', () => {
+    const bookings: BookedSlot[] = [{ appointmentId: 'a1', start: hour('10:00'), end: hour('11:00') }];
+    expect(findAvailableResource(monday, hour('10:00'), { duration: 60 }, vendor, bookings, sunday)?.id).toBe('bay-2');
+  });
+
+  it('is full when every lane is booked', () => {
+    const bookings: BookedSlot[] = [
+      { appointmentId: 'a1', resourceId: 'bay-1', start: hour('10:00'), end: hour('11:00') },
+      { appointmentId: 'a2', resourceId: 'bay-2', start: hour('10:30'), end: hour('11:30') }
+    ];
+    expect(findAvailableResource(monday, hour('10:00'), { duration: 60 }, vendor, bookings, sunday)).toBeNull();
+  });
+});
+
+describe('opening exceptions', () => {
+  it('closes the vendor for the exception dates', () => {
+    const vendor = makeVendor({
+      openingExceptions: [{ id: 'e1', startDate: '2025-03-03', endDate: '2025-03-04', closed: true, reason: 'Remontti' }]
+    });
+    expect(getDayOperatingHours(monday, vendor)).toEqual([]);
+    expect(hasOpeningFor(monday, 30, vendor)).toBe(false);
+    expect(getDayOperatingHours(new Date(2025, 2, 5), vendor)).toEqual([{ open: '09:00', close: '17:00' }]);
+  });
+
+  it('replaces the weekly hours with special hours', () => {
+    const vendor = makeVendor({
+      openingExceptions: [{ id: 'e1', startDate: '2025-03-03', endDate: '2025-03-03', closed: false, open: '12:00', close: '14:00', reason: 'Lyhennetty päivä' }]
+    });
+    expect(getAvailableSlots(monday, { duration: 60 }, vendor, [], sunday)).toEqual(['12:00', '12:30', '13:00']);
+  });
+});
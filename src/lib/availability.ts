@@ -0,0 +1,148 @@
+import { format, isSameDay } from 'date-fns';
+import type { Vendor, VendorResource, BookedSlot, Weekday, OpeningInterval } from '../types/database';
+import { ALL_DAY, UNSET_DAY_HOURS, normalizeDayHours } from './operatingHours';
+
+export const SLOT_INTERVAL = 30; // minutes
+const DAY_END = 24 * 60;
+
+const DAY_KEYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const DEFAULT_RESOURCE: VendorResource = { id: 'default', name: 'Pesupaikka 1', type: 'bay' };
+
+export interface SlotRequest {
+  duration: number;
+  categoryId?: string;
+}
+
+export class SlotUnavailableError extends Error {
+  constructor(message = 'Valitsemasi aika ei ole enää vapaana. Valitse toinen aika.') {
+    super(message);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+export const getWeekday = (date: Date) => DAY_KEYS[date.getDay()];
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes = '0'] = time.split(':');
+  return parseInt(hours) * 60 + parseInt(minutes);
+};
+
+export const minutesToTime = (minutes: number) => {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+};
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const getScheduleId = (vendorId: string, date: Date) => `${vendorId}_${toDateKey(date)}`;
+
+export const getOpeningException = (date: Date, vendor: Vendor) => {
+  const dateKey = toDateKey(date);
+  return vendor.openingExceptions?.find(exception =>
+    exception.startDate <= dateKey && dateKey <= exception.endDate
+  );
+};
+
+// Weekly hours for the date, with any date-specific exception applied
+export const getDayOperatingHours = (date: Date, vendor: Vendor): OpeningInterval[] => {
+  const exception = getOpeningException(date, vendor);
+  if (exception) {
+    return exception.closed || !exception.open || !exception.close
+      ? []
+      : [{ open: exception.open, close: exception.close }];
+  }
+
+  const day = getWeekday(date);
+  if (!vendor.operatingHours || !(day in vendor.operatingHours)) {
+    return UNSET_DAY_HOURS;
+  }
+  return normalizeDayHours(vendor.operatingHours[day]);
+};
+
+// Opening intervals in minutes from midnight; empty when closed
+export const getOpeningWindows = (date: Date, vendor: Vendor) => {
+  return getDayOperatingHours(date, vendor).map(interval => ({
+    start: timeToMinutes(interval.open),
+    end: interval.close === ALL_DAY.close ? DAY_END : timeToMinutes(interval.close)
+  }));
+};
+
+export const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+const getMinimumStart = (date: Date, now: Date) => {
+  if (!isSameDay(date, now)) return 0;
+  return now.getHours() * 60 + now.getMinutes();
+};
+
+// Vendors without a configured capacity are treated as a single lane
+export const getVendorResources = (vendor: Vendor): VendorResource[] =>
+  vendor.resources && vendor.resources.length > 0 ? vendor.resources : [DEFAULT_RESOURCE];
+
+export const canServeCategory = (resource: VendorResource, categoryId?: string) =>
+  !categoryId || !resource.categoryIds || resource.categoryIds.length === 0 || resource.categoryIds.includes(categoryId);
+
+// Bookings made before capacity was configured have no resource and occupy the first lane
+export const getBookingResourceId = (booking: { resourceId?: string }, resources: VendorResource[]) =>
+  booking.resourceId && resources.some(resource => resource.id === booking.resourceId)
+    ? booking.resourceId
+    : resources[0].id;
+
+export const findAvailableResource = (
+  date: Date,
+  start: number,
+  request: SlotRequest,
+  vendor: Vendor,
+  bookings: BookedSlot[],
+  now: Date = new Date()
+): VendorResource | null => {
+  const slot = { start, end: start + request.duration };
+  const fitsOpeningHours = getOpeningWindows(date, vendor).some(window =>
+    slot.start >= window.start && slot.end <= window.end
+  );
+  if (!fitsOpeningHours) return null;
+  if (slot.start < getMinimumStart(date, now)) return null;
+
+  const resources = getVendorResources(vendor);
+  return resources.find(resource =>
+    canServeCategory(resource, request.categoryId) &&
+    !bookings.some(booking =>
+      getBookingResourceId(booking, resources) === resource.id && overlaps(slot, booking)
+    )
+  ) || null;
+};
+
+export const isSlotAvailable = (
+  date: Date,
+  start: number,
+  request: SlotRequest,
+  vendor: Vendor,
+  bookings: BookedSlot[],
+  now: Date = new Date()
+) => findAvailableResource(date, start, request, vendor, bookings, now) !== null;
+
+export const getAvailableSlots = (
+  date: Date,
+  request: SlotRequest,
+  vendor: Vendor,
+  bookings: BookedSlot[],
+  now: Date = new Date()
+) => {
+  const times: string[] = [];
+  getOpeningWindows(date, vendor).forEach(window => {
+    for (let start = window.start; start + request.duration <= window.end; start += SLOT_INTERVAL) {
+      if (isSlotAvailable(date, start, request, vendor, bookings, now)) {
+        times.push(minutesToTime(start));
+      }
+    }
+  });
+
+  return times;
+};
+
+// True when the day is open long enough to fit the service at all
+export const hasOpeningFor = (date: Date, duration: number, vendor: Vendor) => {
+  return getOpeningWindows(date, vendor).some(window => window.end - window.start >= duration);
+};
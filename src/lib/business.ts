@@ -0,0 +1,86 @@
+import { addDays, endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Appointment, BusinessAccount, BusinessApprovalStatus, BusinessMember, BusinessMemberRole, InvoiceLine, InvoiceStatus } from '../types/database';
+import { CANCELLED_STATUSES } from './appointmentStatus';
+import { formatAppointmentServices } from './appointmentServices';
+
+export const MEMBER_ROLE_LABELS: Record<BusinessMemberRole, string> = {
+  manager: 'Pääkäyttäjä',
+  driver: 'Kuljettaja'
+};
+
+export const APPROVAL_LABELS: Record<BusinessApprovalStatus, string> = {
+  pending: 'Odottaa hyväksyntää',
+  approved: 'Hyväksytty',
+  rejected: 'Hylätty'
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  open: 'Avoin',
+  paid: 'Maksettu'
+};
+
+export const INVOICE_DUE_DAYS = 14;
+
+// Invoicing periods are calendar months, keyed yyyy-MM
+export const getPeriodKey = (date: Date) => format(date, 'yyyy-MM');
+
+export const getPeriodRange = (date: Date) => ({ start: startOfMonth(date), end: endOfMonth(date) });
+
+export const getInvoiceDueDate = (createdAt: Date) => addDays(createdAt, INVOICE_DUE_DAYS);
+
+export const getMember = (account: BusinessAccount, userId: string): BusinessMember | null =>
+  account.members[userId] || null;
+
+export const isBusinessManager = (account: BusinessAccount, userId: string) =>
+  getMember(account, userId)?.role === 'manager';
+
+// Cancelled and rejected bookings do not use up the limits
+export const countsTowardsSpend = (appointment: Pick<Appointment, 'status' | 'approval'>) =>
+  !CANCELLED_STATUSES.includes(appointment.status) && appointment.approval?.status !== 'rejected';
+
+export const getMonthlySpend = (appointments: Pick<Appointment, 'customerId' | 'status' | 'approval' | 'totalPrice'>[], userId?: string) =>
+  appointments
+    .filter(appointment => countsTowardsSpend(appointment) && (!userId || appointment.customerId === userId))
+    .reduce((sum, appointment) => sum + (appointment.totalPrice || 0), 0);
+
+// Why a new booking of `amount` needs a manager's approval, or null when it
+// can be confirmed right away. `appointments` are the account's bookings in
+// the same month. Managers approve their own bookings.
+export const getApprovalReason = (
+  account: BusinessAccount,
+  member: BusinessMember,
+  appointments: Pick<Appointment, 'customerId' | 'status' | 'approval' | 'totalPrice'>[],
+  amount: number
+) => {
+  if (member.role === 'manager') return null;
+  if (member.requiresApproval) {
+    return 'Jäsenen varaukset vaativat hyväksynnän';
+  }
+  if (member.monthlyLimit !== null && getMonthlySpend(appointments, member.userId) + amount > member.monthlyLimit) {
+    return `Jäsenen kuukausiraja ${member.monthlyLimit}€ ylittyy`;
+  }
+  if (account.monthlyLimit !== null && getMonthlySpend(appointments) + amount > account.monthlyLimit) {
+    return `Yrityksen kuukausiraja ${account.monthlyLimit}€ ylittyy`;
+  }
+  return null;
+};
+
+// Completed business bookings not yet on an invoice, grouped by vendor
+export const getUninvoicedByVendor = (appointments: Appointment[]) =>
+  appointments
+    .filter(appointment => appointment.status === 'completed' && !appointment.invoiceId)
+    .reduce((groups, appointment) => ({
+      ...groups,
+      [appointment.vendorId]: [...(groups[appointment.vendorId] || []), appointment]
+    }), {} as Record<string, Appointment[]>);
+
+export const toInvoiceLine = (appointment: Appointment): InvoiceLine => ({
+  appointmentId: appointment.id,
+  date: appointment.date,
+  description: formatAppointmentServices(appointment, 'Pesu'),
+  licensePlate: appointment.customerDetails.licensePlate,
+  bookedBy: `${appointment.customerDetails.firstName} ${appointment.customerDetails.lastName}`.trim(),
+  amount: appointment.totalPrice || 0
+});
+
+export const formatLimit = (limit: number | null) => limit === null ? 'Ei rajaa' : `${limit}€ / kk`;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getCancellationDeadline, getCancellationWindowHours, getModificationError } from './cancellation';
+
+const appointmentDate = new Date(2025, 2, 10, 12, 0);
+
+describe('getCancellationDeadline', () => {
+  it('defaults to 24 hours before the booking', () => {
+    expect(getCancellationWindowHours({})).toBe(24);
+    expect(getCancellationDeadline(appointmentDate, {})).toEqual(new Date(2025, 2, 9, 12, 0));
+  });
+
+  it('uses the window the vendor has set, including none', () => {
+    expect(getCancellationDeadline(appointmentDate, { cancellationWindowHours: 2 })).toEqual(new Date(2025, 2, 10, 10, 0));
+    expect(getCancellationDeadline(appointmentDate, { cancellationWindowHours: 0 })).toEqual(appointmentDate);
+  });
+});
+
+describe('getModificationError', () => {
+  it('allows changes until the deadline', () => {
+    expect(getModificationError({ status: 'confirmed', date: appointmentDate }, {}, new Date(2025, 2, 9, 12, 0))).toBeNull();
+    expect(getModificationError({ status: 'pending', date: appointmentDate }, {}, new Date(2025, 2, 8))).toBeNull();
+  });
+
+  it('refuses changes after the deadline', () => {
+    expect(getModificationError({ status: 'confirmed', date: appointmentDate }, {}, new Date(2025, 2, 9, 12, 1)))
+      .toBe('Varauksen voi perua tai siirtää viimeistään 24 tuntia ennen varattua aikaa. Ota yhteyttä yritykseen.');
+  });
+
+  it('refuses changes to finished bookings', () => {
+    expect(getModificationError({ status: 'completed', date: appointmentDate }, {}, new Date(2025, 2, 1)))
+      .toBe('Varausta ei voi enää muuttaa');
+    expect(getModificationError({ status: 'cancelled_by_customer', date: appointmentDate }, {}, new Date(2025, 2, 1)))
+      .toBe('Varausta ei voi enää muuttaa');
+  });
+});
@@ -0,0 +1,33 @@
+import { subHours } from 'date-fns';
+import type { Appointment, Vendor } from '../types/database';
+
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+// Only upcoming bookings that the vendor hasn't finished can be changed
+const MODIFIABLE_STATUSES: Appointment['status'][] = ['pending', 'confirmed'];
+
+export const getCancellationWindowHours = (vendor: Pick<Vendor, 'cancellationWindowHours'>) =>
+  vendor.cancellationWindowHours ?? DEFAULT_CANCELLATION_WINDOW_HOURS;
+
+// Last moment the customer can cancel or reschedule the booking themselves
+export const getCancellationDeadline = (appointmentDate: Date, vendor: Pick<Vendor, 'cancellationWindowHours'>) =>
+  subHours(appointmentDate, getCancellationWindowHours(vendor));
+
+export const isModifiableStatus = (status: Appointment['status']) =>
+  MODIFIABLE_STATUSES.includes(status);
+
+// Returns the reason the customer can't change the booking, or null if they can
+export const getModificationError = (
+  appointment: Pick<Appointment, 'status' | 'date'>,
+  vendor: Pick<Vendor, 'cancellationWindowHours'>,
+  now: Date = new Date()
+) => {
+  if (!isModifiableStatus(appointment.status)) {
+    return 'Varausta ei voi enää muuttaa';
+  }
+  if (now > getCancellationDeadline(appointment.date, vendor)) {
+    const hours = getCancellationWindowHours(vendor);
+    return `Varauksen voi perua tai siirtää viimeistään ${hours} tuntia ennen varattua aikaa. Ota yhteyttä yritykseen.`;
+  }
+  return null;
+};
@@ -0,0 +1,22 @@
+export const CITIES = [
+  'Helsinki',
+  'Espoo', 
+  'Tampere',
+  'Vantaa',
+  'Oulu',
+  'Turku',
+  'Jyväskylä',
+  'Lahti',
+  'Kuopio',
+  'Pori',
+  'Joensuu',
+  'Lappeenranta',
+  'Hämeenlinna',
+  'Vaasa',
+  'Seinäjoki',
+  'Rovaniemi',
+  'Mikkeli',
+  'Kotka',
+  'Salo',
+  'Porvoo'
+];
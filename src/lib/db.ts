@@ -14,11 +14,41 @@ import {
   increment,
   arrayUnion,
   runTransaction,
-  deleteDoc
+  deleteDoc,
+  startAfter,
+  onSnapshot,
+  deleteField,
+  arrayRemove
 } from 'firebase/firestore';
+import type { Transaction as FirestoreTransaction, QueryDocumentSnapshot, QueryConstraint, DocumentData, DocumentReference, DocumentSnapshot } from 'firebase/firestore';
 import { db, COLLECTIONS } from './firebase';
-import type { User, Vendor, Service, ServiceCategory, Appointment, Transaction, Promotion, Offer } from '../types/database';
+import type { User, Vendor, Service, ServiceCategory, Appointment, AppointmentStatus, Transaction, WalletTransaction, Promotion, Offer, BookedSlot, CoinLot, LoyaltySettings, Voucher, VoucherBatch, VoucherRedemption, Referral, WashPackage, CustomerPackage, PackageCredit, Vehicle, BusinessAccount, BusinessInvoice, BusinessMember, AppointmentPayment, PaymentStatus, CommissionSettings, PayoutBatch, PayoutEntry, Receipt, UserNotification, VendorVerification, VerificationDocument, VerificationEvent } from '../types/database';
 import { DEFAULT_SERVICES } from './defaultServices';
+import { getScheduleId, findAvailableResource, SlotUnavailableError, toDateKey } from './availability';
+import { DEFAULT_OPERATING_HOURS } from './operatingHours';
+import { getModificationError } from './cancellation';
+import { assertTransition, createStatusChange, isAwaitingApproval, CANCELLED_STATUSES } from './appointmentStatus';
+import { PriceChangedError, getPriceQuote, getQualifyingPromotions, hasPromotionBudget, isPromotionRunning } from './pricing';
+import { MAX_BATCH_SIZE, VoucherError, generateVoucherCodes, getVoucherError, normalizeVoucherCode } from './vouchers';
+import { normalizePlate } from './vehicles';
+import { applyVehicleClass, getAddOnsDuration, getSelectedAddOns } from './serviceVariants';
+import { formatAppointmentServices, getAppointmentDuration, getAppointmentServiceIds, getBasketDuration, toAppointmentService } from './appointmentServices';
+import { DEFAULT_COMMISSION_SETTINGS, getCommissionRate, getPayableEntries, getPayoutAmounts, normalizeIban, sumPayoutEntries } from './payouts';
+import { getApprovalReason, getInvoiceDueDate, getPeriodKey, getPeriodRange, getUninvoicedByVendor, isBusinessManager, toInvoiceLine } from './business';
+import { buildReceipt } from './receipts';
+import { getMissingDocuments, isValidBusinessId, toVerificationDate } from './verification';
+import { PaymentError, getPaymentProvider, isRefundable, toAppointmentPayment } from './payments';
+import type { PaymentAuthorization } from './payments';
+import { adjustCredit, getAvailableCredits, getCreditValue, getPackageExpiryDate, getServiceCredit, isPackageExpired } from './packages';
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  normalizeLots,
+  splitExpiredLots,
+  consumeLots,
+  getCoinExpiryDate,
+  getLoyaltyTier,
+  getRewardCoins
+} from './loyalty';
 import { writeBatch } from 'firebase/firestore';
 
 export const addFeedback = async (appointmentId: string, feedback: { rating: number; comment: string }) => {
@@ -80,25 +110,38 @@ export const createUser = async (userId: string, userData: Partial<User>) => {
   };
 
   // Add welcome bonus only for customers
-  if (!isVendor) {
-    baseUserData.wallet = {
-      coins: 10, // Welcome bonus
-      transactions: [{
-        id: crypto.randomUUID(),
-        amount: 10,
-        type: 'credit',
-        description: 'Tervetuliaislahja uudelle jäsenelle',
-        timestamp: Timestamp.now()
-      }]
-    };
-  } else {
-    baseUserData.wallet = {
-      coins: 0,
-      transactions: []
-    };
+  const welcomeBonus = isVendor ? 0 : 10;
+  const welcomeEntryId = getLedgerKey('welcome', userId);
+  const now = Timestamp.now();
+  const loyaltySettings = await getLoyaltySettings();
+  baseUserData.wallet = {
+    coins: welcomeBonus,
+    lots: welcomeBonus > 0
+      ? [{
+          id: welcomeEntryId,
+          remaining: welcomeBonus,
+          earnedAt: now.toDate(),
+          expiresAt: getCoinExpiryDate(now.toDate(), loyaltySettings)
+        }]
+      : []
+  };
+
+  const userBatch = writeBatch(db);
+  userBatch.set(userRef, baseUserData);
+
+  if (welcomeBonus > 0) {
+    userBatch.set(doc(db, COLLECTIONS.WALLET_TRANSACTIONS, welcomeEntryId), {
+      id: welcomeEntryId,
+      userId,
+      amount: welcomeBonus,
+      type: 'credit',
+      description: 'Tervetuliaislahja uudelle jäsenelle',
+      balanceAfter: welcomeBonus,
+      timestamp: now
+    });
   }
 
-  await setDoc(userRef, baseUserData);
+  await userBatch.commit();
 
   // If user is a vendor, create vendor document immediately
   if (isVendor) {
@@ -118,15 +161,7 @@ export const createUser = async (userId: string, userData: Partial<User>) => {
       services: [],
       rating: 0,
       ratingCount: 0,
-      operatingHours: {
-        monday: { open: '09:00', close: '17:00' },
-        tuesday: { open: '09:00', close: '17:00' },
-        wednesday: { open: '09:00', close: '17:00' },
-        thursday: { open: '09:00', close: '17:00' },
-        friday: { open: '09:00', close: '17:00' },
-        saturday: { open: 'closed', close: 'closed' },
-        sunday: { open: 'closed', close: 'closed' }
-      },
+      operatingHours: DEFAULT_OPERATING_HOURS,
       createdAt: serverTimestamp()
     };
     
@@ -200,34 +235,342 @@ export const updateUser = async (userId: string, userData: Partial<User>) => {
   }
 };
 
-export const addCoinsToUser = async (userId: string, amount: number, description: string) => {
+// Vehicle garages. A customer's vehicles live under the user document and a
+// fleet's under its business account; plates are stored normalized so the
+// same car cannot be saved twice.
+export type VehicleOwner = { userId: string } | { businessAccountId: string };
+
+const getVehiclesRef = (owner: VehicleOwner) => 'userId' in owner
+  ? collection(db, COLLECTIONS.USERS, owner.userId, COLLECTIONS.VEHICLES)
+  : collection(db, COLLECTIONS.BUSINESS_ACCOUNTS, owner.businessAccountId, COLLECTIONS.VEHICLES);
+
+const toVehicle = (data: DocumentData): Vehicle => ({
+  ...data,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date()
+}) as Vehicle;
+
+export const getVehicles = async (owner: VehicleOwner): Promise<Vehicle[]> => {
+  const querySnapshot = await getDocs(query(getVehiclesRef(owner), orderBy('createdAt', 'asc')));
+  return querySnapshot.docs.map(doc => toVehicle(doc.data()));
+};
+
+const assertUniquePlate = async (owner: VehicleOwner, plate: string, vehicleId?: string) => {
+  const querySnapshot = await getDocs(query(getVehiclesRef(owner), where('plate', '==', plate)));
+  if (querySnapshot.docs.some(doc => doc.id !== vehicleId)) {
+    throw new Error('Ajoneuvo on jo tallennettu');
+  }
+};
+
+export const addVehicle = async (owner: VehicleOwner, vehicleData: Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const plate = normalizePlate(vehicleData.plate);
+  await assertUniquePlate(owner, plate);
+
+  const vehicleRef = doc(getVehiclesRef(owner));
+  await setDoc(vehicleRef, {
+    ...vehicleData,
+    plate,
+    id: vehicleRef.id,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+  return vehicleRef.id;
+};
+
+export const updateVehicle = async (owner: VehicleOwner, vehicleId: string, vehicleData: Partial<Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt'>>) => {
+  const plate = vehicleData.plate ? normalizePlate(vehicleData.plate) : undefined;
+  if (plate) {
+    await assertUniquePlate(owner, plate, vehicleId);
+  }
+
+  await updateDoc(doc(getVehiclesRef(owner), vehicleId), {
+    ...vehicleData,
+    ...(plate ? { plate } : {}),
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
+export const deleteVehicle = async (owner: VehicleOwner, vehicleId: string) => {
+  await deleteDoc(doc(getVehiclesRef(owner), vehicleId));
+  return true;
+};
+
+// Wallet ledger. Every coin movement goes through prepareWalletEntry and
+// commitWalletEntry inside a Firestore transaction. The idempotency key becomes
+// the id of the entry's wallet_transactions document, so retrying the same
+// event never credits or debits twice. Each entry stores the balance after it.
+// Earned coins are tracked as lots that expire and are spent FIFO.
+export class InsufficientCoinsError extends Error {
+  constructor(message = 'Kolikkosaldo ei riitä') {
+    super(message);
+    this.name = 'InsufficientCoinsError';
+  }
+}
+
+export interface WalletEntry {
+  userId: string;
+  amount: number; // always positive, direction comes from type
+  type: Transaction['type'];
+  description: string;
+  idempotencyKey: string;
+  appointmentId?: string;
+}
+
+interface PreparedWallet {
+  userId: string;
+  balance: number; // after removing expired coins
+  lots: CoinLot[];
+  expired: CoinLot[];
+  settings: LoyaltySettings;
+}
+
+interface PreparedWalletEntry extends WalletEntry, PreparedWallet {
+  alreadyApplied: boolean;
+}
+
+export const getLedgerKey = (
+  event: 'welcome' | 'booking' | 'reward' | 'promotion' | 'voucher' | 'refund' | 'referral_bonus' | 'referral_reward' | 'manual' | 'migrated' | 'expiry',
+  id: string
+) => `${event}_${id}`;
+
+const prepareWallet = async (transaction: FirestoreTransaction, userId: string): Promise<PreparedWallet> => {
+  const [userDoc, settingsDoc] = await Promise.all([
+    transaction.get(doc(db, COLLECTIONS.USERS, userId)),
+    transaction.get(doc(db, COLLECTIONS.SETTINGS, LOYALTY_SETTINGS_ID))
+  ]);
+
+  if (!userDoc.exists()) {
+    throw new Error('Käyttäjää ei löytynyt');
+  }
+
+  const wallet = userDoc.data().wallet || {};
+  const { active, expired } = splitExpiredLots(normalizeLots(wallet.lots));
+  const expiredCoins = expired.reduce((sum, lot) => sum + lot.remaining, 0);
+
+  return {
+    userId,
+    balance: Math.max(0, (wallet.coins || 0) - expiredCoins),
+    lots: active,
+    expired,
+    settings: { ...DEFAULT_LOYALTY_SETTINGS, ...settingsDoc.data() } as LoyaltySettings
+  };
+};
+
+// Writes a ledger entry for every expired lot and returns the coins removed.
+// Lots expired while a booking is settled carry its appointment, which lets
+// the vendor write them to the customer's ledger.
+const commitExpiredLots = (
+  transaction: FirestoreTransaction,
+  wallet: PreparedWallet,
+  timestamp: Timestamp,
+  appointmentId?: string
+) => {
+  const expiredCoins = wallet.expired.reduce((sum, lot) => sum + lot.remaining, 0);
+  let balance = wallet.balance + expiredCoins;
+
+  wallet.expired.forEach(lot => {
+    balance -= lot.remaining;
+    const entryId = getLedgerKey('expiry', lot.id);
+    transaction.set(doc(db, COLLECTIONS.WALLET_TRANSACTIONS, entryId), {
+      id: entryId,
+      userId: wallet.userId,
+      amount: lot.remaining,
+      type: 'debit',
+      description: 'Kolikot vanhentuneet',
+      balanceAfter: balance,
+      ...(appointmentId ? { appointmentId } : {}),
+      timestamp
+    });
+  });
+
+  return expiredCoins;
+};
+
+// Reads the wallet and the entry marker. Firestore requires all reads before
+// any writes, so prepare every entry before writing anything in the transaction.
+export const prepareWalletEntry = async (
+  transaction: FirestoreTransaction,
+  entry: WalletEntry
+): Promise<PreparedWalletEntry> => {
+  if (!Number.isInteger(entry.amount) || entry.amount <= 0) {
+    throw new Error('Virheellinen kolikkomäärä');
+  }
+
+  const entryRef = doc(db, COLLECTIONS.WALLET_TRANSACTIONS, entry.idempotencyKey);
+  const [wallet, entryDoc] = await Promise.all([
+    prepareWallet(transaction, entry.userId),
+    transaction.get(entryRef)
+  ]);
+  const alreadyApplied = entryDoc.exists();
+
+  if (!alreadyApplied && entry.type === 'debit' && wallet.balance < entry.amount) {
+    throw new InsufficientCoinsError();
+  }
+
+  return { ...entry, ...wallet, alreadyApplied };
+};
+
+// Commits entries prepared for the same user in one transaction, chaining the
+// balance from one entry to the next. Entries already applied by an earlier
+// attempt are skipped; returns the number of entries written.
+export const commitWalletEntries = (
+  transaction: FirestoreTransaction,
+  entries: PreparedWalletEntry[],
+  timestamp: Timestamp = Timestamp.now()
+) => {
+  const pending = entries.filter(entry => !entry.alreadyApplied);
+  if (pending.length === 0) return 0;
+
+  const wallet = pending[0];
+  const userRef = doc(db, COLLECTIONS.USERS, wallet.userId);
+  const expiredCoins = commitExpiredLots(transaction, wallet, timestamp, pending.find(entry => entry.appointmentId)?.appointmentId);
+  let { balance, lots } = wallet;
+
+  pending.forEach(entry => {
+    const signedAmount = entry.type === 'credit' ? entry.amount : -entry.amount;
+    if (entry.type === 'debit' && balance < entry.amount) {
+      throw new InsufficientCoinsError();
+    }
+
+    lots = entry.type === 'credit'
+      ? [...lots, {
+          id: entry.idempotencyKey,
+          remaining: entry.amount,
+          earnedAt: timestamp.toDate(),
+          expiresAt: getCoinExpiryDate(timestamp.toDate(), entry.settings)
+        }]
+      : consumeLots(lots, balance, entry.amount);
+    balance += signedAmount;
+
+    transaction.set(doc(db, COLLECTIONS.WALLET_TRANSACTIONS, entry.idempotencyKey), {
+      id: entry.idempotencyKey,
+      userId: entry.userId,
+      amount: entry.amount,
+      type: entry.type,
+      description: entry.description,
+      balanceAfter: balance,
+      ...(entry.appointmentId ? { appointmentId: entry.appointmentId } : {}),
+      timestamp
+    });
+  });
+
+  transaction.update(userRef, {
+    'wallet.coins': increment(balance - wallet.balance - expiredCoins),
+    'wallet.lots': lots,
+    'wallet.lastEntryId': pending[pending.length - 1].idempotencyKey
+  });
+
+  return pending.length;
+};
+
+// Returns false when the entry was already applied by an earlier attempt.
+// Several entries for the same user must go through commitWalletEntries, as
+// each prepared entry holds the balance read before any of them.
+export const commitWalletEntry = (
+  transaction: FirestoreTransaction,
+  entry: PreparedWalletEntry,
+  timestamp: Timestamp = Timestamp.now()
+) => commitWalletEntries(transaction, [entry], timestamp) > 0;
+
+// Removes expired coins from the wallet; returns the number of coins expired
+export const expireCoins = async (userId: string) => {
   try {
-    const userRef = doc(db, COLLECTIONS.USERS, userId);
-    const transaction: Transaction = {
-      id: crypto.randomUUID(),
-      amount,
-      type: 'credit',
-      description,
-      timestamp: Timestamp.now()
-    };
+    return await runTransaction(db, async (transaction) => {
+      const wallet = await prepareWallet(transaction, userId);
+      if (wallet.expired.length === 0) return 0;
 
-    await updateDoc(userRef, {
-      'wallet.coins': increment(amount),
-      'wallet.transactions': arrayUnion(transaction)
+      const expiredCoins = commitExpiredLots(transaction, wallet, Timestamp.now());
+      transaction.update(doc(db, COLLECTIONS.USERS, userId), {
+        'wallet.coins': increment(-expiredCoins),
+        'wallet.lots': wallet.lots
+      });
+      return expiredCoins;
     });
+  } catch (error) {
+    console.error('Error expiring coins:', error);
+    throw error;
+  }
+};
 
-    return true;
+export const applyWalletEntry = async (entry: WalletEntry) => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const prepared = await prepareWalletEntry(transaction, entry);
+      return commitWalletEntry(transaction, prepared);
+    });
   } catch (error) {
-    console.error('Error adding coins:', error);
+    console.error('Error applying wallet entry:', error);
     throw error;
   }
 };
 
-// Referral system
+export const addCoinsToUser = async (
+  userId: string,
+  amount: number,
+  description: string,
+  idempotencyKey: string = getLedgerKey('manual', crypto.randomUUID())
+) => {
+  await applyWalletEntry({ userId, amount, type: 'credit', description, idempotencyKey });
+  return true;
+};
+
+export interface WalletTransactionFilters {
+  type?: Transaction['type'];
+  from?: Date;
+  to?: Date;
+}
+
+export const WALLET_PAGE_SIZE = 20;
+
+// One page of the user's ledger, newest first. Pass the returned cursor to
+// fetch the next page; it is null when there are no more entries. The date
+// range filters the ordered field, so (userId, timestamp) serves the unfiltered
+// and date-only views and (userId, type, timestamp) those filtered by type.
+export const getWalletTransactions = async (
+  userId: string,
+  filters: WalletTransactionFilters = {},
+  cursor: QueryDocumentSnapshot | null = null,
+  pageSize: number = WALLET_PAGE_SIZE
+) => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (filters.type) {
+    constraints.push(where('type', '==', filters.type));
+  }
+  if (filters.from) {
+    constraints.push(where('timestamp', '>=', Timestamp.fromDate(filters.from)));
+  }
+  if (filters.to) {
+    constraints.push(where('timestamp', '<=', Timestamp.fromDate(filters.to)));
+  }
+  constraints.push(orderBy('timestamp', 'desc'));
+  if (cursor) {
+    constraints.push(startAfter(cursor));
+  }
+  // One extra entry tells whether another page exists
+  constraints.push(limit(pageSize + 1));
+
+  const querySnapshot = await getDocs(query(collection(db, COLLECTIONS.WALLET_TRANSACTIONS), ...constraints));
+  const docs = querySnapshot.docs.slice(0, pageSize);
+  return {
+    transactions: docs.map(doc => ({
+      ...doc.data(),
+      id: doc.id,
+      timestamp: doc.data().timestamp.toDate()
+    }) as WalletTransaction),
+    cursor: querySnapshot.docs.length > pageSize ? docs[docs.length - 1] : null
+  };
+};
+
+// Referral system. Applying a code only links the account to the referrer;
+// both rewards stay pending until the referred customer's first appointment
+// is completed (see changeAppointmentStatus). The referral document is keyed
+// by the referred user, so an account can use one code only.
 export const applyReferralCode = async (userId: string, referralCode: string) => {
   try {
+    const code = referralCode.trim();
     const usersRef = collection(db, COLLECTIONS.USERS);
-    const q = query(usersRef, where('referralCode', '==', referralCode));
+    const q = query(usersRef, where('referralCode', '==', code));
     const querySnapshot = await getDocs(q);
 
     if (querySnapshot.empty) {
@@ -241,37 +584,48 @@ export const applyReferralCode = async (userId: string, referralCode: string) =>
       throw new Error('Et voi käyttää omaa suosituskoodiasi');
     }
 
+    const userRef = doc(db, COLLECTIONS.USERS, userId);
+    const referralRef = doc(db, COLLECTIONS.REFERRALS, userId);
+
     await runTransaction(db, async (transaction) => {
-      // Add coins to referrer
-      const referrerRef = doc(db, COLLECTIONS.USERS, referrerId);
-      const referrerTransaction: Transaction = {
-        id: crypto.randomUUID(),
-        amount: 20,
-        type: 'credit',
-        description: 'Suosituspalkkio',
-        timestamp: new Date()
-      };
-
-      transaction.update(referrerRef, {
-        'wallet.coins': increment(20),
-        'wallet.transactions': arrayUnion(referrerTransaction),
-        'referralCount': increment(1)
-      });
+      const [userDoc, referralDoc, settingsDoc] = await Promise.all([
+        transaction.get(userRef),
+        transaction.get(referralRef),
+        transaction.get(doc(db, COLLECTIONS.SETTINGS, LOYALTY_SETTINGS_ID))
+      ]);
+
+      if (!userDoc.exists()) {
+        throw new Error('Käyttäjää ei löytynyt');
+      }
+
+      const user = userDoc.data() as User;
+      if (referralDoc.exists() || user.usedReferralCode) {
+        throw new Error('Olet jo käyttänyt suosituskoodin');
+      }
+      if (user.role !== 'customer') {
+        throw new Error('Suosituskoodin voi käyttää vain asiakastili');
+      }
+      if ((user.loyalty?.completedCount || 0) > 0) {
+        throw new Error('Suosituskoodin voi käyttää vain ennen ensimmäistä pesua');
+      }
 
-      // Add bonus coins to referred user
-      const userRef = doc(db, COLLECTIONS.USERS, userId);
-      const userTransaction: Transaction = {
-        id: crypto.randomUUID(),
-        amount: 15,
-        type: 'credit',
-        description: 'Suosituskoodin bonus',
-        timestamp: new Date()
-      };
+      // The amounts are fixed when the code is applied
+      const settings = { ...DEFAULT_LOYALTY_SETTINGS, ...settingsDoc.data() } as LoyaltySettings;
 
+      transaction.set(referralRef, {
+        id: userId,
+        referrerId,
+        referredId: userId,
+        referredName: [user.firstName, user.lastName?.charAt(0)].filter(Boolean).join(' ') || 'Uusi jäsen',
+        code,
+        status: 'pending',
+        referrerReward: settings.referrerReward,
+        referredReward: settings.referredReward,
+        createdAt: Timestamp.now()
+      });
       transaction.update(userRef, {
-        'wallet.coins': increment(15),
-        'wallet.transactions': arrayUnion(userTransaction),
-        'usedReferralCode': referralCode
+        usedReferralCode: code,
+        referredBy: referrerId
       });
     });
 
@@ -282,6 +636,29 @@ export const applyReferralCode = async (userId: string, referralCode: string) =>
   }
 };
 
+const toReferral = (data: DocumentData): Referral => ({
+  ...data,
+  createdAt: data.createdAt.toDate(),
+  ...(data.completedAt ? { completedAt: data.completedAt.toDate() } : {})
+}) as Referral;
+
+// The customer's own referral, if they have used a code
+export const getReferral = async (userId: string): Promise<Referral | null> => {
+  const referralSnap = await getDoc(doc(db, COLLECTIONS.REFERRALS, userId));
+  return referralSnap.exists() ? toReferral(referralSnap.data()) : null;
+};
+
+// Friends who signed up with the user's code
+export const getReferralsByReferrer = async (referrerId: string): Promise<Referral[]> => {
+  const q = query(
+    collection(db, COLLECTIONS.REFERRALS),
+    where('referrerId', '==', referrerId),
+    orderBy('createdAt', 'desc')
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => toReferral(doc.data()));
+};
+
 export const initializeServiceCategories = async (vendorId: string) => {
   // This function is now handled during vendor creation
   return true;
@@ -323,6 +700,11 @@ export const getServiceCategories = async (vendorId: string): Promise<ServiceCat
   return categories.sort((a, b) => (a.order || 0) - (b.order || 0));
 };
 
+export const getAllServiceCategories = async (): Promise<ServiceCategory[]> => {
+  const querySnapshot = await getDocs(collection(db, COLLECTIONS.SERVICE_CATEGORIES));
+  return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as ServiceCategory);
+};
+
 export const getServiceCategory = async (categoryId: string): Promise<ServiceCategory | null> => {
   const categoryRef = doc(db, COLLECTIONS.SERVICE_CATEGORIES, categoryId);
   const categorySnap = await getDoc(categoryRef);
@@ -330,8 +712,51 @@ export const getServiceCategory = async (categoryId: string): Promise<ServiceCat
   return { id: categorySnap.id, ...categorySnap.data() } as ServiceCategory;
 };
 
+// Platform settings
+export const LOYALTY_SETTINGS_ID = 'loyalty';
+
+export const getLoyaltySettings = async (): Promise<LoyaltySettings> => {
+  const settingsSnap = await getDoc(doc(db, COLLECTIONS.SETTINGS, LOYALTY_SETTINGS_ID));
+  return { ...DEFAULT_LOYALTY_SETTINGS, ...settingsSnap.data() } as LoyaltySettings;
+};
+
+export const updateLoyaltySettings = async (settings: LoyaltySettings) => {
+  await setDoc(doc(db, COLLECTIONS.SETTINGS, LOYALTY_SETTINGS_ID), {
+    ...settings,
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
+export const COMMISSION_SETTINGS_ID = 'commission';
+
+export const getCommissionSettings = async (): Promise<CommissionSettings> => {
+  const settingsSnap = await getDoc(doc(db, COLLECTIONS.SETTINGS, COMMISSION_SETTINGS_ID));
+  return { ...DEFAULT_COMMISSION_SETTINGS, ...settingsSnap.data() } as CommissionSettings;
+};
+
+export const updateCommissionSettings = async (settings: CommissionSettings) => {
+  await setDoc(doc(db, COLLECTIONS.SETTINGS, COMMISSION_SETTINGS_ID), {
+    ...settings,
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
 // Promotions
-export const createPromotion = async (promotionData: Omit<Promotion, 'id'>) => {
+const toPromotion = (snapshot: QueryDocumentSnapshot): Promotion => {
+  const data = snapshot.data();
+  return {
+    ...data,
+    id: snapshot.id,
+    startDate: data.startDate.toDate(),
+    endDate: data.endDate.toDate(),
+    ...(data.stoppedAt ? { stoppedAt: data.stoppedAt.toDate() } : {}),
+    createdAt: data.createdAt?.toDate() || new Date()
+  } as Promotion;
+};
+
+export const createPromotion = async (promotionData: Omit<Promotion, 'id' | 'createdAt'>) => {
   const promotionRef = doc(collection(db, COLLECTIONS.PROMOTIONS));
   await setDoc(promotionRef, {
     ...promotionData,
@@ -341,15 +766,301 @@ export const createPromotion = async (promotionData: Omit<Promotion, 'id'>) => {
   return promotionRef.id;
 };
 
+// Pass restart when a promotion stopped by its budget has room again
+export const updatePromotion = async (
+  promotionId: string,
+  promotionData: Partial<Omit<Promotion, 'id' | 'createdAt' | 'stoppedAt'>>,
+  restart = false
+) => {
+  await updateDoc(doc(db, COLLECTIONS.PROMOTIONS, promotionId), {
+    ...promotionData,
+    ...(restart ? { stoppedAt: deleteField() } : {})
+  });
+  return true;
+};
+
+// Ending a promotion moves its end date to now, so it stops qualifying
+export const endPromotion = async (promotionId: string) => {
+  await updateDoc(doc(db, COLLECTIONS.PROMOTIONS, promotionId), { endDate: new Date() });
+  return true;
+};
+
+// Live admin view of campaigns and their redemption counters
+export const subscribeToPromotions = (onChange: (promotions: Promotion[]) => void, onError: (error: Error) => void) =>
+  onSnapshot(
+    query(collection(db, COLLECTIONS.PROMOTIONS), orderBy('startDate', 'desc')),
+    snapshot => onChange(snapshot.docs.map(toPromotion)),
+    onError
+  );
+
+// Range filters on two fields would need a composite index, so the start
+// date is checked after the query
 export const getActivePromotions = async (): Promise<Promotion[]> => {
   const now = new Date();
   const q = query(
     collection(db, COLLECTIONS.PROMOTIONS),
-    where('startDate', '<=', now),
     where('endDate', '>=', now)
   );
   const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Promotion);
+  return querySnapshot.docs.map(toPromotion).filter(promotion => isPromotionRunning(promotion, now));
+};
+
+// Voucher operations. The code is the document id, so a code can be looked
+// up and validated inside the booking transaction.
+const toVoucher = (data: DocumentData): Voucher => ({
+  ...data,
+  startDate: data.startDate.toDate(),
+  endDate: data.endDate.toDate(),
+  createdAt: data.createdAt?.toDate() || new Date()
+}) as Voucher;
+
+export const getVoucher = async (code: string): Promise<Voucher | null> => {
+  const voucherSnap = await getDoc(doc(db, COLLECTIONS.VOUCHERS, normalizeVoucherCode(code)));
+  return voucherSnap.exists() ? toVoucher(voucherSnap.data()) : null;
+};
+
+// Generates the batch's codes; a single custom code can be given instead
+export const createVoucherBatch = async (
+  batchData: Omit<VoucherBatch, 'id' | 'createdAt'>,
+  { prefix, customCode }: { prefix?: string; customCode?: string } = {}
+) => {
+  if (batchData.count < 1 || batchData.count > MAX_BATCH_SIZE) {
+    throw new Error(`Koodeja voi luoda 1–${MAX_BATCH_SIZE} kerrallaan`);
+  }
+
+  const batchRef = doc(collection(db, COLLECTIONS.VOUCHER_BATCHES));
+  const codes = customCode ? [normalizeVoucherCode(customCode)] : generateVoucherCodes(batchData.count, prefix);
+
+  if (customCode && (await getDoc(doc(db, COLLECTIONS.VOUCHERS, codes[0]))).exists()) {
+    throw new Error('Koodi on jo olemassa');
+  }
+
+  const now = Timestamp.now();
+  const batches = [writeBatch(db)];
+  batches[0].set(batchRef, { ...batchData, count: codes.length, id: batchRef.id, createdAt: now });
+
+  codes.forEach((code, index) => {
+    if ((index + 1) % 500 === 0) {
+      batches.push(writeBatch(db));
+    }
+    batches[batches.length - 1].set(doc(db, COLLECTIONS.VOUCHERS, code), {
+      id: code,
+      code,
+      batchId: batchRef.id,
+      discountType: batchData.discountType,
+      value: batchData.value,
+      maxRedemptions: batchData.maxRedemptions,
+      perCustomerLimit: batchData.perCustomerLimit,
+      startDate: batchData.startDate,
+      endDate: batchData.endDate,
+      ...(batchData.vendorId ? { vendorId: batchData.vendorId } : {}),
+      active: true,
+      redemptionCount: 0,
+      redemptionsByCustomer: {},
+      createdAt: now
+    });
+  });
+
+  for (const batch of batches) {
+    await batch.commit();
+  }
+  return batchRef.id;
+};
+
+// All batches for admins, or the vendor's own
+export const getVoucherBatches = async (vendorId?: string): Promise<VoucherBatch[]> => {
+  const q = vendorId
+    ? query(collection(db, COLLECTIONS.VOUCHER_BATCHES), where('vendorId', '==', vendorId), orderBy('createdAt', 'desc'))
+    : query(collection(db, COLLECTIONS.VOUCHER_BATCHES), orderBy('createdAt', 'desc'));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      ...data,
+      id: doc.id,
+      startDate: data.startDate.toDate(),
+      endDate: data.endDate.toDate(),
+      createdAt: data.createdAt.toDate()
+    } as VoucherBatch;
+  });
+};
+
+// Vendors pass their id so the query stays within what the rules allow
+export const getBatchVouchers = async (batchId: string, vendorId?: string): Promise<Voucher[]> => {
+  const q = query(
+    collection(db, COLLECTIONS.VOUCHERS),
+    where('batchId', '==', batchId),
+    ...(vendorId ? [where('vendorId', '==', vendorId)] : [])
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => toVoucher(doc.data()));
+};
+
+export const getBatchRedemptions = async (batchId: string, vendorId?: string): Promise<VoucherRedemption[]> => {
+  const q = query(
+    collection(db, COLLECTIONS.VOUCHER_REDEMPTIONS),
+    where('batchId', '==', batchId),
+    ...(vendorId ? [where('vendorId', '==', vendorId)] : []),
+    orderBy('redeemedAt', 'desc')
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => ({
+    ...doc.data(),
+    id: doc.id,
+    redeemedAt: doc.data().redeemedAt.toDate()
+  }) as VoucherRedemption);
+};
+
+// Disables every code in the batch
+export const deactivateVoucherBatch = async (batchId: string, vendorId?: string) => {
+  const vouchers = await getBatchVouchers(batchId, vendorId);
+  const batches = [writeBatch(db)];
+  vouchers.forEach((voucher, index) => {
+    if (index > 0 && index % 500 === 0) {
+      batches.push(writeBatch(db));
+    }
+    batches[batches.length - 1].update(doc(db, COLLECTIONS.VOUCHERS, voucher.id), { active: false });
+  });
+  for (const batch of batches) {
+    await batch.commit();
+  }
+  return true;
+};
+
+// Wash packages. Vendors sell prepaid packages; a purchased package is copied
+// to the customer with one credit counter per service.
+const toWashPackage = (data: DocumentData): WashPackage => ({
+  ...data,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date()
+}) as WashPackage;
+
+const toCustomerPackage = (data: DocumentData): CustomerPackage => ({
+  ...data,
+  purchasedAt: data.purchasedAt.toDate(),
+  expiresAt: data.expiresAt ? data.expiresAt.toDate() : null
+}) as CustomerPackage;
+
+export const createWashPackage = async (packageData: Omit<WashPackage, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const packageRef = doc(collection(db, COLLECTIONS.WASH_PACKAGES));
+  await setDoc(packageRef, {
+    ...packageData,
+    id: packageRef.id,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+  return packageRef.id;
+};
+
+export const updateWashPackage = async (packageId: string, packageData: Partial<WashPackage>) => {
+  await updateDoc(doc(db, COLLECTIONS.WASH_PACKAGES, packageId), {
+    ...packageData,
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
+export const getVendorPackages = async (vendorId: string): Promise<WashPackage[]> => {
+  const q = query(collection(db, COLLECTIONS.WASH_PACKAGES), where('vendorId', '==', vendorId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(doc => toWashPackage(doc.data()))
+    .sort((a, b) => a.price - b.price);
+};
+
+// The package is paid in full when it is bought, since its credits can be
+// used straight away: the authorised payment is captured before the package
+// is saved, and released or returned if the purchase fails.
+const PAYMENT_CONFIRMATION_TIMEOUT_MS = 30000;
+
+// Resolves once the provider's webhook has recorded the payment as captured
+const waitForCapturedPayment = (paymentId: string) => new Promise<void>((resolve, reject) => {
+  const timeout = setTimeout(() => {
+    unsubscribe();
+    reject(new PaymentError('Maksua ei saatu vahvistettua. Maksu palautetaan, yritä uudelleen.'));
+  }, PAYMENT_CONFIRMATION_TIMEOUT_MS);
+  const unsubscribe = onSnapshot(
+    doc(db, COLLECTIONS.PAYMENTS, paymentId),
+    snapshot => {
+      if (snapshot.data()?.status !== 'captured') return;
+      clearTimeout(timeout);
+      unsubscribe();
+      resolve();
+    },
+    error => {
+      clearTimeout(timeout);
+      unsubscribe();
+      reject(error);
+    }
+  );
+});
+
+// The package is created only after the provider has confirmed the payment
+// through its webhook, and is keyed by the payment so one payment buys one
+// package. The security rules check the package against that record.
+export const purchaseWashPackage = async (customerId: string, packageId: string, payment: PaymentAuthorization) => {
+  const packageRef = doc(db, COLLECTIONS.WASH_PACKAGES, packageId);
+  const customerPackageRef = doc(db, COLLECTIONS.CUSTOMER_PACKAGES, payment.paymentId);
+  const paymentProvider = getPaymentProvider();
+
+  const getPackageForSale = (packageDoc: DocumentSnapshot) => {
+    if (!packageDoc.exists() || !packageDoc.data().active) {
+      throw new Error('Paketti ei ole myynnissä');
+    }
+    const washPackage = toWashPackage(packageDoc.data());
+    if (payment.provider !== paymentProvider.id || Math.abs(payment.amount - washPackage.price) > 0.005) {
+      throw new PaymentError('Paketin hinta on muuttunut. Maksua ei veloitettu, yritä uudelleen.');
+    }
+    return washPackage;
+  };
+
+  try {
+    getPackageForSale(await getDoc(packageRef));
+  } catch (error) {
+    await paymentProvider.refund(payment.paymentId, payment.amount)
+      .catch(refundErr => console.error('Error releasing payment:', refundErr));
+    throw error;
+  }
+
+  await paymentProvider.capture(payment.paymentId, payment.amount);
+
+  try {
+    await waitForCapturedPayment(payment.paymentId);
+    await runTransaction(db, async (transaction) => {
+      const washPackage = getPackageForSale(await transaction.get(packageRef));
+      const now = new Date();
+      const expiresAt = getPackageExpiryDate(washPackage, now);
+
+      transaction.set(customerPackageRef, {
+        id: customerPackageRef.id,
+        packageId,
+        vendorId: washPackage.vendorId,
+        customerId,
+        name: washPackage.name,
+        credits: washPackage.items.map(item => ({ ...item, remaining: item.quantity, reserved: 0 })),
+        price: washPackage.price,
+        payment: { ...toAppointmentPayment(payment, now), status: 'captured', capturedAt: now },
+        purchasedAt: Timestamp.fromDate(now),
+        expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null
+      });
+    });
+  } catch (error) {
+    await paymentProvider.refund(payment.paymentId, payment.amount)
+      .catch(refundErr => console.error('Error returning payment:', refundErr));
+    throw error;
+  }
+
+  return customerPackageRef.id;
+};
+
+export const getCustomerPackages = async (customerId: string): Promise<CustomerPackage[]> => {
+  const q = query(
+    collection(db, COLLECTIONS.CUSTOMER_PACKAGES),
+    where('customerId', '==', customerId),
+    orderBy('purchasedAt', 'desc')
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => toCustomerPackage(doc.data()));
 };
 
 // Offer operations
@@ -632,6 +1343,13 @@ export const deleteService = async (serviceId: string) => {
   return true;
 };
 
+export const getService = async (serviceId: string): Promise<Service | null> => {
+  const serviceRef = doc(db, COLLECTIONS.SERVICES, serviceId);
+  const serviceSnap = await getDoc(serviceRef);
+  if (!serviceSnap.exists()) return null;
+  return { id: serviceSnap.id, ...serviceSnap.data() } as Service;
+};
+
 export const getVendorServices = async (vendorId: string) => {
   const q = query(
     collection(db, COLLECTIONS.SERVICES),
@@ -641,37 +1359,36 @@ export const getVendorServices = async (vendorId: string) => {
   return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Service);
 };
 
-export const updateAppointment = async (appointmentId: string, appointmentData: Partial<Appointment>) => {
+export const getDayBookings = async (vendorId: string, date: Date): Promise<BookedSlot[]> => {
+  const scheduleRef = doc(db, COLLECTIONS.SCHEDULES, getScheduleId(vendorId, date));
+  const scheduleSnap = await getDoc(scheduleRef);
+  if (!scheduleSnap.exists()) return [];
+  return (scheduleSnap.data().bookings || []) as BookedSlot[];
+};
+
+// Replaces the appointment's slot in a day's bookings. `lastChange` names the
+// only slots the write adds or removes, which the security rules check
+// against the caller's own appointment.
+const getScheduleUpdate = (bookings: BookedSlot[], appointmentId: string, added?: BookedSlot) => ({
+  bookings: [...bookings.filter(booking => booking.appointmentId !== appointmentId), ...(added ? [added] : [])],
+  lastChange: {
+    appointmentId,
+    added: added ? [added] : [],
+    removed: bookings.filter(booking => booking.appointmentId === appointmentId)
+  }
+});
+
+// Updates booking details. Status changes go through changeAppointmentStatus
+// so that they are validated and recorded in the status history.
+export const updateAppointment = async (
+  appointmentId: string,
+  appointmentData: Partial<Omit<Appointment, 'id' | 'status' | 'statusHistory'>>
+) => {
+  if ('status' in appointmentData || 'statusHistory' in appointmentData) {
+    throw new Error('Varauksen tilaa ei voi muuttaa tätä kautta');
+  }
+
   const appointmentRef = doc(db, COLLECTIONS.APPOINTMENTS, appointmentId);
-  const oldAppointment = await getDoc(appointmentRef);
-  
-  // Check if status is being changed to completed
-  if (appointmentData.status === 'completed' && oldAppointment.data()?.status !== 'completed') {
-    const appointment = oldAppointment.data() as Appointment;
-    
-    // Get service details to check coin reward
-    const serviceRef = doc(db, COLLECTIONS.SERVICES, appointment.serviceId);
-    const serviceDoc = await getDoc(serviceRef);
-    const service = serviceDoc.data() as Service;
-    
-    if (service.coinReward > 0) {
-      // Add coins to customer's wallet
-      const userRef = doc(db, COLLECTIONS.USERS, appointment.customerId);
-      const transaction: Transaction = {
-        id: crypto.randomUUID(),
-        amount: service.coinReward,
-        type: 'credit',
-        description: `Kolikot palvelusta: ${service.name}`,
-        timestamp: Timestamp.now()
-      };
-      
-      await updateDoc(userRef, {
-        'wallet.coins': increment(service.coinReward),
-        'wallet.transactions': arrayUnion(transaction)
-      });
-    }
-  }
-  
   await updateDoc(appointmentRef, {
     ...appointmentData,
     updatedAt: serverTimestamp()
@@ -679,47 +1396,605 @@ export const updateAppointment = async (appointmentId: string, appointmentData:
   return true;
 };
 
-// Enhanced appointment creation with coin usage
+interface PreparedBookingRefund {
+  appointmentId: string;
+  customerId: string;
+  serviceId: string;
+  walletEntry: PreparedWalletEntry | null;
+  voucherRef: DocumentReference | null;
+  packageRef: DocumentReference | null;
+  packageDoc: DocumentSnapshot | null;
+}
+
+// Reads what a cancelled booking gives back: the coins spent on it net of
+// coins its voucher credited, the voucher use and the held package credit.
+// Voucher coins the customer has already spent elsewhere are not reclaimed.
+// Call before the transaction writes anything, then commitBookingRefund.
+const prepareBookingRefund = async (
+  transaction: FirestoreTransaction,
+  appointmentId: string,
+  appointment: Appointment
+): Promise<PreparedBookingRefund> => {
+  const voucherCode = appointment.priceQuote?.voucherCode;
+  const voucherRef = voucherCode ? doc(db, COLLECTIONS.VOUCHERS, normalizeVoucherCode(voucherCode)) : null;
+  const packageRef = appointment.packageId ? doc(db, COLLECTIONS.CUSTOMER_PACKAGES, appointment.packageId) : null;
+  const [voucherDoc, packageDoc] = await Promise.all([
+    voucherRef ? transaction.get(voucherRef) : Promise.resolve(null),
+    packageRef ? transaction.get(packageRef) : Promise.resolve(null)
+  ]);
+
+  const netCoins = (appointment.coinsUsed || 0) - (appointment.priceQuote?.voucherCoins || 0);
+  const reclaimedCoins = netCoins < 0
+    ? Math.min(-netCoins, (await prepareWallet(transaction, appointment.customerId)).balance)
+    : 0;
+  const walletEntry = netCoins > 0 || reclaimedCoins > 0
+    ? await prepareWalletEntry(transaction, {
+        userId: appointment.customerId,
+        amount: netCoins > 0 ? netCoins : reclaimedCoins,
+        type: netCoins > 0 ? 'credit' : 'debit',
+        description: netCoins > 0
+          ? 'Kolikot palautettu peruutetusta varauksesta'
+          : `Alennuskoodin ${voucherCode} kolikot peruttu`,
+        idempotencyKey: getLedgerKey('refund', appointmentId),
+        appointmentId
+      })
+    : null;
+
+  return {
+    appointmentId,
+    customerId: appointment.customerId,
+    serviceId: appointment.serviceId,
+    walletEntry,
+    voucherRef: voucherDoc?.exists() ? voucherRef : null,
+    packageRef: packageDoc?.exists() ? packageRef : null,
+    packageDoc
+  };
+};
+
+const commitBookingRefund = (transaction: FirestoreTransaction, refund: PreparedBookingRefund, timestamp: Timestamp) => {
+  if (refund.walletEntry) {
+    commitWalletEntry(transaction, refund.walletEntry, timestamp);
+  }
+
+  // The voucher use no longer counts against its limits
+  if (refund.voucherRef) {
+    transaction.update(refund.voucherRef, {
+      redemptionCount: increment(-1),
+      [`redemptionsByCustomer.${refund.customerId}`]: increment(-1),
+      lastAppointmentId: refund.appointmentId
+    });
+    transaction.delete(doc(db, COLLECTIONS.VOUCHER_REDEMPTIONS, refund.appointmentId));
+  }
+
+  if (refund.packageRef && refund.packageDoc) {
+    transaction.update(refund.packageRef, {
+      credits: adjustCredit(refund.packageDoc.data()?.credits as PackageCredit[], refund.serviceId, { reserved: -1 }),
+      lastAppointmentId: refund.appointmentId
+    });
+  }
+};
+
+// Moves the appointment to a new status if the transition table allows it
+// for the caller's role: the vendor, a manager deciding on a business
+// booking, the customer or an admin. Completion rewards, cancellation
+// refunds and slot release happen in the same transaction, and every change
+// is appended to statusHistory.
+export const changeAppointmentStatus = async (
+  appointmentId: string,
+  newStatus: AppointmentStatus,
+  changedBy: string,
+  reason?: string
+) => {
+  const appointmentRef = doc(db, COLLECTIONS.APPOINTMENTS, appointmentId);
+  const changedByRef = doc(db, COLLECTIONS.USERS, changedBy);
+
+  try {
+    // Promotions are evaluated on completion; queries cannot run inside a transaction
+    const promotions = newStatus === 'completed' ? await getActivePromotions() : [];
+
+    await runTransaction(db, async (transaction) => {
+      const [appointmentDoc, changedByDoc] = await Promise.all([
+        transaction.get(appointmentRef),
+        transaction.get(changedByRef)
+      ]);
+      if (!appointmentDoc.exists()) {
+        throw new Error('Varausta ei löytynyt');
+      }
+
+      const appointment = appointmentDoc.data();
+      const currentStatus = appointment.status as AppointmentStatus;
+
+      // A manager's decision on a booking waiting for approval is kept on the booking
+      const accountDoc = appointment.businessAccountId
+        ? await transaction.get(doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, appointment.businessAccountId))
+        : null;
+      const awaitingApproval = isAwaitingApproval(appointment as Appointment);
+      const decidedByManager = awaitingApproval && !!accountDoc?.exists() &&
+        isBusinessManager(toBusinessAccount(accountDoc.data()), changedBy);
+      if (awaitingApproval && newStatus === 'confirmed' && !decidedByManager) {
+        throw new Error('Varauksen voi vahvistaa vain yrityksen pääkäyttäjä');
+      }
+
+      const date: Date = appointment.date.toDate();
+      const serviceRef = doc(db, COLLECTIONS.SERVICES, appointment.serviceId);
+      const scheduleRef = doc(db, COLLECTIONS.SCHEDULES, getScheduleId(appointment.vendorId, date));
+      const customerRef = doc(db, COLLECTIONS.USERS, appointment.customerId);
+      const referralRef = doc(db, COLLECTIONS.REFERRALS, appointment.customerId);
+      const packageRef = appointment.packageId ? doc(db, COLLECTIONS.CUSTOMER_PACKAGES, appointment.packageId) : null;
+      const extraServiceIds = getAppointmentServiceIds(appointment as Appointment).slice(1);
+      const [serviceDoc, scheduleDoc, customerDoc, settingsDoc, vendorDoc, referralDoc, packageDoc, ...extraServiceDocs] = await Promise.all([
+        transaction.get(serviceRef),
+        transaction.get(scheduleRef),
+        transaction.get(customerRef),
+        transaction.get(doc(db, COLLECTIONS.SETTINGS, LOYALTY_SETTINGS_ID)),
+        transaction.get(doc(db, COLLECTIONS.VENDORS, appointment.vendorId)),
+        transaction.get(referralRef),
+        packageRef ? transaction.get(packageRef) : Promise.resolve(null),
+        ...extraServiceIds.map(id => transaction.get(doc(db, COLLECTIONS.SERVICES, id)))
+      ]);
+
+      const changedByRole: User['role'] | null =
+        vendorDoc.data()?.userId === changedBy ? 'vendor'
+          : decidedByManager ? 'business'
+          : changedBy === appointment.customerId ? 'customer'
+          : changedByDoc.data()?.role === 'admin' ? 'admin'
+          : null;
+      if (!changedByRole) {
+        throw new Error('Sinulla ei ole oikeutta muuttaa varausta');
+      }
+      assertTransition(currentStatus, newStatus, changedByRole);
+
+      const refund = CANCELLED_STATUSES.includes(newStatus)
+        ? await prepareBookingRefund(transaction, appointmentId, appointment as Appointment)
+        : null;
+
+      // The reward of every booked service is multiplied by the customer's
+      // tier before this wash
+      const service = serviceDoc.exists() ? serviceDoc.data() as Service : null;
+      const rewardServices = [serviceDoc, ...extraServiceDocs]
+        .filter(rewardDoc => rewardDoc.exists())
+        .map(rewardDoc => rewardDoc.data() as Service);
+      const serviceNames = rewardServices.map(rewardService => rewardService.name).join(', ');
+      const tier = getLoyaltyTier(
+        customerDoc.data()?.loyalty,
+        { ...DEFAULT_LOYALTY_SETTINGS, ...settingsDoc.data() } as LoyaltySettings
+      );
+      const rewardCoins = getRewardCoins(rewardServices.reduce((sum, rewardService) => sum + (rewardService.coinReward || 0), 0), tier);
+      const rewardEntry = newStatus === 'completed' && rewardCoins > 0
+        ? await prepareWalletEntry(transaction, {
+            userId: appointment.customerId,
+            amount: rewardCoins,
+            type: 'credit',
+            description: tier.multiplier > 1
+              ? `Kolikot palvelusta: ${serviceNames} (${tier.name} x${tier.multiplier})`
+              : `Kolikot palvelusta: ${serviceNames}`,
+            idempotencyKey: getLedgerKey('reward', appointmentId),
+            appointmentId
+          })
+        : null;
+
+      // Each promotion pays its bonus once per customer, keyed by promotion and
+      // customer. Budgets are re-read here so concurrent completions cannot overspend.
+      const candidatePromotions = newStatus === 'completed'
+        ? getQualifyingPromotions(
+            promotions,
+            {
+              serviceId: appointment.serviceId,
+              categoryId: service?.categoryId,
+              vendorId: appointment.vendorId,
+              city: vendorDoc.data()?.city
+            },
+            appointment.priceQuote?.subtotal ?? appointment.totalPrice ?? 0
+          ).filter(promotion => promotion.bonusCoins > 0)
+        : [];
+      const promotionDocs = await Promise.all(candidatePromotions.map(promotion =>
+        transaction.get(doc(db, COLLECTIONS.PROMOTIONS, promotion.id))
+      ));
+      const qualifyingPromotions = candidatePromotions
+        .map((promotion, i) => ({
+          ...promotion,
+          issuedCoins: promotionDocs[i].data()?.issuedCoins || 0,
+          stoppedAt: promotionDocs[i].data()?.stoppedAt
+        }))
+        .filter(promotion => !promotion.stoppedAt && hasPromotionBudget(promotion));
+      const promotionEntries = await Promise.all(qualifyingPromotions.map(promotion =>
+        prepareWalletEntry(transaction, {
+          userId: appointment.customerId,
+          amount: promotion.bonusCoins,
+          type: 'credit',
+          description: `Kampanjabonus: ${promotion.title}`,
+          idempotencyKey: getLedgerKey('promotion', `${promotion.id}_${appointment.customerId}`),
+          appointmentId
+        })
+      ));
+
+      // A pending referral pays both sides on the first completed appointment
+      const referral = newStatus === 'completed' && referralDoc.exists() && referralDoc.data().status === 'pending'
+        ? referralDoc.data() as Referral
+        : null;
+      const referredEntry = referral && referral.referredReward > 0
+        ? await prepareWalletEntry(transaction, {
+            userId: appointment.customerId,
+            amount: referral.referredReward,
+            type: 'credit',
+            description: 'Suosituskoodin bonus',
+            idempotencyKey: getLedgerKey('referral_bonus', appointment.customerId),
+            appointmentId
+          })
+        : null;
+      const referrerEntry = referral && referral.referrerReward > 0
+        ? await prepareWalletEntry(transaction, {
+            userId: referral.referrerId,
+            amount: referral.referrerReward,
+            type: 'credit',
+            description: `Suosituspalkkio: ${referral.referredName}`,
+            idempotencyKey: getLedgerKey('referral_reward', appointment.customerId),
+            appointmentId
+          })
+        : null;
+
+      const now = Timestamp.now();
+
+      commitWalletEntries(
+        transaction,
+        [...(rewardEntry ? [rewardEntry] : []), ...promotionEntries, ...(referredEntry ? [referredEntry] : [])],
+        now
+      );
+
+      if (referral) {
+        if (referrerEntry && commitWalletEntry(transaction, referrerEntry, now)) {
+          transaction.update(doc(db, COLLECTIONS.USERS, referral.referrerId), {
+            referralCount: increment(1)
+          });
+        }
+        transaction.update(referralRef, {
+          status: 'completed',
+          completedAt: now,
+          appointmentId
+        });
+      }
+
+      const awardedPromotions = qualifyingPromotions.filter((_, i) => !promotionEntries[i].alreadyApplied);
+      awardedPromotions.forEach(promotion => {
+        const issuedCoins = promotion.issuedCoins + promotion.bonusCoins;
+        transaction.update(doc(db, COLLECTIONS.PROMOTIONS, promotion.id), {
+          issuedCoins,
+          redemptionCount: increment(1),
+          lastAppointmentId: appointmentId,
+          ...(hasPromotionBudget({ ...promotion, issuedCoins }) ? {} : { stoppedAt: now })
+        });
+      });
+
+      if (newStatus === 'completed' && customerDoc.exists()) {
+        transaction.update(customerRef, {
+          'loyalty.completedCount': increment(1),
+          'loyalty.totalSpend': increment(appointment.totalPrice || 0),
+          'loyalty.lastAppointmentId': appointmentId,
+          ...(awardedPromotions.length > 0
+            ? { awardedPromotions: arrayUnion(...awardedPromotions.map(promotion => promotion.id)) }
+            : {})
+        });
+      }
+
+      // The package credit held by the booking is used up on completion or
+      // no-show; a cancellation returns it with the rest of the refund
+      if (packageRef && packageDoc?.exists() && (newStatus === 'completed' || newStatus === 'no_show')) {
+        transaction.update(packageRef, {
+          credits: adjustCredit(packageDoc.data().credits as PackageCredit[], appointment.serviceId, { reserved: -1, remaining: -1 }),
+          lastAppointmentId: appointmentId
+        });
+      }
+
+      if (refund) {
+        commitBookingRefund(transaction, refund, now);
+      }
+
+      // A completed booking goes to the payout ledger. The platform prices
+      // the entry once the payment is settled.
+      if (newStatus === 'completed') {
+        transaction.set(doc(db, COLLECTIONS.PAYOUT_ENTRIES, appointmentId), {
+          id: appointmentId,
+          appointmentId,
+          vendorId: appointment.vendorId,
+          serviceName: formatAppointmentServices(appointment as Appointment, service?.name || 'Pesu'),
+          completedAt: now,
+          batchId: null
+        });
+      }
+
+      // Cancelled bookings no longer hold their slot
+      if (CANCELLED_STATUSES.includes(newStatus) && scheduleDoc.exists()) {
+        const bookings = (scheduleDoc.data().bookings || []) as BookedSlot[];
+        transaction.update(scheduleRef, {
+          ...getScheduleUpdate(bookings, appointmentId),
+          updatedAt: now
+        });
+      }
+
+      transaction.update(appointmentRef, {
+        status: newStatus,
+        statusHistory: arrayUnion(createStatusChange(currentStatus, newStatus, changedBy, changedByRole, now.toDate(), reason)),
+        ...(CANCELLED_STATUSES.includes(newStatus) ? { cancelledAt: now } : {}),
+        ...(decidedByManager
+          ? {
+              approval: {
+                ...appointment.approval,
+                status: newStatus === 'confirmed' ? 'approved' : 'rejected',
+                decidedBy: changedBy,
+                decidedAt: now
+              }
+            }
+          : {}),
+        updatedAt: now
+      });
+    });
+
+    // A cancelled booking is refunded in full. A prepayment is only
+    // authorised when booking and charged once the service has been done;
+    // a failed charge is kept on the booking and reported to the caller.
+    if (CANCELLED_STATUSES.includes(newStatus)) {
+      await refundAppointmentPayment(appointmentId).catch(err => console.error('Error refunding payment:', err));
+    } else if (newStatus === 'completed') {
+      await capturePayment(appointmentId).catch(err => {
+        throw new PaymentError(`Pesu merkittiin valmiiksi, mutta maksun veloitus epäonnistui: ${err instanceof Error ? err.message : err}`);
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error changing appointment status:', error);
+    throw error;
+  }
+};
+
+// Enhanced appointment creation with coin usage. The slot is re-checked against
+// the vendor's day schedule inside the transaction, so concurrent bookings of
+// the same time fail with SlotUnavailableError instead of double-booking.
+// The price is always quoted here from the stored service, offers and
+// promotions; the client only says how many coins it wants to spend, which
+// voucher code to apply and which package credit to use. The voucher and the
+// package credit are checked in the same transaction, so their limits hold
+// under concurrent bookings. Additional services are done after the main
+// service in the same slot, which is as long as all of them together. Every
+// service is priced and timed for the booking's vehicle class. A booking
+// billed to a business account waits in `pending` status when it would go
+// over the member's or the company's monthly limit. An online prepayment is
+// authorised by the client before booking and must match the quoted price.
+export interface BookingOptions {
+  coins?: number;
+  voucherCode?: string;
+  packageId?: string;
+  additionalServiceIds?: string[];
+  addOnIds?: string[];
+  businessAccountId?: string;
+  payment?: PaymentAuthorization;
+}
+
 export const createAppointment = async (
-  appointmentData: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>,
-  coinsToUse: number = 0
+  appointmentData: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt' | 'coinsUsed' | 'totalPrice' | 'priceQuote' | 'packageId' | 'services' | 'addOns' | 'businessAccountId' | 'approval' | 'invoiceId' | 'payment'>,
+  { coins: coinsToUse = 0, voucherCode, packageId, additionalServiceIds = [], addOnIds = [], businessAccountId, payment }: BookingOptions = {}
 ) => {
   const appointmentRef = doc(collection(db, COLLECTIONS.APPOINTMENTS));
+  const vendorRef = doc(db, COLLECTIONS.VENDORS, appointmentData.vendorId);
+  const serviceRef = doc(db, COLLECTIONS.SERVICES, appointmentData.serviceId);
+  const extraServiceIds = [...new Set(additionalServiceIds)].filter(id => id !== appointmentData.serviceId);
+  const scheduleRef = doc(db, COLLECTIONS.SCHEDULES, getScheduleId(appointmentData.vendorId, appointmentData.date));
+  const voucherRef = voucherCode ? doc(db, COLLECTIONS.VOUCHERS, normalizeVoucherCode(voucherCode)) : null;
+  const packageRef = packageId ? doc(db, COLLECTIONS.CUSTOMER_PACKAGES, packageId) : null;
+  const accountRef = businessAccountId ? doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, businessAccountId) : null;
 
   try {
-    const now = Timestamp.now();
-    const appointmentDate = Timestamp.fromDate(appointmentData.date);
-
-    // Create base appointment data
-    const baseAppointmentData = {
-      ...appointmentData,
-      id: appointmentRef.id,
-      date: appointmentDate,
-      createdAt: now,
-      updatedAt: now,
-      coinsUsed: coinsToUse,
-      status: 'confirmed'
-    };
+    // Coins and packages belong to the member, not to the company
+    if (businessAccountId && (coinsToUse > 0 || packageId)) {
+      throw new Error('Yrityksen laskulle ei voi käyttää kolikoita tai paketteja');
+    }
+    if (businessAccountId && payment) {
+      throw new PaymentError('Yrityksen laskulle tehtyä varausta ei makseta verkossa');
+    }
+
+    // Queries cannot run inside a transaction, so the month's spend is read
+    // before it
+    const { start: monthStart, end: monthEnd } = getPeriodRange(appointmentData.date);
+    const [offers, promotions, monthAppointments] = await Promise.all([
+      getVendorOffers(appointmentData.vendorId),
+      getActivePromotions(),
+      businessAccountId ? getBusinessAppointments(businessAccountId, monthStart, monthEnd) : Promise.resolve([])
+    ]);
 
-    if (coinsToUse > 0) {
-      // Get user's current coin balance
-      const userRef = doc(db, COLLECTIONS.USERS, appointmentData.customerId);
-      const coinTransaction: Transaction = {
-        id: crypto.randomUUID(),
-        amount: coinsToUse,
-        type: 'debit',
-        description: 'Kolikot käytetty alennukseen',
-        timestamp: now
-      };
-
-      await updateDoc(userRef, {
-        'wallet.coins': increment(-coinsToUse),
-        'wallet.transactions': arrayUnion(coinTransaction)
+    await runTransaction(db, async (transaction) => {
+      const [vendorDoc, serviceDoc, scheduleDoc, voucherDoc, packageDoc, accountDoc, ...extraServiceDocs] = await Promise.all([
+        transaction.get(vendorRef),
+        transaction.get(serviceRef),
+        transaction.get(scheduleRef),
+        voucherRef ? transaction.get(voucherRef) : Promise.resolve(null),
+        packageRef ? transaction.get(packageRef) : Promise.resolve(null),
+        accountRef ? transaction.get(accountRef) : Promise.resolve(null),
+        ...extraServiceIds.map(id => transaction.get(doc(db, COLLECTIONS.SERVICES, id)))
+      ]);
+
+      if (!vendorDoc.exists()) {
+        throw new Error('Yritystä ei löytynyt');
+      }
+      if (!serviceDoc.exists()) {
+        throw new Error('Palvelua ei löytynyt');
+      }
+      if (extraServiceDocs.some(extraDoc => !extraDoc.exists() || extraDoc.data().vendorId !== appointmentData.vendorId)) {
+        throw new Error('Lisäpalvelua ei löytynyt');
+      }
+
+      let voucher: Voucher | null = null;
+      if (voucherDoc) {
+        if (!voucherDoc.exists()) {
+          throw new VoucherError('Koodia ei löytynyt');
+        }
+        voucher = toVoucher(voucherDoc.data());
+        const voucherError = getVoucherError(voucher, {
+          customerId: appointmentData.customerId,
+          vendorId: appointmentData.vendorId
+        });
+        if (voucherError) {
+          throw new VoucherError(voucherError);
+        }
+      }
+
+      let customerPackage: CustomerPackage | null = null;
+      if (packageDoc) {
+        customerPackage = packageDoc.exists() ? toCustomerPackage(packageDoc.data()) : null;
+        const credit = customerPackage ? getServiceCredit(customerPackage, appointmentData.serviceId) : null;
+        if (
+          !customerPackage ||
+          customerPackage.customerId !== appointmentData.customerId ||
+          customerPackage.vendorId !== appointmentData.vendorId ||
+          isPackageExpired(customerPackage) ||
+          !credit ||
+          getAvailableCredits(credit) === 0
+        ) {
+          throw new Error('Paketissa ei ole käyttökertoja tähän palveluun');
+        }
+      }
+
+      const account = accountDoc?.exists() ? toBusinessAccount(accountDoc.data()) : null;
+      const member = account?.members[appointmentData.customerId] || null;
+      if (accountDoc && !member) {
+        throw new Error('Et ole yrityksen jäsen');
+      }
+
+      const vendor = { id: vendorDoc.id, ...vendorDoc.data() } as Vendor;
+      const { vehicleClass } = appointmentData;
+      const service = applyVehicleClass({ id: serviceDoc.id, ...serviceDoc.data() } as Service, vehicleClass);
+      const extraServices = extraServiceDocs.map(extraDoc =>
+        applyVehicleClass({ id: extraDoc.id, ...extraDoc.data() } as Service, vehicleClass)
+      );
+      const basket = [service, ...extraServices];
+      const addOns = getSelectedAddOns(service, addOnIds);
+      if (!addOns) {
+        throw new Error('Lisävalintaa ei löytynyt');
+      }
+      const bookings = scheduleDoc.exists() ? (scheduleDoc.data().bookings || []) as BookedSlot[] : [];
+      const start = appointmentData.date.getHours() * 60 + appointmentData.date.getMinutes();
+      const duration = getBasketDuration(basket) + getAddOnsDuration(addOns);
+
+      const resource = findAvailableResource(
+        appointmentData.date,
+        start,
+        { duration, categoryId: service.categoryId },
+        vendor,
+        bookings
+      );
+      if (!resource) {
+        throw new SlotUnavailableError();
+      }
+
+      const quote = getPriceQuote({
+        service,
+        additionalServices: extraServices,
+        addOns,
+        vendor,
+        offers,
+        promotions,
+        voucher,
+        prepaid: customerPackage,
+        slot: appointmentData.date,
+        coins: coinsToUse
       });
-    }
 
-    // Create the appointment
-    await setDoc(appointmentRef, baseAppointmentData);
+      if (payment && Math.abs(payment.amount - quote.totalPrice) > 0.005) {
+        throw new PaymentError('Hinta on muuttunut. Maksua ei veloitettu, yritä uudelleen.');
+      }
+
+      const approvalReason = account && member
+        ? getApprovalReason(account, member, monthAppointments, quote.totalPrice)
+        : null;
+      const status = approvalReason ? 'pending' : 'confirmed';
+
+      // Coin vouchers are credited before the booking's own debit
+      const voucherEntry = quote.voucherCoins
+        ? await prepareWalletEntry(transaction, {
+            userId: appointmentData.customerId,
+            amount: quote.voucherCoins,
+            type: 'credit',
+            description: `Alennuskoodi ${quote.voucherCode}`,
+            idempotencyKey: getLedgerKey('voucher', appointmentRef.id),
+            appointmentId: appointmentRef.id
+          })
+        : null;
+      const coinEntry = quote.coinsUsed > 0
+        ? await prepareWalletEntry(transaction, {
+            userId: appointmentData.customerId,
+            amount: quote.coinsUsed,
+            type: 'debit',
+            description: 'Kolikot käytetty alennukseen',
+            idempotencyKey: getLedgerKey('booking', appointmentRef.id),
+            appointmentId: appointmentRef.id
+          })
+        : null;
+
+      const now = Timestamp.now();
+
+      const walletEntries = [voucherEntry, coinEntry].filter((entry): entry is NonNullable<typeof entry> => !!entry);
+      if (walletEntries.length > 0) {
+        commitWalletEntries(transaction, walletEntries, now);
+      }
+
+      if (voucher && voucherRef) {
+        const voucherLine = quote.lines.find(line => line.type === 'voucher');
+        transaction.update(voucherRef, {
+          redemptionCount: increment(1),
+          [`redemptionsByCustomer.${appointmentData.customerId}`]: increment(1),
+          lastAppointmentId: appointmentRef.id
+        });
+        // Keyed by the appointment, so a cancellation can release it
+        transaction.set(doc(db, COLLECTIONS.VOUCHER_REDEMPTIONS, appointmentRef.id), {
+          code: voucher.code,
+          batchId: voucher.batchId,
+          vendorId: appointmentData.vendorId,
+          customerId: appointmentData.customerId,
+          appointmentId: appointmentRef.id,
+          discount: voucherLine ? -voucherLine.amount : 0,
+          coins: quote.voucherCoins || 0,
+          redeemedAt: now
+        });
+      }
+
+      // The credit is held until the appointment completes or is cancelled
+      if (customerPackage && packageRef) {
+        transaction.update(packageRef, {
+          credits: adjustCredit(customerPackage.credits, appointmentData.serviceId, { reserved: 1 }),
+          lastAppointmentId: appointmentRef.id
+        });
+      }
+
+      transaction.set(scheduleRef, {
+        id: scheduleRef.id,
+        vendorId: appointmentData.vendorId,
+        date: toDateKey(appointmentData.date),
+        ...getScheduleUpdate(bookings, appointmentRef.id, { appointmentId: appointmentRef.id, resourceId: resource.id, start, end: start + duration }),
+        updatedAt: now
+      });
+
+      transaction.set(appointmentRef, {
+        ...appointmentData,
+        id: appointmentRef.id,
+        date: Timestamp.fromDate(appointmentData.date),
+        duration,
+        services: basket.map(toAppointmentService),
+        ...(addOns.length > 0 ? { addOns } : {}),
+        resourceId: resource.id,
+        createdAt: now,
+        updatedAt: now,
+        totalPrice: quote.totalPrice,
+        coinsUsed: quote.coinsUsed,
+        priceQuote: quote,
+        ...(customerPackage ? { packageId: customerPackage.id } : {}),
+        ...(payment ? { payment: toAppointmentPayment(payment, now.toDate()) } : {}),
+        ...(account ? { businessAccountId: account.id } : {}),
+        ...(approvalReason ? { approval: { status: 'pending', reason: approvalReason } } : {}),
+        status,
+        statusHistory: [
+          createStatusChange(null, status, appointmentData.customerId, 'customer', now.toDate(), approvalReason || undefined)
+        ]
+      });
+    });
 
     return appointmentRef.id;
   } catch (error) {
@@ -728,6 +2003,315 @@ export const createAppointment = async (
   }
 };
 
+// Customer cancellation within the vendor's free cancellation window. Coins,
+// the voucher use and the package credit are returned in the same
+// transaction, as in changeAppointmentStatus.
+export const cancelAppointmentByCustomer = async (appointmentId: string, customerId: string) => {
+  const appointmentRef = doc(db, COLLECTIONS.APPOINTMENTS, appointmentId);
+
+  try {
+    await runTransaction(db, async (transaction) => {
+      const appointmentDoc = await transaction.get(appointmentRef);
+      if (!appointmentDoc.exists() || appointmentDoc.data().customerId !== customerId) {
+        throw new Error('Varausta ei löytynyt');
+      }
+
+      const appointment = appointmentDoc.data();
+      const date: Date = appointment.date.toDate();
+      const vendorRef = doc(db, COLLECTIONS.VENDORS, appointment.vendorId);
+      const scheduleRef = doc(db, COLLECTIONS.SCHEDULES, getScheduleId(appointment.vendorId, date));
+      const [vendorDoc, scheduleDoc] = await Promise.all([
+        transaction.get(vendorRef),
+        transaction.get(scheduleRef)
+      ]);
+
+      if (!vendorDoc.exists()) {
+        throw new Error('Yritystä ei löytynyt');
+      }
+
+      const modificationError = getModificationError({ status: appointment.status, date }, vendorDoc.data() as Vendor);
+      if (modificationError) {
+        throw new Error(modificationError);
+      }
+      assertTransition(appointment.status, 'cancelled_by_customer', 'customer');
+
+      const refund = await prepareBookingRefund(transaction, appointmentId, appointment as Appointment);
+      const now = Timestamp.now();
+      commitBookingRefund(transaction, refund, now);
+
+      if (scheduleDoc.exists()) {
+        const bookings = (scheduleDoc.data().bookings || []) as BookedSlot[];
+        transaction.update(scheduleRef, {
+          ...getScheduleUpdate(bookings, appointmentId),
+          updatedAt: now
+        });
+      }
+
+      transaction.update(appointmentRef, {
+        status: 'cancelled_by_customer',
+        statusHistory: arrayUnion(
+          createStatusChange(appointment.status, 'cancelled_by_customer', customerId, 'customer', now.toDate())
+        ),
+        cancelledAt: now,
+        updatedAt: now
+      });
+    });
+
+    // The cancellation was within policy, so the prepayment is returned in
+    // full. A failed refund stays on the payment for a retry.
+    await refundAppointmentPayment(appointmentId).catch(err => console.error('Error refunding payment:', err));
+
+    return true;
+  } catch (error) {
+    console.error('Error cancelling appointment:', error);
+    throw error;
+  }
+};
+
+// Payment operations. The provider is called outside transactions and the
+// result is written to the appointment afterwards.
+const getAppointmentPayment = async (appointmentId: string) => {
+  const appointmentDoc = await getDoc(doc(db, COLLECTIONS.APPOINTMENTS, appointmentId));
+  if (!appointmentDoc.exists()) {
+    throw new Error('Varausta ei löytynyt');
+  }
+  const payment = appointmentDoc.data().payment as AppointmentPayment | undefined;
+  if (payment && payment.provider !== getPaymentProvider().id) {
+    throw new PaymentError('Maksu on tehty eri maksupalvelussa');
+  }
+  return payment || null;
+};
+
+export const capturePayment = async (appointmentId: string) => {
+  const payment = await getAppointmentPayment(appointmentId);
+  if (payment?.status !== 'authorized') return false;
+
+  const appointmentRef = doc(db, COLLECTIONS.APPOINTMENTS, appointmentId);
+  try {
+    await getPaymentProvider().capture(payment.paymentId, payment.amount);
+    await updateDoc(appointmentRef, {
+      'payment.status': 'captured',
+      'payment.capturedAt': serverTimestamp(),
+      'payment.failureReason': deleteField(),
+      updatedAt: serverTimestamp()
+    });
+    return true;
+  } catch (error) {
+    await updateDoc(appointmentRef, {
+      'payment.failureReason': error instanceof Error ? error.message : 'Veloitus epäonnistui',
+      updatedAt: serverTimestamp()
+    });
+    throw error;
+  }
+};
+
+// Returns the whole prepayment; does nothing when there is none left to return
+export const refundAppointmentPayment = async (appointmentId: string) => {
+  const payment = await getAppointmentPayment(appointmentId);
+  if (!payment || !isRefundable(payment)) return false;
+
+  const appointmentRef = doc(db, COLLECTIONS.APPOINTMENTS, appointmentId);
+  try {
+    const refund = await getPaymentProvider().refund(payment.paymentId, payment.amount);
+    await updateDoc(appointmentRef, {
+      'payment.status': 'refunded',
+      'payment.refundId': refund.refundId,
+      'payment.refundedAt': serverTimestamp(),
+      'payment.failureReason': deleteField(),
+      updatedAt: serverTimestamp()
+    });
+    return true;
+  } catch (error) {
+    await updateDoc(appointmentRef, {
+      'payment.failureReason': error instanceof Error ? error.message : 'Hyvitys epäonnistui',
+      updatedAt: serverTimestamp()
+    });
+    throw error;
+  }
+};
+
+// Entry point for the provider's webhook endpoint, which signs in as a
+// platform admin. Every event is recorded as the verified state of the
+// payment; returns whether a booking was paid with it.
+export const handlePaymentWebhook = async (payload: string, signature: string) => {
+  const paymentProvider = getPaymentProvider();
+  const event = await paymentProvider.verifyWebhook(payload, signature);
+  const status: PaymentStatus = event.type === 'payment.captured' ? 'captured'
+    : event.type === 'payment.refunded' ? 'refunded'
+    : 'failed';
+  await setDoc(doc(db, COLLECTIONS.PAYMENTS, event.paymentId), {
+    paymentId: event.paymentId,
+    provider: paymentProvider.id,
+    status,
+    ...(event.amount !== undefined ? { amount: event.amount } : {}),
+    ...(event.reference ? { reference: event.reference } : {}),
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.APPOINTMENTS),
+    where('payment.paymentId', '==', event.paymentId),
+    limit(1)
+  ));
+  if (querySnapshot.empty) return false;
+
+  const updates = event.type === 'payment.captured'
+    ? { 'payment.status': 'captured', 'payment.capturedAt': serverTimestamp() }
+    : event.type === 'payment.refunded'
+      ? {
+          'payment.status': 'refunded',
+          'payment.refundedAt': serverTimestamp(),
+          ...(event.refundId ? { 'payment.refundId': event.refundId } : {})
+        }
+      : { 'payment.status': 'failed', 'payment.failureReason': event.reason || 'Maksu epäonnistui' };
+
+  await updateDoc(querySnapshot.docs[0].ref, { ...updates, updatedAt: serverTimestamp() });
+  return true;
+};
+
+// Moves the booking to a new time under the same cancellation policy. The new
+// slot is checked like a fresh booking, ignoring the appointment's own slot,
+// and the booking is quoted again for it, since offers depend on the slot.
+// A new price has to be accepted by passing it as acceptedPrice; otherwise
+// PriceChangedError carries it back. A prepaid booking keeps its price, so
+// it can only move to slots priced the same.
+export const rescheduleAppointment = async (
+  appointmentId: string,
+  customerId: string,
+  newDate: Date,
+  acceptedPrice?: number
+) => {
+  const appointmentRef = doc(db, COLLECTIONS.APPOINTMENTS, appointmentId);
+
+  try {
+    const appointmentSnap = await getDoc(appointmentRef);
+    if (!appointmentSnap.exists()) {
+      throw new Error('Varausta ei löytynyt');
+    }
+    const [offers, promotions] = await Promise.all([
+      getVendorOffers(appointmentSnap.data().vendorId),
+      getActivePromotions()
+    ]);
+
+    await runTransaction(db, async (transaction) => {
+      const appointmentDoc = await transaction.get(appointmentRef);
+      if (!appointmentDoc.exists() || appointmentDoc.data().customerId !== customerId) {
+        throw new Error('Varausta ei löytynyt');
+      }
+
+      const appointment = appointmentDoc.data();
+      const date: Date = appointment.date.toDate();
+      const vendorRef = doc(db, COLLECTIONS.VENDORS, appointment.vendorId);
+      const serviceRef = doc(db, COLLECTIONS.SERVICES, appointment.serviceId);
+      const oldScheduleRef = doc(db, COLLECTIONS.SCHEDULES, getScheduleId(appointment.vendorId, date));
+      const newScheduleRef = doc(db, COLLECTIONS.SCHEDULES, getScheduleId(appointment.vendorId, newDate));
+      const sameDay = oldScheduleRef.id === newScheduleRef.id;
+      const voucherCode: string | undefined = appointment.priceQuote?.voucherCode;
+      const voucherRef = voucherCode ? doc(db, COLLECTIONS.VOUCHERS, normalizeVoucherCode(voucherCode)) : null;
+      const packageRef = appointment.packageId ? doc(db, COLLECTIONS.CUSTOMER_PACKAGES, appointment.packageId) : null;
+      const extraServiceIds = getAppointmentServiceIds(appointment as Appointment).slice(1);
+
+      const [vendorDoc, serviceDoc, oldScheduleDoc, newScheduleDoc, voucherDoc, packageDoc, ...extraServiceDocs] = await Promise.all([
+        transaction.get(vendorRef),
+        transaction.get(serviceRef),
+        transaction.get(oldScheduleRef),
+        transaction.get(newScheduleRef),
+        voucherRef ? transaction.get(voucherRef) : Promise.resolve(null),
+        packageRef ? transaction.get(packageRef) : Promise.resolve(null),
+        ...extraServiceIds.map(id => transaction.get(doc(db, COLLECTIONS.SERVICES, id)))
+      ]);
+
+      if (!vendorDoc.exists()) {
+        throw new Error('Yritystä ei löytynyt');
+      }
+      if (!serviceDoc.exists() || extraServiceDocs.some(extraDoc => !extraDoc.exists())) {
+        throw new Error('Palvelua ei löytynyt');
+      }
+
+      const vendor = { id: vendorDoc.id, ...vendorDoc.data() } as Vendor;
+      const modificationError = getModificationError({ status: appointment.status, date }, vendor);
+      if (modificationError) {
+        throw new Error(modificationError);
+      }
+
+      const duration: number = getAppointmentDuration(appointment);
+      const start = newDate.getHours() * 60 + newDate.getMinutes();
+      const newDayBookings = newScheduleDoc.exists() ? (newScheduleDoc.data().bookings || []) as BookedSlot[] : [];
+      const bookings = newDayBookings.filter(booking => booking.appointmentId !== appointmentId);
+
+      const resource = findAvailableResource(
+        newDate,
+        start,
+        { duration, categoryId: serviceDoc.data().categoryId },
+        vendor,
+        bookings
+      );
+      if (!resource) {
+        throw new SlotUnavailableError();
+      }
+
+      // The voucher and package credit were taken when booking, so they are
+      // applied again without checking their limits
+      const { vehicleClass } = appointment;
+      const quote = getPriceQuote({
+        service: applyVehicleClass({ id: serviceDoc.id, ...serviceDoc.data() } as Service, vehicleClass),
+        additionalServices: extraServiceDocs.map(extraDoc =>
+          applyVehicleClass({ id: extraDoc.id, ...extraDoc.data() } as Service, vehicleClass)
+        ),
+        addOns: appointment.addOns || [],
+        vendor,
+        offers,
+        promotions,
+        voucher: voucherDoc?.exists() ? toVoucher(voucherDoc.data()) : null,
+        prepaid: packageDoc?.exists() ? toCustomerPackage(packageDoc.data()) : null,
+        slot: newDate,
+        coins: appointment.coinsUsed || 0
+      });
+
+      if (quote.totalPrice !== appointment.totalPrice || quote.coinsUsed !== (appointment.coinsUsed || 0)) {
+        if (isRefundable(appointment.payment) || quote.coinsUsed !== (appointment.coinsUsed || 0)) {
+          throw new Error(`Uuden ajan hinta on ${quote.totalPrice.toFixed(2)}€. Valitse toinen aika tai peru varaus ja varaa uudelleen.`);
+        }
+        if (acceptedPrice !== quote.totalPrice) {
+          throw new PriceChangedError(quote.totalPrice);
+        }
+      }
+
+      const now = Timestamp.now();
+
+      if (!sameDay && oldScheduleDoc.exists()) {
+        const oldBookings = (oldScheduleDoc.data().bookings || []) as BookedSlot[];
+        transaction.update(oldScheduleRef, {
+          ...getScheduleUpdate(oldBookings, appointmentId),
+          updatedAt: now
+        });
+      }
+
+      transaction.set(newScheduleRef, {
+        id: newScheduleRef.id,
+        vendorId: appointment.vendorId,
+        date: toDateKey(newDate),
+        ...getScheduleUpdate(newDayBookings, appointmentId, { appointmentId, resourceId: resource.id, start, end: start + duration }),
+        updatedAt: now
+      });
+
+      transaction.update(appointmentRef, {
+        date: Timestamp.fromDate(newDate),
+        resourceId: resource.id,
+        rescheduledFrom: appointment.date,
+        totalPrice: quote.totalPrice,
+        priceQuote: quote,
+        updatedAt: now
+      });
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error rescheduling appointment:', error);
+    throw error;
+  }
+};
+
 export const getCustomerAppointments = async (customerId: string) => {
   const q = query(
     collection(db, COLLECTIONS.APPOINTMENTS),
@@ -748,6 +2332,694 @@ export const getVendorAppointments = async (vendorId: string) => {
   return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Appointment);
 };
 
+// Business accounts. The company registers with a `business` user, who owns
+// the account and is its first manager; further members are existing users
+// added by email. Bookings billed to the account are checked against its
+// spending limits in createAppointment, and completed ones are invoiced
+// monthly per vendor by generateBusinessInvoices.
+const toBusinessAccount = (data: DocumentData): BusinessAccount => ({
+  ...data,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date()
+}) as BusinessAccount;
+
+const toBusinessInvoice = (data: DocumentData): BusinessInvoice => ({
+  ...data,
+  lines: (data.lines || []).map((line: DocumentData) => ({ ...line, date: line.date.toDate() })),
+  dueDate: data.dueDate.toDate(),
+  createdAt: data.createdAt.toDate(),
+  ...(data.paidAt ? { paidAt: data.paidAt.toDate() } : {})
+}) as BusinessInvoice;
+
+export const createBusinessAccount = async (
+  owner: { userId: string; email: string },
+  accountData: Pick<BusinessAccount, 'name' | 'businessId' | 'billingAddress' | 'billingEmail' | 'phone'>
+) => {
+  const accountRef = doc(collection(db, COLLECTIONS.BUSINESS_ACCOUNTS));
+  const ownerMember: BusinessMember = {
+    userId: owner.userId,
+    email: owner.email,
+    name: owner.email,
+    role: 'manager',
+    monthlyLimit: null,
+    requiresApproval: false
+  };
+
+  await setDoc(accountRef, {
+    ...accountData,
+    id: accountRef.id,
+    ownerId: owner.userId,
+    memberIds: [owner.userId],
+    members: { [owner.userId]: ownerMember },
+    monthlyLimit: null,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+  return accountRef.id;
+};
+
+export const getBusinessAccount = async (accountId: string): Promise<BusinessAccount | null> => {
+  const accountDoc = await getDoc(doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, accountId));
+  return accountDoc.exists() ? toBusinessAccount(accountDoc.data()) : null;
+};
+
+// Accounts the user can bill bookings to
+export const getMemberBusinessAccounts = async (userId: string): Promise<BusinessAccount[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.BUSINESS_ACCOUNTS),
+    where('memberIds', 'array-contains', userId)
+  ));
+  return querySnapshot.docs.map(doc => toBusinessAccount(doc.data()));
+};
+
+export const updateBusinessAccount = async (
+  accountId: string,
+  accountData: Partial<Pick<BusinessAccount, 'name' | 'billingAddress' | 'billingEmail' | 'phone' | 'monthlyLimit'>>
+) => {
+  await updateDoc(doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, accountId), {
+    ...accountData,
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
+export type BusinessMemberSettings = Pick<BusinessMember, 'role' | 'monthlyLimit' | 'requiresApproval'>;
+
+export const addBusinessMember = async (accountId: string, email: string, settings: BusinessMemberSettings) => {
+  const accountRef = doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, accountId);
+  const userSnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.USERS),
+    where('email', '==', email.trim()),
+    limit(1)
+  ));
+  if (userSnapshot.empty) {
+    throw new Error('Käyttäjää ei löytynyt tällä sähköpostilla');
+  }
+
+  const user = { ...userSnapshot.docs[0].data(), id: userSnapshot.docs[0].id } as User;
+  const member: BusinessMember = {
+    userId: user.id,
+    email: user.email,
+    name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+    ...settings
+  };
+
+  await runTransaction(db, async (transaction) => {
+    const accountDoc = await transaction.get(accountRef);
+    if (!accountDoc.exists()) {
+      throw new Error('Yritystiliä ei löytynyt');
+    }
+    if ((accountDoc.data().memberIds || []).includes(user.id)) {
+      throw new Error('Käyttäjä on jo jäsen');
+    }
+
+    transaction.update(accountRef, {
+      memberIds: arrayUnion(user.id),
+      [`members.${user.id}`]: member,
+      updatedAt: serverTimestamp()
+    });
+  });
+  return member;
+};
+
+export const updateBusinessMember = async (accountId: string, userId: string, settings: BusinessMemberSettings) => {
+  const account = await getBusinessAccount(accountId);
+  if (!account) {
+    throw new Error('Yritystiliä ei löytynyt');
+  }
+  if (userId === account.ownerId && settings.role !== 'manager') {
+    throw new Error('Omistaja on aina pääkäyttäjä');
+  }
+
+  await updateDoc(doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, accountId), {
+    [`members.${userId}.role`]: settings.role,
+    [`members.${userId}.monthlyLimit`]: settings.monthlyLimit,
+    [`members.${userId}.requiresApproval`]: settings.requiresApproval,
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
+export const removeBusinessMember = async (accountId: string, userId: string) => {
+  const account = await getBusinessAccount(accountId);
+  if (!account) {
+    throw new Error('Yritystiliä ei löytynyt');
+  }
+  if (userId === account.ownerId) {
+    throw new Error('Omistajaa ei voi poistaa');
+  }
+
+  await updateDoc(doc(db, COLLECTIONS.BUSINESS_ACCOUNTS, accountId), {
+    memberIds: arrayRemove(userId),
+    [`members.${userId}`]: deleteField(),
+    updatedAt: serverTimestamp()
+  });
+  return true;
+};
+
+// The account's bookings in a date range, newest first
+export const getBusinessAppointments = async (accountId: string, start: Date, end: Date): Promise<Appointment[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.APPOINTMENTS),
+    where('businessAccountId', '==', accountId),
+    where('date', '>=', Timestamp.fromDate(start)),
+    where('date', '<=', Timestamp.fromDate(end)),
+    orderBy('date', 'desc')
+  ));
+  return querySnapshot.docs.map(doc => ({
+    ...doc.data(),
+    id: doc.id,
+    date: doc.data().date.toDate()
+  }) as Appointment);
+};
+
+// Bills every completed business booking of the month that is not on an
+// invoice yet: one invoice per account and vendor. The invoice and the
+// invoiceId marks on its appointments are written in one batch, so running
+// this again only picks up bookings completed since. Returns the number of
+// invoices created.
+const INVOICE_BATCH_LINES = 499;
+
+export const generateBusinessInvoices = async (periodDate: Date) => {
+  const { start, end } = getPeriodRange(periodDate);
+  const period = getPeriodKey(periodDate);
+
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.APPOINTMENTS),
+    where('status', '==', 'completed'),
+    where('date', '>=', Timestamp.fromDate(start)),
+    where('date', '<=', Timestamp.fromDate(end))
+  ));
+  const appointments = querySnapshot.docs
+    .map(doc => ({ ...doc.data(), id: doc.id, date: doc.data().date.toDate() }) as Appointment)
+    .filter(appointment => appointment.businessAccountId);
+  const accountIds = [...new Set(appointments.map(appointment => appointment.businessAccountId as string))];
+
+  let created = 0;
+  for (const accountId of accountIds) {
+    const account = await getBusinessAccount(accountId);
+    if (!account) continue;
+
+    const byVendor = getUninvoicedByVendor(appointments.filter(appointment => appointment.businessAccountId === accountId));
+    for (const [vendorId, vendorAppointments] of Object.entries(byVendor)) {
+      const vendor = await getVendor(vendorId);
+      const lines = vendorAppointments
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .map(toInvoiceLine);
+
+      // A batch holds 500 writes, so a longer month is split over several invoices
+      for (let i = 0; i < lines.length; i += INVOICE_BATCH_LINES) {
+        const invoiceLines = lines.slice(i, i + INVOICE_BATCH_LINES);
+        const invoiceRef = doc(collection(db, COLLECTIONS.BUSINESS_INVOICES));
+        const now = Timestamp.now();
+        const batch = writeBatch(db);
+
+        batch.set(invoiceRef, {
+          id: invoiceRef.id,
+          businessAccountId: account.id,
+          businessName: account.name,
+          businessId: account.businessId,
+          billingAddress: account.billingAddress,
+          billingEmail: account.billingEmail,
+          vendorId,
+          vendorName: vendor?.businessName || '',
+          period,
+          lines: invoiceLines.map(line => ({ ...line, date: Timestamp.fromDate(line.date) })),
+          total: Math.round(invoiceLines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100,
+          status: 'open',
+          dueDate: Timestamp.fromDate(getInvoiceDueDate(now.toDate())),
+          createdAt: now
+        });
+        invoiceLines.forEach(line => {
+          batch.update(doc(db, COLLECTIONS.APPOINTMENTS, line.appointmentId), { invoiceId: invoiceRef.id });
+        });
+
+        await batch.commit();
+        created++;
+      }
+    }
+  }
+
+  return created;
+};
+
+export const getBusinessInvoices = async (accountId: string): Promise<BusinessInvoice[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.BUSINESS_INVOICES),
+    where('businessAccountId', '==', accountId),
+    orderBy('period', 'desc')
+  ));
+  return querySnapshot.docs.map(doc => toBusinessInvoice(doc.data()));
+};
+
+export const getInvoicesByPeriod = async (period: string): Promise<BusinessInvoice[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.BUSINESS_INVOICES),
+    where('period', '==', period)
+  ));
+  return querySnapshot.docs.map(doc => toBusinessInvoice(doc.data()));
+};
+
+export const markInvoicePaid = async (invoiceId: string) => {
+  await updateDoc(doc(db, COLLECTIONS.BUSINESS_INVOICES, invoiceId), {
+    status: 'paid',
+    paidAt: serverTimestamp()
+  });
+  return true;
+};
+
+// Vendor payouts. Entries are written when an appointment completes and
+// collected into batches that the platform pays out.
+const PAYOUT_BATCH_WRITES = 499;
+
+const UNPRICED_AMOUNTS = {
+  grossAmount: 0,
+  coinDiscount: 0,
+  voucherDiscount: 0,
+  customerPaid: 0,
+  collectedAmount: 0,
+  commissionRate: 0,
+  commission: 0,
+  payoutAmount: 0
+};
+
+// Entries written before platform vouchers and on-site payments were told
+// apart assumed the platform collected the whole price. Entries priced on
+// completion, before the platform priced them, have no pricedAt.
+const toPayoutEntry = (data: DocumentData): PayoutEntry => {
+  if (data.payoutAmount === undefined) {
+    return { ...data, ...UNPRICED_AMOUNTS, completedAt: data.completedAt.toDate() } as PayoutEntry;
+  }
+  return {
+    voucherDiscount: 0,
+    collectedAmount: data.customerPaid,
+    ...data,
+    completedAt: data.completedAt.toDate(),
+    pricedAt: (data.pricedAt || data.completedAt).toDate(),
+    ...(data.paidAt ? { paidAt: data.paidAt.toDate() } : {})
+  } as PayoutEntry;
+};
+
+// Prices the entry from its booking: the commission rate of the service's
+// category and the platform's share of the discounts. An online payment
+// counts only once it has been charged, so an entry waits while its payment
+// is only authorised. Returns the priced entry, or null while it waits.
+const pricePayoutEntry = async (entry: PayoutEntry, commissionSettings: CommissionSettings) => {
+  const appointmentSnap = await getDoc(doc(db, COLLECTIONS.APPOINTMENTS, entry.appointmentId));
+  if (!appointmentSnap.exists()) return null;
+  const appointment = appointmentSnap.data() as Appointment;
+  if (appointment.payment?.status === 'authorized') return null;
+
+  const voucherCode = appointment.priceQuote?.voucherCode;
+  const [serviceSnap, voucherSnap, packageSnap] = await Promise.all([
+    getDoc(doc(db, COLLECTIONS.SERVICES, appointment.serviceId)),
+    voucherCode ? getDoc(doc(db, COLLECTIONS.VOUCHERS, normalizeVoucherCode(voucherCode))) : Promise.resolve(null),
+    appointment.packageId ? getDoc(doc(db, COLLECTIONS.CUSTOMER_PACKAGES, appointment.packageId)) : Promise.resolve(null)
+  ]);
+  const categoryId: string | undefined = serviceSnap.data()?.categoryId;
+  const categorySnap = categoryId ? await getDoc(doc(db, COLLECTIONS.SERVICE_CATEGORIES, categoryId)) : null;
+  const categoryName: string | undefined = categorySnap?.data()?.name;
+
+  const amounts = getPayoutAmounts({
+    appointment,
+    commissionRate: getCommissionRate(commissionSettings, entry.vendorId, categoryName),
+    creditValue: packageSnap?.exists() ? getCreditValue(toCustomerPackage(packageSnap.data())) : 0,
+    // A voucher without a vendor is the platform's discount
+    platformVoucher: !!voucherSnap?.exists() && !voucherSnap.data().vendorId
+  });
+  const pricedAt = Timestamp.now();
+  await updateDoc(doc(db, COLLECTIONS.PAYOUT_ENTRIES, entry.id), {
+    ...amounts,
+    ...(categoryName ? { categoryName } : {}),
+    pricedAt
+  });
+  return { ...entry, ...amounts, ...(categoryName ? { categoryName } : {}), pricedAt: pricedAt.toDate() };
+};
+
+const toPayoutBatch = (data: DocumentData): PayoutBatch => ({
+  ...data,
+  vendors: (data.vendors as DocumentData[]).map(vendor => ({ voucherDiscount: 0, ...vendor })),
+  periodEnd: data.periodEnd.toDate(),
+  createdAt: data.createdAt.toDate(),
+  ...(data.paidAt ? { paidAt: data.paidAt.toDate() } : {})
+}) as PayoutBatch;
+
+export const getVendorPayoutEntries = async (vendorId: string): Promise<PayoutEntry[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.PAYOUT_ENTRIES),
+    where('vendorId', '==', vendorId),
+    orderBy('completedAt', 'desc')
+  ));
+  return querySnapshot.docs.map(doc => toPayoutEntry(doc.data()));
+};
+
+// Entries not yet in a batch, up to periodEnd. Unpriced entries are priced
+// first; those still waiting for their payment are left out.
+export const getUnbatchedPayoutEntries = async (periodEnd: Date): Promise<PayoutEntry[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.PAYOUT_ENTRIES),
+    where('batchId', '==', null),
+    where('completedAt', '<=', Timestamp.fromDate(periodEnd)),
+    orderBy('completedAt', 'asc')
+  ));
+  const entries = querySnapshot.docs.map(doc => toPayoutEntry(doc.data()));
+  const commissionSettings = entries.some(entry => !entry.pricedAt) ? await getCommissionSettings() : null;
+  const priced = await Promise.all(entries.map(entry =>
+    entry.pricedAt || !commissionSettings ? entry : pricePayoutEntry(entry, commissionSettings)
+  ));
+  return priced.flatMap(entry => entry ? [entry] : []);
+};
+
+// Collects every entry not yet in a batch, up to periodEnd, into one batch
+// with a total per vendor. Returns null when there is nothing to pay.
+// Entries are claimed in transactions that skip any already taken by another
+// run, and the batch document is rewritten with each claim, so concurrent
+// runs never pay an entry twice and the batch always matches its entries.
+export const createPayoutBatch = async (periodEnd: Date, createdBy: string) => {
+  const candidates = getPayableEntries(await getUnbatchedPayoutEntries(periodEnd));
+  if (candidates.length === 0) return null;
+
+  const vendorIds = [...new Set(candidates.map(entry => entry.vendorId))];
+  const vendors = await Promise.all(vendorIds.map(vendorId => getVendor(vendorId)));
+  const batchRef = doc(collection(db, COLLECTIONS.PAYOUT_BATCHES));
+  const now = Timestamp.now();
+  let claimed: PayoutEntry[] = [];
+
+  for (let i = 0; i < candidates.length; i += PAYOUT_BATCH_WRITES) {
+    const chunk = candidates.slice(i, i + PAYOUT_BATCH_WRITES);
+    claimed = await runTransaction(db, async (transaction) => {
+      const entryDocs = await Promise.all(chunk.map(entry => transaction.get(doc(db, COLLECTIONS.PAYOUT_ENTRIES, entry.id))));
+      const available = entryDocs.flatMap(entryDoc =>
+        entryDoc.exists() && entryDoc.data().batchId === null ? [toPayoutEntry(entryDoc.data())] : []
+      );
+      if (available.length === 0) return claimed;
+
+      const entries = [...claimed, ...available];
+      transaction.set(batchRef, {
+        id: batchRef.id,
+        periodEnd: Timestamp.fromDate(periodEnd),
+        vendors: vendorIds
+          .map((vendorId, index) => ({
+            vendorId,
+            vendorName: vendors[index]?.businessName || '',
+            businessId: vendors[index]?.businessId || '',
+            iban: normalizeIban(vendors[index]?.payoutIban || ''),
+            ...sumPayoutEntries(entries.filter(entry => entry.vendorId === vendorId))
+          }))
+          .filter(vendor => vendor.entryCount > 0),
+        entryCount: entries.length,
+        total: sumPayoutEntries(entries).payoutAmount,
+        status: 'created',
+        createdAt: now,
+        createdBy
+      });
+      available.forEach(entry => {
+        transaction.update(doc(db, COLLECTIONS.PAYOUT_ENTRIES, entry.id), { batchId: batchRef.id });
+      });
+      return entries;
+    });
+  }
+
+  return claimed.length > 0 ? batchRef.id : null;
+};
+
+export const getPayoutBatches = async (): Promise<PayoutBatch[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.PAYOUT_BATCHES),
+    orderBy('createdAt', 'desc')
+  ));
+  return querySnapshot.docs.map(doc => toPayoutBatch(doc.data()));
+};
+
+export const markPayoutBatchPaid = async (batchId: string) => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.PAYOUT_ENTRIES),
+    where('batchId', '==', batchId)
+  ));
+  const now = Timestamp.now();
+
+  for (let i = 0; i < querySnapshot.docs.length; i += PAYOUT_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    querySnapshot.docs.slice(i, i + PAYOUT_BATCH_WRITES).forEach(entryDoc => {
+      batch.update(entryDoc.ref, { paidAt: now });
+    });
+    await batch.commit();
+  }
+
+  await updateDoc(doc(db, COLLECTIONS.PAYOUT_BATCHES, batchId), {
+    status: 'paid',
+    paidAt: now
+  });
+  return true;
+};
+
+// Receipts. A completed appointment gets its receipt the first time the
+// customer or the vendor opens it; the number comes from a per-vendor counter
+// in the same transaction so numbers run without gaps.
+const toReceipt = (data: DocumentData): Receipt => ({
+  ...data,
+  serviceDate: data.serviceDate.toDate(),
+  issuedAt: data.issuedAt.toDate()
+}) as Receipt;
+
+export const getAppointmentReceipt = async (appointmentId: string): Promise<Receipt> => {
+  const receiptRef = doc(db, COLLECTIONS.RECEIPTS, appointmentId);
+  const existing = await getDoc(receiptRef);
+  if (existing.exists()) return toReceipt(existing.data());
+
+  const appointmentDoc = await getDoc(doc(db, COLLECTIONS.APPOINTMENTS, appointmentId));
+  if (!appointmentDoc.exists()) {
+    throw new Error('Varausta ei löytynyt');
+  }
+  const appointment = {
+    ...appointmentDoc.data(),
+    id: appointmentDoc.id,
+    date: appointmentDoc.data().date.toDate()
+  } as Appointment;
+  if (appointment.status !== 'completed') {
+    throw new Error('Kuitti on saatavilla vasta valmiista pesusta');
+  }
+
+  const [vendor, businessAccount] = await Promise.all([
+    getVendor(appointment.vendorId),
+    appointment.businessAccountId ? getBusinessAccount(appointment.businessAccountId) : Promise.resolve(null)
+  ]);
+  if (!vendor) {
+    throw new Error('Pesupaikkaa ei löytynyt');
+  }
+
+  const counterRef = doc(db, COLLECTIONS.RECEIPT_COUNTERS, vendor.id);
+  return runTransaction(db, async (transaction) => {
+    const [receiptDoc, counterDoc] = await Promise.all([
+      transaction.get(receiptRef),
+      transaction.get(counterRef)
+    ]);
+    // Opened at the same time by the customer and the vendor
+    if (receiptDoc.exists()) return toReceipt(receiptDoc.data());
+
+    const number = (counterDoc.exists() ? counterDoc.data().lastNumber : 0) + 1;
+    const receipt = buildReceipt(appointment, vendor, number, businessAccount, new Date());
+
+    transaction.set(counterRef, { vendorId: vendor.id, lastNumber: number, lastReceiptId: appointmentId });
+    transaction.set(receiptRef, {
+      ...receipt,
+      serviceDate: Timestamp.fromDate(receipt.serviceDate),
+      issuedAt: Timestamp.fromDate(receipt.issuedAt)
+    });
+    return receipt;
+  });
+};
+
+// Vendor verification. The vendor submits documents, an admin approves or
+// rejects them, and every step is written to the audit log together with a
+// notification to the vendor.
+export interface VerificationActor {
+  userId: string;
+  email: string;
+}
+
+const toVerificationEvent = (data: DocumentData): VerificationEvent => ({
+  ...data,
+  createdAt: data.createdAt.toDate()
+}) as VerificationEvent;
+
+const getVendorForVerification = async (vendorId: string) => {
+  const vendorDoc = await getDoc(doc(db, COLLECTIONS.VENDORS, vendorId));
+  if (!vendorDoc.exists()) {
+    throw new Error('Yritystä ei löytynyt');
+  }
+  return { ...vendorDoc.data(), id: vendorDoc.id } as Vendor;
+};
+
+const addVerificationEvent = (
+  batch: ReturnType<typeof writeBatch>,
+  vendor: Vendor,
+  action: VerificationEvent['action'],
+  actor: VerificationActor,
+  now: Timestamp,
+  reason?: string
+) => {
+  const eventRef = doc(collection(db, COLLECTIONS.VERIFICATION_EVENTS));
+  batch.set(eventRef, {
+    id: eventRef.id,
+    vendorId: vendor.id,
+    vendorName: vendor.businessName,
+    businessId: vendor.businessId,
+    action,
+    actorId: actor.userId,
+    actorEmail: actor.email,
+    ...(reason ? { reason } : {}),
+    createdAt: now
+  });
+};
+
+const addNotification = (
+  batch: ReturnType<typeof writeBatch>,
+  userId: string,
+  notification: Pick<UserNotification, 'title' | 'message'>,
+  now: Timestamp
+) => {
+  const notificationRef = doc(collection(db, COLLECTIONS.NOTIFICATIONS));
+  batch.set(notificationRef, {
+    ...notification,
+    id: notificationRef.id,
+    userId,
+    read: false,
+    createdAt: now
+  });
+};
+
+export const submitVendorVerification = async (
+  vendorId: string,
+  documents: VerificationDocument[],
+  actor: VerificationActor
+) => {
+  const missing = getMissingDocuments(documents);
+  if (missing.length > 0) {
+    throw new Error(`Puuttuvat asiakirjat: ${missing.join(', ')}`);
+  }
+
+  const vendor = await getVendorForVerification(vendorId);
+  if (vendor.verified) {
+    throw new Error('Yritys on jo vahvistettu');
+  }
+
+  const now = Timestamp.now();
+  const verification: VendorVerification = {
+    status: 'pending',
+    documents,
+    submittedAt: now.toDate()
+  };
+
+  const batch = writeBatch(db);
+  batch.update(doc(db, COLLECTIONS.VENDORS, vendorId), {
+    verification,
+    updatedAt: serverTimestamp()
+  });
+  addVerificationEvent(batch, vendor, 'submitted', actor, now);
+  await batch.commit();
+  return verification;
+};
+
+export const getPendingVerifications = async (): Promise<Vendor[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.VENDORS),
+    where('verification.status', '==', 'pending')
+  ));
+  const submittedAt = (vendor: Vendor) =>
+    vendor.verification ? toVerificationDate(vendor.verification.submittedAt).getTime() : 0;
+  // Oldest submission first
+  return querySnapshot.docs
+    .map(doc => ({ ...doc.data(), id: doc.id }) as Vendor)
+    .sort((a, b) => submittedAt(a) - submittedAt(b));
+};
+
+export const approveVendorVerification = async (vendorId: string, admin: VerificationActor) => {
+  const vendor = await getVendorForVerification(vendorId);
+  if (vendor.verification?.status !== 'pending') {
+    throw new Error('Yritys ei ole lähettänyt vahvistusasiakirjoja');
+  }
+  if (!isValidBusinessId(vendor.businessId)) {
+    throw new Error('Yrityksen Y-tunnus on virheellinen');
+  }
+
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.update(doc(db, COLLECTIONS.VENDORS, vendorId), {
+    verified: true,
+    'verification.status': 'approved',
+    'verification.decidedBy': admin.userId,
+    'verification.decidedAt': now,
+    'verification.rejectionReason': deleteField(),
+    updatedAt: serverTimestamp()
+  });
+  addVerificationEvent(batch, vendor, 'approved', admin, now);
+  addNotification(batch, vendor.userId, {
+    title: 'Yrityksesi on vahvistettu',
+    message: 'Yrityksesi näkyy nyt asiakkaille hakutuloksissa.'
+  }, now);
+  await batch.commit();
+  return true;
+};
+
+export const rejectVendorVerification = async (vendorId: string, admin: VerificationActor, reason: string) => {
+  if (!reason.trim()) {
+    throw new Error('Kerro hylkäyksen syy');
+  }
+
+  const vendor = await getVendorForVerification(vendorId);
+  if (vendor.verification?.status !== 'pending') {
+    throw new Error('Yritys ei ole lähettänyt vahvistusasiakirjoja');
+  }
+
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.update(doc(db, COLLECTIONS.VENDORS, vendorId), {
+    verified: false,
+    'verification.status': 'rejected',
+    'verification.decidedBy': admin.userId,
+    'verification.decidedAt': now,
+    'verification.rejectionReason': reason.trim(),
+    updatedAt: serverTimestamp()
+  });
+  addVerificationEvent(batch, vendor, 'rejected', admin, now, reason.trim());
+  addNotification(batch, vendor.userId, {
+    title: 'Yrityksen vahvistus hylättiin',
+    message: `${reason.trim()} Voit lähettää korjatut asiakirjat uudelleen Vahvistus-välilehdellä.`
+  }, now);
+  await batch.commit();
+  return true;
+};
+
+// Newest first; the whole log when no vendor is given
+export const getVerificationEvents = async (vendorId?: string): Promise<VerificationEvent[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.VERIFICATION_EVENTS),
+    ...(vendorId ? [where('vendorId', '==', vendorId)] : []),
+    orderBy('createdAt', 'desc'),
+    limit(100)
+  ));
+  return querySnapshot.docs.map(doc => toVerificationEvent(doc.data()));
+};
+
+export const getUnreadNotifications = async (userId: string): Promise<UserNotification[]> => {
+  const querySnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.NOTIFICATIONS),
+    where('userId', '==', userId),
+    where('read', '==', false),
+    orderBy('createdAt', 'desc')
+  ));
+  return querySnapshot.docs.map(doc => ({
+    ...doc.data(),
+    createdAt: doc.data().createdAt.toDate()
+  }) as UserNotification);
+};
+
+export const markNotificationRead = async (notificationId: string) => {
+  await updateDoc(doc(db, COLLECTIONS.NOTIFICATIONS, notificationId), { read: true });
+  return true;
+};
+
 // Support ticket operations
 export const createSupportTicket = async (ticketData: Omit<SupportTicket, 'id' | 'createdAt' | 'updatedAt' | 'status'>) => {
   const ticketRef = doc(collection(db, COLLECTIONS.SUPPORT_TICKETS));
@@ -23,11 +23,31 @@ export const storage = getStorage(app);
 // Collection references
 export const COLLECTIONS = {
   USERS: 'users',
+  VEHICLES: 'vehicles', // sub-collection of users and business accounts
   SERVICES: 'services',
   SERVICE_CATEGORIES: 'service_categories',
   APPOINTMENTS: 'appointments',
   VENDORS: 'vendors',
   FEEDBACK: 'feedback',
   OFFERS: 'offers',
-  SUPPORT_TICKETS: 'support_tickets'
+  PROMOTIONS: 'promotions',
+  VOUCHERS: 'vouchers',
+  VOUCHER_BATCHES: 'voucher_batches',
+  VOUCHER_REDEMPTIONS: 'voucher_redemptions',
+  REFERRALS: 'referrals',
+  WASH_PACKAGES: 'wash_packages',
+  CUSTOMER_PACKAGES: 'customer_packages',
+  SCHEDULES: 'schedules',
+  WALLET_TRANSACTIONS: 'wallet_transactions',
+  SETTINGS: 'settings',
+  SUPPORT_TICKETS: 'support_tickets',
+  BUSINESS_ACCOUNTS: 'business_accounts',
+  BUSINESS_INVOICES: 'business_invoices',
+  PAYOUT_ENTRIES: 'payout_entries', // keyed by appointment id
+  PAYOUT_BATCHES: 'payout_batches',
+  RECEIPTS: 'receipts', // keyed by appointment id
+  RECEIPT_COUNTERS: 'receipt_counters', // keyed by vendor id
+  PAYMENTS: 'payments', // keyed by the provider's payment id
+  VERIFICATION_EVENTS: 'verification_events',
+  NOTIFICATIONS: 'notifications'
 } as const;
@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+
+// Runs against the Firestore emulator, e.g. under `firebase emulators:exec`,
+// which sets FIRESTORE_EMULATOR_HOST; skipped without it
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('receipt counter rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-carwash',
+      firestore: { rules: readFileSync(new URL('../../firestore.rules', import.meta.url), 'utf8') }
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'vendors/vendor-1'), { userId: 'owner' });
+      await setDoc(doc(db, 'appointments/booking-1'), { vendorId: 'vendor-1', customerId: 'customer', status: 'completed' });
+      await setDoc(doc(db, 'appointments/booking-2'), { vendorId: 'vendor-1', customerId: 'customer', status: 'completed' });
+    });
+  });
+
+  const issueReceipt = (userId: string, appointmentId: string, number: number) => {
+    const db = testEnv.authenticatedContext(userId).firestore();
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'receipt_counters/vendor-1'), { vendorId: 'vendor-1', lastNumber: number, lastReceiptId: appointmentId });
+    batch.set(doc(db, `receipts/${appointmentId}`), { vendorId: 'vendor-1', customerId: 'customer', number });
+    return batch.commit();
+  };
+
+  it('lets the customer or the vendor issue a receipt with the next number', async () => {
+    await assertSucceeds(issueReceipt('customer', 'booking-1', 1));
+    await assertSucceeds(issueReceipt('owner', 'booking-2', 2));
+  });
+
+  it('refuses a receipt for someone else\'s booking', async () => {
+    await assertFails(issueReceipt('stranger', 'booking-1', 1));
+  });
+
+  it('refuses to create or move a counter without its receipt', async () => {
+    const db = testEnv.authenticatedContext('stranger').firestore();
+    await assertFails(setDoc(doc(db, 'receipt_counters/vendor-1'), { vendorId: 'vendor-1', lastNumber: 1, lastReceiptId: 'booking-1' }));
+
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'receipt_counters/vendor-1'), { vendorId: 'vendor-1', lastNumber: 3 });
+    });
+    await assertFails(updateDoc(doc(db, 'receipt_counters/vendor-1'), { lastNumber: 4, lastReceiptId: 'booking-1' }));
+    await assertFails(updateDoc(doc(testEnv.authenticatedContext('customer').firestore(), 'receipt_counters/vendor-1'), {
+      lastNumber: 4,
+      lastReceiptId: 'booking-1'
+    }));
+  });
+
+  it('refuses a counter that does not match the receipt\'s number', async () => {
+    const db = testEnv.authenticatedContext('customer').firestore();
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'receipt_counters/vendor-1'), { vendorId: 'vendor-1', lastNumber: 1, lastReceiptId: 'booking-1' });
+    batch.set(doc(db, 'receipts/booking-1'), { vendorId: 'vendor-1', customerId: 'customer', number: 7 });
+    await assertFails(batch.commit());
+  });
+});
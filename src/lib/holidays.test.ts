@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getFinnishHolidays } from './holidays';
+
+const getDate = (year: number, name: string) =>
+  getFinnishHolidays(year).find(holiday => holiday.name === name)?.date;
+
+describe('getFinnishHolidays', () => {
+  it('lists fifteen holidays in date order', () => {
+    const holidays = getFinnishHolidays(2025);
+    expect(holidays).toHaveLength(15);
+    expect(holidays.map(holiday => holiday.date)).toEqual([...holidays.map(holiday => holiday.date)].sort());
+  });
+
+  it('places the Easter holidays', () => {
+    expect(getDate(2024, 'Pitkäperjantai')).toBe('2024-03-29');
+    expect(getDate(2024, 'Pääsiäispäivä')).toBe('2024-03-31');
+    expect(getDate(2025, 'Pääsiäispäivä')).toBe('2025-04-20');
+    expect(getDate(2025, '2. pääsiäispäivä')).toBe('2025-04-21');
+    expect(getDate(2025, 'Helatorstai')).toBe('2025-05-29');
+    expect(getDate(2025, 'Helluntaipäivä')).toBe('2025-06-08');
+  });
+
+  it('places midsummer on the Friday and Saturday between 19 and 26 June', () => {
+    expect(getDate(2024, 'Juhannusaatto')).toBe('2024-06-21');
+    expect(getDate(2025, 'Juhannusaatto')).toBe('2025-06-20');
+    expect(getDate(2025, 'Juhannuspäivä')).toBe('2025-06-21');
+  });
+
+  it('places All Saints on the Saturday between 31 October and 6 November', () => {
+    expect(getDate(2024, 'Pyhäinpäivä')).toBe('2024-11-02');
+    expect(getDate(2025, 'Pyhäinpäivä')).toBe('2025-11-01');
+  });
+
+  it('keeps the fixed dates', () => {
+    expect(getDate(2025, 'Itsenäisyyspäivä')).toBe('2025-12-06');
+    expect(getDate(2025, 'Jouluaatto')).toBe('2025-12-24');
+  });
+});
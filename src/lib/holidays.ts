@@ -0,0 +1,57 @@
+import { addDays, format } from 'date-fns';
+
+export interface PublicHoliday {
+  date: string; // yyyy-MM-dd
+  name: string;
+}
+
+// Easter Sunday using the anonymous Gregorian algorithm
+const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// First given weekday (0 = sunday) on or after the date
+const nextWeekday = (date: Date, weekday: number) =>
+  addDays(date, (weekday - date.getDay() + 7) % 7);
+
+export const getFinnishHolidays = (year: number): PublicHoliday[] => {
+  const easter = getEasterSunday(year);
+  const midsummerEve = nextWeekday(new Date(year, 5, 19), 5);
+
+  const holidays = [
+    { date: new Date(year, 0, 1), name: 'Uudenvuodenpäivä' },
+    { date: new Date(year, 0, 6), name: 'Loppiainen' },
+    { date: addDays(easter, -2), name: 'Pitkäperjantai' },
+    { date: easter, name: 'Pääsiäispäivä' },
+    { date: addDays(easter, 1), name: '2. pääsiäispäivä' },
+    { date: new Date(year, 4, 1), name: 'Vappu' },
+    { date: addDays(easter, 39), name: 'Helatorstai' },
+    { date: addDays(easter, 49), name: 'Helluntaipäivä' },
+    { date: midsummerEve, name: 'Juhannusaatto' },
+    { date: addDays(midsummerEve, 1), name: 'Juhannuspäivä' },
+    { date: nextWeekday(new Date(year, 9, 31), 6), name: 'Pyhäinpäivä' },
+    { date: new Date(year, 11, 6), name: 'Itsenäisyyspäivä' },
+    { date: new Date(year, 11, 24), name: 'Jouluaatto' },
+    { date: new Date(year, 11, 25), name: 'Joulupäivä' },
+    { date: new Date(year, 11, 26), name: 'Tapaninpäivä' }
+  ];
+
+  return holidays.map(holiday => ({
+    date: format(holiday.date, 'yyyy-MM-dd'),
+    name: holiday.name
+  }));
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { CoinLot, LoyaltySettings } from '../types/database';
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  consumeLots,
+  getCoinExpiryDate,
+  getExpiringLots,
+  getLoyaltyTier,
+  getNextLoyaltyTier,
+  getRewardCoins,
+  getTierProgress,
+  getUntrackedCoins,
+  splitExpiredLots
+} from './loyalty';
+
+const lot = (id: string, remaining: number, expiresAt: Date | null): CoinLot =>
+  ({ id, remaining, earnedAt: new Date(2025, 0, 1), expiresAt });
+
+const now = new Date(2025, 5, 1);
+
+describe('loyalty tiers', () => {
+  it('starts every customer on the lowest tier', () => {
+    expect(getLoyaltyTier({ completedCount: 0, totalSpend: 0 }).id).toBe('bronze');
+    expect(getNextLoyaltyTier({ completedCount: 0, totalSpend: 0 })?.id).toBe('silver');
+  });
+
+  it('reaches a tier by either washes or spend', () => {
+    expect(getLoyaltyTier({ completedCount: 5, totalSpend: 0 }).id).toBe('silver');
+    expect(getLoyaltyTier({ completedCount: 1, totalSpend: 600 }).id).toBe('gold');
+    expect(getNextLoyaltyTier({ completedCount: 15, totalSpend: 0 })).toBeNull();
+  });
+
+  it('ignores a threshold of 0 on the upper tiers', () => {
+    const settings: LoyaltySettings = {
+      ...DEFAULT_LOYALTY_SETTINGS,
+      tiers: DEFAULT_LOYALTY_SETTINGS.tiers.map(tier => ({ ...tier, minSpend: 0 }))
+    };
+    const stats = { completedCount: 2, totalSpend: 1000 };
+    expect(getLoyaltyTier(stats, settings).id).toBe('bronze');
+    expect(getNextLoyaltyTier(stats, settings)?.id).toBe('silver');
+    expect(getTierProgress(stats, settings)).toBeCloseTo(0.4);
+  });
+
+  it('measures progress by the closer criterion', () => {
+    expect(getTierProgress({ completedCount: 1, totalSpend: 100 })).toBeCloseTo(0.5);
+    expect(getTierProgress({ completedCount: 20, totalSpend: 0 })).toBe(1);
+  });
+
+  it('multiplies the reward by the tier', () => {
+    expect(getRewardCoins(10, DEFAULT_LOYALTY_SETTINGS.tiers[1])).toBe(13);
+  });
+});
+
+describe('coin lots', () => {
+  it('expires coins after the configured months, or never with 0', () => {
+    expect(getCoinExpiryDate(new Date(2025, 0, 15), DEFAULT_LOYALTY_SETTINGS)).toEqual(new Date(2026, 0, 15));
+    expect(getCoinExpiryDate(new Date(2025, 0, 15), { ...DEFAULT_LOYALTY_SETTINGS, coinExpiryMonths: 0 })).toBeNull();
+  });
+
+  it('splits expired lots from active ones', () => {
+    const lots = [lot('old', 5, new Date(2025, 4, 1)), lot('new', 5, new Date(2026, 0, 1)), lot('forever', 5, null)];
+    const { active, expired } = splitExpiredLots(lots, now);
+    expect(active.map(l => l.id)).toEqual(['new', 'forever']);
+    expect(expired.map(l => l.id)).toEqual(['old']);
+  });
+
+  it('counts coins without a lot as untracked', () => {
+    expect(getUntrackedCoins(30, [lot('a', 10, null)])).toBe(20);
+    expect(getUntrackedCoins(5, [lot('a', 10, null)])).toBe(0);
+  });
+
+  it('spends untracked coins first, then the lots closest to expiring', () => {
+    const lots = [lot('later', 10, new Date(2026, 0, 1)), lot('never', 10, null), lot('soon', 10, new Date(2025, 6, 1))];
+    const left = consumeLots(lots, 35, 20);
+    expect(left).toEqual([
+      lot('later', 5, new Date(2026, 0, 1)),
+      lot('never', 10, null)
+    ]);
+  });
+
+  it('warns about lots expiring within the warning period, soonest first', () => {
+    const lots = [
+      lot('late', 5, new Date(2025, 6, 20)),
+      lot('soon', 5, new Date(2025, 5, 10)),
+      lot('far', 5, new Date(2025, 11, 1)),
+      lot('gone', 5, new Date(2025, 4, 1))
+    ];
+    expect(getExpiringLots(lots, DEFAULT_LOYALTY_SETTINGS, now).map(l => l.id)).toEqual(['soon', 'late']);
+  });
+});
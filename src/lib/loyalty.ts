@@ -0,0 +1,95 @@
+import { addDays, addMonths } from 'date-fns';
+import type { CoinLot, LoyaltySettings, LoyaltyStats, LoyaltyTier } from '../types/database';
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  coinExpiryMonths: 12,
+  expiryWarningDays: 60,
+  tiers: [
+    { id: 'bronze', name: 'Pronssi', minCompleted: 0, minSpend: 0, multiplier: 1 },
+    { id: 'silver', name: 'Hopea', minCompleted: 5, minSpend: 200, multiplier: 1.25 },
+    { id: 'gold', name: 'Kulta', minCompleted: 15, minSpend: 600, multiplier: 1.5 }
+  ],
+  referrerReward: 20,
+  referredReward: 15
+};
+
+const EMPTY_STATS: LoyaltyStats = { completedCount: 0, totalSpend: 0 };
+
+// Firestore returns Timestamps for dates nested in arrays
+const toDate = (value: Date | { toDate: () => Date }) =>
+  value instanceof Date ? value : value.toDate();
+
+export const normalizeLots = (lots: CoinLot[] = []): CoinLot[] =>
+  lots.map(lot => ({
+    ...lot,
+    earnedAt: toDate(lot.earnedAt),
+    expiresAt: lot.expiresAt ? toDate(lot.expiresAt) : null
+  }));
+
+export const getCoinExpiryDate = (earnedAt: Date, settings: LoyaltySettings) =>
+  settings.coinExpiryMonths > 0 ? addMonths(earnedAt, settings.coinExpiryMonths) : null;
+
+export const splitExpiredLots = (lots: CoinLot[], now: Date = new Date()) => ({
+  active: lots.filter(lot => !lot.expiresAt || lot.expiresAt > now),
+  expired: lots.filter(lot => lot.expiresAt && lot.expiresAt <= now)
+});
+
+// Coins earned before expiry tracking have no lot; they are treated as the
+// oldest coins and never expire
+export const getUntrackedCoins = (balance: number, lots: CoinLot[]) =>
+  Math.max(0, balance - lots.reduce((sum, lot) => sum + lot.remaining, 0));
+
+// Spends coins first-in, first-out: untracked coins first, then the lots
+// closest to expiring
+export const consumeLots = (lots: CoinLot[], balance: number, amount: number): CoinLot[] => {
+  let left = Math.max(0, amount - getUntrackedCoins(balance, lots));
+
+  return [...lots]
+    .sort((a, b) => (a.expiresAt?.getTime() ?? Infinity) - (b.expiresAt?.getTime() ?? Infinity))
+    .map(lot => {
+      const used = Math.min(lot.remaining, left);
+      left -= used;
+      return { ...lot, remaining: lot.remaining - used };
+    })
+    .filter(lot => lot.remaining > 0);
+};
+
+export const getExpiringLots = (lots: CoinLot[], settings: LoyaltySettings, now: Date = new Date()) => {
+  const warningEnd = addDays(now, settings.expiryWarningDays);
+  return splitExpiredLots(lots, now).active
+    .filter(lot => lot.expiresAt && lot.expiresAt <= warningEnd)
+    .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime());
+};
+
+const sortTiers = (settings: LoyaltySettings) =>
+  [...settings.tiers].sort((a, b) => a.multiplier - b.multiplier);
+
+// A threshold of 0 leaves the criterion unused
+const meetsThreshold = (value: number, threshold: number) => threshold > 0 && value >= threshold;
+
+const reachesTier = (tier: LoyaltyTier, stats: LoyaltyStats) =>
+  meetsThreshold(stats.completedCount, tier.minCompleted) || meetsThreshold(stats.totalSpend, tier.minSpend);
+
+// Every customer starts on the lowest tier. The others are reached by either
+// enough completed washes or enough spend.
+export const getLoyaltyTier = (stats: LoyaltyStats = EMPTY_STATS, settings: LoyaltySettings = DEFAULT_LOYALTY_SETTINGS) => {
+  const [baseTier, ...tiers] = sortTiers(settings);
+  return tiers.filter(tier => reachesTier(tier, stats)).pop() || baseTier;
+};
+
+export const getNextLoyaltyTier = (stats: LoyaltyStats = EMPTY_STATS, settings: LoyaltySettings = DEFAULT_LOYALTY_SETTINGS) =>
+  sortTiers(settings).slice(1).find(tier => !reachesTier(tier, stats)) || null;
+
+// Progress towards the next tier, 0–1, by whichever criterion is closer
+export const getTierProgress = (stats: LoyaltyStats = EMPTY_STATS, settings: LoyaltySettings = DEFAULT_LOYALTY_SETTINGS) => {
+  const next = getNextLoyaltyTier(stats, settings);
+  if (!next) return 1;
+
+  return Math.min(1, Math.max(
+    next.minCompleted > 0 ? stats.completedCount / next.minCompleted : 0,
+    next.minSpend > 0 ? stats.totalSpend / next.minSpend : 0
+  ));
+};
+
+export const getRewardCoins = (coinReward: number, tier: LoyaltyTier) =>
+  Math.round(coinReward * tier.multiplier);
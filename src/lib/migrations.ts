@@ -0,0 +1,142 @@
+import { collection, doc, getDoc, getDocs, query, where, writeBatch, deleteField, Timestamp } from 'firebase/firestore';
+import type { WriteBatch } from 'firebase/firestore';
+import { startOfDay } from 'date-fns';
+import { db, COLLECTIONS } from './firebase';
+import { getLedgerKey } from './db';
+import { getScheduleId, toDateKey } from './availability';
+import { getAppointmentDuration } from './appointmentServices';
+import { isLegacyOperatingHours, normalizeOperatingHours } from './operatingHours';
+import type { Appointment, BookedSlot, Transaction } from '../types/database';
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 500;
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+// Commits in order, one batch per BATCH_LIMIT writes
+const commitInChunks = async (writes: BatchWrite[]) => {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+// Converts vendors still storing a single `{ open, close }` pair per day
+// to the list-of-intervals format used for split shifts. Returns the number
+// of vendors converted.
+export const migrateOperatingHours = async () => {
+  const vendorSnapshot = await getDocs(collection(db, COLLECTIONS.VENDORS));
+  const writes = vendorSnapshot.docs
+    .filter(vendorDoc => isLegacyOperatingHours(vendorDoc.data().operatingHours))
+    .map(vendorDoc => (batch: WriteBatch) => batch.update(vendorDoc.ref, {
+      operatingHours: normalizeOperatingHours(vendorDoc.data().operatingHours)
+    }));
+
+  await commitInChunks(writes);
+  return writes.length;
+};
+
+const toTimestamp = (value: unknown) => {
+  if (value instanceof Timestamp) return value;
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (value && typeof value === 'object' && 'seconds' in value) {
+    return new Timestamp((value as Timestamp).seconds, (value as Timestamp).nanoseconds || 0);
+  }
+  return Timestamp.now();
+};
+
+// Moves the legacy `wallet.transactions` array of every user into the
+// wallet_transactions collection with balance snapshots. Entry ids are derived
+// from the old transaction ids, so the migration can be re-run safely.
+// Returns the number of users migrated.
+export const migrateWalletTransactions = async () => {
+  const userSnapshot = await getDocs(collection(db, COLLECTIONS.USERS));
+  let migrated = 0;
+
+  for (const userDoc of userSnapshot.docs) {
+    const wallet = userDoc.data().wallet;
+    if (!Array.isArray(wallet?.transactions)) continue;
+
+    const entries = (wallet.transactions as Transaction[])
+      .map(transaction => ({ ...transaction, timestamp: toTimestamp(transaction.timestamp) }))
+      .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis());
+
+    // Work back from the current balance so the last snapshot matches it
+    const net = entries.reduce((sum, entry) => sum + (entry.type === 'credit' ? entry.amount : -entry.amount), 0);
+    let balance = (wallet.coins || 0) - net;
+
+    const writes: BatchWrite[] = entries.map(entry => {
+      balance += entry.type === 'credit' ? entry.amount : -entry.amount;
+      const entryId = getLedgerKey('migrated', entry.id);
+      const entryData = {
+        id: entryId,
+        userId: userDoc.id,
+        amount: entry.amount,
+        type: entry.type,
+        description: entry.description,
+        balanceAfter: balance,
+        timestamp: entry.timestamp
+      };
+      return batch => batch.set(doc(db, COLLECTIONS.WALLET_TRANSACTIONS, entryId), entryData);
+    });
+
+    // The array is cleared last, so an interrupted run is simply repeated
+    writes.push(batch => batch.update(userDoc.ref, { 'wallet.transactions': deleteField() }));
+    await commitInChunks(writes);
+    migrated++;
+  }
+
+  return migrated;
+};
+
+// Adds upcoming bookings made before day schedules existed to their vendor's
+// schedule, so availability no longer offers their slots. Bookings already in
+// a schedule are left as they are. Returns the number of slots added.
+export const backfillSchedules = async () => {
+  const appointmentSnapshot = await getDocs(query(
+    collection(db, COLLECTIONS.APPOINTMENTS),
+    where('status', 'in', ['pending', 'confirmed']),
+    where('date', '>=', Timestamp.fromDate(startOfDay(new Date())))
+  ));
+
+  const slotsBySchedule = new Map<string, { vendorId: string; date: Date; slots: BookedSlot[] }>();
+  appointmentSnapshot.docs.forEach(appointmentDoc => {
+    const appointment = appointmentDoc.data() as Appointment;
+    const date = toTimestamp(appointment.date).toDate();
+    const start = date.getHours() * 60 + date.getMinutes();
+    const scheduleId = getScheduleId(appointment.vendorId, date);
+    const schedule = slotsBySchedule.get(scheduleId) || { vendorId: appointment.vendorId, date, slots: [] };
+
+    schedule.slots.push({
+      appointmentId: appointmentDoc.id,
+      ...(appointment.resourceId ? { resourceId: appointment.resourceId } : {}),
+      start,
+      end: start + getAppointmentDuration(appointment)
+    });
+    slotsBySchedule.set(scheduleId, schedule);
+  });
+
+  const writes: BatchWrite[] = [];
+  let added = 0;
+
+  for (const [scheduleId, { vendorId, date, slots }] of slotsBySchedule) {
+    const scheduleRef = doc(db, COLLECTIONS.SCHEDULES, scheduleId);
+    const scheduleDoc = await getDoc(scheduleRef);
+    const bookings = scheduleDoc.exists() ? (scheduleDoc.data().bookings || []) as BookedSlot[] : [];
+    const missing = slots.filter(slot => !bookings.some(booking => booking.appointmentId === slot.appointmentId));
+    if (missing.length === 0) continue;
+
+    writes.push(batch => batch.set(scheduleRef, {
+      id: scheduleId,
+      vendorId,
+      date: toDateKey(date),
+      bookings: [...bookings, ...missing],
+      updatedAt: Timestamp.now()
+    }));
+    added += missing.length;
+  }
+
+  await commitInChunks(writes);
+  return added;
+};
@@ -0,0 +1,116 @@
+import { PaymentError, getCardError, normalizeCardNumber } from './payments';
+import type { PaymentProvider, PaymentWebhookEvent } from './payments';
+
+export const MOCK_PROVIDER_ID = 'mock';
+export const MOCK_TEST_CARD = '4242 4242 4242 4242';
+
+// Test cards that fail the way real cards do
+const DECLINED_CARDS: Record<string, string> = {
+  '4000000000000002': 'Kortti hylättiin',
+  '4000000000009995': 'Kortin saldo ei riitä'
+};
+
+const WEBHOOK_TYPES: PaymentWebhookEvent['type'][] = ['payment.captured', 'payment.refunded', 'payment.failed'];
+
+interface MockPayment {
+  amount: number;
+  captured: boolean;
+  refunded: boolean;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Compares every character so the time taken does not reveal the signature
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && a.split('').reduce((diff, char, i) => diff | (char.charCodeAt(0) ^ b.charCodeAt(i)), 0) === 0;
+
+// In-memory provider for development and tests. Webhooks are signed with
+// HMAC-SHA256 like most real providers do, and `signWebhook` produces the
+// signature for a simulated event.
+export const createMockPaymentProvider = (webhookSecret = 'mock_webhook_secret') => {
+  const payments = new Map<string, MockPayment>();
+
+  // Payments from an earlier page load are no longer in memory; the mock
+  // trusts the caller for those
+  const getPayment = (paymentId: string, amount: number) => {
+    if (!paymentId.startsWith('mock_pay_')) {
+      throw new PaymentError('Maksua ei löytynyt');
+    }
+    const payment = payments.get(paymentId) || { amount, captured: false, refunded: false };
+    payments.set(paymentId, payment);
+    return payment;
+  };
+
+  const sign = async (payload: string) => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(webhookSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+  };
+
+  const provider: PaymentProvider & { signWebhook: (payload: string) => Promise<string> } = {
+    id: MOCK_PROVIDER_ID,
+
+    authorize: async ({ amount, card }) => {
+      if (amount <= 0) {
+        throw new PaymentError('Virheellinen summa');
+      }
+      const cardError = getCardError(card);
+      if (cardError) {
+        throw new PaymentError(cardError);
+      }
+      const number = normalizeCardNumber(card.number);
+      if (DECLINED_CARDS[number]) {
+        throw new PaymentError(DECLINED_CARDS[number]);
+      }
+
+      const paymentId = `mock_pay_${crypto.randomUUID()}`;
+      payments.set(paymentId, { amount, captured: false, refunded: false });
+      return { provider: MOCK_PROVIDER_ID, paymentId, amount, currency: 'EUR', cardLast4: number.slice(-4) };
+    },
+
+    capture: async (paymentId, amount) => {
+      const payment = getPayment(paymentId, amount);
+      if (payment.refunded) {
+        throw new PaymentError('Maksu on jo peruttu');
+      }
+      if (amount > payment.amount) {
+        throw new PaymentError('Summa ylittää katevarauksen');
+      }
+      payment.captured = true;
+    },
+
+    refund: async (paymentId, amount) => {
+      const payment = getPayment(paymentId, amount);
+      if (payment.refunded) {
+        throw new PaymentError('Maksu on jo hyvitetty');
+      }
+      if (amount > payment.amount) {
+        throw new PaymentError('Hyvitys ylittää maksun');
+      }
+      payment.refunded = true;
+      return { refundId: `mock_ref_${crypto.randomUUID()}`, amount };
+    },
+
+    verifyWebhook: async (payload, signature) => {
+      if (!safeEqual(await sign(payload), signature)) {
+        throw new PaymentError('Virheellinen allekirjoitus');
+      }
+      const event = JSON.parse(payload) as PaymentWebhookEvent;
+      if (!WEBHOOK_TYPES.includes(event.type) || !event.paymentId) {
+        throw new PaymentError('Tuntematon tapahtuma');
+      }
+      return event;
+    },
+
+    signWebhook: sign
+  };
+
+  return provider;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Vendor } from '../types/database';
+import {
+  ALL_DAY,
+  DEFAULT_INTERVAL,
+  DEFAULT_OPERATING_HOURS,
+  formatIntervals,
+  getOperatingStatus,
+  isLegacyOperatingHours,
+  normalizeDayHours,
+  normalizeOperatingHours,
+  validateOperatingHours
+} from './operatingHours';
+
+describe('normalizeDayHours', () => {
+  it('keeps interval lists as they are', () => {
+    const intervals = [{ open: '08:00', close: '11:00' }, { open: '12:00', close: '16:00' }];
+    expect(normalizeDayHours(intervals)).toEqual(intervals);
+  });
+
+  it('converts the legacy open and close pair', () => {
+    expect(normalizeDayHours({ open: '09:00', close: '17:00' })).toEqual([{ open: '09:00', close: '17:00' }]);
+  });
+
+  it('treats legacy closed days and missing hours as closed', () => {
+    expect(normalizeDayHours({ open: 'closed', close: 'closed' })).toEqual([]);
+    expect(normalizeDayHours(null)).toEqual([]);
+    expect(normalizeDayHours(undefined)).toEqual([]);
+  });
+});
+
+describe('normalizeOperatingHours', () => {
+  it('opens missing days at the default interval, weekends included', () => {
+    const hours = normalizeOperatingHours({ monday: { open: '07:00', close: '19:00' }, saturday: [] });
+    expect(hours.monday).toEqual([{ open: '07:00', close: '19:00' }]);
+    expect(hours.tuesday).toEqual([DEFAULT_INTERVAL]);
+    expect(hours.saturday).toEqual([]);
+    expect(hours.sunday).toEqual([DEFAULT_INTERVAL]);
+  });
+});
+
+describe('isLegacyOperatingHours', () => {
+  it('spots days stored in the old format', () => {
+    expect(isLegacyOperatingHours({ monday: { open: '09:00', close: '17:00' } })).toBe(true);
+    expect(isLegacyOperatingHours(DEFAULT_OPERATING_HOURS)).toBe(false);
+    expect(isLegacyOperatingHours(undefined)).toBe(false);
+  });
+});
+
+describe('formatIntervals', () => {
+  it('describes closed, round-the-clock and split days', () => {
+    expect(getOperatingStatus([])).toBe('closed');
+    expect(formatIntervals([])).toBe('Suljettu');
+    expect(formatIntervals([ALL_DAY])).toBe('24h');
+    expect(formatIntervals([{ open: '08:00', close: '11:00' }, { open: '12:00', close: '16:00' }])).toBe('08:00 - 11:00, 12:00 - 16:00');
+  });
+});
+
+describe('validateOperatingHours', () => {
+  const withMonday = (monday: Vendor['operatingHours']['monday']) => ({ ...DEFAULT_OPERATING_HOURS, monday });
+
+  it('accepts the defaults and split shifts', () => {
+    expect(validateOperatingHours(DEFAULT_OPERATING_HOURS)).toBeNull();
+    expect(validateOperatingHours(withMonday([{ open: '12:00', close: '16:00' }, { open: '08:00', close: '11:00' }]))).toBeNull();
+  });
+
+  it('rejects an interval that closes before it opens', () => {
+    expect(validateOperatingHours(withMonday([{ open: '17:00', close: '09:00' }]))).toBe('Maanantai: sulkemisajan tulee olla avaamisajan jälkeen');
+  });
+
+  it('rejects overlapping intervals', () => {
+    expect(validateOperatingHours(withMonday([{ open: '08:00', close: '12:00' }, { open: '11:00', close: '16:00' }]))).toBe('Maanantai: aukiolojaksot menevät päällekkäin');
+  });
+});
@@ -0,0 +1,87 @@
+import type { Vendor, Weekday, OpeningInterval } from '../types/database';
+
+export type OperatingStatus = 'open' | 'closed' | '24h';
+
+export const WEEKDAYS: { id: Weekday; label: string }[] = [
+  { id: 'monday', label: 'Maanantai' },
+  { id: 'tuesday', label: 'Tiistai' },
+  { id: 'wednesday', label: 'Keskiviikko' },
+  { id: 'thursday', label: 'Torstai' },
+  { id: 'friday', label: 'Perjantai' },
+  { id: 'saturday', label: 'Lauantai' },
+  { id: 'sunday', label: 'Sunnuntai' }
+];
+
+export const ALL_DAY: OpeningInterval = { open: '00:00', close: '23:59' };
+export const DEFAULT_INTERVAL: OpeningInterval = { open: '09:00', close: '17:00' };
+
+export const DEFAULT_OPERATING_HOURS: Vendor['operatingHours'] = {
+  monday: [DEFAULT_INTERVAL],
+  tuesday: [DEFAULT_INTERVAL],
+  wednesday: [DEFAULT_INTERVAL],
+  thursday: [DEFAULT_INTERVAL],
+  friday: [DEFAULT_INTERVAL],
+  saturday: [],
+  sunday: []
+};
+
+// A day the vendor has never saved hours for is open at the default
+// interval, weekends included, as before the hours were stored per day
+export const UNSET_DAY_HOURS: OpeningInterval[] = [DEFAULT_INTERVAL];
+
+// Accepts both the interval list and the legacy `{ open, close }` pair where
+// 'closed' marked a closed day
+export const normalizeDayHours = (hours: unknown): OpeningInterval[] => {
+  if (Array.isArray(hours)) {
+    return hours as OpeningInterval[];
+  }
+
+  const legacy = hours as Partial<OpeningInterval> | null | undefined;
+  if (!legacy || !legacy.open || !legacy.close || legacy.open === 'closed' || legacy.close === 'closed') {
+    return [];
+  }
+
+  return [{ open: legacy.open, close: legacy.close }];
+};
+
+export const normalizeOperatingHours = (hours: unknown): Vendor['operatingHours'] => {
+  const raw = (hours || {}) as Record<string, unknown>;
+  return WEEKDAYS.reduce((result, day) => ({
+    ...result,
+    [day.id]: day.id in raw ? normalizeDayHours(raw[day.id]) : UNSET_DAY_HOURS
+  }), {} as Vendor['operatingHours']);
+};
+
+export const isLegacyOperatingHours = (hours: unknown) =>
+  !!hours && Object.values(hours as Record<string, unknown>).some(day => !Array.isArray(day));
+
+export const getOperatingStatus = (intervals: OpeningInterval[]): OperatingStatus => {
+  if (intervals.length === 0) return 'closed';
+  if (intervals.length === 1 && intervals[0].open === ALL_DAY.open && intervals[0].close === ALL_DAY.close) {
+    return '24h';
+  }
+  return 'open';
+};
+
+export const formatIntervals = (intervals: OpeningInterval[]) => {
+  const status = getOperatingStatus(intervals);
+  if (status === 'closed') return 'Suljettu';
+  if (status === '24h') return '24h';
+  return intervals.map(interval => `${interval.open} - ${interval.close}`).join(', ');
+};
+
+// Returns an error message for overlapping or inverted intervals
+export const validateOperatingHours = (hours: Vendor['operatingHours']) => {
+  for (const day of WEEKDAYS) {
+    const intervals = [...(hours[day.id] || [])].sort((a, b) => a.open.localeCompare(b.open));
+    for (let i = 0; i < intervals.length; i++) {
+      if (intervals[i].close <= intervals[i].open) {
+        return `${day.label}: sulkemisajan tulee olla avaamisajan jälkeen`;
+      }
+      if (i > 0 && intervals[i].open < intervals[i - 1].close) {
+        return `${day.label}: aukiolojaksot menevät päällekkäin`;
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,62 @@
+import { addDays } from 'date-fns';
+import type { CustomerPackage, PackageCredit, PackageItem, WashPackage } from '../types/database';
+import { roundPrice } from './pricing';
+
+// The security rules check each credit of a purchased package one by one,
+// so a package can hold only this many services
+export const MAX_PACKAGE_ITEMS = 5;
+
+export const getPackageExpiryDate = (washPackage: Pick<WashPackage, 'validityDays'>, purchasedAt: Date) =>
+  washPackage.validityDays > 0 ? addDays(purchasedAt, washPackage.validityDays) : null;
+
+export const isPackageExpired = (customerPackage: Pick<CustomerPackage, 'expiresAt'>, now: Date = new Date()) =>
+  !!customerPackage.expiresAt && customerPackage.expiresAt < now;
+
+// Credits not yet held by an upcoming appointment
+export const getAvailableCredits = (credit: PackageCredit) => Math.max(0, credit.remaining - credit.reserved);
+
+export const getServiceCredit = (customerPackage: CustomerPackage, serviceId: string) =>
+  customerPackage.credits.find(credit => credit.serviceId === serviceId) || null;
+
+// The package that expires first among those with a free credit for the service
+export const findUsablePackage = (
+  packages: CustomerPackage[],
+  serviceId: string,
+  vendorId: string,
+  now: Date = new Date()
+) =>
+  packages
+    .filter(customerPackage => {
+      const credit = getServiceCredit(customerPackage, serviceId);
+      return customerPackage.vendorId === vendorId &&
+        !isPackageExpired(customerPackage, now) &&
+        !!credit && getAvailableCredits(credit) > 0;
+    })
+    .sort((a, b) => (a.expiresAt?.getTime() ?? Infinity) - (b.expiresAt?.getTime() ?? Infinity))[0] || null;
+
+// Returns the credits with the service's credit changed; `reserved` and
+// `remaining` are deltas
+export const adjustCredit = (
+  credits: PackageCredit[],
+  serviceId: string,
+  { reserved = 0, remaining = 0 }: { reserved?: number; remaining?: number }
+): PackageCredit[] =>
+  credits.map(credit => credit.serviceId === serviceId
+    ? {
+        ...credit,
+        reserved: Math.max(0, credit.reserved + reserved),
+        remaining: Math.max(0, credit.remaining + remaining)
+      }
+    : credit
+  );
+
+// E.g. "6 × Ulkopesu, 1 × Sisäpuhdistus"
+export const formatPackageItems = (items: PackageItem[]) =>
+  items.map(item => `${item.quantity} × ${item.serviceName}`).join(', ');
+
+// What one credit of the package is worth to the vendor: the price spread
+// evenly over every credit
+export const getCreditValue = (customerPackage: Pick<CustomerPackage, 'price' | 'credits'>) => {
+  const quantity = customerPackage.credits.reduce((sum, credit) => sum + credit.quantity, 0);
+  return quantity > 0 ? roundPrice(customerPackage.price / quantity) : 0;
+};
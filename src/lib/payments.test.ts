@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { hasPaymentProvider, requiresOnlinePayment, setPaymentProvider } from './payments';
+import { createMockPaymentProvider } from './mockPaymentProvider';
+
+// The provider is module state, so the cases without one run first
+describe('requiresOnlinePayment', () => {
+  it('lets the customer pay on site when no provider is set', () => {
+    expect(hasPaymentProvider()).toBe(false);
+    expect(requiresOnlinePayment(25)).toBe(false);
+  });
+
+  it('prepays what is left to pay once a provider is set', () => {
+    setPaymentProvider(createMockPaymentProvider());
+    expect(requiresOnlinePayment(25)).toBe(true);
+    expect(requiresOnlinePayment(0)).toBe(false);
+  });
+
+  it('never charges a booking on the company\'s invoice', () => {
+    expect(requiresOnlinePayment(25, true)).toBe(false);
+  });
+});
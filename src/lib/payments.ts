@@ -0,0 +1,136 @@
+import type { AppointmentPayment, PaymentStatus } from '../types/database';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  authorized: 'Katevaraus',
+  captured: 'Maksettu',
+  refunded: 'Hyvitetty',
+  failed: 'Maksu epäonnistui'
+};
+
+export class PaymentError extends Error {
+  constructor(message = 'Maksu epäonnistui') {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export interface PaymentCard {
+  number: string;
+  expiry: string; // MM/YY
+  cvc: string;
+}
+
+export interface AuthorizeRequest {
+  amount: number;
+  currency: 'EUR';
+  reference: string;
+  card: PaymentCard;
+}
+
+export interface PaymentAuthorization {
+  provider: string;
+  paymentId: string;
+  amount: number;
+  currency: 'EUR';
+  cardLast4?: string;
+}
+
+export interface PaymentRefund {
+  refundId: string;
+  amount: number;
+}
+
+export interface PaymentWebhookEvent {
+  type: 'payment.captured' | 'payment.refunded' | 'payment.failed';
+  paymentId: string;
+  refundId?: string;
+  reason?: string;
+  amount?: number;
+  reference?: string;
+}
+
+// Every payment provider implements this. Provider calls are never made
+// inside a Firestore transaction, since a transaction may run more than once.
+export interface PaymentProvider {
+  id: string;
+  authorize: (request: AuthorizeRequest) => Promise<PaymentAuthorization>;
+  capture: (paymentId: string, amount: number) => Promise<void>;
+  // Releases an uncaptured authorisation or returns a captured payment
+  refund: (paymentId: string, amount: number) => Promise<PaymentRefund>;
+  // Returns the event when the signature matches, throws PaymentError otherwise
+  verifyWebhook: (payload: string, signature: string) => Promise<PaymentWebhookEvent>;
+}
+
+let activeProvider: PaymentProvider | null = null;
+
+// Called once at startup with the provider the app takes payments through
+export const setPaymentProvider = (provider: PaymentProvider) => {
+  activeProvider = provider;
+};
+
+// Online payment is only offered when a provider has been set
+export const hasPaymentProvider = () => activeProvider !== null;
+
+// What is left to pay is prepaid online. Without a provider, and on a
+// company's invoice, it is paid at the vendor instead.
+export const requiresOnlinePayment = (amount: number, invoiced = false) =>
+  !invoiced && amount > 0 && hasPaymentProvider();
+
+export const getPaymentProvider = () => {
+  if (!activeProvider) {
+    throw new PaymentError('Maksupalvelua ei ole määritetty');
+  }
+  return activeProvider;
+};
+
+// The security rules read the package and the buyer back from the reference
+export const getPackagePaymentReference = (packageId: string, customerId: string) =>
+  `package:${packageId}:${customerId}`;
+
+export const normalizeCardNumber = (value: string) => value.replace(/\D/g, '');
+
+// Luhn checksum
+export const isValidCardNumber = (value: string) => {
+  const digits = normalizeCardNumber(value);
+  if (digits.length < 12 || digits.length > 19) return false;
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => {
+      const n = Number(digit) * (index % 2 === 1 ? 2 : 1);
+      return total + (n > 9 ? n - 9 : n);
+    }, 0);
+  return sum % 10 === 0;
+};
+
+// A card is valid until the end of its expiry month
+export const isValidExpiry = (expiry: string, now: Date = new Date()) => {
+  const match = expiry.trim().match(/^(\d{2})\s*\/\s*(\d{2})$/);
+  if (!match) return false;
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) return false;
+  return new Date(2000 + Number(match[2]), month, 1) > now;
+};
+
+export const isValidCvc = (cvc: string) => /^\d{3,4}$/.test(cvc.trim());
+
+// Returns what is wrong with the card details, or null
+export const getCardError = (card: PaymentCard, now: Date = new Date()) => {
+  if (!isValidCardNumber(card.number)) return 'Tarkista kortin numero';
+  if (!isValidExpiry(card.expiry, now)) return 'Tarkista kortin voimassaoloaika';
+  if (!isValidCvc(card.cvc)) return 'Tarkista kortin turvakoodi';
+  return null;
+};
+
+export const toAppointmentPayment = (authorization: PaymentAuthorization, authorizedAt: Date): AppointmentPayment => ({
+  provider: authorization.provider,
+  paymentId: authorization.paymentId,
+  status: 'authorized',
+  amount: authorization.amount,
+  currency: authorization.currency,
+  ...(authorization.cardLast4 ? { cardLast4: authorization.cardLast4 } : {}),
+  authorizedAt
+});
+
+export const isRefundable = (payment?: Pick<AppointmentPayment, 'status'>) =>
+  payment?.status === 'authorized' || payment?.status === 'captured';
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import type { AppointmentPayment, PayoutEntry, PriceLine, PriceQuote } from '../types/database';
+import { getCommissionRate, getEntryStatusLabel, getPayableEntries, getPayoutAmounts, getPlatformNet, isValidIban, sumPayoutEntries } from './payouts';
+
+const makeQuote = (lines: PriceLine[], coinsUsed = 0): PriceQuote => {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  return {
+    lines,
+    basePrice: lines.filter(line => line.type === 'service').reduce((sum, line) => sum + line.amount, 0),
+    subtotal,
+    totalPrice: subtotal - coinsUsed * 0.5,
+    coinsUsed,
+    coinReward: 0,
+    bonusCoins: 0,
+    promotionIds: []
+  };
+};
+
+const payment = (status: AppointmentPayment['status'], amount: number): AppointmentPayment => ({
+  provider: 'mock',
+  paymentId: 'payment-1',
+  status,
+  amount,
+  currency: 'EUR',
+  authorizedAt: new Date(2025, 2, 1)
+});
+
+const wash: PriceLine = { type: 'service', label: 'Peruspesu', amount: 20 };
+const voucher: PriceLine = { type: 'voucher', label: 'Alennuskoodi KEVAT', amount: -5 };
+
+describe('getPayoutAmounts', () => {
+  it('pays an online booking out less commission', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 20, coinsUsed: 0, priceQuote: makeQuote([wash]), payment: payment('captured', 20) },
+      commissionRate: 15
+    });
+    expect(amounts).toEqual({
+      grossAmount: 20,
+      coinDiscount: 0,
+      voucherDiscount: 0,
+      customerPaid: 20,
+      collectedAmount: 20,
+      commissionRate: 15,
+      commission: 3,
+      payoutAmount: 17
+    });
+  });
+
+  it('counts a payment only once it has been charged', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 20, coinsUsed: 0, priceQuote: makeQuote([wash]), payment: payment('authorized', 20) },
+      commissionRate: 15
+    });
+    expect(amounts.collectedAmount).toBe(0);
+    expect(amounts.payoutAmount).toBe(-3);
+  });
+
+  it('covers coin discounts from the platform', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 18, coinsUsed: 4, priceQuote: makeQuote([wash], 4), payment: payment('captured', 18) },
+      commissionRate: 15
+    });
+    expect(amounts.coinDiscount).toBe(2);
+    expect(amounts.collectedAmount).toBe(18);
+    expect(amounts.payoutAmount).toBe(17);
+  });
+
+  it('leaves the vendor owing the commission for a booking paid on site', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 20, coinsUsed: 0, priceQuote: makeQuote([wash]) },
+      commissionRate: 15
+    });
+    expect(amounts.collectedAmount).toBe(0);
+    expect(amounts.payoutAmount).toBe(-3);
+  });
+
+  it('pays the platform\'s discounts on a booking paid on site', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 13, coinsUsed: 4, priceQuote: makeQuote([wash, voucher], 4) },
+      commissionRate: 15,
+      platformVoucher: true
+    });
+    // 2€ in coins and the 5€ voucher, less 3€ commission
+    expect(amounts.payoutAmount).toBe(4);
+  });
+
+  it('does not pay out a refunded payment', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 20, coinsUsed: 0, priceQuote: makeQuote([wash]), payment: payment('refunded', 20) },
+      commissionRate: 15
+    });
+    expect(amounts.collectedAmount).toBe(0);
+  });
+
+  it('counts business invoices as collected', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 20, coinsUsed: 0, priceQuote: makeQuote([wash]), businessAccountId: 'account-1' },
+      commissionRate: 15
+    });
+    expect(amounts.payoutAmount).toBe(17);
+  });
+
+  it('books a platform-wide voucher to the platform', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 15, coinsUsed: 0, priceQuote: makeQuote([wash, voucher]), payment: payment('captured', 15) },
+      commissionRate: 15,
+      platformVoucher: true
+    });
+    expect(amounts.grossAmount).toBe(20);
+    expect(amounts.voucherDiscount).toBe(5);
+    expect(amounts.commission).toBe(3);
+    expect(amounts.payoutAmount).toBe(17);
+  });
+
+  it('books the vendor\'s own voucher to the vendor', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 15, coinsUsed: 0, priceQuote: makeQuote([wash, voucher]), payment: payment('captured', 15) },
+      commissionRate: 15
+    });
+    expect(amounts.grossAmount).toBe(15);
+    expect(amounts.voucherDiscount).toBe(0);
+    expect(amounts.payoutAmount).toBe(12.75);
+  });
+
+  it('pays the credit\'s share of a package', () => {
+    const amounts = getPayoutAmounts({
+      appointment: {
+        totalPrice: 0,
+        coinsUsed: 0,
+        priceQuote: makeQuote([wash, { type: 'package', label: 'Paketti: 5 pesua', amount: -20 }])
+      },
+      commissionRate: 15,
+      creditValue: 16
+    });
+    expect(amounts.grossAmount).toBe(16);
+    expect(amounts.collectedAmount).toBe(16);
+    expect(amounts.payoutAmount).toBe(13.6);
+  });
+
+  it('reads old bookings without a price quote', () => {
+    const amounts = getPayoutAmounts({
+      appointment: { totalPrice: 20, coinsUsed: 4, payment: payment('captured', 18) },
+      commissionRate: 10
+    });
+    expect(amounts.grossAmount).toBe(20);
+    expect(amounts.coinDiscount).toBe(2);
+    expect(amounts.customerPaid).toBe(18);
+    expect(amounts.payoutAmount).toBe(18);
+  });
+});
+
+describe('payout totals', () => {
+  const makeEntry = (id: string, vendorId: string, payoutAmount: number): PayoutEntry => ({
+    id,
+    appointmentId: id,
+    vendorId,
+    serviceName: 'Peruspesu',
+    completedAt: new Date(2025, 2, 1),
+    grossAmount: 20,
+    coinDiscount: 1,
+    voucherDiscount: 2,
+    customerPaid: 17,
+    collectedAmount: 17,
+    commissionRate: 15,
+    commission: 3,
+    payoutAmount,
+    batchId: null
+  });
+
+  it('sums the entries', () => {
+    const totals = sumPayoutEntries([makeEntry('a', 'v1', 17), makeEntry('b', 'v1', -3)]);
+    expect(totals).toEqual({ entryCount: 2, grossAmount: 40, coinDiscount: 2, voucherDiscount: 4, commission: 6, payoutAmount: 14 });
+    expect(getPlatformNet(totals)).toBe(0);
+  });
+
+  it('holds back vendors that owe more than they are owed', () => {
+    const entries = [makeEntry('a', 'v1', 17), makeEntry('b', 'v1', -3), makeEntry('c', 'v2', -3), makeEntry('d', 'v2', 3)];
+    expect(getPayableEntries(entries).map(entry => entry.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('getCommissionRate', () => {
+  const settings = { defaultRate: 15, categoryRates: { detailing: 10 }, vendorRates: { 'vendor-1': 5 } };
+
+  it('prefers the vendor rate, then the category rate', () => {
+    expect(getCommissionRate(settings, 'vendor-1', 'Detailing')).toBe(5);
+    expect(getCommissionRate(settings, 'vendor-2', 'Detailing')).toBe(10);
+    expect(getCommissionRate(settings, 'vendor-2')).toBe(15);
+  });
+});
+
+describe('getEntryStatusLabel', () => {
+  it('waits for pricing before the entry can be paid out', () => {
+    expect(getEntryStatusLabel({ batchId: null })).toBe('Odottaa laskentaa');
+    expect(getEntryStatusLabel({ batchId: null, pricedAt: new Date(2025, 2, 1) })).toBe('Odottaa tilitystä');
+    expect(getEntryStatusLabel({ batchId: 'batch-1', pricedAt: new Date(2025, 2, 1) })).toBe('Tilityksessä');
+  });
+});
+
+describe('isValidIban', () => {
+  it('checks the mod-97 checksum', () => {
+    expect(isValidIban('FI21 1234 5600 0007 85')).toBe(true);
+    expect(isValidIban('FI21 1234 5600 0007 86')).toBe(false);
+    expect(isValidIban('FI21')).toBe(false);
+  });
+});
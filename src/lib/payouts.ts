@@ -0,0 +1,112 @@
+import type { Appointment, CommissionSettings, PayoutBatchStatus, PayoutBatchVendor, PayoutEntry } from '../types/database';
+import { COIN_VALUE, roundPrice } from './pricing';
+
+export const DEFAULT_COMMISSION_SETTINGS: CommissionSettings = {
+  defaultRate: 15,
+  categoryRates: {},
+  vendorRates: {}
+};
+
+export const PAYOUT_BATCH_STATUS_LABELS: Record<PayoutBatchStatus, string> = {
+  created: 'Odottaa maksua',
+  paid: 'Maksettu'
+};
+
+export const getCategoryKey = (name: string) => name.trim().toLowerCase();
+
+export const getCommissionRate = (settings: CommissionSettings, vendorId: string, categoryName?: string) =>
+  settings.vendorRates[vendorId] ??
+  (categoryName ? settings.categoryRates[getCategoryKey(categoryName)] : undefined) ??
+  settings.defaultRate;
+
+export interface PayoutInput {
+  appointment: Pick<Appointment, 'totalPrice' | 'coinsUsed' | 'priceQuote' | 'payment' | 'businessAccountId'>;
+  commissionRate: number;
+  creditValue?: number; // package credit that paid for the main service
+  platformVoucher?: boolean; // the voucher is valid at every vendor
+}
+
+// The vendor's price is what is left after its own discounts (offers and its
+// own vouchers); commission is taken from that. Coins and platform-wide
+// vouchers are the platform's cost. The platform pays out only what it
+// collected: the charged online payment or the business invoice, and the credit's
+// share of a package bought online. A booking paid on site is settled the
+// other way round, so its payout is negative when the commission exceeds the
+// platform's discounts. Bookings made before price quotes were stored kept
+// the price before coins in totalPrice.
+export const getPayoutAmounts = ({ appointment, commissionRate, creditValue = 0, platformVoucher = false }: PayoutInput) => {
+  const quote = appointment.priceQuote;
+  const subtotal = quote?.subtotal ?? appointment.totalPrice ?? 0;
+  const voucherDiscount = quote && platformVoucher
+    ? roundPrice(-quote.lines.filter(line => line.type === 'voucher').reduce((sum, line) => sum + line.amount, 0))
+    : 0;
+  const coinDiscount = quote
+    ? roundPrice(quote.subtotal - quote.totalPrice)
+    : roundPrice((appointment.coinsUsed || 0) * COIN_VALUE);
+  const customerPaid = roundPrice(subtotal - coinDiscount);
+  const grossAmount = roundPrice(subtotal + voucherDiscount + creditValue);
+  const collectedOnline = appointment.payment?.status === 'captured' || !!appointment.businessAccountId;
+  const collectedAmount = roundPrice((collectedOnline ? customerPaid : 0) + creditValue);
+  const commission = roundPrice(grossAmount * commissionRate / 100);
+  return {
+    grossAmount,
+    coinDiscount,
+    voucherDiscount,
+    customerPaid,
+    collectedAmount,
+    commissionRate,
+    commission,
+    payoutAmount: roundPrice(collectedAmount + coinDiscount + voucherDiscount - commission)
+  };
+};
+
+export const getEntryStatusLabel = (entry: Pick<PayoutEntry, 'batchId' | 'paidAt' | 'pricedAt'>) =>
+  entry.paidAt ? 'Maksettu' : entry.batchId ? 'Tilityksessä' : entry.pricedAt ? 'Odottaa tilitystä' : 'Odottaa laskentaa';
+
+type PayoutTotals = Pick<PayoutBatchVendor, 'entryCount' | 'grossAmount' | 'coinDiscount' | 'voucherDiscount' | 'commission' | 'payoutAmount'>;
+
+export const sumPayoutEntries = (entries: PayoutEntry[]): PayoutTotals => {
+  const totals = entries.reduce((sum, entry) => ({
+    entryCount: sum.entryCount + 1,
+    grossAmount: sum.grossAmount + entry.grossAmount,
+    coinDiscount: sum.coinDiscount + entry.coinDiscount,
+    voucherDiscount: sum.voucherDiscount + entry.voucherDiscount,
+    commission: sum.commission + entry.commission,
+    payoutAmount: sum.payoutAmount + entry.payoutAmount
+  }), { entryCount: 0, grossAmount: 0, coinDiscount: 0, voucherDiscount: 0, commission: 0, payoutAmount: 0 });
+  return {
+    ...totals,
+    grossAmount: roundPrice(totals.grossAmount),
+    coinDiscount: roundPrice(totals.coinDiscount),
+    voucherDiscount: roundPrice(totals.voucherDiscount),
+    commission: roundPrice(totals.commission),
+    payoutAmount: roundPrice(totals.payoutAmount)
+  };
+};
+
+// Entries of the vendors that have something to transfer. What a vendor owes
+// for bookings paid on site is carried over to its later payouts.
+export const getPayableEntries = (entries: PayoutEntry[]) => {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => totals.set(entry.vendorId, (totals.get(entry.vendorId) || 0) + entry.payoutAmount));
+  return entries.filter(entry => roundPrice(totals.get(entry.vendorId) || 0) > 0);
+};
+
+// What the platform keeps once it has paid for its own discounts
+export const getPlatformNet = (totals: Pick<PayoutTotals, 'commission' | 'coinDiscount' | 'voucherDiscount'>) =>
+  roundPrice(totals.commission - totals.coinDiscount - totals.voucherDiscount);
+
+export const normalizeIban = (iban: string) => iban.replace(/\s+/g, '').toUpperCase();
+
+// ISO 13616 mod-97 check
+export const isValidIban = (value: string) => {
+  const iban = normalizeIban(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4))
+    .split('')
+    .map(char => /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char)
+    .join('');
+  return digits.split('').reduce((remainder, digit) => (remainder * 10 + Number(digit)) % 97, 0) === 1;
+};
+
+export const formatIban = (iban: string) => normalizeIban(iban).replace(/(.{4})/g, '$1 ').trim();
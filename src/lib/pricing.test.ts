@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import type { Offer, Promotion } from '../types/database';
+import { getActiveOffer, getPriceQuote, isOfferScheduled, roundPrice } from './pricing';
+
+const now = new Date(2025, 2, 1, 12, 0);
+const service = { id: 'wash', name: 'Peruspesu', price: 20, coinReward: 2, categoryId: 'exterior' };
+const extra = { id: 'wax', name: 'Vahaus', price: 10, coinReward: 1 };
+
+const makeOffer = (overrides: Partial<Offer> = {}): Offer => ({
+  id: 'offer-1',
+  vendorId: 'vendor-1',
+  serviceId: 'wash',
+  title: 'Kevätale',
+  description: '',
+  discountPercentage: 25,
+  startDate: new Date(2025, 1, 1),
+  endDate: new Date(2025, 2, 31),
+  active: true,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides
+});
+
+const makePromotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promotion-1',
+  title: 'Tuplakolikot',
+  description: '',
+  startDate: new Date(2025, 1, 1),
+  endDate: new Date(2025, 2, 31),
+  bonusCoins: 5,
+  createdAt: now,
+  ...overrides
+});
+
+describe('getPriceQuote', () => {
+  it('charges the list price without discounts', () => {
+    const quote = getPriceQuote({ service, now });
+    expect(quote.basePrice).toBe(20);
+    expect(quote.totalPrice).toBe(20);
+    expect(quote.coinReward).toBe(2);
+  });
+
+  it('applies offers, then vouchers, then coins', () => {
+    const quote = getPriceQuote({
+      service,
+      offers: [makeOffer()],
+      voucher: { code: 'KEVAT', discountType: 'percentage', value: 10 },
+      coins: 3,
+      now
+    });
+    // 20 - 25% = 15, - 10% = 13.50, - 3 coins = 12
+    expect(quote.subtotal).toBe(13.5);
+    expect(quote.coinsUsed).toBe(3);
+    expect(quote.totalPrice).toBe(12);
+    expect(quote.offerId).toBe('offer-1');
+    expect(quote.lines.map(line => line.type)).toEqual(['service', 'offer', 'voucher', 'coins']);
+  });
+
+  it('caps an amount voucher and coins to what is left to pay', () => {
+    const voucherQuote = getPriceQuote({ service, voucher: { code: 'LAHJA', discountType: 'amount', value: 50 }, now });
+    expect(voucherQuote.totalPrice).toBe(0);
+
+    const coinQuote = getPriceQuote({ service: { ...service, price: 3 }, coins: 100, now });
+    expect(coinQuote.coinsUsed).toBe(6);
+    expect(coinQuote.totalPrice).toBe(0);
+  });
+
+  it('credits coin vouchers to the wallet instead of lowering the price', () => {
+    const quote = getPriceQuote({ service, voucher: { code: 'KOLIKOT', discountType: 'coins', value: 10 }, now });
+    expect(quote.totalPrice).toBe(20);
+    expect(quote.voucherCoins).toBe(10);
+  });
+
+  it('discounts each booked service with its own offer but never the add-ons', () => {
+    const quote = getPriceQuote({
+      service,
+      additionalServices: [extra],
+      addOns: [{ name: 'Vanteiden pesu', price: 5 }],
+      offers: [makeOffer({ discountPercentage: 50 }), makeOffer({ id: 'offer-2', serviceId: 'wax', discountPercentage: 10 })],
+      now
+    });
+    // 10 + 9 + 5
+    expect(quote.basePrice).toBe(35);
+    expect(quote.totalPrice).toBe(24);
+  });
+
+  it('covers the main service with a package credit and skips its offer', () => {
+    const quote = getPriceQuote({
+      service,
+      additionalServices: [extra],
+      offers: [makeOffer()],
+      prepaid: { id: 'package-1', name: '5 pesua' },
+      now
+    });
+    expect(quote.totalPrice).toBe(10);
+    expect(quote.packageId).toBe('package-1');
+    expect(quote.offerId).toBeUndefined();
+  });
+
+  it('qualifies promotions on the price after discounts', () => {
+    const promotions = [makePromotion({ minimumPurchase: 15 })];
+    expect(getPriceQuote({ service, promotions, now }).bonusCoins).toBe(5);
+    expect(getPriceQuote({ service, promotions, offers: [makeOffer({ discountPercentage: 50 })], now }).bonusCoins).toBe(0);
+  });
+
+  it('leaves out promotions whose budget is spent', () => {
+    const promotions = [makePromotion({ budgetCoins: 100, issuedCoins: 98 })];
+    expect(getPriceQuote({ service, promotions, now }).promotionIds).toEqual([]);
+  });
+});
+
+describe('scheduled offers', () => {
+  const happyHour = makeOffer({ schedule: { weekdays: ['monday'], startTime: '08:00', endTime: '11:00' } });
+
+  it('apply only to slots within the weekday and time window', () => {
+    expect(isOfferScheduled(happyHour, new Date(2025, 2, 3, 8, 0))).toBe(true);
+    expect(isOfferScheduled(happyHour, new Date(2025, 2, 3, 11, 0))).toBe(false);
+    expect(isOfferScheduled(happyHour, new Date(2025, 2, 4, 9, 0))).toBe(false);
+    expect(isOfferScheduled(happyHour)).toBe(false);
+    expect(isOfferScheduled(makeOffer())).toBe(true);
+  });
+
+  it('are priced for the booked slot', () => {
+    expect(getPriceQuote({ service, offers: [happyHour], slot: new Date(2025, 2, 3, 9, 0), now }).totalPrice).toBe(15);
+    expect(getPriceQuote({ service, offers: [happyHour], slot: new Date(2025, 2, 3, 12, 0), now }).totalPrice).toBe(20);
+  });
+});
+
+describe('getActiveOffer', () => {
+  it('picks the biggest discount', () => {
+    const offers = [makeOffer(), makeOffer({ id: 'offer-2', discountPercentage: 40 })];
+    expect(getActiveOffer(offers, 'wash', now)?.id).toBe('offer-2');
+  });
+
+  it('checks the offer dates against the slot when there is one', () => {
+    const upcoming = makeOffer({ startDate: new Date(2025, 3, 1), endDate: new Date(2025, 3, 30) });
+    expect(getActiveOffer([upcoming], 'wash', now)).toBeNull();
+    expect(getActiveOffer([upcoming], 'wash', now, new Date(2025, 3, 10, 10, 0))?.id).toBe('offer-1');
+
+    const ending = makeOffer({ endDate: new Date(2025, 2, 2) });
+    expect(getActiveOffer([ending], 'wash', now)?.id).toBe('offer-1');
+    expect(getActiveOffer([ending], 'wash', now, new Date(2025, 2, 5, 10, 0))).toBeNull();
+  });
+
+  it('ignores inactive offers and other services', () => {
+    expect(getActiveOffer([makeOffer({ active: false })], 'wash', now)).toBeNull();
+    expect(getActiveOffer([makeOffer()], 'wax', now)).toBeNull();
+  });
+});
+
+describe('roundPrice', () => {
+  it('rounds to cents', () => {
+    expect(roundPrice(0.1 + 0.2)).toBe(0.3);
+    expect(roundPrice(13.499)).toBe(13.5);
+  });
+});
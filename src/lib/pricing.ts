@@ -0,0 +1,191 @@
+import type { CustomerPackage, Offer, ServiceAddOn, OfferSchedule, Promotion, PromotionTarget, Service, Vendor, PriceLine, PriceQuote, VoucherDiscount } from '../types/database';
+import { getWeekday, timeToMinutes } from './availability';
+import { WEEKDAYS } from './operatingHours';
+
+export const COIN_VALUE = 0.5; // euros per coin
+
+export type PricedService = Pick<Service, 'id' | 'name' | 'price' | 'coinReward'> & Partial<Pick<Service, 'categoryId'>>;
+
+export interface PricingInput {
+  service: PricedService;
+  additionalServices?: PricedService[]; // booked together with the main service
+  addOns?: Pick<ServiceAddOn, 'name' | 'price'>[]; // extras for the main service, never discounted by offers
+  vendor?: Pick<Vendor, 'id' | 'city'>;
+  offers?: Offer[];
+  promotions?: Promotion[];
+  voucher?: VoucherDiscount | null;
+  prepaid?: Pick<CustomerPackage, 'id' | 'name'> | null; // package credit covering the service
+  slot?: Date; // appointment start; scheduled offers apply only to matching slots
+  coins?: number; // coins the customer wants to spend, capped to the price
+  now?: Date;
+}
+
+// Promotion dates come back from Firestore as Timestamps
+const toDate = (value: Date | { toDate: () => Date }) =>
+  value instanceof Date ? value : value.toDate();
+
+export const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+// A moved booking is quoted again for its new slot. Thrown when the price
+// differs from the one the customer accepted.
+export class PriceChangedError extends Error {
+  totalPrice: number;
+
+  constructor(totalPrice: number) {
+    super(`Uuden ajan hinta on ${totalPrice.toFixed(2)}€`);
+    this.name = 'PriceChangedError';
+    this.totalPrice = totalPrice;
+  }
+}
+
+export const applyDiscountPercentage = (price: number, percentage: number) =>
+  roundPrice(price * (1 - percentage / 100));
+
+export const getMaxCoins = (amount: number) => Math.floor(roundPrice(amount) / COIN_VALUE);
+
+// True when the slot falls within the offer's weekday and time window.
+// Offers without a schedule apply to every slot.
+export const isOfferScheduled = (offer: Pick<Offer, 'schedule'>, slot?: Date) => {
+  if (!offer.schedule) return true;
+  if (!slot) return false;
+
+  const minutes = slot.getHours() * 60 + slot.getMinutes();
+  return offer.schedule.weekdays.includes(getWeekday(slot)) &&
+    minutes >= timeToMinutes(offer.schedule.startTime) &&
+    minutes < timeToMinutes(offer.schedule.endTime);
+};
+
+// E.g. "ma, ti, ke klo 08:00–11:00"
+export const formatOfferSchedule = (schedule: OfferSchedule) => {
+  const days = WEEKDAYS
+    .filter(day => schedule.weekdays.includes(day.id))
+    .map(day => day.label.slice(0, 2).toLowerCase())
+    .join(', ');
+  return `${days} klo ${schedule.startTime}–${schedule.endTime}`;
+};
+
+// The best offer for the service. When a slot is given the offer has to run
+// on the slot's date and its schedule has to match; otherwise it has to run now.
+export const getActiveOffer = (offers: Offer[], serviceId: string, now: Date = new Date(), slot?: Date) =>
+  offers
+    .filter(offer =>
+      offer.active &&
+      offer.serviceId === serviceId &&
+      toDate(offer.startDate) <= (slot || now) &&
+      toDate(offer.endDate) >= (slot || now) &&
+      isOfferScheduled(offer, slot)
+    )
+    .sort((a, b) => b.discountPercentage - a.discountPercentage)[0] || null;
+
+const matchesTarget = (values: string[] | undefined, value: string | undefined) =>
+  !values || values.length === 0 || (!!value && values.includes(value));
+
+// False once the next bonus would go over the budget
+export const hasPromotionBudget = (promotion: Pick<Promotion, 'bonusCoins' | 'budgetCoins' | 'issuedCoins'>) =>
+  !promotion.budgetCoins || (promotion.issuedCoins || 0) + promotion.bonusCoins <= promotion.budgetCoins;
+
+export const isPromotionRunning = (promotion: Promotion, now: Date = new Date()) =>
+  !promotion.stoppedAt &&
+  toDate(promotion.startDate) <= now &&
+  toDate(promotion.endDate) >= now &&
+  hasPromotionBudget(promotion);
+
+export const getQualifyingPromotions = (
+  promotions: Promotion[],
+  target: PromotionTarget,
+  amount: number,
+  now: Date = new Date()
+) =>
+  promotions.filter(promotion =>
+    isPromotionRunning(promotion, now) &&
+    matchesTarget(promotion.services, target.serviceId) &&
+    matchesTarget(promotion.cities, target.city) &&
+    matchesTarget(promotion.vendorIds, target.vendorId) &&
+    matchesTarget(promotion.categoryIds, target.categoryId) &&
+    (!promotion.minimumPurchase || amount >= promotion.minimumPurchase)
+  );
+
+// Coin vouchers credit the wallet and leave the price as is
+const getVoucherDiscount = (voucher: VoucherDiscount, amount: number) => {
+  if (voucher.discountType === 'coins') return 0;
+  return roundPrice(Math.min(
+    amount,
+    voucher.discountType === 'percentage' ? amount * voucher.value / 100 : voucher.value
+  ));
+};
+
+// Discounts apply in order: offer, voucher, coins. Coins pay for what is left
+// after the other discounts, and promotions qualify on that same amount.
+// Each service gets its own offer. A prepaid package credit covers the main
+// service instead of an offer.
+export const getPriceQuote = ({
+  service,
+  additionalServices = [],
+  addOns = [],
+  vendor,
+  offers = [],
+  promotions = [],
+  voucher = null,
+  prepaid = null,
+  slot,
+  coins = 0,
+  now = new Date()
+}: PricingInput): PriceQuote => {
+  const basket = [service, ...additionalServices];
+  const lines: PriceLine[] = [
+    ...basket.map((item): PriceLine => ({ type: 'service', label: item.name, amount: roundPrice(item.price) })),
+    ...addOns.map((addOn): PriceLine => ({ type: 'addon', label: `+ ${addOn.name}`, amount: roundPrice(addOn.price) }))
+  ];
+  const basePrice = roundPrice(lines.reduce((sum, line) => sum + line.amount, 0));
+  let subtotal = basePrice;
+
+  if (prepaid) {
+    lines.push({ type: 'package', label: `Paketti: ${prepaid.name}`, amount: -roundPrice(service.price) });
+    subtotal = roundPrice(subtotal - service.price);
+  }
+
+  const appliedOffers = basket.flatMap((item, i) => {
+    const offer = prepaid && i === 0 ? null : getActiveOffer(offers, item.id, now, slot);
+    return offer ? [{ offer, discount: roundPrice(item.price - applyDiscountPercentage(item.price, offer.discountPercentage)) }] : [];
+  });
+  appliedOffers.forEach(({ offer, discount }) => {
+    lines.push({ type: 'offer', label: `${offer.title} (-${offer.discountPercentage}%)`, amount: -discount });
+    subtotal = roundPrice(subtotal - discount);
+  });
+  const offer = appliedOffers[0]?.offer || null;
+
+  if (voucher) {
+    const discount = getVoucherDiscount(voucher, subtotal);
+    if (discount > 0) {
+      lines.push({ type: 'voucher', label: `Alennuskoodi ${voucher.code}`, amount: -discount });
+      subtotal = roundPrice(subtotal - discount);
+    }
+  }
+
+  const coinsUsed = Math.max(0, Math.min(Math.floor(coins), getMaxCoins(subtotal)));
+  if (coinsUsed > 0) {
+    lines.push({ type: 'coins', label: `${coinsUsed} kolikkoa`, amount: -roundPrice(coinsUsed * COIN_VALUE) });
+  }
+
+  const qualifying = getQualifyingPromotions(
+    promotions,
+    { serviceId: service.id, categoryId: service.categoryId, vendorId: vendor?.id, city: vendor?.city },
+    subtotal,
+    now
+  );
+
+  return {
+    lines,
+    basePrice,
+    subtotal,
+    totalPrice: Math.max(0, roundPrice(subtotal - coinsUsed * COIN_VALUE)),
+    coinsUsed,
+    coinReward: basket.reduce((sum, item) => sum + (item.coinReward || 0), 0),
+    bonusCoins: qualifying.reduce((sum, promotion) => sum + promotion.bonusCoins, 0),
+    promotionIds: qualifying.map(promotion => promotion.id),
+    ...(offer ? { offerId: offer.id } : {}),
+    ...(voucher ? { voucherCode: voucher.code } : {}),
+    ...(voucher?.discountType === 'coins' ? { voucherCoins: voucher.value } : {}),
+    ...(prepaid ? { packageId: prepaid.id } : {})
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { AppointmentPayment } from '../types/database';
+import { formatReceiptNumber, getPaymentMethodLabel, getReceiptLines, getVatBreakdown } from './receipts';
+
+const payment = (status: AppointmentPayment['status']): AppointmentPayment => ({
+  provider: 'mock',
+  paymentId: 'payment-1',
+  status,
+  amount: 20,
+  currency: 'EUR',
+  cardLast4: '4242',
+  authorizedAt: new Date(2025, 2, 1)
+});
+
+describe('getVatBreakdown', () => {
+  it('splits a VAT-inclusive total at 25.5%', () => {
+    expect(getVatBreakdown(25.1)).toEqual({ netAmount: 20, vatAmount: 5.1 });
+    expect(getVatBreakdown(10)).toEqual({ netAmount: 7.97, vatAmount: 2.03 });
+  });
+
+  it('always adds up to the total', () => {
+    [0.01, 0.99, 12.34, 59.9, 149.5].forEach(total => {
+      const { netAmount, vatAmount } = getVatBreakdown(total);
+      expect(Math.round((netAmount + vatAmount) * 100)).toBe(Math.round(total * 100));
+    });
+  });
+
+  it('has no VAT on a free wash', () => {
+    expect(getVatBreakdown(0)).toEqual({ netAmount: 0, vatAmount: 0 });
+  });
+});
+
+describe('getReceiptLines', () => {
+  it('rebuilds the lines of old bookings without a price quote', () => {
+    expect(getReceiptLines({ totalPrice: 20, coinsUsed: 4 })).toEqual([
+      { type: 'service', label: 'Autopesu', amount: 20 },
+      { type: 'coins', label: '4 kolikkoa', amount: -2 }
+    ]);
+  });
+});
+
+describe('getPaymentMethodLabel', () => {
+  it('names how the booking was paid', () => {
+    expect(getPaymentMethodLabel({ businessAccountId: 'account-1' }, 20)).toBe('Yrityksen kuukausilasku');
+    expect(getPaymentMethodLabel({ payment: payment('captured') }, 20)).toBe('Korttimaksu •••• 4242');
+    expect(getPaymentMethodLabel({ payment: payment('authorized') }, 20)).toBe('Korttimaksu •••• 4242');
+    expect(getPaymentMethodLabel({ packageId: 'package-1' }, 0)).toBe('Pesupaketti');
+    expect(getPaymentMethodLabel({}, 20)).toBe('Maksettu pesupaikalla');
+  });
+});
+
+describe('formatReceiptNumber', () => {
+  it('pads the number to six digits', () => {
+    expect(formatReceiptNumber(42)).toBe('000042');
+  });
+});
@@ -0,0 +1,167 @@
+import { format } from 'date-fns';
+import type { Appointment, BusinessAccount, PriceLine, Receipt, Vendor } from '../types/database';
+import { formatAppointmentServices } from './appointmentServices';
+import { COIN_VALUE, roundPrice } from './pricing';
+
+export const VAT_RATE = 25.5; // general Finnish VAT rate, percent
+
+// Prices are shown to customers VAT included
+export const getVatBreakdown = (total: number, vatRate: number = VAT_RATE) => {
+  const netAmount = roundPrice(total / (1 + vatRate / 100));
+  return { netAmount, vatAmount: roundPrice(total - netAmount) };
+};
+
+// Bookings made before price quotes were stored kept the price before coins
+// in totalPrice
+export const getReceiptLines = (appointment: Pick<Appointment, 'services' | 'totalPrice' | 'coinsUsed' | 'priceQuote'>): PriceLine[] => {
+  if (appointment.priceQuote) return appointment.priceQuote.lines;
+
+  const lines: PriceLine[] = [{
+    type: 'service',
+    label: formatAppointmentServices(appointment, 'Autopesu'),
+    amount: roundPrice(appointment.totalPrice || 0)
+  }];
+  if (appointment.coinsUsed > 0) {
+    lines.push({ type: 'coins', label: `${appointment.coinsUsed} kolikkoa`, amount: -roundPrice(appointment.coinsUsed * COIN_VALUE) });
+  }
+  return lines;
+};
+
+export const getPaymentMethodLabel = (appointment: Pick<Appointment, 'payment' | 'businessAccountId' | 'packageId'>, total: number) => {
+  if (appointment.businessAccountId) return 'Yrityksen kuukausilasku';
+  // The prepayment is captured right after completion, so a receipt opened
+  // straight away may still see it authorised
+  if (appointment.payment?.status === 'captured' || appointment.payment?.status === 'authorized') {
+    return appointment.payment.cardLast4 ? `Korttimaksu •••• ${appointment.payment.cardLast4}` : 'Verkkomaksu';
+  }
+  if (total === 0 && appointment.packageId) return 'Pesupaketti';
+  return 'Maksettu pesupaikalla';
+};
+
+export const buildReceipt = (
+  appointment: Appointment,
+  vendor: Vendor,
+  number: number,
+  businessAccount: BusinessAccount | null,
+  issuedAt: Date
+): Receipt => {
+  const lines = getReceiptLines(appointment);
+  const total = roundPrice(lines.reduce((sum, line) => sum + line.amount, 0));
+  const customerName = [appointment.customerDetails?.firstName, appointment.customerDetails?.lastName].filter(Boolean).join(' ');
+
+  return {
+    id: appointment.id,
+    appointmentId: appointment.id,
+    vendorId: vendor.id,
+    customerId: appointment.customerId,
+    number,
+    vendorName: vendor.businessName,
+    vendorBusinessId: vendor.businessId,
+    vendorAddress: [vendor.address, [vendor.postalCode, vendor.city].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+    buyerName: businessAccount?.name || customerName,
+    ...(businessAccount ? { businessAccountId: businessAccount.id, buyerBusinessId: businessAccount.businessId } : {}),
+    licensePlate: appointment.customerDetails?.licensePlate || '',
+    serviceDate: appointment.date,
+    lines,
+    total,
+    vatRate: VAT_RATE,
+    ...getVatBreakdown(total),
+    paymentMethod: getPaymentMethodLabel(appointment, total),
+    issuedAt
+  };
+};
+
+export const formatReceiptNumber = (number: number) => number.toString().padStart(6, '0');
+
+const formatEuro = (amount: number) => `${amount.toFixed(2).replace('.', ',')} €`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string);
+
+// Standalone page; the browser's print dialog also saves it as PDF
+export const renderReceiptHtml = (receipt: Receipt) => {
+  const vatRate = receipt.vatRate.toString().replace('.', ',');
+  const rows = receipt.lines.map(line => `
+        <tr${line.amount < 0 ? ' class="discount"' : ''}>
+          <td>${escapeHtml(line.label)}</td>
+          <td class="amount">${formatEuro(line.amount)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="fi">
+<head>
+  <meta charset="utf-8">
+  <title>Kuitti ${formatReceiptNumber(receipt.number)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; max-width: 480px; margin: 32px auto; padding: 0 16px; }
+    h1 { font-size: 20px; margin: 0; }
+    p { margin: 2px 0; }
+    .muted { color: #6b7280; font-size: 14px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    td, th { padding: 4px 0; font-size: 14px; text-align: left; }
+    th { color: #6b7280; font-weight: 500; }
+    .amount { text-align: right; white-space: nowrap; }
+    .discount td { color: #b45309; }
+    .total td { border-top: 1px solid #d1d5db; font-weight: 600; padding-top: 8px; }
+    .section { margin-top: 24px; }
+    button { margin-top: 32px; padding: 8px 16px; border: 0; border-radius: 8px; background: #2563eb; color: #fff; font-size: 14px; cursor: pointer; }
+    @media print { button { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(receipt.vendorName)}</h1>
+  <p class="muted">Y-tunnus ${escapeHtml(receipt.vendorBusinessId)}</p>
+  <p class="muted">${escapeHtml(receipt.vendorAddress)}</p>
+
+  <div class="section">
+    <p><strong>Kuitti nro ${formatReceiptNumber(receipt.number)}</strong></p>
+    <p class="muted">Päiväys ${format(receipt.issuedAt, 'd.M.yyyy')}</p>
+    <p class="muted">Pesu ${format(receipt.serviceDate, "d.M.yyyy 'klo' HH:mm")}${receipt.licensePlate ? `, ${escapeHtml(receipt.licensePlate)}` : ''}</p>
+    <p class="muted">Ostaja ${escapeHtml(receipt.buyerName)}${receipt.buyerBusinessId ? ` (Y-tunnus ${escapeHtml(receipt.buyerBusinessId)})` : ''}</p>
+  </div>
+
+  <table>
+    <tbody>${rows}
+      <tr class="total">
+        <td>Yhteensä</td>
+        <td class="amount">${formatEuro(receipt.total)}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <table>
+    <thead>
+      <tr>
+        <th>ALV %</th>
+        <th class="amount">Veroton</th>
+        <th class="amount">Vero</th>
+        <th class="amount">Verollinen</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td>${vatRate}</td>
+        <td class="amount">${formatEuro(receipt.netAmount)}</td>
+        <td class="amount">${formatEuro(receipt.vatAmount)}</td>
+        <td class="amount">${formatEuro(receipt.total)}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <div class="section">
+    <p class="muted">Maksutapa: ${escapeHtml(receipt.paymentMethod)}</p>
+  </div>
+
+  <button onclick="window.print()">Tulosta tai tallenna PDF</button>
+</body>
+</html>`;
+};
+
+// The window is opened before the receipt is loaded so that popup blockers
+// treat it as part of the click
+export const writeReceiptWindow = (target: Window, receipt: Receipt) => {
+  target.document.open();
+  target.document.write(renderReceiptHtml(receipt));
+  target.document.close();
+  target.focus();
+};
@@ -0,0 +1,16 @@
+// Referral links carry the code as ?ref=CODE. The code is kept for the
+// session, so browsing around before signing up still credits the referrer.
+const REFERRAL_STORAGE_KEY = 'referralCode';
+
+export const getReferralLink = (code: string, path = '/register') =>
+  `${window.location.origin}${path}?ref=${encodeURIComponent(code)}`;
+
+export const storeReferralCode = (code: string | null) => {
+  if (code?.trim()) {
+    sessionStorage.setItem(REFERRAL_STORAGE_KEY, code.trim());
+  }
+};
+
+export const getStoredReferralCode = () => sessionStorage.getItem(REFERRAL_STORAGE_KEY) || '';
+
+export const clearStoredReferralCode = () => sessionStorage.removeItem(REFERRAL_STORAGE_KEY);
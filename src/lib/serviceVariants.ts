@@ -0,0 +1,33 @@
+import type { Service, ServiceAddOn, VehicleClass } from '../types/database';
+
+export const VEHICLE_CLASSES: { id: VehicleClass; label: string }[] = [
+  { id: 'small', label: 'Henkilöauto' },
+  { id: 'suv', label: 'Maasturi / SUV' },
+  { id: 'van', label: 'Pakettiauto' },
+  { id: 'camper', label: 'Matkailuauto' }
+];
+
+export const DEFAULT_VEHICLE_CLASS: VehicleClass = 'small';
+
+export const getVehicleClassLabel = (vehicleClass: VehicleClass) =>
+  VEHICLE_CLASSES.find(option => option.id === vehicleClass)?.label || vehicleClass;
+
+export const hasVariants = (service: Pick<Service, 'variants'>) => !!service.variants?.length;
+
+// The service priced and timed for the vehicle class
+export const applyVehicleClass = <T extends Pick<Service, 'price' | 'duration' | 'variants'>>(
+  service: T,
+  vehicleClass: VehicleClass = DEFAULT_VEHICLE_CLASS
+): T => {
+  const variant = service.variants?.find(option => option.vehicleClass === vehicleClass);
+  return variant ? { ...service, price: variant.price, duration: variant.duration } : service;
+};
+
+// Add-ons in the service's own order; unknown ids return null
+export const getSelectedAddOns = (service: Pick<Service, 'addOns'>, addOnIds: string[]): ServiceAddOn[] | null => {
+  const addOns = (service.addOns || []).filter(addOn => addOnIds.includes(addOn.id));
+  return addOns.length === new Set(addOnIds).size ? addOns : null;
+};
+
+export const getAddOnsDuration = (addOns: Pick<ServiceAddOn, 'duration'>[]) =>
+  addOns.reduce((sum, addOn) => sum + (addOn.duration || 0), 0);
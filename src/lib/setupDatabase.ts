@@ -53,13 +53,13 @@ export const setupSampleData = async () => {
     rating: 4.5,
     services: ['service1', 'service2'],
     operatingHours: {
-      monday: { open: '09:00', close: '18:00' },
-      tuesday: { open: '09:00', close: '18:00' },
-      wednesday: { open: '09:00', close: '18:00' },
-      thursday: { open: '09:00', close: '18:00' },
-      friday: { open: '09:00', close: '18:00' },
-      saturday: { open: '10:00', close: '16:00' },
-      sunday: { open: 'closed', close: 'closed' }
+      monday: [{ open: '09:00', close: '18:00' }],
+      tuesday: [{ open: '09:00', close: '18:00' }],
+      wednesday: [{ open: '09:00', close: '18:00' }],
+      thursday: [{ open: '09:00', close: '18:00' }],
+      friday: [{ open: '09:00', close: '18:00' }],
+      saturday: [{ open: '10:00', close: '16:00' }],
+      sunday: []
     }
   });
 
@@ -1,6 +1,7 @@
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from './firebase';
 import { createVendor } from './db';
+import { DEFAULT_OPERATING_HOURS } from './operatingHours';
 import type { User } from '../types/database';
 
 export const recreateVendorCollection = async () => {
@@ -26,15 +27,7 @@ export const recreateVendorCollection = async () => {
         services: [],
         rating: 0,
         ratingCount: 0,
-        operatingHours: {
-          monday: { open: '09:00', close: '17:00' },
-          tuesday: { open: '09:00', close: '17:00' },
-          wednesday: { open: '09:00', close: '17:00' },
-          thursday: { open: '09:00', close: '17:00' },
-          friday: { open: '09:00', close: '17:00' },
-          saturday: { open: 'closed', close: 'closed' },
-          sunday: { open: 'closed', close: 'closed' }
-        }
+        operatingHours: DEFAULT_OPERATING_HOURS
       });
     });
 
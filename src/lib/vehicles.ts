@@ -0,0 +1,36 @@
+import type { Appointment, Vehicle } from '../types/database';
+
+// Finnish plates are 1–3 letters and 1–3 digits (ABC-123, personalised ones
+// like A-1), diplomatic plates CD-1234 or C-12345
+const PLATE_PATTERN = /^[A-ZÅÄÖ]{1,3}-\d{1,3}$/;
+const DIPLOMATIC_PATTERN = /^(CD-\d{1,4}|C-\d{1,5})$/;
+
+// Uppercases, drops spaces and adds the dash when it was left out
+export const normalizePlate = (plate: string) => {
+  const compact = plate.toUpperCase().replace(/\s+/g, '');
+  const match = compact.match(/^([A-ZÅÄÖ]+)-?(\d+)$/);
+  return match ? `${match[1]}-${match[2]}` : compact;
+};
+
+export const isValidFinnishPlate = (plate: string) => {
+  const normalized = normalizePlate(plate);
+  return PLATE_PATTERN.test(normalized) || DIPLOMATIC_PATTERN.test(normalized);
+};
+
+export const PLATE_ERROR = 'Tarkista rekisterinumero (esim. ABC-123)';
+
+// E.g. "Perheauto (ABC-123)" or "Toyota Corolla (ABC-123)"
+export const formatVehicleName = (vehicle: Pick<Vehicle, 'plate' | 'make' | 'model' | 'nickname'>) => {
+  const name = vehicle.nickname || [vehicle.make, vehicle.model].filter(Boolean).join(' ');
+  return name ? `${name} (${vehicle.plate})` : vehicle.plate;
+};
+
+// Bookings made before the garage only carry the typed plate
+export const isVehicleAppointment = (
+  appointment: Pick<Appointment, 'vehicleId' | 'customerDetails'>,
+  vehicle: Pick<Vehicle, 'id' | 'plate'>
+) =>
+  appointment.vehicleId
+    ? appointment.vehicleId === vehicle.id
+    : !!appointment.customerDetails?.licensePlate &&
+      normalizePlate(appointment.customerDetails.licensePlate) === vehicle.plate;
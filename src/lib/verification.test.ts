@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getMissingDocuments, isValidBusinessId } from './verification';
+
+describe('isValidBusinessId', () => {
+  it('accepts registered business ids', () => {
+    expect(isValidBusinessId('0737546-2')).toBe(true);
+    expect(isValidBusinessId('2331972-7')).toBe(true);
+    expect(isValidBusinessId('1572860-0')).toBe(true);
+    expect(isValidBusinessId('1234567-1')).toBe(true);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(isValidBusinessId(' 0737546-2 ')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidBusinessId('0737546-3')).toBe(false);
+  });
+
+  it('rejects ids of the wrong shape', () => {
+    expect(isValidBusinessId('123456-7')).toBe(false);
+    expect(isValidBusinessId('07375462')).toBe(false);
+    expect(isValidBusinessId('')).toBe(false);
+  });
+
+  it('rejects ids whose remainder is 1, since none are issued', () => {
+    // 3 * 4 = 12, which leaves 1
+    expect(isValidBusinessId('0000030-0')).toBe(false);
+    expect(isValidBusinessId('0000030-1')).toBe(false);
+  });
+});
+
+describe('getMissingDocuments', () => {
+  it('lists the required documents not yet uploaded', () => {
+    expect(getMissingDocuments([])).toEqual(['Kaupparekisteriote', 'Ote ennakkoperintärekisteristä']);
+    expect(getMissingDocuments([{ type: 'trade_register' }, { type: 'insurance' }])).toEqual(['Ote ennakkoperintärekisteristä']);
+  });
+});
@@ -0,0 +1,47 @@
+import type { VerificationAction, VerificationDocument, VerificationDocumentType, VerificationStatus } from '../types/database';
+
+export const VERIFICATION_DOCUMENTS: { type: VerificationDocumentType; label: string; required: boolean }[] = [
+  { type: 'trade_register', label: 'Kaupparekisteriote', required: true },
+  { type: 'prepayment_register', label: 'Ote ennakkoperintärekisteristä', required: true },
+  { type: 'insurance', label: 'Vastuuvakuutustodistus', required: false }
+];
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending: 'Odottaa tarkistusta',
+  approved: 'Vahvistettu',
+  rejected: 'Hylätty'
+};
+
+export const VERIFICATION_ACTION_LABELS: Record<VerificationAction, string> = {
+  submitted: 'Asiakirjat lähetetty',
+  approved: 'Vahvistettu',
+  rejected: 'Hylätty'
+};
+
+export const getDocumentLabel = (type: VerificationDocumentType) =>
+  VERIFICATION_DOCUMENTS.find(document => document.type === type)?.label || type;
+
+// Labels of the required documents not yet uploaded
+export const getMissingDocuments = (documents: Pick<VerificationDocument, 'type'>[]) =>
+  VERIFICATION_DOCUMENTS
+    .filter(document => document.required && !documents.some(uploaded => uploaded.type === document.type))
+    .map(document => document.label);
+
+// Y-tunnus: seven digits and a check digit. The digits are weighted
+// 7, 9, 10, 5, 8, 4, 2; a remainder of 1 is never issued.
+const BUSINESS_ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2];
+
+export const isValidBusinessId = (value: string) => {
+  const match = /^(\d{7})-(\d)$/.exec(value.trim());
+  if (!match) return false;
+
+  const remainder = match[1]
+    .split('')
+    .reduce((sum, digit, i) => sum + Number(digit) * BUSINESS_ID_WEIGHTS[i], 0) % 11;
+  if (remainder === 1) return false;
+  return Number(match[2]) === (remainder === 0 ? 0 : 11 - remainder);
+};
+
+// Vendor documents are read raw, so nested dates are still Timestamps
+export const toVerificationDate = (value: Date | { toDate: () => Date }) =>
+  value instanceof Date ? value : value.toDate();
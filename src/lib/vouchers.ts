@@ -0,0 +1,63 @@
+import type { Voucher, VoucherDiscount } from '../types/database';
+
+export const MAX_BATCH_SIZE = 1000;
+
+// No 0/O or 1/I, so printed codes are easy to type
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export class VoucherError extends Error {
+  constructor(message = 'Koodi ei ole voimassa') {
+    super(message);
+    this.name = 'VoucherError';
+  }
+}
+
+export const normalizeVoucherCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+export const generateVoucherCode = (prefix = '') => {
+  const random = crypto.getRandomValues(new Uint32Array(CODE_LENGTH));
+  const body = Array.from(random, value => CODE_ALPHABET[value % CODE_ALPHABET.length]).join('');
+  return normalizeVoucherCode(prefix ? `${prefix}-${body}` : body);
+};
+
+export const generateVoucherCodes = (count: number, prefix = '') => {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    codes.add(generateVoucherCode(prefix));
+  }
+  return [...codes];
+};
+
+// Returns why the voucher cannot be used for the booking, or null
+export const getVoucherError = (
+  voucher: Voucher,
+  { customerId, vendorId, now = new Date() }: { customerId?: string; vendorId: string; now?: Date }
+) => {
+  if (!voucher.active) return 'Koodi ei ole käytössä';
+  if (voucher.startDate > now) return 'Koodi ei ole vielä voimassa';
+  if (voucher.endDate < now) return 'Koodi on vanhentunut';
+  if (voucher.vendorId && voucher.vendorId !== vendorId) return 'Koodi ei käy tähän yritykseen';
+  if (voucher.maxRedemptions > 0 && voucher.redemptionCount >= voucher.maxRedemptions) {
+    return 'Koodi on jo käytetty';
+  }
+  if (
+    customerId &&
+    voucher.perCustomerLimit > 0 &&
+    (voucher.redemptionsByCustomer?.[customerId] || 0) >= voucher.perCustomerLimit
+  ) {
+    return 'Olet jo käyttänyt tämän koodin';
+  }
+  return null;
+};
+
+export const formatVoucherValue = (voucher: Pick<VoucherDiscount, 'discountType' | 'value'>) => {
+  switch (voucher.discountType) {
+    case 'percentage':
+      return `-${voucher.value}%`;
+    case 'amount':
+      return `-${voucher.value.toFixed(2)}€`;
+    case 'coins':
+      return `+${voucher.value} kolikkoa`;
+  }
+};
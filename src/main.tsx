@@ -2,6 +2,15 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { setPaymentProvider } from './lib/payments';
+import { createMockPaymentProvider } from './lib/mockPaymentProvider';
+
+// Development builds take payments through the in-memory mock. Production
+// builds register the real provider here; without one, online payment is
+// not offered.
+if (import.meta.env.DEV) {
+  setPaymentProvider(createMockPaymentProvider());
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getUser, getVendor } from '../lib/db';
-import { collection, query, getDocs, where, orderBy, doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { approveVendorVerification, getUser, getVendor } from '../lib/db';
+import { collection, query, getDocs, where, orderBy } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import type { User, Vendor } from '../types/database';
-import { Users, Store, Star, Ban, CheckCircle, XCircle, Search, Filter, ChevronDown, BarChart } from 'lucide-react';
+import { Users, Store, Star, Ban, CheckCircle, XCircle, Search, Filter, ChevronDown, BarChart, Settings, Sparkles, Ticket, FileText, Banknote, ShieldCheck } from 'lucide-react';
 import AdminReports from '../components/AdminReports';
+import LoyaltySettingsForm from '../components/LoyaltySettingsForm';
+import AdminPromotions from '../components/AdminPromotions';
+import VoucherManager from '../components/VoucherManager';
+import AdminInvoices from '../components/AdminInvoices';
+import AdminSettlements from '../components/AdminSettlements';
+import AdminVerifications from '../components/AdminVerifications';
+import AdminMaintenance from '../components/AdminMaintenance';
 import VendorDialog from '../components/VendorDialog';
 
 const AdminDashboard = () => {
@@ -15,7 +22,7 @@ const AdminDashboard = () => {
   const [selectedVendor, setSelectedVendor] = useState<Vendor | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'users' | 'vendors' | 'reports'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'vendors' | 'verifications' | 'reports' | 'promotions' | 'vouchers' | 'invoices' | 'settlements' | 'settings'>('users');
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'banned'>('all');
 
@@ -73,26 +80,25 @@ const AdminDashboard = () => {
     // TODO: Implement user banning
   };
 
+  const handleVerifiedChange = (vendorId: string, verified: boolean) => {
+    setVendors(prev => prev.map(vendor =>
+      vendor.id === vendorId
+        ? { ...vendor, verified }
+        : vendor
+    ));
+  };
+
+  // Approval goes through the verification queue checks and audit log
   const handleVerifyVendor = async (vendorId: string) => {
+    if (!currentUser) return;
+
     try {
-      const vendorRef = doc(db, 'vendors', vendorId);
       setError(null);
-      
-      await updateDoc(vendorRef, {
-        verified: true,
-        updatedAt: serverTimestamp()
-      });
-      
-      // Update local state
-      setVendors(prev => prev.map(vendor => 
-        vendor.id === vendorId 
-          ? { ...vendor, verified: true }
-          : vendor
-      ));
+      await approveVendorVerification(vendorId, { userId: currentUser.uid, email: currentUser.email || '' });
+      handleVerifiedChange(vendorId, true);
     } catch (err) {
-      setError('Virhe yrityksen vahvistuksessa. Yritä uudelleen.');
       console.error('Error verifying vendor:', err);
-      setError('Virhe yrityksen vahvistuksessa');
+      setError(err instanceof Error ? err.message : 'Virhe yrityksen vahvistuksessa');
     }
   };
 
@@ -217,6 +223,17 @@ const AdminDashboard = () => {
                 <Store className="w-5 h-5 mr-2" />
                 Yritykset
               </button>
+              <button
+                onClick={() => setActiveTab('verifications')}
+                className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
+                  ${activeTab === 'verifications'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                <ShieldCheck className="w-5 h-5 mr-2" />
+                Vahvistukset
+              </button>
               <button
                 onClick={() => setActiveTab('reports')}
                 className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
@@ -228,6 +245,61 @@ const AdminDashboard = () => {
                 <BarChart className="w-5 h-5 mr-2" />
                 Raportit
               </button>
+              <button
+                onClick={() => setActiveTab('promotions')}
+                className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
+                  ${activeTab === 'promotions'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                <Sparkles className="w-5 h-5 mr-2" />
+                Kampanjat
+              </button>
+              <button
+                onClick={() => setActiveTab('vouchers')}
+                className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
+                  ${activeTab === 'vouchers'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                <Ticket className="w-5 h-5 mr-2" />
+                Koodit
+              </button>
+              <button
+                onClick={() => setActiveTab('invoices')}
+                className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
+                  ${activeTab === 'invoices'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                <FileText className="w-5 h-5 mr-2" />
+                Laskut
+              </button>
+              <button
+                onClick={() => setActiveTab('settlements')}
+                className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
+                  ${activeTab === 'settlements'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                <Banknote className="w-5 h-5 mr-2" />
+                Tilitykset
+              </button>
+              <button
+                onClick={() => setActiveTab('settings')}
+                className={`py-4 px-6 inline-flex items-center border-b-2 font-medium text-sm
+                  ${activeTab === 'settings'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+              >
+                <Settings className="w-5 h-5 mr-2" />
+                Asetukset
+              </button>
             </nav>
           </div>
         </div>
@@ -281,8 +353,23 @@ const AdminDashboard = () => {
         </div>
 
         {/* List */}
-        {activeTab === 'reports' ? (
+        {activeTab === 'verifications' ? (
+          <AdminVerifications onVerifiedChange={handleVerifiedChange} />
+        ) : activeTab === 'reports' ? (
           <AdminReports />
+        ) : activeTab === 'promotions' ? (
+          <AdminPromotions vendors={vendors} />
+        ) : activeTab === 'vouchers' ? (
+          <VoucherManager vendors={vendors} />
+        ) : activeTab === 'invoices' ? (
+          <AdminInvoices />
+        ) : activeTab === 'settlements' ? (
+          <AdminSettlements vendors={vendors} />
+        ) : activeTab === 'settings' ? (
+          <div className="space-y-6">
+            <LoyaltySettingsForm />
+            <AdminMaintenance />
+          </div>
         ) : (
         <div className="bg-white rounded-lg shadow overflow-hidden">
           {activeTab === 'users' ? (
@@ -450,7 +537,7 @@ const AdminDashboard = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex items-center justify-end space-x-2">
-                          {!vendor.verified && (
+                          {!vendor.verified && vendor.verification?.status === 'pending' && (
                             <button
                               onClick={() => handleVerifyVendor(vendor.id)}
                               className="text-green-600 hover:text-green-900"
@@ -0,0 +1,649 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Truck, Users, Car, FileText, Settings, BarChart, Plus, Edit2, Trash2, CheckCircle, XCircle, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  changeAppointmentStatus,
+  deleteVehicle,
+  getBusinessAppointments,
+  getBusinessInvoices,
+  getMemberBusinessAccounts,
+  getVehicles,
+  removeBusinessMember,
+  updateBusinessAccount
+} from '../lib/db';
+import type { Appointment, BusinessAccount, BusinessInvoice, BusinessMember, Vehicle } from '../types/database';
+import {
+  APPROVAL_LABELS,
+  INVOICE_STATUS_LABELS,
+  MEMBER_ROLE_LABELS,
+  formatLimit,
+  getMonthlySpend,
+  getPeriodRange,
+  isBusinessManager
+} from '../lib/business';
+import { STATUS_LABELS } from '../lib/appointmentStatus';
+import { formatAppointmentServices } from '../lib/appointmentServices';
+import { getVehicleClassLabel } from '../lib/serviceVariants';
+import { formatVehicleName } from '../lib/vehicles';
+import BusinessMemberDialog from '../components/BusinessMemberDialog';
+import VehicleDialog from '../components/VehicleDialog';
+
+type Tab = 'overview' | 'members' | 'vehicles' | 'invoices' | 'settings';
+
+interface BusinessData {
+  account: BusinessAccount;
+  appointments: Appointment[];
+  vehicles: Vehicle[];
+  invoices: BusinessInvoice[];
+}
+
+// Loads the given account, or the one the user manages when none is given
+const fetchBusinessData = async (userId: string, accountId?: string): Promise<BusinessData | null> => {
+  const accounts = await getMemberBusinessAccounts(userId);
+  const account = accountId
+    ? accounts.find(candidate => candidate.id === accountId)
+    : accounts.find(candidate => isBusinessManager(candidate, userId)) || accounts[0];
+  if (!account) return null;
+
+  const { start, end } = getPeriodRange(new Date());
+  const [appointments, vehicles, invoices] = await Promise.all([
+    getBusinessAppointments(account.id, start, end),
+    getVehicles({ businessAccountId: account.id }),
+    isBusinessManager(account, userId) ? getBusinessInvoices(account.id) : Promise.resolve([])
+  ]);
+  return { account, appointments, vehicles, invoices };
+};
+
+const BusinessDashboard = () => {
+  const { currentUser } = useAuth();
+  const [data, setData] = useState<BusinessData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<Tab>('overview');
+  const [selectedMember, setSelectedMember] = useState<BusinessMember | null>(null);
+  const [isMemberDialogOpen, setIsMemberDialogOpen] = useState(false);
+  const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const [isVehicleDialogOpen, setIsVehicleDialogOpen] = useState(false);
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<string | null>(null);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [settings, setSettings] = useState({
+    billingEmail: '',
+    billingAddress: '',
+    phone: '',
+    monthlyLimit: ''
+  });
+
+  useEffect(() => {
+    const loadAccount = async () => {
+      if (!currentUser) return;
+
+      try {
+        setData(await fetchBusinessData(currentUser.uid));
+      } catch (err) {
+        console.error('Error loading business account:', err);
+        setError('Yritystilin lataus epäonnistui');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadAccount();
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!data) return;
+    setSettings({
+      billingEmail: data.account.billingEmail,
+      billingAddress: data.account.billingAddress,
+      phone: data.account.phone,
+      monthlyLimit: data.account.monthlyLimit?.toString() || ''
+    });
+  }, [data]);
+
+  const account = data?.account || null;
+  const appointments = data?.appointments || [];
+  const vehicles = data?.vehicles || [];
+  const invoices = data?.invoices || [];
+
+  const handleRefresh = async () => {
+    if (!account || !currentUser) return;
+
+    try {
+      setData(await fetchBusinessData(currentUser.uid, account.id));
+    } catch (err) {
+      console.error('Error loading business account:', err);
+      setError('Yritystilin lataus epäonnistui');
+    }
+  };
+
+  const handleDecision = async (appointment: Appointment, approve: boolean) => {
+    if (!currentUser) return;
+    if (!approve && !window.confirm('Hylätäänkö varaus? Varaus perutaan.')) return;
+
+    try {
+      setDecidingId(appointment.id);
+      setError(null);
+      await changeAppointmentStatus(
+        appointment.id,
+        approve ? 'confirmed' : 'cancelled',
+        currentUser.uid,
+        approve ? undefined : 'Yritys hylkäsi varauksen'
+      );
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error deciding approval:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Päätöksen tallennus epäonnistui');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const handleRemoveMember = async (member: BusinessMember) => {
+    if (!account || !window.confirm(`Poistetaanko ${member.name} yritystililtä?`)) return;
+
+    try {
+      setError(null);
+      await removeBusinessMember(account.id, member.userId);
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error removing member:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Jäsenen poisto epäonnistui');
+    }
+  };
+
+  const handleDeleteVehicle = async (vehicle: Vehicle) => {
+    if (!account || !window.confirm(`Poistetaanko ${formatVehicleName(vehicle)}?`)) return;
+
+    try {
+      setError(null);
+      await deleteVehicle({ businessAccountId: account.id }, vehicle.id);
+      await handleRefresh();
+    } catch (err) {
+      console.error('Error deleting vehicle:', err);
+      setError('Ajoneuvon poisto epäonnistui');
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await updateBusinessAccount(account.id, {
+        billingEmail: settings.billingEmail,
+        billingAddress: settings.billingAddress,
+        phone: settings.phone,
+        monthlyLimit: settings.monthlyLimit === '' ? null : Number(settings.monthlyLimit)
+      });
+      await handleRefresh();
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error('Error saving business settings:', err);
+      setError('Asetusten tallennus epäonnistui');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Truck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Ei yritystiliä</h2>
+          <p className="text-gray-600">{error || 'Et ole minkään yritystilin jäsen.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isManager = !!currentUser && isBusinessManager(account, currentUser.uid);
+  const members = Object.values(account.members).sort((a, b) => a.name.localeCompare(b.name));
+  const monthSpend = getMonthlySpend(appointments);
+  const pendingApprovals = appointments.filter(appointment =>
+    appointment.status === 'pending' && appointment.approval?.status === 'pending'
+  );
+
+  const tabs: { id: Tab; label: string; icon: React.ReactNode }[] = [
+    { id: 'overview', label: 'Yleiskatsaus', icon: <BarChart className="w-5 h-5" /> },
+    ...(isManager ? [{ id: 'members' as const, label: 'Jäsenet', icon: <Users className="w-5 h-5" /> }] : []),
+    { id: 'vehicles', label: 'Ajoneuvot', icon: <Car className="w-5 h-5" /> },
+    ...(isManager
+      ? [
+          { id: 'invoices' as const, label: 'Laskut', icon: <FileText className="w-5 h-5" /> },
+          { id: 'settings' as const, label: 'Asetukset', icon: <Settings className="w-5 h-5" /> }
+        ]
+      : [])
+  ];
+
+  const renderOverview = () => (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="text-sm text-gray-500">Kulutus tässä kuussa</div>
+          <div className="text-2xl font-bold text-gray-900">{monthSpend.toFixed(2)}€</div>
+          <div className="text-sm text-gray-500">Raja: {formatLimit(account.monthlyLimit)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="text-sm text-gray-500">Varauksia tässä kuussa</div>
+          <div className="text-2xl font-bold text-blue-600">{appointments.length}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="text-sm text-gray-500">Odottaa hyväksyntää</div>
+          <div className="text-2xl font-bold text-yellow-600">{pendingApprovals.length}</div>
+        </div>
+      </div>
+
+      {isManager && pendingApprovals.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Hyväksyttävät varaukset</h3>
+          <div className="space-y-3">
+            {pendingApprovals.map(appointment => (
+              <div key={appointment.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-yellow-50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {appointment.customerDetails.firstName} {appointment.customerDetails.lastName} · {appointment.customerDetails.licensePlate}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {format(appointment.date, 'd.M.yyyy HH:mm')} · {formatAppointmentServices(appointment, 'Pesu')} · {appointment.totalPrice}€
+                  </p>
+                  <p className="text-sm text-yellow-700">{appointment.approval?.reason}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleDecision(appointment, true)}
+                    disabled={decidingId === appointment.id}
+                    className="flex items-center px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {decidingId === appointment.id
+                      ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      : <CheckCircle className="w-4 h-4 mr-1" />}
+                    Hyväksy
+                  </button>
+                  <button
+                    onClick={() => handleDecision(appointment, false)}
+                    disabled={decidingId === appointment.id}
+                    className="flex items-center px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Hylkää
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Kuukauden varaukset</h3>
+        {appointments.length === 0 ? (
+          <p className="text-gray-500">Ei varauksia tässä kuussa</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-4">Päivä</th>
+                  <th className="py-2 pr-4">Varaaja</th>
+                  <th className="py-2 pr-4">Ajoneuvo</th>
+                  <th className="py-2 pr-4">Palvelu</th>
+                  <th className="py-2 pr-4">Tila</th>
+                  <th className="py-2 text-right">Hinta</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-sm">
+                {appointments.map(appointment => (
+                  <tr key={appointment.id}>
+                    <td className="py-2 pr-4 whitespace-nowrap">{format(appointment.date, 'd.M.yyyy HH:mm')}</td>
+                    <td className="py-2 pr-4">{appointment.customerDetails.firstName} {appointment.customerDetails.lastName}</td>
+                    <td className="py-2 pr-4">{appointment.customerDetails.licensePlate}</td>
+                    <td className="py-2 pr-4">{formatAppointmentServices(appointment, 'Pesu')}</td>
+                    <td className="py-2 pr-4">
+                      {appointment.approval && appointment.approval.status !== 'approved'
+                        ? APPROVAL_LABELS[appointment.approval.status]
+                        : STATUS_LABELS[appointment.status]}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">{appointment.totalPrice}€</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderMembers = () => (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Jäsenet</h3>
+        <button
+          onClick={() => {
+            setSelectedMember(null);
+            setIsMemberDialogOpen(true);
+          }}
+          className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Lisää jäsen
+        </button>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {members.map(member => (
+          <div key={member.userId} className="flex items-center justify-between py-3">
+            <div>
+              <p className="font-medium text-gray-900">
+                {member.name}
+                {member.userId === account.ownerId && <span className="ml-2 text-xs text-gray-500">Omistaja</span>}
+              </p>
+              <p className="text-sm text-gray-500">{member.email} · {MEMBER_ROLE_LABELS[member.role]}</p>
+              <p className="text-sm text-gray-500">
+                {getMonthlySpend(appointments, member.userId).toFixed(2)}€ / {formatLimit(member.monthlyLimit)}
+                {member.requiresApproval && ' · Varaukset hyväksytetään'}
+              </p>
+            </div>
+            <div className="flex space-x-1">
+              <button
+                onClick={() => {
+                  setSelectedMember(member);
+                  setIsMemberDialogOpen(true);
+                }}
+                className="p-2 text-gray-400 hover:text-blue-600"
+              >
+                <Edit2 className="w-4 h-4" />
+              </button>
+              {member.userId !== account.ownerId && (
+                <button
+                  onClick={() => handleRemoveMember(member)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderVehicles = () => (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Ajoneuvot</h3>
+        {isManager && (
+          <button
+            onClick={() => {
+              setSelectedVehicle(null);
+              setIsVehicleDialogOpen(true);
+            }}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Lisää ajoneuvo
+          </button>
+        )}
+      </div>
+      {vehicles.length === 0 ? (
+        <p className="text-gray-500">Yrityksellä ei ole vielä ajoneuvoja</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {vehicles.map(vehicle => (
+            <div key={vehicle.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium text-gray-900">{formatVehicleName(vehicle)}</p>
+                <p className="text-sm text-gray-500">
+                  {getVehicleClassLabel(vehicle.vehicleClass)} · {appointments.filter(appointment => appointment.vehicleId === vehicle.id).length} pesua tässä kuussa
+                </p>
+              </div>
+              {isManager && (
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => {
+                      setSelectedVehicle(vehicle);
+                      setIsVehicleDialogOpen(true);
+                    }}
+                    className="p-2 text-gray-400 hover:text-blue-600"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteVehicle(vehicle)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderInvoices = () => (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Laskut</h3>
+      <p className="text-sm text-gray-500 mb-4">Valmiit pesut laskutetaan kuukausittain, yksi lasku pesupaikkaa kohden.</p>
+      {invoices.length === 0 ? (
+        <p className="text-gray-500">Ei laskuja</p>
+      ) : (
+        <div className="space-y-3">
+          {invoices.map(invoice => {
+            const expanded = expandedInvoiceId === invoice.id;
+            return (
+              <div key={invoice.id} className="border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => setExpandedInvoiceId(expanded ? null : invoice.id)}
+                  className="w-full flex items-center justify-between p-4 text-left"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{invoice.vendorName} · {invoice.period}</p>
+                    <p className="text-sm text-gray-500">
+                      {invoice.lines.length} pesua · Eräpäivä {format(invoice.dueDate, 'd.M.yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      invoice.status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {INVOICE_STATUS_LABELS[invoice.status]}
+                    </span>
+                    <span className="font-semibold text-gray-900">{invoice.total.toFixed(2)}€</span>
+                    {expanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                  </div>
+                </button>
+                {expanded && (
+                  <div className="border-t border-gray-100 p-4 space-y-2 text-sm">
+                    {invoice.lines.map(line => (
+                      <div key={line.appointmentId} className="flex justify-between">
+                        <span className="text-gray-700">
+                          {format(line.date, 'd.M.yyyy')} · {line.licensePlate} · {line.description} · {line.bookedBy}
+                        </span>
+                        <span className="text-gray-900">{line.amount.toFixed(2)}€</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderSettings = () => (
+    <form onSubmit={handleSaveSettings} className="bg-white rounded-xl shadow-sm p-6 space-y-6 max-w-lg">
+      <h3 className="text-lg font-semibold text-gray-900">Laskutus ja rajat</h3>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Laskutussähköposti</label>
+        <input
+          type="email"
+          value={settings.billingEmail}
+          onChange={(e) => setSettings(prev => ({ ...prev, billingEmail: e.target.value }))}
+          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          required
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Laskutusosoite</label>
+        <input
+          type="text"
+          value={settings.billingAddress}
+          onChange={(e) => setSettings(prev => ({ ...prev, billingAddress: e.target.value }))}
+          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          required
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Puhelinnumero</label>
+        <input
+          type="tel"
+          value={settings.phone}
+          onChange={(e) => setSettings(prev => ({ ...prev, phone: e.target.value }))}
+          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Yrityksen kuukausiraja (€)</label>
+        <input
+          type="number"
+          value={settings.monthlyLimit}
+          onChange={(e) => setSettings(prev => ({ ...prev, monthlyLimit: e.target.value }))}
+          min="0"
+          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          placeholder="Ei rajaa"
+        />
+        <p className="mt-1 text-xs text-gray-500">Rajan ylittävät varaukset odottavat pääkäyttäjän hyväksyntää</p>
+      </div>
+
+      {success && (
+        <div className="bg-green-50 border-l-4 border-green-400 p-4">
+          <p className="text-sm text-green-700">Asetukset tallennettu</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+        >
+          {saving ? (
+            <>
+              <Loader2 className="animate-spin h-5 w-5 mr-2" />
+              Tallennetaan...
+            </>
+          ) : (
+            'Tallenna'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderTabContent = () => {
+    switch (activeTab) {
+      case 'members':
+        return renderMembers();
+      case 'vehicles':
+        return renderVehicles();
+      case 'invoices':
+        return renderInvoices();
+      case 'settings':
+        return renderSettings();
+      default:
+        return renderOverview();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4 sm:py-8">
+            <h1 className="text-3xl font-bold text-gray-900">{account.name}</h1>
+            <div className="mt-2 flex items-center text-gray-600">
+              <Truck className="h-5 w-5 mr-2" />
+              <span>Y-tunnus: {account.businessId} · {members.length} jäsentä · {vehicles.length} ajoneuvoa</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mt-4 sm:mt-6 bg-white rounded-xl shadow-sm overflow-x-auto">
+          <nav className="flex p-2 min-w-max" aria-label="Tabs">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`
+                  flex-1 inline-flex items-center justify-center py-3 sm:py-4 px-4 sm:px-6 rounded-lg font-medium text-sm transition-all whitespace-nowrap
+                  ${activeTab === tab.id
+                    ? 'bg-blue-50 text-blue-700 shadow-sm ring-1 ring-blue-100'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }
+                `}
+              >
+                <span className={`mr-3 transition-colors ${activeTab === tab.id ? 'text-blue-600' : 'text-gray-400'}`}>
+                  {tab.icon}
+                </span>
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="py-6 sm:py-10">
+          {renderTabContent()}
+        </div>
+      </div>
+
+      {isMemberDialogOpen && (
+        <BusinessMemberDialog
+          isOpen={isMemberDialogOpen}
+          onClose={() => setIsMemberDialogOpen(false)}
+          accountId={account.id}
+          member={selectedMember}
+          onMemberSaved={handleRefresh}
+        />
+      )}
+
+      {isVehicleDialogOpen && (
+        <VehicleDialog
+          isOpen={isVehicleDialogOpen}
+          onClose={() => setIsVehicleDialogOpen(false)}
+          owner={{ businessAccountId: account.id }}
+          vehicle={selectedVehicle}
+          onVehicleSaved={handleRefresh}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BusinessDashboard;
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getUser, getCustomerAppointments, updateUser } from '../lib/db';
+import { getUser, getCustomerAppointments, updateUser, expireCoins } from '../lib/db';
 import { Calendar, Clock, Save, Loader2, Star, UserIcon, Coins, MessageSquare } from 'lucide-react';
 import { useSupportDialog } from '../contexts/SupportContext';
 import type { User, Appointment } from '../types/database';
@@ -29,6 +29,8 @@ const CustomerDashboard = () => {
   useEffect(() => {
     if (currentUser) {
       const fetchData = async () => {
+        // Sweep expired coins so the balance shown is current
+        await expireCoins(currentUser.uid).catch(err => console.error('Error expiring coins:', err));
         const user = await getUser(currentUser.uid);
         const userAppointments = await getCustomerAppointments(currentUser.uid);
         
@@ -270,7 +272,11 @@ const CustomerDashboard = () => {
         <div className="mb-8">
           <RewardsCard
             coins={userData.wallet.coins}
-            transactions={userData.wallet.transactions}
+            coinLots={userData.wallet.lots}
+            loyalty={userData.loyalty}
+            referralCode={userData.referralCode}
+            referralCount={userData.referralCount}
+            usedReferralCode={userData.usedReferralCode}
           />
         </div>
       )}
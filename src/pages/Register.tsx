@@ -1,19 +1,25 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { createVendor } from '../lib/db';
-import { UserPlus, Mail, Lock, Building2, MapPin, Phone, AlertCircle, Loader2, Store, User, Check, X } from 'lucide-react';
+import type { SignupRole } from '../contexts/AuthContext';
+import { createBusinessAccount, createVendor } from '../lib/db';
+import { DEFAULT_OPERATING_HOURS } from '../lib/operatingHours';
+import { getStoredReferralCode } from '../lib/referrals';
+import { isValidBusinessId } from '../lib/verification';
+import { UserPlus, Mail, Lock, Building2, MapPin, Phone, AlertCircle, Loader2, Store, User, Check, X, Gift, Truck } from 'lucide-react';
 
 const Register = () => {
+  const [searchParams] = useSearchParams();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [isVendor, setIsVendor] = useState(false);
+  const [accountType, setAccountType] = useState<SignupRole>('customer');
   const [passwordsMatch, setPasswordsMatch] = useState(true);
   const [businessName, setBusinessName] = useState('');
   const [businessId, setBusinessId] = useState('');
   const [address, setAddress] = useState('');
   const [phone, setPhone] = useState('');
+  const [referralCode, setReferralCode] = useState(searchParams.get('ref') || getStoredReferralCode());
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
@@ -28,6 +34,10 @@ const Register = () => {
   const navigate = useNavigate();
   const { signup } = useAuth();
 
+  const isVendor = accountType === 'vendor';
+  // Vendors and business customers both register a company
+  const hasCompanyDetails = accountType !== 'customer';
+
   const checkPasswordStrength = (password: string) => {
     const hasMinLength = password.length >= 6;
     const hasUpperCase = /[A-Z]/.test(password);
@@ -74,16 +84,18 @@ const Register = () => {
       errors.confirmPassword = 'Salasanat eivät täsmää';
     }
 
-    // Vendor specific validations
-    if (isVendor) {
+    // Company specific validations
+    if (hasCompanyDetails) {
       if (!businessName.trim()) {
         errors.businessName = 'Yrityksen nimi on pakollinen';
       }
 
       if (!businessId.trim()) {
         errors.businessId = 'Y-tunnus on pakollinen';
-      } else if (!/^[0-9]{7}-[0-9]$/.test(businessId)) {
+      } else if (!/^[0-9]{7}-[0-9]$/.test(businessId.trim())) {
         errors.businessId = 'Virheellinen Y-tunnus (muoto: 1234567-8)';
+      } else if (!isValidBusinessId(businessId)) {
+        errors.businessId = 'Y-tunnuksen tarkistusnumero ei täsmää';
       }
 
       if (!address.trim()) {
@@ -111,23 +123,23 @@ const Register = () => {
     try {
       setError('');
       setLoading(true);
-      const userCredential = await signup(email, password, isVendor); // Pass isVendor to signup
+      const userCredential = await signup(email, password, accountType, referralCode.trim() || undefined);
       
-      if (isVendor && userCredential) {
+      if (accountType === 'business' && userCredential) {
+        await createBusinessAccount(
+          { userId: userCredential.user.uid, email },
+          { name: businessName, businessId: businessId.trim(), billingAddress: address, billingEmail: email, phone }
+        );
+        navigate('/business-dashboard');
+      } else if (isVendor && userCredential) {
         await createVendor({
           userId: userCredential.user.uid,
           businessName,
-          businessId,
+          businessId: businessId.trim(),
           address,
           phone,
           services: [],
-          operatingHours: {
-            monday: { open: '09:00', close: '17:00' },
-            tuesday: { open: '09:00', close: '17:00' },
-            wednesday: { open: '09:00', close: '17:00' },
-            thursday: { open: '09:00', close: '17:00' },
-            friday: { open: '09:00', close: '17:00' }
-          }
+          operatingHours: DEFAULT_OPERATING_HOURS
         });
         navigate('/vendor-dashboard');
       } else {
@@ -183,35 +195,28 @@ const Register = () => {
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           {/* Account Type Selection */}
-          <div className="grid grid-cols-2 gap-4">
-            <div
-              onClick={() => setIsVendor(false)}
-              className={`relative p-4 text-center rounded-xl cursor-pointer transition-all ${
-                !isVendor ? 'bg-blue-600 text-white shadow-lg scale-[1.02]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-              }`}
-            >
-              <User className="w-6 h-6 mx-auto mb-1" />
-              <span className="text-sm font-medium">Customer</span>
-              {!isVendor && (
-                <div className="absolute -top-1 -right-1 w-5 h-5 bg-green-500 rounded-full flex items-center justify-center">
-                  <Check className="w-3 h-3 text-white" />
-                </div>
-              )}
-            </div>
-            <div
-              onClick={() => setIsVendor(true)}
-              className={`relative p-4 text-center rounded-xl cursor-pointer transition-all ${
-                isVendor ? 'bg-blue-600 text-white shadow-lg scale-[1.02]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-              }`}
-            >
-              <Store className="w-6 h-6 mx-auto mb-1" />
-              <span className="text-sm font-medium">Business</span>
-              {isVendor && (
-                <div className="absolute -top-1 -right-1 w-5 h-5 bg-green-500 rounded-full flex items-center justify-center">
-                  <Check className="w-3 h-3 text-white" />
-                </div>
-              )}
-            </div>
+          <div className="grid grid-cols-3 gap-4">
+            {([
+              { type: 'customer', label: 'Customer', icon: User },
+              { type: 'vendor', label: 'Business', icon: Store },
+              { type: 'business', label: 'Fleet', icon: Truck }
+            ] as const).map(option => (
+              <div
+                key={option.type}
+                onClick={() => setAccountType(option.type)}
+                className={`relative p-4 text-center rounded-xl cursor-pointer transition-all ${
+                  accountType === option.type ? 'bg-blue-600 text-white shadow-lg scale-[1.02]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                <option.icon className="w-6 h-6 mx-auto mb-1" />
+                <span className="text-sm font-medium">{option.label}</span>
+                {accountType === option.type && (
+                  <div className="absolute -top-1 -right-1 w-5 h-5 bg-green-500 rounded-full flex items-center justify-center">
+                    <Check className="w-3 h-3 text-white" />
+                  </div>
+                )}
+              </div>
+            ))}
           </div>
 
           <div className="space-y-4">
@@ -238,7 +243,7 @@ const Register = () => {
               )}
             </div>
 
-            {isVendor && (
+            {hasCompanyDetails && (
               <>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Yrityksen nimi</label>
@@ -249,7 +254,7 @@ const Register = () => {
                     className={`mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 ${
                       validationErrors.businessName ? 'border-red-300' : 'border-gray-300'
                     }`}
-                    required={isVendor}
+                    required={hasCompanyDetails}
                   />
                   {validationErrors.businessName && (
                     <p className="mt-1 text-sm text-red-600">{validationErrors.businessName}</p>
@@ -267,7 +272,7 @@ const Register = () => {
                     className={`mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 ${
                       validationErrors.businessId ? 'border-red-300' : 'border-gray-300'
                     }`}
-                    required={isVendor}
+                    required={hasCompanyDetails}
                   />
                   {validationErrors.businessId && (
                     <p className="mt-1 text-sm text-red-600">{validationErrors.businessId}</p>
@@ -278,7 +283,9 @@ const Register = () => {
                 </div>
 
                 <div>
-                  <label htmlFor="address" className="block text-sm font-medium text-gray-700">Osoite</label>
+                  <label htmlFor="address" className="block text-sm font-medium text-gray-700">
+                    {isVendor ? 'Osoite' : 'Laskutusosoite'}
+                  </label>
                   <input
                     type="text"
                     value={address}
@@ -286,7 +293,7 @@ const Register = () => {
                     className={`mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 ${
                       validationErrors.address ? 'border-red-300' : 'border-gray-300'
                     }`}
-                    required={isVendor}
+                    required={hasCompanyDetails}
                   />
                   {validationErrors.address && (
                     <p className="mt-1 text-sm text-red-600">{validationErrors.address}</p>
@@ -301,7 +308,7 @@ const Register = () => {
                     onChange={(e) => setPhone(e.target.value)}
                     className={`mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 ${validationErrors.phone ? 'border-red-300' : 'border-gray-300'}`}
                     placeholder="+358401234567"
-                    required={isVendor}
+                    required={hasCompanyDetails}
                   />
                   {validationErrors.phone && (
                     <p className="mt-1 text-sm text-red-600">{validationErrors.phone}</p>
@@ -407,6 +414,29 @@ const Register = () => {
                 <p className="mt-1 text-sm text-red-600">Salasanat eivät täsmää</p>
               )}
             </div>
+
+            {accountType === 'customer' && (
+              <div>
+                <label htmlFor="referral-code" className="block text-sm font-medium text-gray-700">
+                  <span className="flex items-center">
+                    <Gift className="w-4 h-4 mr-2" />
+                    Suosituskoodi (valinnainen)
+                  </span>
+                </label>
+                <input
+                  id="referral-code"
+                  type="text"
+                  value={referralCode}
+                  onChange={(e) => setReferralCode(e.target.value)}
+                  className="mt-1 block w-full rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 border-gray-300"
+                />
+                {referralCode && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    Saat bonuskolikot, kun ensimmäinen pesusi on valmis.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <div>
@@ -2,11 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { MapPin, Star, Clock, ChevronRight, Loader2, AlertCircle, Search, ArrowRight } from 'lucide-react';
 import { searchVendors, getVendorServices, getRecommendedServices, getVendorOffers } from '../lib/db';
+import { getPriceQuote } from '../lib/pricing';
 import type { Vendor, Service, Offer } from '../types/database';
-import { format } from 'date-fns';
-import { fi } from 'date-fns/locale';
 import Map from '../components/Map';
 import SearchBar from '../components/SearchBar';
+import { getDayOperatingHours } from '../lib/availability';
+import { formatIntervals, getOperatingStatus } from '../lib/operatingHours';
 
 const SearchResults = () => {
   const location = useLocation();
@@ -90,10 +91,7 @@ const SearchResults = () => {
     }
   }, [query]);
 
-  const getCurrentDayHours = (vendor: Vendor) => {
-    const today = format(new Date(), 'EEEE', { locale: fi }).toLowerCase();
-    return vendor.operatingHours[today] || vendor.operatingHours.monday;
-  };
+  const getCurrentDayHours = (vendor: Vendor) => getDayOperatingHours(new Date(), vendor);
 
   const handleBooking = (vendorId: string) => {
     navigate(`/vendor/${vendorId}`);
@@ -107,22 +105,8 @@ const SearchResults = () => {
     }
   };
 
-  const getServiceDiscount = (vendorId: string, service: Service) => {
-    const offers = vendorOffers[vendorId] || [];
-    const activeOffer = offers.find(o => 
-      o.serviceId === service.id && 
-      new Date(o.startDate) <= new Date() && 
-      new Date(o.endDate) >= new Date()
-    );
-    return activeOffer?.discountPercentage || 0;
-  };
-
-  const getDiscountedPrice = (vendorId: string, service: Service) => {
-    const discount = getServiceDiscount(vendorId, service);
-    return discount > 0 
-      ? service.price * (1 - discount / 100)
-      : service.price;
-  };
+  const getServiceQuote = (vendorId: string, service: Service) =>
+    getPriceQuote({ service, offers: vendorOffers[vendorId] || [] });
 
   if (loading) {
     return (
@@ -258,15 +242,15 @@ const SearchResults = () => {
                                 {service.duration} min
                               </span>
                               <div className="flex flex-col items-end">
-                                {getServiceDiscount(service.vendorId, service) > 0 && (
+                                {getServiceQuote(service.vendorId, service).offerId && (
                                   <span className="text-sm text-gray-500 line-through">
                                     {service.price}€
                                   </span>
                                 )}
                                 <span className={`font-medium ${
-                                  getServiceDiscount(service.vendorId, service) > 0 ? 'text-green-600' : 'text-blue-600'
+                                  getServiceQuote(service.vendorId, service).offerId ? 'text-green-600' : 'text-blue-600'
                                 }`}>
-                                  {getDiscountedPrice(service.vendorId, service).toFixed(2)}€
+                                  {getServiceQuote(service.vendorId, service).totalPrice.toFixed(2)}€
                                 </span>
                               </div>
                             </div>
@@ -289,6 +273,7 @@ const SearchResults = () => {
                 {results.map((vendor) => {
                   const services = vendorServices[vendor.id] || [];
                   const todayHours = getCurrentDayHours(vendor);
+                  const todayStatus = getOperatingStatus(todayHours);
                   const isSelected = selectedVendorId === vendor.id;
                   const matchingService = services.find(service => 
                     service.name.toLowerCase().includes(query.toLowerCase()) ||
@@ -352,18 +337,13 @@ const SearchResults = () => {
                                 {matchingService.name}
                               </h3>
                               <div className={`text-xs font-medium px-2 py-0.5 rounded-full ${
-                                todayHours.open === 'closed' && todayHours.close === 'closed'
+                                todayStatus === 'closed'
                                   ? 'bg-red-100 text-red-800'
-                                  : todayHours.open === '00:00' && todayHours.close === '23:59'
+                                  : todayStatus === '24h'
                                   ? 'bg-green-100 text-green-800'
                                   : 'bg-blue-100 text-blue-800'
                               }`}>
-                                {todayHours.open === 'closed' && todayHours.close === 'closed'
-                                  ? 'Suljettu'
-                                  : todayHours.open === '00:00' && todayHours.close === '23:59'
-                                  ? '24h'
-                                  : `${todayHours.open} - ${todayHours.close}`
-                                }
+                                {formatIntervals(todayHours)}
                               </div>
                             </div>
                             <p className="text-xs text-gray-600 mb-2 line-clamp-2">
@@ -376,17 +356,17 @@ const SearchResults = () => {
                                   {matchingService.duration} min
                                 </span>
                                 <div className="flex items-center">
-                                  {getServiceDiscount(vendor.id, matchingService) > 0 && (
+                                  {getServiceQuote(vendor.id, matchingService).offerId && (
                                     <span className="text-xs text-gray-500 line-through mr-1">
                                       {matchingService.price}€
                                     </span>
                                   )}
                                   <span className={`font-medium text-sm ${
-                                    getServiceDiscount(vendor.id, matchingService) > 0 
+                                    getServiceQuote(vendor.id, matchingService).offerId 
                                       ? 'text-green-600' 
                                       : 'text-gray-900'
                                   }`}>
-                                    {getDiscountedPrice(vendor.id, matchingService).toFixed(2)}€
+                                    {getServiceQuote(vendor.id, matchingService).totalPrice.toFixed(2)}€
                                   </span>
                                 </div>
                               </div>
@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getVendor, getVendorAppointments, getVendorServices, updateVendor, getServiceCategories, initializeServiceCategories, createService, getDefaultServices } from '../lib/db';
-import type { Vendor, Appointment, Service, ServiceCategory } from '../types/database';
-import { Calendar, Clock, Settings, BarChart3, Package, Plus, Save, Loader2, MapPin, Phone, Mail, Globe, Clock3, Coins, Car, Armchair, Star, Sparkles, Store, Check, ChevronDown, Edit } from 'lucide-react';
+import { getVendor, getVendorAppointments, getVendorServices, updateVendor, getServiceCategories, initializeServiceCategories, createService, getDefaultServices, getUnreadNotifications, markNotificationRead } from '../lib/db';
+import type { Vendor, Appointment, Service, ServiceCategory, VendorResource, OpeningException, Weekday, OpeningInterval, UserNotification } from '../types/database';
+import { Calendar, Clock, Settings, BarChart3, Package, Plus, Save, Loader2, MapPin, Phone, Mail, Globe, Clock3, Coins, Car, Armchair, Star, Sparkles, Store, Check, ChevronDown, Edit, Wallet, ShieldCheck, Bell, X } from 'lucide-react';
 import { geocodeAddress } from '../lib/maps';
+import { ALL_DAY, DEFAULT_INTERVAL, getOperatingStatus, normalizeOperatingHours, validateOperatingHours } from '../lib/operatingHours';
+import type { OperatingStatus } from '../lib/operatingHours';
+import { DEFAULT_CANCELLATION_WINDOW_HOURS, getCancellationWindowHours } from '../lib/cancellation';
 import AppointmentCalendar from '../components/AppointmentCalendar';
 import AppointmentDialog from '../components/AppointmentDialog';
 import ServiceCard from '../components/ServiceCard';
@@ -11,10 +14,13 @@ import DefaultServices from '../components/DefaultServices';
 import ImageUpload from '../components/ImageUpload';
 import ServiceDialog from '../components/ServiceDialog';
 import OperatingHours from '../components/OperatingHours';
+import CapacitySettings from '../components/CapacitySettings';
+import OpeningExceptions from '../components/OpeningExceptions';
 import CategoryDialog from '../components/CategoryDialog';
+import VendorPayouts from '../components/VendorPayouts';
+import VendorVerification from '../components/VendorVerification';
 
-type Tab = 'calendar' | 'services' | 'analytics' | 'settings';
-type OperatingStatus = 'open' | 'closed' | '24h';
+type Tab = 'calendar' | 'services' | 'analytics' | 'payouts' | 'verification' | 'settings';
 
 const VendorDashboard = () => {
   const { currentUser } = useAuth();
@@ -25,6 +31,7 @@ const VendorDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
   const [success, setSuccess] = useState(false);
   const [activeTab, setActiveTab] = useState<Tab>('calendar');
   const [editingService, setEditingService] = useState<Service | null>(null);
@@ -51,7 +58,10 @@ const VendorDashboard = () => {
     website: '',
     coverImage: '',
     logoImage: '',
-    operatingHours: {} as Vendor['operatingHours']
+    operatingHours: {} as Vendor['operatingHours'],
+    resources: [] as VendorResource[],
+    openingExceptions: [] as OpeningException[],
+    cancellationWindowHours: DEFAULT_CANCELLATION_WINDOW_HOURS
   });
 
   useEffect(() => {
@@ -62,7 +72,8 @@ const VendorDashboard = () => {
         setLoading(true);
         const vendorData = await getVendor(currentUser.uid);
         if (vendorData) {
-          setVendor(vendorData);
+          const operatingHours = normalizeOperatingHours(vendorData.operatingHours);
+          setVendor({ ...vendorData, operatingHours });
           setFormData({
             businessName: vendorData.businessName,
             description: vendorData.description || '',
@@ -74,18 +85,15 @@ const VendorDashboard = () => {
             website: vendorData.website || '',
             coverImage: vendorData.coverImage || '',
             logoImage: vendorData.logoImage || '',
-            operatingHours: vendorData.operatingHours
+            operatingHours,
+            resources: vendorData.resources || [],
+            openingExceptions: vendorData.openingExceptions || [],
+            cancellationWindowHours: getCancellationWindowHours(vendorData)
           });
 
           const initialDayStatus: Record<string, OperatingStatus> = {};
-          Object.entries(vendorData.operatingHours).forEach(([day, hours]) => {
-            if (!hours || (hours.open === 'closed' && hours.close === 'closed')) {
-              initialDayStatus[day] = 'closed';
-            } else if (hours.open === '00:00' && hours.close === '23:59') {
-              initialDayStatus[day] = '24h';
-            } else {
-              initialDayStatus[day] = 'open';
-            }
+          Object.entries(operatingHours).forEach(([day, intervals]) => {
+            initialDayStatus[day] = getOperatingStatus(intervals);
           });
           setDayStatus(initialDayStatus);
 
@@ -113,6 +121,29 @@ const VendorDashboard = () => {
     loadVendorData();
   }, [currentUser]);
 
+  useEffect(() => {
+    const loadNotifications = async () => {
+      if (!currentUser) return;
+
+      try {
+        setNotifications(await getUnreadNotifications(currentUser.uid));
+      } catch (err) {
+        console.error('Error loading notifications:', err);
+      }
+    };
+
+    loadNotifications();
+  }, [currentUser]);
+
+  const handleDismissNotification = async (notificationId: string) => {
+    try {
+      await markNotificationRead(notificationId);
+      setNotifications(prev => prev.filter(notification => notification.id !== notificationId));
+    } catch (err) {
+      console.error('Error dismissing notification:', err);
+    }
+  };
+
   const handleSaveSettings = async () => {
     if (!vendor) return;
 
@@ -122,6 +153,12 @@ const VendorDashboard = () => {
       return;
     }
 
+    const hoursError = validateOperatingHours(formData.operatingHours);
+    if (hoursError) {
+      setError(hoursError);
+      return;
+    }
+
     try {
       setSaving(true);
       setError(null);
@@ -147,6 +184,7 @@ const VendorDashboard = () => {
         ...formData,
         updatedAt: new Date()
       });
+      setVendor(prev => prev && { ...prev, ...formData });
 
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
@@ -158,34 +196,26 @@ const VendorDashboard = () => {
     }
   };
 
-  const handleHoursChange = (day: string, type: 'open' | 'close', value: string) => {
+  const handleHoursChange = (day: Weekday, intervals: OpeningInterval[]) => {
     setFormData(prev => ({
       ...prev,
       operatingHours: {
         ...prev.operatingHours,
-        [day]: {
-          ...prev.operatingHours[day],
-          [type]: value
-        }
+        [day]: intervals
       }
     }));
   };
 
-  const handleStatusChange = (day: string, status: OperatingStatus) => {
+  const handleStatusChange = (day: Weekday, status: OperatingStatus) => {
     setDayStatus(prev => ({ ...prev, [day]: status }));
     
-    let newHours = { open: '', close: '' };
-    if (status === 'closed') {
-      newHours = { open: 'closed', close: 'closed' };
-    } else if (status === '24h') {
-      newHours = { open: '00:00', close: '23:59' };
-    } else {
-      // For 'open' status, keep the existing hours or set defaults
-      const existingHours = formData.operatingHours[day];
-      newHours = {
-        open: existingHours?.open || '09:00',
-        close: existingHours?.close || '17:00'
-      };
+    let newHours: OpeningInterval[] = [];
+    if (status === '24h') {
+      newHours = [ALL_DAY];
+    } else if (status === 'open') {
+      // For 'open' status, keep the existing shifts or set defaults
+      const existingHours = formData.operatingHours[day] || [];
+      newHours = getOperatingStatus(existingHours) === 'open' ? existingHours : [DEFAULT_INTERVAL];
     }
 
     setFormData(prev => ({
@@ -224,6 +254,8 @@ const VendorDashboard = () => {
     { id: 'calendar', label: 'Kalenteri', icon: <Calendar className="w-5 h-5" /> },
     { id: 'services', label: 'Palvelut', icon: <Package className="w-5 h-5" /> },
     { id: 'analytics', label: 'Analytiikka', icon: <BarChart3 className="w-5 h-5" /> },
+    { id: 'payouts', label: 'Tilitykset', icon: <Wallet className="w-5 h-5" /> },
+    { id: 'verification', label: 'Vahvistus', icon: <ShieldCheck className="w-5 h-5" /> },
     { id: 'settings', label: 'Asetukset', icon: <Settings className="w-5 h-5" /> }
   ] as const;
 
@@ -488,6 +520,10 @@ const VendorDashboard = () => {
           </div>
         );
       
+      case 'payouts':
+        return <VendorPayouts vendor={vendor} onVendorUpdated={setVendor} />;
+      case 'verification':
+        return <VendorVerification vendor={vendor} onVendorUpdated={setVendor} />;
       case 'analytics':
         return (
           <div className="space-y-8">
@@ -708,6 +744,34 @@ const VendorDashboard = () => {
               onHoursChange={handleHoursChange}
             />
 
+            <OpeningExceptions
+              exceptions={formData.openingExceptions}
+              onChange={(openingExceptions) => setFormData(prev => ({ ...prev, openingExceptions }))}
+            />
+
+            <CapacitySettings
+              resources={formData.resources}
+              categories={categories}
+              onChange={(resources) => setFormData(prev => ({ ...prev, resources }))}
+            />
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-xl font-semibold mb-2">Peruutusehdot</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Asiakas voi perua tai siirtää varauksensa maksutta tähän asti. Käytetyt kolikot palautetaan peruutuksen yhteydessä.
+              </p>
+              <label className="block text-sm font-medium text-gray-700">
+                Maksuton peruutus viimeistään (tuntia ennen)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={formData.cancellationWindowHours}
+                onChange={(e) => setFormData(prev => ({ ...prev, cancellationWindowHours: Math.max(0, parseInt(e.target.value) || 0) }))}
+                className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+
             {error && (
               <div className="bg-red-50 border-l-4 border-red-400 p-4">
                 <div className="flex">
@@ -767,6 +831,23 @@ const VendorDashboard = () => {
 
   return (
     <div className="min-h-screen bg-gray-50">
+      {notifications.map(notification => (
+        <div key={notification.id} className="bg-blue-50 border-b border-blue-100">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-start">
+            <Bell className="h-5 w-5 text-blue-500 flex-shrink-0" />
+            <div className="ml-3 flex-1">
+              <p className="text-sm font-medium text-blue-900">{notification.title}</p>
+              <p className="text-sm text-blue-700">{notification.message}</p>
+            </div>
+            <button
+              onClick={() => handleDismissNotification(notification.id)}
+              className="ml-3 text-blue-400 hover:text-blue-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      ))}
       {/* Header with Stats */}
       {!vendor.verified && (
         <div className="bg-yellow-50 border-b border-yellow-100">
@@ -779,9 +860,21 @@ const VendorDashboard = () => {
               </div>
               <div className="ml-3">
                 <p className="text-sm text-yellow-700">
-                  Yrityksesi odottaa vielä ylläpidon vahvistusta. Yritys ei näy hakutuloksissa ennen vahvistusta.
+                  {vendor.verification?.status === 'pending'
+                    ? 'Asiakirjasi odottavat ylläpidon tarkistusta. Yritys ei näy hakutuloksissa ennen vahvistusta.'
+                    : vendor.verification?.status === 'rejected'
+                      ? 'Yrityksen vahvistus hylättiin. Korjaa asiakirjat ja lähetä ne uudelleen.'
+                      : 'Yrityksesi odottaa vielä ylläpidon vahvistusta. Yritys ei näy hakutuloksissa ennen vahvistusta.'}
                 </p>
               </div>
+              {activeTab !== 'verification' && vendor.verification?.status !== 'pending' && (
+                <button
+                  onClick={() => setActiveTab('verification')}
+                  className="ml-auto text-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+                >
+                  Lähetä asiakirjat
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getVendor, getVendorServices, getVendorOffers } from '../lib/db';
-import type { Vendor, Service, Offer } from '../types/database';
-import { Plus, Calendar, Percent, Clock, Tag, Loader2, AlertCircle } from 'lucide-react';
+import { getVendor, getVendorServices, getVendorOffers, getVendorPackages } from '../lib/db';
+import type { Vendor, Service, Offer, WashPackage } from '../types/database';
+import { Plus, Calendar, Percent, Clock, Tag, Loader2, AlertCircle, Package } from 'lucide-react';
 import OfferDialog from '../components/OfferDialog';
+import PackageDialog from '../components/PackageDialog';
+import VoucherManager from '../components/VoucherManager';
 import { format } from 'date-fns';
+import { formatOfferSchedule } from '../lib/pricing';
+import { formatPackageItems } from '../lib/packages';
 import { fi } from 'date-fns/locale';
 
 const VendorOffers = () => {
@@ -16,6 +20,9 @@ const VendorOffers = () => {
   const [error, setError] = useState<string | null>(null);
   const [isOfferDialogOpen, setIsOfferDialogOpen] = useState(false);
   const [selectedOffer, setSelectedOffer] = useState<Offer | null>(null);
+  const [packages, setPackages] = useState<WashPackage[]>([]);
+  const [isPackageDialogOpen, setIsPackageDialogOpen] = useState(false);
+  const [selectedPackage, setSelectedPackage] = useState<WashPackage | null>(null);
 
   useEffect(() => {
     const loadData = async () => {
@@ -31,14 +38,16 @@ const VendorOffers = () => {
           return;
         }
 
-        const [servicesData, offersData] = await Promise.all([
+        const [servicesData, offersData, packagesData] = await Promise.all([
           getVendorServices(vendorData.id),
-          getVendorOffers(vendorData.id)
+          getVendorOffers(vendorData.id),
+          getVendorPackages(vendorData.id)
         ]);
 
         setVendor(vendorData);
         setServices(servicesData);
         setOffers(offersData);
+        setPackages(packagesData);
       } catch (err) {
         console.error('Error loading vendor data:', err);
         setError('Virhe tietojen latauksessa');
@@ -61,6 +70,16 @@ const VendorOffers = () => {
     }
   };
 
+  const handleRefreshPackages = async () => {
+    if (!vendor) return;
+
+    try {
+      setPackages(await getVendorPackages(vendor.id));
+    } catch (err) {
+      console.error('Error refreshing packages:', err);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -144,6 +163,12 @@ const VendorOffers = () => {
 
               <h3 className="text-lg font-semibold text-gray-900 mb-2">{offer.title}</h3>
               <p className="text-gray-600 text-sm mb-4">{offer.description}</p>
+              {offer.schedule && (
+                <p className="flex items-center text-sm font-medium text-green-700 mb-4">
+                  <Clock className="w-4 h-4 mr-1" />
+                  {formatOfferSchedule(offer.schedule)}
+                </p>
+              )}
 
               {service && (
                 <div className="bg-gray-50 rounded-lg p-3 mb-4">
@@ -201,6 +226,90 @@ const VendorOffers = () => {
         )}
       </div>
 
+      {/* Wash Packages */}
+      <div className="mt-12">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Pesupaketit</h2>
+            <p className="mt-1 text-gray-600">Ennakkoon maksetut pesukerrat, jotka asiakas käyttää varatessaan</p>
+          </div>
+          <button
+            onClick={() => {
+              setSelectedPackage(null);
+              setIsPackageDialogOpen(true);
+            }}
+            disabled={services.length === 0}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="w-5 h-5 mr-2" />
+            Lisää paketti
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {packages.map(washPackage => (
+            <div
+              key={washPackage.id}
+              onClick={() => {
+                setSelectedPackage(washPackage);
+                setIsPackageDialogOpen(true);
+              }}
+              className={`bg-white rounded-xl shadow-sm p-6 cursor-pointer hover:shadow-md transition-shadow border ${
+                washPackage.active ? 'border-green-200' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-2">
+                  <Package className={`w-5 h-5 ${washPackage.active ? 'text-green-600' : 'text-gray-400'}`} />
+                  <span className={`text-sm font-medium px-2 py-1 rounded-full ${
+                    washPackage.active
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {washPackage.active ? 'Myynnissä' : 'Ei myynnissä'}
+                  </span>
+                </div>
+                <span className="text-lg font-semibold text-blue-600">{washPackage.price.toFixed(2)}€</span>
+              </div>
+
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">{washPackage.name}</h3>
+              {washPackage.description && (
+                <p className="text-gray-600 text-sm mb-4">{washPackage.description}</p>
+              )}
+              <p className="text-sm text-gray-700">{formatPackageItems(washPackage.items)}</p>
+              <p className="mt-2 text-sm text-gray-500">
+                {washPackage.validityDays > 0 ? `Voimassa ${washPackage.validityDays} päivää ostosta` : 'Ei vanhene'}
+              </p>
+            </div>
+          ))}
+
+          {packages.length === 0 && (
+            <div className="col-span-full bg-gray-50 rounded-xl p-8 text-center text-gray-600">
+              Ei pesupaketteja
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Voucher Codes */}
+      <div className="mt-12">
+        <VoucherManager vendorId={vendor.id} />
+      </div>
+
+      {isPackageDialogOpen && (
+        <PackageDialog
+          isOpen={isPackageDialogOpen}
+          onClose={() => {
+            setIsPackageDialogOpen(false);
+            setSelectedPackage(null);
+          }}
+          washPackage={selectedPackage}
+          vendorId={vendor.id}
+          services={services}
+          onPackageSaved={handleRefreshPackages}
+        />
+      )}
+
       {/* Offer Dialog */}
       {vendor && (
         <OfferDialog
@@ -1,24 +1,40 @@
 import React, { useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { MapPin, Star, Clock, Calendar, Shield, Award, Tag, Percent, ChevronRight, Coins, Package } from 'lucide-react';
-import { getVendor, getVendorServices, getServiceCategories, getVendorOffers } from '../lib/db';
-import type { Vendor, Service, ServiceCategory, Offer } from '../types/database';
-import { format } from 'date-fns';
-import { fi } from 'date-fns/locale';
+import { getVendor, getVendorServices, getServiceCategories, getVendorOffers, getVendorPackages } from '../lib/db';
+import { getPriceQuote, applyDiscountPercentage, formatOfferSchedule } from '../lib/pricing';
+import type { Vendor, Service, ServiceCategory, Offer, WashPackage } from '../types/database';
 import BookingModal from '../components/BookingModal';
+import PackagePurchaseDialog from '../components/PackagePurchaseDialog';
+import { getDayOperatingHours, getOpeningException } from '../lib/availability';
+import { formatIntervals, getOperatingStatus } from '../lib/operatingHours';
 import { useAuth } from '../contexts/AuthContext';
+import { getStoredReferralCode, storeReferralCode } from '../lib/referrals';
+import { formatPackageItems } from '../lib/packages';
+import { hasPaymentProvider } from '../lib/payments';
+import { hasVariants } from '../lib/serviceVariants';
 
 const VendorProfile = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
   const { currentUser } = useAuth();
+  const navigate = useNavigate();
   const [vendor, setVendor] = useState<Vendor | null>(null);
   const [services, setServices] = useState<Service[]>([]);
   const [categories, setCategories] = useState<ServiceCategory[]>([]);
   const [offers, setOffers] = useState<Offer[]>([]);
+  const [packages, setPackages] = useState<WashPackage[]>([]);
+  const [purchasingPackage, setPurchasingPackage] = useState<WashPackage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+  const referralCode = searchParams.get('ref') || getStoredReferralCode();
+
+  // Keep the code from a shared link until the visitor signs up
+  useEffect(() => {
+    storeReferralCode(searchParams.get('ref'));
+  }, [searchParams]);
 
   useEffect(() => {
     const loadVendorData = async () => {
@@ -27,10 +43,11 @@ const VendorProfile = () => {
       try {
         setLoading(true);
         const vendorData = await getVendor(id);
-        const [servicesData, categoriesData, offersData] = await Promise.all([
+        const [servicesData, categoriesData, offersData, packagesData] = await Promise.all([
           getVendorServices(id),
           getServiceCategories(id),
-          getVendorOffers(id)
+          getVendorOffers(id),
+          getVendorPackages(id)
         ]);
         
         if (!vendorData) {
@@ -42,6 +59,7 @@ const VendorProfile = () => {
         setServices(servicesData);
         setCategories(categoriesData);
         setOffers(offersData.filter(o => o.active));
+        setPackages(packagesData.filter(p => p.active));
       } catch (err) {
         console.error('Error loading vendor:', err);
         setError('Virhe ladattaessa yrityksen tietoja');
@@ -58,21 +76,15 @@ const VendorProfile = () => {
     setIsBookingModalOpen(true);
   };
 
-  const getServiceDiscount = (service: Service) => {
-    const activeOffer = offers.find(o => 
-      o.serviceId === service.id && 
-      new Date(o.startDate) <= new Date() && 
-      new Date(o.endDate) >= new Date()
-    );
-    return activeOffer?.discountPercentage || 0;
+  const handlePurchasePackage = (washPackage: WashPackage) => {
+    if (!currentUser) {
+      navigate('/login');
+      return;
+    }
+    setPurchasingPackage(washPackage);
   };
 
-  const getDiscountedPrice = (service: Service) => {
-    const discount = getServiceDiscount(service);
-    return discount > 0 
-      ? service.price * (1 - discount / 100)
-      : service.price;
-  };
+  const getServiceQuote = (service: Service) => getPriceQuote({ service, offers });
 
   if (loading) {
     return (
@@ -93,8 +105,8 @@ const VendorProfile = () => {
     );
   }
 
-  const today = format(new Date(), 'EEEE').toLowerCase();
-  const todayHours = vendor.operatingHours[today] || vendor.operatingHours.monday;
+  const todayHours = getDayOperatingHours(new Date(), vendor);
+  const todayException = getOpeningException(new Date(), vendor);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -147,12 +159,13 @@ const VendorProfile = () => {
                 <div className="flex items-center shrink-0">
                   <Clock className="h-5 w-5 mr-1" />
                   <span className="whitespace-nowrap">
-                    {todayHours.open === 'closed' && todayHours.close === 'closed'
+                    {getOperatingStatus(todayHours) === 'closed'
                       ? 'Suljettu tänään'
-                      : todayHours.open === '00:00' && todayHours.close === '23:59'
+                      : getOperatingStatus(todayHours) === '24h'
                       ? 'Avoinna 24h'
-                      : `Avoinna tänään: ${todayHours.open} - ${todayHours.close}`
+                      : `Avoinna tänään: ${formatIntervals(todayHours)}`
                     }
+                    {todayException && ` (${todayException.reason})`}
                   </span>
                 </div>
               </div>
@@ -204,7 +217,7 @@ const VendorProfile = () => {
                   const service = services.find(s => s.id === offer.serviceId);
                   if (!service) return null;
                   
-                  const discountedPrice = service.price * (1 - offer.discountPercentage / 100);
+                  const discountedPrice = applyDiscountPercentage(service.price, offer.discountPercentage);
                   
                   return (
                     <div key={offer.id} className="bg-white rounded-xl shadow-sm hover:shadow-md transition-all duration-200 border border-green-100">
@@ -224,6 +237,12 @@ const VendorProfile = () => {
                         
                         <h3 className="text-lg font-semibold text-gray-900 mb-2">{offer.title}</h3>
                         <p className="text-gray-600 text-sm mb-4">{offer.description}</p>
+                        {offer.schedule && (
+                          <p className="flex items-center text-sm font-medium text-green-700 mb-4">
+                            <Clock className="w-4 h-4 mr-1" />
+                            {formatOfferSchedule(offer.schedule)}
+                          </p>
+                        )}
                         
                         <div className="bg-gray-50 rounded-lg p-4">
                           <div className="flex items-center justify-between text-sm">
@@ -259,6 +278,70 @@ const VendorProfile = () => {
             </div>
           )}
 
+          {/* Wash Packages */}
+          {packages.length > 0 && (
+            <div className="mb-12">
+              <div className="flex items-center justify-center mb-8">
+                <div className="text-center">
+                  <h2 className="text-3xl font-bold text-gray-900">Pesupaketit</h2>
+                  <p className="mt-2 text-gray-600">Osta pesut etukäteen ja käytä ne varatessasi</p>
+                  <div className="mt-4 w-20 h-1 bg-blue-600 mx-auto rounded-full"></div>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {packages.map(washPackage => {
+                  const normalPrice = washPackage.items.reduce((sum, item) => {
+                    const service = services.find(s => s.id === item.serviceId);
+                    return sum + (service ? service.price * item.quantity : 0);
+                  }, 0);
+
+                  return (
+                    <div key={washPackage.id} className="bg-white rounded-xl shadow-sm hover:shadow-md transition-all duration-200 border border-blue-100">
+                      <div className="p-6">
+                        <div className="flex items-center space-x-2 mb-4">
+                          <Package className="w-5 h-5 text-blue-600" />
+                          <span className="text-sm font-medium bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
+                            Paketti
+                          </span>
+                        </div>
+
+                        <h3 className="text-lg font-semibold text-gray-900 mb-2">{washPackage.name}</h3>
+                        {washPackage.description && (
+                          <p className="text-gray-600 text-sm mb-4">{washPackage.description}</p>
+                        )}
+
+                        <div className="bg-gray-50 rounded-lg p-4">
+                          <p className="text-sm text-gray-700">{formatPackageItems(washPackage.items)}</p>
+                          {normalPrice > washPackage.price && (
+                            <div className="mt-2 flex items-center justify-between">
+                              <span className="text-sm text-gray-600">Normaalihinta:</span>
+                              <span className="text-sm line-through text-gray-500">{normalPrice.toFixed(2)}€</span>
+                            </div>
+                          )}
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-900">Paketin hinta:</span>
+                            <span className="text-lg font-semibold text-blue-600">{washPackage.price.toFixed(2)}€</span>
+                          </div>
+                          <p className="mt-2 text-xs text-gray-500">
+                            {washPackage.validityDays > 0 ? `Voimassa ${washPackage.validityDays} päivää ostosta` : 'Ei vanhene'}
+                          </p>
+                        </div>
+
+                        <button
+                          onClick={() => handlePurchasePackage(washPackage)}
+                          disabled={!hasPaymentProvider()}
+                          className="mt-4 w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium flex items-center justify-center disabled:opacity-50"
+                        >
+                          {hasPaymentProvider() ? 'Osta paketti' : 'Verkkomaksu ei käytössä'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div className="flex items-center justify-center mb-12">
             <div className="text-center">
               <h2 className="text-3xl font-bold text-gray-900">Saatavilla olevat palvelut</h2>
@@ -310,15 +393,16 @@ const VendorProfile = () => {
                             </div>
                             <div className="mt-4 flex items-center space-x-3">
                               <div className="flex flex-col items-end">
-                                {getServiceDiscount(service) > 0 && (
+                                {getServiceQuote(service).offerId && (
                                   <span className="text-sm text-gray-500 line-through">
                                     {service.price.toFixed(2)}€
                                   </span>
                                 )}
                                 <span className={`text-lg font-semibold ${
-                                  getServiceDiscount(service) > 0 ? 'text-green-600' : 'text-gray-900'
+                                  getServiceQuote(service).offerId ? 'text-green-600' : 'text-gray-900'
                                 }`}>
-                                  {getDiscountedPrice(service).toFixed(2)}€
+                                  {hasVariants(service) && <span className="text-sm font-normal text-gray-500 mr-1">alk.</span>}
+                                  {getServiceQuote(service).totalPrice.toFixed(2)}€
                                 </span>
                               </div>
                               <button 
@@ -362,6 +446,16 @@ const VendorProfile = () => {
           service={selectedService}
           vendorId={vendor.id}
           vendor={vendor}
+          referralCode={referralCode || undefined}
+        />
+      )}
+
+      {purchasingPackage && currentUser && (
+        <PackagePurchaseDialog
+          washPackage={purchasingPackage}
+          customerId={currentUser.uid}
+          onClose={() => setPurchasingPackage(null)}
+          onPurchased={() => navigate('/customer/packages')}
         />
       )}
     </div>
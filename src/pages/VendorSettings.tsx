@@ -1,19 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { getVendor, updateVendor } from '../lib/db';
-import type { Vendor } from '../types/database';
-import { Clock, Save, Loader2 } from 'lucide-react';
+import type { Vendor, OpeningException, Weekday } from '../types/database';
+import { Clock, Save, Loader2, Plus, X } from 'lucide-react';
 import ImageUpload from '../components/ImageUpload';
-
-const DAYS = [
-  { id: 'monday', label: 'Maanantai' },
-  { id: 'tuesday', label: 'Tiistai' },
-  { id: 'wednesday', label: 'Keskiviikko' },
-  { id: 'thursday', label: 'Torstai' },
-  { id: 'friday', label: 'Perjantai' },
-  { id: 'saturday', label: 'Lauantai' },
-  { id: 'sunday', label: 'Sunnuntai' }
-];
+import OpeningExceptions from '../components/OpeningExceptions';
+import { WEEKDAYS, DEFAULT_INTERVAL, normalizeOperatingHours, validateOperatingHours } from '../lib/operatingHours';
 
 const VendorSettings = () => {
   const { currentUser } = useAuth();
@@ -30,7 +22,8 @@ const VendorSettings = () => {
     phone: '',
     coverImage: '',
     logoImage: '',
-    operatingHours: {} as Vendor['operatingHours']
+    operatingHours: {} as Vendor['operatingHours'],
+    openingExceptions: [] as OpeningException[]
   });
 
   useEffect(() => {
@@ -48,7 +41,8 @@ const VendorSettings = () => {
             phone: vendorData.phone,
             coverImage: vendorData.coverImage || '',
             logoImage: vendorData.logoImage || '',
-            operatingHours: vendorData.operatingHours
+            operatingHours: normalizeOperatingHours(vendorData.operatingHours),
+            openingExceptions: vendorData.openingExceptions || []
           });
         }
       } catch (err) {
@@ -62,15 +56,34 @@ const VendorSettings = () => {
     loadVendorData();
   }, [currentUser]);
 
-  const handleHoursChange = (day: string, type: 'open' | 'close', value: string) => {
+  const handleHoursChange = (day: Weekday, index: number, type: 'open' | 'close', value: string) => {
     setFormData(prev => ({
       ...prev,
       operatingHours: {
         ...prev.operatingHours,
-        [day]: {
-          ...prev.operatingHours[day],
-          [type]: value
-        }
+        [day]: prev.operatingHours[day].map((interval, i) =>
+          i === index ? { ...interval, [type]: value } : interval
+        )
+      }
+    }));
+  };
+
+  const handleAddInterval = (day: Weekday) => {
+    setFormData(prev => ({
+      ...prev,
+      operatingHours: {
+        ...prev.operatingHours,
+        [day]: [...prev.operatingHours[day], DEFAULT_INTERVAL]
+      }
+    }));
+  };
+
+  const handleRemoveInterval = (day: Weekday, index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      operatingHours: {
+        ...prev.operatingHours,
+        [day]: prev.operatingHours[day].filter((_, i) => i !== index)
       }
     }));
   };
@@ -102,6 +115,12 @@ const VendorSettings = () => {
     e.preventDefault();
     if (!vendor) return;
 
+    const hoursError = validateOperatingHours(formData.operatingHours);
+    if (hoursError) {
+      setError(hoursError);
+      return;
+    }
+
     try {
       setSaving(true);
       setError(null);
@@ -227,32 +246,59 @@ const VendorSettings = () => {
           </div>
           
           <div className="space-y-4">
-            {DAYS.map(day => (
-              <div key={day.id} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
-                <label className="text-sm font-medium text-gray-700">{day.label}</label>
-                <div className="flex space-x-4">
-                  <div className="flex-1">
-                    <input
-                      type="time"
-                      value={formData.operatingHours[day.id]?.open || '09:00'}
-                      onChange={(e) => handleHoursChange(day.id, 'open', e.target.value)}
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                    />
-                  </div>
-                  <div className="flex-1">
-                    <input
-                      type="time"
-                      value={formData.operatingHours[day.id]?.close || '17:00'}
-                      onChange={(e) => handleHoursChange(day.id, 'close', e.target.value)}
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                    />
-                  </div>
+            {WEEKDAYS.map(day => (
+              <div key={day.id} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+                <label className="text-sm font-medium text-gray-700 md:pt-2">{day.label}</label>
+                <div className="md:col-span-2 space-y-2">
+                  {(formData.operatingHours[day.id] || []).length === 0 && (
+                    <p className="text-sm text-gray-500 pt-2">Suljettu</p>
+                  )}
+                  {(formData.operatingHours[day.id] || []).map((interval, index) => (
+                    <div key={index} className="flex items-center space-x-4">
+                      <div className="flex-1">
+                        <input
+                          type="time"
+                          value={interval.open}
+                          onChange={(e) => handleHoursChange(day.id, index, 'open', e.target.value)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <input
+                          type="time"
+                          value={interval.close}
+                          onChange={(e) => handleHoursChange(day.id, index, 'close', e.target.value)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveInterval(day.id, index)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => handleAddInterval(day.id)}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Lisää aukiolojakso
+                  </button>
                 </div>
               </div>
             ))}
           </div>
         </div>
 
+        <OpeningExceptions
+          exceptions={formData.openingExceptions}
+          onChange={(openingExceptions) => setFormData(prev => ({ ...prev, openingExceptions }))}
+        />
+
         {/* Error and Success Messages */}
         {error && (
           <div className="bg-red-50 border-l-4 border-red-400 p-4">
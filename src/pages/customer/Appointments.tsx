@@ -1,34 +1,67 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { getCustomerAppointments } from '../../lib/db';
-import { Calendar, Clock, Star, MessageSquare } from 'lucide-react';
+import { getAppointmentReceipt, getCustomerAppointments, getVendor } from '../../lib/db';
+import { Calendar, Clock, Star, MessageSquare, CalendarClock, CalendarX2, Receipt } from 'lucide-react';
 import { format } from 'date-fns';
 import { fi } from 'date-fns/locale';
-import type { Appointment } from '../../types/database';
+import type { Appointment, Vendor } from '../../types/database';
 import CustomerLayout from './Layout';
 import FeedbackDialog from '../../components/FeedbackDialog';
+import RescheduleDialog from '../../components/RescheduleDialog';
+import CancelAppointmentDialog from '../../components/CancelAppointmentDialog';
+import { getCancellationDeadline, getModificationError, isModifiableStatus } from '../../lib/cancellation';
 import { useSupportDialog } from '../../contexts/SupportContext';
+import { PAYMENT_STATUS_LABELS } from '../../lib/payments';
+import { writeReceiptWindow } from '../../lib/receipts';
 
 const CustomerAppointments = () => {
   const { currentUser } = useAuth();
   const { setShowSupportDialog } = useSupportDialog();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [vendors, setVendors] = useState<Record<string, Vendor>>({});
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null);
+  const [cancellingAppointment, setCancellingAppointment] = useState<Appointment | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAppointments = async (customerId: string) => {
+    const userAppointments = await getCustomerAppointments(customerId);
+    const formattedAppointments = userAppointments.map(appointment => ({
+      ...appointment,
+      date: new Date(appointment.date.seconds * 1000)
+    }));
+    setAppointments(formattedAppointments);
+
+    // Vendors are needed for the cancellation policy and free slots
+    const vendorIds = [...new Set(formattedAppointments.map(appointment => appointment.vendorId))];
+    const vendorList = await Promise.all(vendorIds.map(vendorId => getVendor(vendorId)));
+    setVendors(vendorList.reduce((result, vendor) => (
+      vendor ? { ...result, [vendor.id]: vendor } : result
+    ), {} as Record<string, Vendor>));
+  };
+
+  const handleOpenReceipt = async (appointmentId: string) => {
+    const receiptWindow = window.open('', '_blank');
+    if (!receiptWindow) {
+      setError('Salli ponnahdusikkunat avataksesi kuitin');
+      return;
+    }
+
+    try {
+      setError(null);
+      writeReceiptWindow(receiptWindow, await getAppointmentReceipt(appointmentId));
+    } catch (err) {
+      console.error('Error opening receipt:', err);
+      receiptWindow.close();
+      setError(err instanceof Error ? err.message : 'Kuitin avaaminen epäonnistui');
+    }
+  };
 
   useEffect(() => {
-    const loadAppointments = async () => {
-      if (currentUser) {
-        const userAppointments = await getCustomerAppointments(currentUser.uid);
-        const formattedAppointments = userAppointments.map(appointment => ({
-          ...appointment,
-          date: new Date(appointment.date.seconds * 1000)
-        }));
-        setAppointments(formattedAppointments);
-        setLoading(false);
-      }
-    };
-    loadAppointments();
+    if (currentUser) {
+      loadAppointments(currentUser.uid).finally(() => setLoading(false));
+    }
   }, [currentUser]);
 
   if (loading) {
@@ -46,76 +79,124 @@ const CustomerAppointments = () => {
       <div className="bg-white rounded-xl shadow-sm p-6">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Varaukset</h2>
 
+        {error && (
+          <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
         <div className="space-y-4">
-          {appointments.map(appointment => (
-            <div key={appointment.id} className="bg-gray-50 rounded-xl p-6 hover:bg-gray-100 transition-all">
-              <div className="flex items-center justify-between mb-2">
-                <div>
-                  <p className="font-medium">Pesu #{appointment.id.slice(0, 8)}</p>
-                  <p className="text-sm text-gray-600 flex items-center">
-                    <Clock className="h-4 w-4 mr-1" />
-                    {format(appointment.date, "d. MMMM yyyy 'klo' HH:mm", { locale: fi })}
-                  </p>
+          {appointments.map(appointment => {
+            const vendor = vendors[appointment.vendorId];
+            const canModify = !!vendor && !getModificationError(appointment, vendor);
+
+            return (
+              <div key={appointment.id} className="bg-gray-50 rounded-xl p-6 hover:bg-gray-100 transition-all">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <p className="font-medium">Pesu #{appointment.id.slice(0, 8)}</p>
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <Clock className="h-4 w-4 mr-1" />
+                      {format(appointment.date, "d. MMMM yyyy 'klo' HH:mm", { locale: fi })}
+                    </p>
+                    {appointment.payment && (
+                      <p className="text-sm text-gray-600">
+                        {PAYMENT_STATUS_LABELS[appointment.payment.status]} {appointment.payment.amount.toFixed(2)}€
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-sm ${
+                    appointment.status === 'confirmed' ? 'bg-green-100 text-green-800 ring-1 ring-green-600/20' :
+                    appointment.status === 'completed' ? 'bg-blue-100 text-blue-800 ring-1 ring-blue-600/20' :
+                    appointment.status === 'no_show' ? 'bg-purple-100 text-purple-800 ring-1 ring-purple-600/20' :
+                    appointment.status === 'cancelled_by_customer' ? 'bg-orange-100 text-orange-800 ring-1 ring-orange-600/20' :
+                    appointment.status === 'cancelled' ? 'bg-red-100 text-red-800 ring-1 ring-red-600/20' :
+                    'bg-yellow-100 text-yellow-800 ring-1 ring-yellow-600/20'
+                  }`}>
+                    {appointment.status === 'confirmed' ? 'Vahvistettu' :
+                     appointment.status === 'completed' ? 'Valmis' :
+                     appointment.status === 'no_show' ? 'Ei saapunut' :
+                     appointment.status === 'cancelled_by_customer' ? 'Peruttu (asiakas)' :
+                     appointment.status === 'cancelled' ? 'Peruttu' :
+                     'Odottaa'}
+                  </span>
                 </div>
-                <span className={`px-3 py-1 rounded-full text-sm ${
-                  appointment.status === 'confirmed' ? 'bg-green-100 text-green-800 ring-1 ring-green-600/20' :
-                  appointment.status === 'completed' ? 'bg-blue-100 text-blue-800 ring-1 ring-blue-600/20' :
-                  appointment.status === 'no_show' ? 'bg-purple-100 text-purple-800 ring-1 ring-purple-600/20' :
-                  appointment.status === 'cancelled_by_customer' ? 'bg-orange-100 text-orange-800 ring-1 ring-orange-600/20' :
-                  appointment.status === 'cancelled' ? 'bg-red-100 text-red-800 ring-1 ring-red-600/20' :
-                  'bg-yellow-100 text-yellow-800 ring-1 ring-yellow-600/20'
-                }`}>
-                  {appointment.status === 'confirmed' ? 'Vahvistettu' :
-                   appointment.status === 'completed' ? 'Valmis' :
-                   appointment.status === 'no_show' ? 'Ei saapunut' :
-                   appointment.status === 'cancelled_by_customer' ? 'Peruttu (asiakas)' :
-                   appointment.status === 'cancelled' ? 'Peruttu' :
-                   'Odottaa'}
-                </span>
-              </div>
 
-              <div className="flex items-center justify-between mt-4">
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setShowSupportDialog(true, `Apua varaukseni kanssa #${appointment.id.slice(0, 8)}`);
-                  }}
-                  className="inline-flex items-center px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200/50 rounded-lg transition-colors"
-                >
-                  <MessageSquare className="w-4 h-4 mr-1.5" />
-                  Tarvitsetko apua?
-                </button>
-                <div className="flex items-center space-x-2">
-                {appointment.status === 'completed' && !appointment.feedback && (
+                <div className="flex items-center justify-between mt-4">
                   <button
-                    onClick={() => setSelectedAppointment(appointment)}
-                    className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowSupportDialog(true, `Apua varaukseni kanssa #${appointment.id.slice(0, 8)}`);
+                    }}
+                    className="inline-flex items-center px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200/50 rounded-lg transition-colors"
                   >
-                    <Star className="w-4 h-4 mr-1.5" />
-                    Anna palautetta
+                    <MessageSquare className="w-4 h-4 mr-1.5" />
+                    Tarvitsetko apua?
                   </button>
-                )}
-                {appointment.feedback && (
-                  <div className="flex items-center text-sm text-gray-600">
-                    <div className="flex items-center">
-                      {Array.from({ length: 5 }).map((_, i) => (
-                        <Star
-                          key={i}
-                          className={`w-4 h-4 ${
-                            i < appointment.feedback!.rating
-                              ? 'text-yellow-400 fill-current'
-                              : 'text-gray-300'
-                          }`}
-                        />
-                      ))}
+                  <div className="flex items-center space-x-2">
+                  {appointment.status === 'completed' && (
+                    <button
+                      onClick={() => handleOpenReceipt(appointment.id)}
+                      className="inline-flex items-center px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+                    >
+                      <Receipt className="w-4 h-4 mr-1.5" />
+                      Kuitti
+                    </button>
+                  )}
+                  {appointment.status === 'completed' && !appointment.feedback && (
+                    <button
+                      onClick={() => setSelectedAppointment(appointment)}
+                      className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700"
+                    >
+                      <Star className="w-4 h-4 mr-1.5" />
+                      Anna palautetta
+                    </button>
+                  )}
+                  {appointment.feedback && (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <div className="flex items-center">
+                        {Array.from({ length: 5 }).map((_, i) => (
+                          <Star
+                            key={i}
+                            className={`w-4 h-4 ${
+                              i < appointment.feedback!.rating
+                                ? 'text-yellow-400 fill-current'
+                                : 'text-gray-300'
+                            }`}
+                          />
+                        ))}
+                      </div>
+                      <span className="ml-2">Palaute annettu</span>
                     </div>
-                    <span className="ml-2">Palaute annettu</span>
+                  )}
+                  {canModify && (
+                    <>
+                      <button
+                        onClick={() => setReschedulingAppointment(appointment)}
+                        className="inline-flex items-center px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+                      >
+                        <CalendarClock className="w-4 h-4 mr-1.5" />
+                        Siirrä
+                      </button>
+                      <button
+                        onClick={() => setCancellingAppointment(appointment)}
+                        className="inline-flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+                      >
+                        <CalendarX2 className="w-4 h-4 mr-1.5" />
+                        Peru
+                      </button>
+                    </>
+                  )}
+                  {vendor && !canModify && isModifiableStatus(appointment.status) && appointment.date > new Date() && (
+                    <span className="text-xs text-gray-500">
+                      Maksuton peruutus päättyi {format(getCancellationDeadline(appointment.date, vendor), "d.M. 'klo' HH:mm", { locale: fi })}
+                    </span>
+                  )}
                   </div>
-                )}
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
 
           {appointments.length === 0 && (
             <div className="text-center py-12">
@@ -133,18 +214,38 @@ const CustomerAppointments = () => {
             setSelectedAppointment(null);
             // Refresh appointments to show updated feedback
             if (currentUser) {
-              getCustomerAppointments(currentUser.uid).then(appointments => {
-                const formattedAppointments = appointments.map(appointment => ({
-                  ...appointment,
-                  date: new Date(appointment.date.seconds * 1000)
-                }));
-                setAppointments(formattedAppointments);
-              });
+              loadAppointments(currentUser.uid);
             }
           }}
           appointment={selectedAppointment}
         />
       )}
+
+      {reschedulingAppointment && vendors[reschedulingAppointment.vendorId] && (
+        <RescheduleDialog
+          isOpen={!!reschedulingAppointment}
+          onClose={() => setReschedulingAppointment(null)}
+          onRescheduled={() => {
+            setReschedulingAppointment(null);
+            if (currentUser) loadAppointments(currentUser.uid);
+          }}
+          appointment={reschedulingAppointment}
+          vendor={vendors[reschedulingAppointment.vendorId]}
+        />
+      )}
+
+      {cancellingAppointment && vendors[cancellingAppointment.vendorId] && (
+        <CancelAppointmentDialog
+          isOpen={!!cancellingAppointment}
+          onClose={() => setCancellingAppointment(null)}
+          onCancelled={() => {
+            setCancellingAppointment(null);
+            if (currentUser) loadAppointments(currentUser.uid);
+          }}
+          appointment={cancellingAppointment}
+          vendor={vendors[cancellingAppointment.vendorId]}
+        />
+      )}
     </CustomerLayout>
   );
 };
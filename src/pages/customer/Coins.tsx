@@ -2,15 +2,19 @@ import React from 'react';
 import CustomerLayout from './Layout';
 import RewardsCard from '../../components/RewardsCard';
 import { useAuth } from '../../contexts/AuthContext';
-import { getUser } from '../../lib/db';
+import { getUser, expireCoins, getActivePromotions } from '../../lib/db';
+import type { Promotion } from '../../types/database';
 
 const CustomerCoins = () => {
   const { currentUser } = useAuth();
   const [userData, setUserData] = React.useState<any>(null);
+  const [promotions, setPromotions] = React.useState<Promotion[]>([]);
 
   React.useEffect(() => {
     const loadUserData = async () => {
       if (currentUser) {
+        // Sweep expired coins so the balance shown is current
+        await expireCoins(currentUser.uid).catch(err => console.error('Error expiring coins:', err));
         const user = await getUser(currentUser.uid);
         setUserData(user);
       }
@@ -18,14 +22,24 @@ const CustomerCoins = () => {
     loadUserData();
   }, [currentUser]);
 
+  React.useEffect(() => {
+    getActivePromotions()
+      .then(setPromotions)
+      .catch(err => console.error('Error loading promotions:', err));
+  }, []);
+
   return (
     <CustomerLayout>
       {userData?.wallet && (
         <RewardsCard
           coins={userData.wallet.coins}
-          transactions={userData.wallet.transactions}
+          coinLots={userData.wallet.lots}
+          loyalty={userData.loyalty}
           referralCode={userData.referralCode}
           referralCount={userData.referralCount}
+          usedReferralCode={userData.usedReferralCode}
+          activePromotions={promotions}
+          awardedPromotions={userData.awardedPromotions}
         />
       )}
     </CustomerLayout>
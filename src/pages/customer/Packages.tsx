@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { getCustomerPackages, getVendor } from '../../lib/db';
+import { Package, Calendar } from 'lucide-react';
+import { format } from 'date-fns';
+import type { CustomerPackage, Vendor } from '../../types/database';
+import CustomerLayout from './Layout';
+import { getAvailableCredits, isPackageExpired } from '../../lib/packages';
+
+const CustomerPackages = () => {
+  const { currentUser } = useAuth();
+  const [packages, setPackages] = useState<CustomerPackage[]>([]);
+  const [vendors, setVendors] = useState<Record<string, Vendor>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadPackages = async () => {
+      if (!currentUser) return;
+
+      try {
+        const customerPackages = await getCustomerPackages(currentUser.uid);
+        setPackages(customerPackages);
+
+        const vendorIds = [...new Set(customerPackages.map(customerPackage => customerPackage.vendorId))];
+        const vendorList = await Promise.all(vendorIds.map(vendorId => getVendor(vendorId)));
+        setVendors(vendorList.reduce((result, vendor) => (
+          vendor ? { ...result, [vendor.id]: vendor } : result
+        ), {} as Record<string, Vendor>));
+      } catch (err) {
+        console.error('Error loading packages:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPackages();
+  }, [currentUser]);
+
+  if (loading) {
+    return (
+      <CustomerLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </CustomerLayout>
+    );
+  }
+
+  return (
+    <CustomerLayout>
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Pesupaketit</h2>
+
+        <div className="space-y-4">
+          {packages.map(customerPackage => {
+            const vendor = vendors[customerPackage.vendorId];
+            const expired = isPackageExpired(customerPackage);
+            const usedUp = customerPackage.credits.every(credit => credit.remaining === 0);
+
+            return (
+              <div
+                key={customerPackage.id}
+                className={`rounded-xl p-6 ${expired || usedUp ? 'bg-gray-50 opacity-75' : 'bg-blue-50'}`}
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{customerPackage.name}</h3>
+                    {vendor && (
+                      <Link to={`/vendor/${vendor.id}`} className="text-sm text-blue-600 hover:text-blue-800">
+                        {vendor.businessName}
+                      </Link>
+                    )}
+                  </div>
+                  {(expired || usedUp) && (
+                    <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-200 text-gray-700">
+                      {expired ? 'Vanhentunut' : 'Käytetty'}
+                    </span>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {customerPackage.credits.map(credit => (
+                    <div key={credit.serviceId} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">{credit.serviceName}</span>
+                      <span className="font-medium text-gray-900">
+                        {credit.remaining} / {credit.quantity} jäljellä
+                        {credit.reserved > 0 && (
+                          <span className="ml-2 text-gray-500">
+                            ({credit.reserved} varattu, {getAvailableCredits(credit)} vapaana)
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+                  <span>Ostettu {format(customerPackage.purchasedAt, 'd.M.yyyy')}</span>
+                  <span className="flex items-center">
+                    <Calendar className="w-4 h-4 mr-1" />
+                    {customerPackage.expiresAt
+                      ? `Voimassa ${format(customerPackage.expiresAt, 'd.M.yyyy')} asti`
+                      : 'Ei vanhene'}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+
+          {packages.length === 0 && (
+            <div className="text-center py-12">
+              <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Ei pesupaketteja</h3>
+              <p className="text-gray-600">Voit ostaa paketteja pesupaikkojen sivuilta.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </CustomerLayout>
+  );
+};
+
+export default CustomerPackages;
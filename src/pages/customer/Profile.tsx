@@ -3,6 +3,8 @@ import { useAuth } from '../../contexts/AuthContext';
 import { getUser, updateUser } from '../../lib/db';
 import { Loader2 } from 'lucide-react';
 import CustomerLayout from './Layout';
+import VehicleGarage from '../../components/VehicleGarage';
+import { isValidFinnishPlate, normalizePlate, PLATE_ERROR } from '../../lib/vehicles';
 
 const CustomerProfile = () => {
   const { currentUser } = useAuth();
@@ -39,11 +41,18 @@ const CustomerProfile = () => {
     e.preventDefault();
     if (!currentUser) return;
 
+    if (!isValidFinnishPlate(profileData.licensePlate)) {
+      setError(PLATE_ERROR);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
 
-      await updateUser(currentUser.uid, profileData);
+      const licensePlate = normalizePlate(profileData.licensePlate);
+      await updateUser(currentUser.uid, { ...profileData, licensePlate });
+      setProfileData(prev => ({ ...prev, licensePlate }));
 
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
@@ -149,6 +158,8 @@ const CustomerProfile = () => {
             </form>
           </div>
         </div>
+
+        {currentUser && <VehicleGarage userId={currentUser.uid} />}
       </div>
     </CustomerLayout>
   );
@@ -9,10 +9,12 @@ import SearchResults from './pages/SearchResults';
 import CustomerProfile from './pages/customer/Profile';
 import CustomerCoins from './pages/customer/Coins';
 import CustomerAppointments from './pages/customer/Appointments';
+import CustomerPackages from './pages/customer/Packages';
 import VendorDashboard from './pages/VendorDashboard';
 import VendorProfile from './pages/VendorProfile';
 import VendorSettings from './pages/VendorSettings';
 import VendorOffers from './pages/VendorOffers';
+import BusinessDashboard from './pages/BusinessDashboard';
 import AdminDashboard from './pages/AdminDashboard';
 import Login from './pages/Login';
 import Register from './pages/Register';
@@ -83,6 +85,14 @@ const AppRoutes = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/customer/packages" 
+          element={
+            <ProtectedRoute>
+              <CustomerPackages />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/vendor-dashboard" 
           element={
@@ -99,6 +109,14 @@ const AppRoutes = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/business-dashboard" 
+          element={
+            <ProtectedRoute>
+              <BusinessDashboard />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/vendor-settings" 
           element={
@@ -1,7 +1,7 @@
 export interface User {
   id: string;
   email: string;
-  role: 'customer' | 'vendor' | 'admin';
+  role: 'customer' | 'vendor' | 'admin' | 'business';
   firstName?: string;
   lastName?: string;
   phone?: string;
@@ -11,10 +11,205 @@ export interface User {
   referralCode: string;
   referralCount: number;
   usedReferralCode?: string;
+  referredBy?: string;
   wallet: {
     coins: number;
-    transactions: Transaction[];
+    transactions?: Transaction[]; // Legacy history, moved to wallet_transactions
+    lots?: CoinLot[]; // Unspent earned coins with their expiry, spent FIFO
+    lastEntryId?: string; // Ledger entry of the latest change, checked by the security rules
   };
+  loyalty?: LoyaltyStats;
+  awardedPromotions?: string[];
+}
+
+// Saved vehicle in the customer's garage (users/{userId}/vehicles)
+export interface Vehicle {
+  id: string;
+  plate: string; // normalized, e.g. ABC-123
+  make: string;
+  model: string;
+  vehicleClass: VehicleClass;
+  nickname?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Platform commission in percent. A vendor's own rate wins over its
+// category's, which wins over the default. Categories are keyed by name,
+// since every vendor has its own copies of them.
+export interface CommissionSettings {
+  defaultRate: number;
+  categoryRates: Record<string, number>;
+  vendorRates: Record<string, number>;
+}
+
+// What the platform owes the vendor for one completed appointment, keyed by
+// the appointment id. Coin and platform voucher discounts are paid by the
+// platform, so the vendor's share is counted from the price before them.
+// Only money the platform collected is paid out; a booking paid on site
+// leaves the vendor owing the commission instead.
+export interface PayoutEntry {
+  id: string;
+  appointmentId: string;
+  vendorId: string;
+  serviceName: string;
+  categoryName?: string;
+  completedAt: Date;
+  grossAmount: number; // price after vendor discounts, before coins
+  coinDiscount: number; // platform cost
+  voucherDiscount: number; // platform-wide voucher, platform cost
+  customerPaid: number;
+  collectedAmount: number; // paid to the platform, online or by invoice
+  commissionRate: number;
+  commission: number;
+  payoutAmount: number; // negative when the vendor owes the platform
+  pricedAt?: Date; // the amounts are 0 until the platform prices the entry
+  batchId: string | null;
+  paidAt?: Date;
+}
+
+export interface PayoutBatchVendor {
+  vendorId: string;
+  vendorName: string;
+  businessId: string;
+  iban: string;
+  entryCount: number;
+  grossAmount: number;
+  coinDiscount: number;
+  voucherDiscount: number;
+  commission: number;
+  payoutAmount: number;
+}
+
+export type PayoutBatchStatus = 'created' | 'paid';
+
+export interface PayoutBatch {
+  id: string;
+  periodEnd: Date; // covers unpaid entries completed up to this moment
+  vendors: PayoutBatchVendor[];
+  entryCount: number;
+  total: number;
+  status: PayoutBatchStatus;
+  createdAt: Date;
+  createdBy: string;
+  paidAt?: Date;
+}
+
+export type BusinessMemberRole = 'manager' | 'driver';
+
+export interface BusinessMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: BusinessMemberRole; // managers approve bookings and manage the account
+  monthlyLimit: number | null; // euros per calendar month, null = no limit
+  requiresApproval: boolean; // every booking waits for a manager
+}
+
+// Company account for fleets (business_accounts). Members book washes on the
+// company's behalf and completed washes are billed once a month per vendor.
+// The fleet's vehicles live in the account's vehicles sub-collection.
+export interface BusinessAccount {
+  id: string;
+  name: string;
+  businessId: string; // Y-tunnus
+  billingAddress: string;
+  billingEmail: string;
+  phone: string;
+  ownerId: string;
+  memberIds: string[]; // queried with array-contains
+  members: Record<string, BusinessMember>;
+  monthlyLimit: number | null; // company-wide, null = no limit
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BusinessApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// Business bookings over a spending limit wait in `pending` status until a
+// manager of the account decides
+export interface BusinessApproval {
+  status: BusinessApprovalStatus;
+  reason: string; // why the booking needed approval
+  decidedBy?: string;
+  decidedAt?: Date;
+}
+
+export interface InvoiceLine {
+  appointmentId: string;
+  date: Date;
+  description: string;
+  licensePlate: string;
+  bookedBy: string;
+  amount: number;
+}
+
+export type InvoiceStatus = 'open' | 'paid';
+
+// Monthly invoice of one business account's completed washes at one vendor
+export interface BusinessInvoice {
+  id: string;
+  businessAccountId: string;
+  businessName: string;
+  businessId: string;
+  billingAddress: string;
+  billingEmail: string;
+  vendorId: string;
+  vendorName: string;
+  period: string; // yyyy-MM
+  lines: InvoiceLine[];
+  total: number;
+  status: InvoiceStatus;
+  dueDate: Date;
+  createdAt: Date;
+  paidAt?: Date;
+}
+
+export interface CoinLot {
+  id: string; // ledger entry that earned the coins
+  remaining: number;
+  earnedAt: Date;
+  expiresAt: Date | null;
+}
+
+export interface LoyaltyStats {
+  completedCount: number;
+  totalSpend: number;
+  lastAppointmentId?: string; // The latest completed appointment counted
+}
+
+export interface LoyaltyTier {
+  id: string;
+  name: string;
+  minCompleted: number;
+  minSpend: number;
+  multiplier: number; // applied to Service.coinReward
+}
+
+export interface LoyaltySettings {
+  coinExpiryMonths: number; // 0 disables expiry
+  expiryWarningDays: number;
+  tiers: LoyaltyTier[];
+  referrerReward: number; // coins for the customer whose code was used
+  referredReward: number; // coins for the new customer
+}
+
+export type ReferralStatus = 'pending' | 'completed';
+
+// One per referred account, keyed by the referred user's id. Rewards are
+// paid when the referred customer's first appointment is completed.
+export interface Referral {
+  id: string;
+  referrerId: string;
+  referredId: string;
+  referredName: string;
+  code: string;
+  status: ReferralStatus;
+  referrerReward: number;
+  referredReward: number;
+  createdAt: Date;
+  completedAt?: Date;
+  appointmentId?: string;
 }
 
 export interface Transaction {
@@ -25,6 +220,14 @@ export interface Transaction {
   timestamp: Date;
 }
 
+// Ledger entry in the wallet_transactions collection. The document id is the
+// idempotency key of the event that produced it.
+export interface WalletTransaction extends Transaction {
+  userId: string;
+  balanceAfter: number;
+  appointmentId?: string;
+}
+
 export interface Promotion {
   id: string;
   title: string;
@@ -34,9 +237,25 @@ export interface Promotion {
   bonusCoins: number;
   minimumPurchase?: number;
   services?: string[];
+  // Targeting; an empty or missing list matches everything
+  cities?: string[];
+  vendorIds?: string[];
+  categoryIds?: string[];
+  budgetCoins?: number; // cap on total bonus coins issued
+  issuedCoins?: number;
+  redemptionCount?: number;
+  stoppedAt?: Date; // set when the budget runs out
+  lastAppointmentId?: string; // Booking of the latest bonus, checked by the security rules
   createdAt: Date;
 }
 
+export interface PromotionTarget {
+  serviceId: string;
+  categoryId?: string;
+  vendorId?: string;
+  city?: string;
+}
+
 export interface Vendor {
   id: string;
   userId: string;
@@ -56,40 +275,107 @@ export interface Vendor {
   services: string[];
   banned?: boolean;
   verified?: boolean;
-  operatingHours: {
-    monday: {
-      open: string;
-      close: string;
-    };
-    tuesday: {
-      open: string;
-      close: string;
-    };
-    wednesday: {
-      open: string;
-      close: string;
-    };
-    thursday: {
-      open: string;
-      close: string;
-    };
-    friday: {
-      open: string;
-      close: string;
-    };
-    saturday: {
-      open: string;
-      close: string;
-    };
-    sunday: {
-      open: string;
-      close: string;
-    };
-  };
+  operatingHours: Record<Weekday, OpeningInterval[]>; // Empty list means closed
   location?: {
     lat: number;
     lng: number;
   };
+  resources?: VendorResource[];
+  openingExceptions?: OpeningException[];
+  cancellationWindowHours?: number; // Free cancellation until this many hours before the appointment
+  payoutIban?: string; // account the platform pays the vendor's share to
+  verification?: VendorVerification; // latest document review, `verified` follows its outcome
+}
+
+export type VerificationStatus = 'pending' | 'approved' | 'rejected';
+
+export type VerificationDocumentType = 'trade_register' | 'prepayment_register' | 'insurance';
+
+export interface VerificationDocument {
+  type: VerificationDocumentType;
+  url: string;
+  fileName: string;
+  uploadedAt: Date;
+}
+
+// Documents a vendor submits before appearing in search, and the admin's
+// decision on them
+export interface VendorVerification {
+  status: VerificationStatus;
+  documents: VerificationDocument[];
+  submittedAt: Date;
+  decidedBy?: string;
+  decidedAt?: Date;
+  rejectionReason?: string;
+}
+
+export type VerificationAction = 'submitted' | 'approved' | 'rejected';
+
+// Append-only audit record of the verification workflow
+export interface VerificationEvent {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  businessId: string;
+  action: VerificationAction;
+  actorId: string;
+  actorEmail: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+// Message shown to the user on their dashboard until dismissed
+export interface UserNotification {
+  id: string;
+  userId: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+// Date-specific override of the weekly hours, e.g. holidays or renovation weeks
+export interface OpeningException {
+  id: string;
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string; // yyyy-MM-dd, inclusive
+  closed: boolean;
+  open?: string;
+  close?: string;
+  reason: string;
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface OpeningInterval {
+  open: string;
+  close: string;
+}
+
+// A wash bay or detailer that can serve one booking at a time
+export interface VendorResource {
+  id: string;
+  name: string;
+  type: 'bay' | 'staff';
+  categoryIds?: string[]; // Empty means all service categories
+}
+
+export type VehicleClass = 'small' | 'suv' | 'van' | 'camper';
+
+// Price and duration for a vehicle class. Classes without a variant use the
+// service's own price and duration.
+export interface ServiceVariant {
+  vehicleClass: VehicleClass;
+  price: number;
+  duration: number;
+}
+
+// Optional extra done together with the service, e.g. tyre shine
+export interface ServiceAddOn {
+  id: string;
+  name: string;
+  price: number;
+  duration: number;
 }
 
 export interface Service {
@@ -100,23 +386,47 @@ export interface Service {
   description: string;
   price: number;
   duration: number;
+  variants?: ServiceVariant[];
+  addOns?: ServiceAddOn[];
   available: boolean;
   coinReward: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// Snapshot of a booked service, so the itemisation survives later price edits
+export interface AppointmentService {
+  serviceId: string;
+  name: string;
+  price: number;
+  duration: number;
+}
+
 export interface Appointment {
   id: string;
   customerId: string;
   vendorId: string;
-  serviceId: string;
+  serviceId: string; // main service; also the first entry of `services`
+  services?: AppointmentService[]; // every service in the booking
+  vehicleClass?: VehicleClass; // prices and durations follow this class
+  vehicleId?: string; // saved vehicle the booking was made for
+  businessAccountId?: string; // billed to the company on its monthly invoice
+  approval?: BusinessApproval;
+  invoiceId?: string;
+  addOns?: ServiceAddOn[]; // extras chosen for the main service
   date: Date;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show' | 'cancelled_by_customer' | 'completed';
+  status: AppointmentStatus;
+  statusHistory?: StatusChange[];
   totalPrice: number;
   coinsUsed: number;
-  coinsUsed?: number;
+  priceQuote?: PriceQuote;
+  packageId?: string; // customer package whose credit pays for the service
+  payment?: AppointmentPayment; // online prepayment, absent when paid on site
+  duration?: number;
+  resourceId?: string;
   notes?: string;
+  cancelledAt?: Date;
+  rescheduledFrom?: Date;
   createdAt: Date;
   updatedAt: Date;
   customerDetails: {
@@ -133,6 +443,67 @@ export interface Appointment {
   };
 }
 
+export type PaymentStatus = 'authorized' | 'captured' | 'refunded' | 'failed';
+
+// Prepayment taken through the payment provider. Amounts are in euros.
+export interface AppointmentPayment {
+  provider: string;
+  paymentId: string; // provider's reference
+  status: PaymentStatus;
+  amount: number;
+  currency: 'EUR';
+  cardLast4?: string;
+  authorizedAt: Date;
+  capturedAt?: Date;
+  refundedAt?: Date;
+  refundId?: string;
+  failureReason?: string;
+}
+
+// Payment state as confirmed by the provider's webhook. Only the webhook
+// endpoint writes these, so the security rules can trust them.
+export interface PaymentRecord {
+  paymentId: string;
+  provider: string;
+  status: PaymentStatus;
+  amount?: number;
+  reference?: string; // given when the payment was authorised
+  updatedAt: Date;
+}
+
+export type AppointmentStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show' | 'cancelled_by_customer';
+
+// Append-only audit entry, written in the same transaction as the status change
+export interface StatusChange {
+  from: AppointmentStatus | null; // null for the initial status
+  to: AppointmentStatus;
+  changedBy: string; // user id
+  changedByRole: User['role'];
+  changedAt: Date;
+  reason?: string;
+}
+
+export interface BookedSlot {
+  appointmentId: string;
+  resourceId?: string;
+  start: number; // Minutes from midnight
+  end: number;
+}
+
+// One document per vendor and day, id `${vendorId}_${yyyy-MM-dd}`
+export interface DaySchedule {
+  id: string;
+  vendorId: string;
+  date: string;
+  bookings: BookedSlot[];
+  lastChange?: {
+    appointmentId: string;
+    added: BookedSlot[];
+    removed: BookedSlot[];
+  };
+  updatedAt?: Date;
+}
+
 export interface Offer {
   id: string;
   vendorId: string;
@@ -142,11 +513,160 @@ export interface Offer {
   discountPercentage: number;
   startDate: Date;
   endDate: Date;
+  schedule?: OfferSchedule | null; // none means any time
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Happy hour rule: the offer applies only to appointments starting on these
+// weekdays within the time window
+export interface OfferSchedule {
+  weekdays: Weekday[];
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, exclusive
+}
+
+export type VoucherType = 'percentage' | 'amount' | 'coins';
+
+export interface VoucherDiscount {
+  code: string;
+  discountType: VoucherType;
+  value: number; // percent, euros or coins depending on the type
+}
+
+export interface VoucherLimits {
+  maxRedemptions: number; // per code, 0 = unlimited, 1 = single-use
+  perCustomerLimit: number; // 0 = unlimited
+  startDate: Date;
+  endDate: Date;
+  vendorId?: string; // platform-wide when missing
+}
+
+export interface Voucher extends VoucherDiscount, VoucherLimits {
+  id: string; // same as the code
+  batchId: string;
+  active: boolean;
+  redemptionCount: number;
+  redemptionsByCustomer: Record<string, number>;
+  lastAppointmentId?: string; // Booking of the latest redemption or release, checked by the security rules
+  createdAt: Date;
+}
+
+export interface VoucherBatch extends VoucherLimits {
+  id: string;
+  name: string;
+  discountType: VoucherType;
+  value: number;
+  count: number;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface VoucherRedemption {
+  id: string;
+  code: string;
+  batchId: string;
+  vendorId: string;
+  customerId: string;
+  appointmentId: string;
+  discount: number; // euros off the price
+  coins: number; // coins credited by a coin voucher
+  redeemedAt: Date;
+}
+
+export type PriceLineType = 'service' | 'addon' | 'offer' | 'package' | 'voucher' | 'coins';
+
+// Discount lines carry a negative amount
+export interface PriceLine {
+  type: PriceLineType;
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  lines: PriceLine[];
+  basePrice: number;
+  subtotal: number; // after offer and voucher, before coins
+  totalPrice: number;
+  coinsUsed: number;
+  coinReward: number;
+  bonusCoins: number;
+  promotionIds: string[];
+  offerId?: string; // first offer applied to the booking
+  voucherCode?: string;
+  voucherCoins?: number; // credited by a coin voucher instead of a discount
+  packageId?: string;
+}
+
+// Receipt of a completed appointment, keyed by the appointment id. Seller,
+// buyer and price details are copied when it is issued so that reprints
+// always match the original.
+export interface Receipt {
+  id: string;
+  appointmentId: string;
+  vendorId: string;
+  customerId: string;
+  number: number; // sequential per vendor
+  vendorName: string;
+  vendorBusinessId: string; // Y-tunnus
+  vendorAddress: string;
+  businessAccountId?: string;
+  buyerName: string;
+  buyerBusinessId?: string; // Y-tunnus of the billed business account
+  licensePlate: string;
+  serviceDate: Date;
+  lines: PriceLine[]; // discounts as negative lines
+  total: number; // VAT included
+  vatRate: number; // percent
+  vatAmount: number;
+  netAmount: number;
+  paymentMethod: string;
+  issuedAt: Date;
+}
+
+export interface PackageItem {
+  serviceId: string;
+  serviceName: string;
+  quantity: number;
+}
+
+// A prepaid package sold by a vendor: a bundle of different services, or a
+// punch card such as six washes for the price of five
+export interface WashPackage {
+  id: string;
+  vendorId: string;
+  name: string;
+  description: string;
+  items: PackageItem[];
+  price: number;
+  validityDays: number; // 0 means the package never expires
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Reserved credits are held by upcoming appointments and consumed when the
+// appointment is completed
+export interface PackageCredit extends PackageItem {
+  remaining: number;
+  reserved: number;
+}
+
+export interface CustomerPackage {
+  id: string;
+  packageId: string;
+  vendorId: string;
+  customerId: string;
+  name: string;
+  credits: PackageCredit[];
+  price: number;
+  payment?: AppointmentPayment; // taken online when the package is bought
+  lastAppointmentId?: string; // Booking of the latest credit change, checked by the security rules
+  purchasedAt: Date;
+  expiresAt: Date | null;
+}
+
 export interface SupportTicket {
   id: string;
   userId: string;